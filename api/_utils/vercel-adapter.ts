@@ -1,10 +1,15 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import type { Request, Response, NextFunction } from 'express'
+import type { Request, Response } from 'express'
 import { ZodError } from 'zod'
 import { config, ERROR_CODES } from '../_shared/config'
 import type { ApiResponse } from '../_shared/types'
 import { performance } from 'perf_hooks'
 import { cacheManager } from './cache-manager'
+import { AppError as ExpressAppError } from '../../apps/api/src/middleware/error.middleware'
+import { extractTraceContext, flushSpans, SpanKind, SpanStatusCode, startTracing, withSpan } from '../../apps/api/src/lib/tracing'
+
+// Once per cold start; a no-op unless an exporter is configured
+startTracing()
 
 export class AppError extends Error {
   public readonly statusCode: number
@@ -104,10 +109,17 @@ class ConnectionPool {
   }
 }
 
+// Client address as Express reports it behind the Vercel proxy
+export function getClientIp(req: VercelRequest): string | undefined {
+  const forwarded = req.headers['x-forwarded-for']
+  const ip = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim()
+  return ip || req.socket?.remoteAddress
+}
+
 // Enhanced Vercel handler with performance monitoring and connection pooling
 export function createVercelHandler(
   handler: (req: Request, res: Response) => Promise<void> | void,
-  middleware: Array<(req: Request, res: Response, next: NextFunction) => Promise<void> | void> = [],
+  middleware: Array<(req: ExtendedVercelRequest, res: VercelResponse, next: (err?: any) => void) => Promise<void> | void> = [],
   options: {
     warmConnections?: boolean
     enableMetrics?: boolean
@@ -120,8 +132,7 @@ export function createVercelHandler(
     timeout = 25000 // 25 seconds (leave 5s buffer for Vercel timeout)
   } = options
 
-  return async (req: ExtendedVercelRequest, res: VercelResponse) => {
-    const functionName = handler.name || 'anonymous'
+  const invoke = async (req: ExtendedVercelRequest, res: VercelResponse, functionName: string) => {
     const timer = enableMetrics ? PerformanceMonitor.startTimer() : null
     let isError = false
 
@@ -149,6 +160,11 @@ export function createVercelHandler(
       const expressReq = req as any as Request
       const expressRes = res as any as Response
 
+      // Express controllers from apps/api read the client address from req.ip
+      if (!expressReq.ip) {
+        Object.assign(expressReq, { ip: getClientIp(req) })
+      }
+
       // Enhanced response object with performance headers
       if (!expressRes.json) {
         expressRes.json = (data: any) => {
@@ -224,7 +240,7 @@ export function createVercelHandler(
               if (err) reject(err)
               else resolve()
             }
-            const result = mw(expressReq, expressRes, next)
+            const result = mw(req, res, next)
             if (result instanceof Promise) {
               result.catch(reject)
             }
@@ -256,6 +272,31 @@ export function createVercelHandler(
       }
     }
   }
+
+  // The Vercel runtime's HTTP server starts before the SDK can instrument
+  // it, so the request span is opened here
+  return async (req: ExtendedVercelRequest, res: VercelResponse) => {
+    const functionName = handler.name || 'anonymous'
+
+    try {
+      await withSpan(
+        `${req.method} ${req.url?.split('?')[0]}`,
+        {
+          kind: SpanKind.SERVER,
+          parent: extractTraceContext(req.headers),
+          attributes: { 'http.request.method': req.method, 'faas.name': functionName },
+        },
+        async span => {
+          await invoke(req, res, functionName)
+          span?.setAttribute('http.response.status_code', res.statusCode)
+          if (res.statusCode >= 500) span?.setStatus({ code: SpanStatusCode.ERROR })
+        }
+      )
+    } finally {
+      // The function is frozen once it returns, before a timed export could run
+      await flushSpans()
+    }
+  }
 }
 
 // Enhanced error handler for Vercel Functions
@@ -276,8 +317,8 @@ function handleError(err: any, res: VercelResponse, functionName?: string) {
       message: e.message,
     }))
   }
-  // Handle custom app errors
-  else if (err instanceof AppError) {
+  // Handle custom app errors, including those thrown by apps/api controllers
+  else if (err instanceof AppError || err instanceof ExpressAppError) {
     statusCode = err.statusCode
     code = err.code
     message = err.message
@@ -1,7 +1,7 @@
 import { VercelRequest, VercelResponse } from '@vercel/node'
-import * as jwt from 'jsonwebtoken'
-import { prisma } from '../../_shared/database'
+import { prisma } from '@truecheckia/database'
 import { config } from '../../_shared/config'
+import { getClientIp } from '../../_utils/vercel-adapter'
 
 interface GoogleTokenResponse {
   access_token: string
@@ -22,35 +22,6 @@ interface GoogleUserInfo {
   picture: string
 }
 
-interface JWTPayload {
-  userId: string
-  email: string
-  role: string
-  plan: string
-}
-
-// Generate JWT tokens for a user
-function generateTokens(user: any) {
-  const payload: JWTPayload = {
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-    plan: user.plan,
-  }
-
-  const accessToken = jwt.sign(payload, config.auth.jwtSecret, {
-    expiresIn: config.auth.jwtExpiresIn || '7d',
-  })
-
-  const refreshToken = jwt.sign(
-    { userId: user.id },
-    config.auth.refreshSecret,
-    { expiresIn: config.auth.refreshExpiresIn || '30d' }
-  )
-
-  return { accessToken, refreshToken }
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Handle CORS preflight request
   if (req.method === 'OPTIONS') {
@@ -175,16 +146,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       })
     }
 
-    // Generate JWT tokens using the utility function
-    const { accessToken, refreshToken } = generateTokens(user)
-
-    // Redirect to frontend with tokens
-    const frontendUrl = process.env.FRONTEND_URL || process.env.NEXT_PUBLIC_APP_URL || config.app.url
-    const redirectUrl = `${frontendUrl}/auth/callback?accessToken=${accessToken}&refreshToken=${refreshToken}`
-
-    console.log('OAuth success, redirecting to:', redirectUrl.replace(accessToken, '[TOKEN]').replace(refreshToken, '[REFRESH]'))
-    
-    res.redirect(302, redirectUrl)
+    // Sessions, 2FA and suspended accounts are handled by the Express controller
+    const authController = await import('../../../apps/api/src/controllers/auth.controller')
+    Object.assign(req, { user, ip: getClientIp(req) })
+    return authController.default.googleCallback(req as any, res as any)
 
   } catch (error) {
     console.error('Google OAuth callback error:', error)
@@ -0,0 +1,20 @@
+import { createVercelHandler } from '../../_utils/vercel-adapter'
+import { validateRequestMiddleware } from '../../_middleware/validation'
+import { createAuthRateLimitMiddleware } from '../../_middleware/rate-limit'
+import { verifyTwoFactorLoginSchema } from '@truecheckia/types'
+
+// Second step of login for accounts with 2FA, exchanging the mfaToken from /api/auth/login
+const verifyTwoFactorLoginHandler = async (req: any, res: any) => {
+  const authController = await import('../../../apps/api/src/controllers/auth.controller')
+  await authController.default.verifyTwoFactorLogin(req, res)
+}
+
+const handler = createVercelHandler(
+  verifyTwoFactorLoginHandler,
+  [
+    createAuthRateLimitMiddleware(),
+    validateRequestMiddleware(verifyTwoFactorLoginSchema),
+  ]
+)
+
+export default handler
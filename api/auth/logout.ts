@@ -1,27 +1,22 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createVercelHandler } from '../_utils/vercel-adapter'
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method Not Allowed' })
-  }
+// Sets req.sessionId from the access token, for clients that don't send the refresh token
+const optionalAuth = async (req: any, res: any, next: (err?: any) => void) => {
+  const { optionalAuth } = await import('../../apps/api/src/middleware/auth.middleware')
+  return optionalAuth(req, res, next)
+}
 
-  try {
-    // In a stateless JWT system, logout is primarily client-side
-    // But we can blacklist the token if needed (future enhancement)
-    
-    return res.json({
-      success: true,
-      message: 'Logged out successfully'
-    })
+// Revokes the session so its access and refresh tokens stop working
+const logoutHandler = async (req: any, res: any) => {
+  const authController = await import('../../apps/api/src/controllers/auth.controller')
+  await authController.default.logout(req, res)
+}
 
-  } catch (error) {
-    console.error('Logout error:', error)
-    return res.status(500).json({
-      success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'Logout failed'
-      }
-    })
-  }
-}
\ No newline at end of file
+const handler = createVercelHandler(
+  logoutHandler,
+  [
+    optionalAuth,
+  ]
+)
+
+export default handler
@@ -1,121 +1,18 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node'
-import jwt from 'jsonwebtoken'
-import { prisma } from '../_shared/database'
-import { config } from '../_shared/config'
-import { refreshTokenSchema } from '../_shared/types'
-
-interface JWTPayload {
-  userId: string
-  email: string
-  role: string
-  plan: string
+import { createVercelHandler } from '../_utils/vercel-adapter'
+import { validateRequestMiddleware } from '../_middleware/validation'
+import { refreshTokenSchema } from '@truecheckia/types'
+
+// Rotates the refresh token of the session; a reused token revokes it
+const refreshHandler = async (req: any, res: any) => {
+  const authController = await import('../../apps/api/src/controllers/auth.controller')
+  await authController.default.refreshToken(req, res)
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method Not Allowed' })
-  }
-
-  try {
-    // Validate input
-    const validation = refreshTokenSchema.safeParse(req.body)
-    if (!validation.success) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: 'Invalid input data',
-          details: validation.error.flatten()
-        }
-      })
-    }
-
-    const { refreshToken } = validation.data
-
-    if (!refreshToken) {
-      return res.status(401).json({
-        success: false,
-        error: {
-          code: 'MISSING_REFRESH_TOKEN',
-          message: 'Refresh token is required'
-        }
-      })
-    }
-
-    // Verify refresh token
-    const decoded = jwt.verify(refreshToken, config.auth.refreshSecret) as { userId: string }
-
-    // Get fresh user data
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        plan: true,
-        credits: true,
-        emailVerified: true,
-      }
-    })
-
-    if (!user) {
-      return res.status(401).json({
-        success: false,
-        error: {
-          code: 'USER_NOT_FOUND',
-          message: 'User not found'
-        }
-      })
-    }
-
-    // Generate new access token
-    const tokenPayload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      plan: user.plan
-    }
-
-    const accessToken = jwt.sign(tokenPayload, config.auth.jwtSecret, {
-      expiresIn: '1h'
-    })
-
-    return res.json({
-      success: true,
-      data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-          plan: user.plan,
-          credits: user.credits,
-          emailVerified: user.emailVerified
-        },
-        accessToken
-      }
-    })
-
-  } catch (error) {
-    console.error('Refresh error:', error)
-    
-    if (error.name === 'TokenExpiredError') {
-      return res.status(401).json({
-        success: false,
-        error: {
-          code: 'REFRESH_TOKEN_EXPIRED',
-          message: 'Refresh token has expired'
-        }
-      })
-    }
+const handler = createVercelHandler(
+  refreshHandler,
+  [
+    validateRequestMiddleware(refreshTokenSchema),
+  ]
+)
 
-    return res.status(401).json({
-      success: false,
-      error: {
-        code: 'INVALID_REFRESH_TOKEN',
-        message: 'Invalid refresh token'
-      }
-    })
-  }
-}
\ No newline at end of file
+export default handler
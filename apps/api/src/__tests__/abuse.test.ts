@@ -0,0 +1,92 @@
+import { prisma } from '@truecheckia/database'
+import { isDisposableEmail, runAbuseScan, screenNewAccount } from '../services/abuse.service'
+import { getAccountBlock } from '../services/account-status.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    user: { findMany: jest.fn() },
+    apiUsage: { groupBy: jest.fn() },
+    analysis: { groupBy: jest.fn() },
+    abuseFlag: { upsert: jest.fn() },
+  },
+}))
+
+const db = prisma as unknown as {
+  user: { findMany: jest.Mock }
+  apiUsage: { groupBy: jest.Mock }
+  analysis: { groupBy: jest.Mock }
+  abuseFlag: { upsert: jest.Mock }
+}
+
+function flaggedAccounts(rule: string) {
+  return db.abuseFlag.upsert.mock.calls
+    .map(([args]) => args.create)
+    .filter(flag => flag.rule === rule)
+    .map(flag => flag.userId)
+}
+
+describe('Abuse heuristics', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    db.abuseFlag.upsert.mockResolvedValue({})
+  })
+
+  it('recognises disposable email domains and their subdomains', () => {
+    expect(isDisposableEmail('someone@mailinator.com')).toBe(true)
+    expect(isDisposableEmail('someone@Inbox.YOPMAIL.com')).toBe(true)
+    expect(isDisposableEmail('someone@gmail.com')).toBe(false)
+    expect(isDisposableEmail('someone@notmailinator.com')).toBe(false)
+  })
+
+  it('flags every account in a same-IP signup burst', async () => {
+    db.user.findMany.mockResolvedValue([{ id: 'user-3' }, { id: 'user-2' }, { id: 'user-1' }])
+
+    await screenNewAccount({ id: 'user-3', email: 'three@example.com' }, '203.0.113.7')
+
+    expect(flaggedAccounts('SAME_IP_SIGNUPS')).toEqual(['user-3', 'user-2', 'user-1'])
+    expect(flaggedAccounts('DISPOSABLE_EMAIL')).toEqual([])
+
+    jest.clearAllMocks()
+    db.user.findMany.mockResolvedValue([{ id: 'user-4' }])
+
+    await screenNewAccount({ id: 'user-4', email: 'four@yopmail.com' }, '198.51.100.1')
+
+    expect(flaggedAccounts('SAME_IP_SIGNUPS')).toEqual([])
+    expect(flaggedAccounts('DISPOSABLE_EMAIL')).toEqual(['user-4'])
+  })
+
+  it('flags accounts sharing an API IP or submitting the same text', async () => {
+    db.apiUsage.groupBy.mockResolvedValue([
+      { ipAddress: '203.0.113.7', userId: 'user-1' },
+      { ipAddress: '203.0.113.7', userId: 'user-2' },
+      { ipAddress: '203.0.113.7', userId: 'user-3' },
+      { ipAddress: '198.51.100.1', userId: 'user-4' },
+    ])
+    db.analysis.groupBy.mockResolvedValue([
+      { textHash: 'abc', userId: 'user-5' },
+      { textHash: 'abc', userId: 'user-6' },
+      { textHash: 'def', userId: 'user-7' },
+    ])
+
+    await expect(runAbuseScan()).resolves.toEqual({ flagged: 3 })
+
+    expect(flaggedAccounts('SHARED_API_IP')).toEqual(['user-1', 'user-2', 'user-3'])
+    expect(flaggedAccounts('DUPLICATE_TEXT')).toEqual([])
+    expect(db.abuseFlag.upsert.mock.calls[0][0]).toMatchObject({
+      where: { userId_rule: { userId: 'user-1', rule: 'SHARED_API_IP' } },
+      update: { details: { ipAddress: '203.0.113.7', accountCount: 3 } },
+    })
+  })
+})
+
+describe('Account status', () => {
+  it('treats suspensions past their expiry as lifted, but never bans', () => {
+    const now = new Date('2026-01-02T00:00:00Z')
+
+    expect(getAccountBlock({ status: 'ACTIVE' }, now)).toBeNull()
+    expect(getAccountBlock({ status: 'SUSPENDED', statusExpiresAt: null }, now)).toBe('SUSPENDED')
+    expect(getAccountBlock({ status: 'SUSPENDED', statusExpiresAt: new Date('2026-01-03T00:00:00Z') }, now)).toBe('SUSPENDED')
+    expect(getAccountBlock({ status: 'SUSPENDED', statusExpiresAt: new Date('2026-01-01T00:00:00Z') }, now)).toBeNull()
+    expect(getAccountBlock({ status: 'BANNED', statusExpiresAt: new Date('2026-01-01T00:00:00Z') }, now)).toBe('BANNED')
+  })
+})
@@ -0,0 +1,171 @@
+import { createHash } from 'crypto'
+import { prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import { RedisAdapter } from '../lib/queue-adapter'
+import { cancelStripeSubscription } from '../controllers/subscription.controller'
+import {
+  cancelAccountDeletion,
+  deleteAccount,
+  getAnalysisCacheKeys,
+  getDeletionDate,
+  isRecentSignIn,
+} from '../services/account-deletion.service'
+import { getAnalysisCacheKey } from '../services/openai.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    analysis: {
+      findMany: jest.fn(),
+    },
+    accountDeletionAudit: {
+      create: jest.fn(),
+    },
+    auditEvent: {
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}))
+
+jest.mock('../lib/queue-adapter', () => ({
+  RedisAdapter: {
+    cacheDel: jest.fn().mockResolvedValue(undefined),
+  },
+}))
+
+jest.mock('../controllers/subscription.controller', () => ({
+  cancelStripeSubscription: jest.fn(),
+}))
+
+const db = prisma as unknown as {
+  user: { findUnique: jest.Mock; updateMany: jest.Mock; delete: jest.Mock }
+  analysis: { findMany: jest.Mock }
+  accountDeletionAudit: { create: jest.Mock }
+  auditEvent: { updateMany: jest.Mock }
+  $transaction: jest.Mock
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex')
+const cacheKey = (text: string) => getAnalysisCacheKey(text, 'en', config.detectors.plans.FREE)
+
+const user = {
+  id: 'user-1',
+  plan: 'PRO',
+  password: 'hashed',
+  googleId: null,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  deletionRequestedAt: new Date('2024-06-01T00:00:00Z'),
+  subscription: { stripeSubId: 'sub_123', status: 'ACTIVE' },
+  _count: { analyses: 12 },
+}
+
+describe('Account deletion service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    db.analysis.findMany.mockResolvedValue([])
+    db.accountDeletionAudit.create.mockImplementation(args => ({ audit: args }))
+    db.user.delete.mockImplementation(args => ({ deleted: args }))
+  })
+
+  it('schedules the deletion after the grace period', () => {
+    expect(getDeletionDate(new Date('2024-06-01T00:00:00Z'))).toEqual(new Date('2024-06-15T00:00:00Z'))
+  })
+
+  it('only accepts recent sign-ins for OAuth re-authentication', () => {
+    const now = Date.now()
+    const secondsAgo = (seconds: number) => Math.floor(now / 1000) - seconds
+
+    expect(isRecentSignIn(secondsAgo(60), now)).toBe(true)
+    expect(isRecentSignIn(secondsAgo(11 * 60), now)).toBe(false)
+    expect(isRecentSignIn(undefined, now)).toBe(false)
+  })
+
+  it('derives cache keys only for analyses stored in full', () => {
+    const keys = getAnalysisCacheKeys([
+      { text: 'short text', charCount: 10, language: 'en' },
+      { text: 'short text', charCount: 10, language: 'en' },
+      { text: 'x'.repeat(500), charCount: 2000, language: 'en' },
+    ])
+
+    // Every plan runs the default ensemble here, so one key per text
+    expect(keys).toEqual([cacheKey('short text')])
+  })
+
+  it('cancels by email token or for the signed-in user', async () => {
+    db.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+    await expect(cancelAccountDeletion({ token: 'abc' })).resolves.toBe(true)
+    await expect(cancelAccountDeletion({ userId: 'user-1' })).resolves.toBe(false)
+
+    expect(db.user.updateMany.mock.calls[0][0].where).toEqual({
+      deletionCancelToken: 'abc',
+      deletionScheduledAt: { not: null },
+    })
+    expect(db.user.updateMany.mock.calls[1][0].where).toEqual({
+      id: 'user-1',
+      deletionScheduledAt: { not: null },
+    })
+  })
+
+  describe('deleteAccount', () => {
+    it('cancels Stripe, purges the cache and keeps an anonymised audit', async () => {
+      db.user.findUnique.mockResolvedValue(user)
+      db.analysis.findMany.mockResolvedValue([{ text: 'short text', charCount: 10, language: 'en' }])
+
+      await deleteAccount('user-1')
+
+      expect(cancelStripeSubscription).toHaveBeenCalledWith('sub_123')
+      expect(RedisAdapter.cacheDel).toHaveBeenCalledWith(cacheKey('short text'))
+      expect(RedisAdapter.cacheDel).toHaveBeenCalledWith('preferences:user-1')
+
+      const audit = db.accountDeletionAudit.create.mock.calls[0][0].data
+      expect(audit).toEqual({
+        userHash: sha256('user-1'),
+        plan: 'PRO',
+        authProvider: 'password',
+        accountCreatedAt: user.createdAt,
+        requestedAt: user.deletionRequestedAt,
+        analysesCount: 12,
+        hadSubscription: true,
+        stripeCanceled: true,
+      })
+      expect(JSON.stringify(audit)).not.toContain('user-1')
+      // The audit trail loses the user's email, IP addresses and user agents
+      expect(db.auditEvent.updateMany).toHaveBeenCalledWith({
+        where: { actorId: 'user-1' },
+        data: { actorEmail: null, ipAddress: null, userAgent: null },
+      })
+      expect(db.auditEvent.updateMany).toHaveBeenCalledWith({
+        where: { actorId: null, targetType: 'user', targetId: 'user-1' },
+        data: { ipAddress: null, userAgent: null },
+      })
+      expect(db.user.delete).toHaveBeenCalledWith({ where: { id: 'user-1' } })
+      expect(db.$transaction).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the account when Stripe cancellation fails', async () => {
+      db.user.findUnique.mockResolvedValue(user)
+      ;(cancelStripeSubscription as jest.Mock).mockRejectedValueOnce(new Error('Stripe is down'))
+
+      await expect(deleteAccount('user-1')).rejects.toThrow('Stripe is down')
+      expect(db.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('skips Stripe for subscriptions already gone', async () => {
+      db.user.findUnique.mockResolvedValue(user)
+      ;(cancelStripeSubscription as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error('No such subscription'), { code: 'resource_missing' })
+      )
+
+      await deleteAccount('user-1')
+
+      expect(db.accountDeletionAudit.create.mock.calls[0][0].data.stripeCanceled).toBe(false)
+      expect(db.$transaction).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import jwt from 'jsonwebtoken'
+import { prisma } from '@truecheckia/database'
+import { adjustCredits, banUser, impersonateUser, suspendUser } from '../services/admin.service'
+import { isActiveAdmin } from '../services/account-status.service'
+import { revokeAllSessions } from '../services/session.service'
+
+jest.mock('@truecheckia/config', () => {
+  const actual = jest.requireActual('@truecheckia/config')
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      auth: { ...actual.config.auth, jwtSecret: 'test-secret' },
+    },
+  }
+})
+
+jest.mock('@truecheckia/database', () => {
+  const prisma = {
+    // Interactive transactions run against the same mocks
+    $transaction: jest.fn((operations: unknown) =>
+      typeof operations === 'function' ? operations(prisma) : Promise.all(operations as unknown[])
+    ),
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    auditEvent: {
+      create: jest.fn(),
+    },
+    abuseFlag: {
+      updateMany: jest.fn(),
+    },
+  }
+  return { prisma }
+})
+
+jest.mock('../services/session.service', () => ({
+  listSessions: jest.fn(),
+  revokeAllSessions: jest.fn(),
+}))
+
+jest.mock('../lib/dead-letter-queue', () => ({ __esModule: true, default: {} }))
+
+const db = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock }
+  auditEvent: { create: jest.Mock }
+  abuseFlag: { updateMany: jest.Mock }
+}
+
+const context = { actorId: 'admin-1', actorEmail: 'admin@example.com', ipAddress: '203.0.113.7' }
+
+describe('Admin service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    db.user.update.mockImplementation(({ where, data }) => Promise.resolve({ id: where.id, ...data }))
+    db.auditEvent.create.mockResolvedValue({})
+  })
+
+  it('adjusts credits without going below zero and audits the change', async () => {
+    db.user.findUnique
+      .mockResolvedValueOnce({ credits: 5 })
+      .mockResolvedValueOnce({ id: 'user-1', credits: 0 })
+    db.user.updateMany.mockResolvedValue({ count: 1 })
+
+    const result = await adjustCredits(context, 'user-1', -20, 'Refund abuse')
+
+    expect(result).toMatchObject({ status: 'updated', user: { credits: 0 } })
+    expect(db.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', credits: { gte: 5 } },
+      data: { credits: { increment: -5 } },
+    })
+    expect(db.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'admin.user.credits_adjusted',
+        actorId: 'admin-1',
+        targetType: 'user',
+        targetId: 'user-1',
+        reason: 'Refund abuse',
+        before: { credits: 5 },
+        after: { credits: 0, amount: -20 },
+      }),
+    })
+  })
+
+  it('recomputes a debit when credits were spent meanwhile', async () => {
+    db.user.findUnique
+      .mockResolvedValueOnce({ credits: 5 })
+      .mockResolvedValueOnce({ credits: 3 })
+      .mockResolvedValueOnce({ id: 'user-1', credits: 0 })
+    db.user.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 })
+
+    const result = await adjustCredits(context, 'user-1', -20, 'Refund abuse')
+
+    expect(result).toMatchObject({ status: 'updated', user: { credits: 0 } })
+    expect(db.user.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'user-1', credits: { gte: 3 } },
+      data: { credits: { increment: -3 } },
+    })
+    // Only the debit that went through is audited
+    expect(db.auditEvent.create).toHaveBeenCalledTimes(1)
+    expect(db.auditEvent.create.mock.calls[0][0].data.before).toEqual({ credits: 3 })
+  })
+
+  it('suspends other accounts and signs them out', async () => {
+    db.user.findUnique.mockResolvedValue({ status: 'ACTIVE' })
+
+    await expect(suspendUser(context, 'admin-1', 'Testing')).resolves.toEqual({ status: 'self' })
+
+    const result = await suspendUser(context, 'user-1', 'Account farm')
+
+    expect(result).toMatchObject({ status: 'updated', user: { status: 'SUSPENDED', statusReason: 'Account farm' } })
+    expect(revokeAllSessions).toHaveBeenCalledWith('user-1', 'suspended')
+  })
+
+  it('bans accounts and closes their open abuse flags', async () => {
+    db.user.findUnique.mockResolvedValue({ status: 'SUSPENDED', statusExpiresAt: new Date('2030-01-01T00:00:00Z') })
+
+    const result = await banUser(context, 'user-1', 'Account farm')
+
+    expect(result).toMatchObject({ status: 'updated', user: { status: 'BANNED', statusExpiresAt: null } })
+    expect(db.abuseFlag.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', status: 'OPEN' },
+      data: expect.objectContaining({ status: 'ACTIONED', reviewedById: 'admin-1' }),
+    })
+    expect(db.auditEvent.create.mock.calls[0][0].data.action).toBe('admin.user.banned')
+  })
+
+  it('issues read-only tokens on the admin session, never for other admins', async () => {
+    db.user.findUnique.mockResolvedValueOnce({ id: 'user-1', email: 'user@example.com', role: 'USER', plan: 'PRO' })
+
+    const result = await impersonateUser(context, 'admin-session', 'user-1', 'Ticket #42')
+
+    expect(result.status).toBe('issued')
+    const payload = jwt.verify((result as { accessToken: string }).accessToken, 'test-secret') as Record<string, unknown>
+    expect(payload).toMatchObject({ userId: 'user-1', impersonatorId: 'admin-1', sessionId: 'admin-session' })
+    expect(db.auditEvent.create.mock.calls[0][0].data.action).toBe('admin.user.impersonated')
+
+    db.user.findUnique.mockResolvedValueOnce({ id: 'admin-2', email: 'other@example.com', role: 'ADMIN', plan: 'PRO' })
+    await expect(impersonateUser(context, 'admin-session', 'admin-2', 'Ticket #43')).resolves.toEqual({
+      status: 'forbidden',
+    })
+  })
+  it('only honours impersonation while the admin is an active admin', async () => {
+    db.user.findUnique.mockResolvedValueOnce({ id: 'admin-1', role: 'ADMIN', status: 'ACTIVE' })
+    await expect(isActiveAdmin('admin-1')).resolves.toBe(true)
+
+    db.user.findUnique.mockResolvedValueOnce({ id: 'admin-1', role: 'USER', status: 'ACTIVE' })
+    await expect(isActiveAdmin('admin-1')).resolves.toBe(false)
+
+    db.user.findUnique.mockResolvedValueOnce({ id: 'admin-1', role: 'ADMIN', status: 'BANNED' })
+    await expect(isActiveAdmin('admin-1')).resolves.toBe(false)
+  })
+})
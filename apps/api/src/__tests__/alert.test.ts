@@ -0,0 +1,97 @@
+import { prisma } from '@truecheckia/database'
+import { notifyAlert } from '../services/alert-notifiers'
+import { processAlertChecks, type AlertCheck } from '../services/alert.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    alert: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn() },
+    alertSilence: { findUnique: jest.fn() },
+  },
+}))
+
+jest.mock('../services/alert-notifiers', () => ({
+  notifyAlert: jest.fn(),
+}))
+
+const db = prisma as unknown as {
+  alert: { findFirst: jest.Mock; create: jest.Mock; update: jest.Mock }
+  alertSilence: { findUnique: jest.Mock }
+}
+const notify = notifyAlert as jest.Mock
+
+const now = new Date('2026-01-05T12:00:00Z')
+
+function check(overrides: Partial<AlertCheck> = {}): AlertCheck {
+  return {
+    rule: 'queue_size',
+    queue: 'email',
+    severity: 'MEDIUM',
+    firing: true,
+    value: 250,
+    threshold: 100,
+    message: 'Large queue size in email: 250 jobs pending',
+    ...overrides,
+  }
+}
+
+function openAlert(overrides: Record<string, unknown> = {}) {
+  return { id: 'alert-1', dedupeKey: 'queue_size:email', status: 'FIRING', lastNotifiedAt: null, ...overrides }
+}
+
+describe('Alerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    db.alert.create.mockImplementation(async ({ data }) => ({ id: 'alert-1', ...data }))
+    db.alert.update.mockImplementation(async ({ where, data }) => ({ id: where.id, dedupeKey: 'queue_size:email', ...data }))
+    db.alertSilence.findUnique.mockResolvedValue(null)
+    notify.mockResolvedValue(['slack'])
+  })
+
+  it('opens one alert per rule and queue and notifies once', async () => {
+    db.alert.findFirst.mockResolvedValue(null)
+
+    await expect(processAlertChecks([check(), check({ rule: 'error_rate', firing: false })], now)).resolves.toEqual({
+      fired: 1,
+      resolved: 0,
+      notified: 1,
+    })
+
+    expect(db.alert.create.mock.calls[0][0].data).toMatchObject({ dedupeKey: 'queue_size:email', queue: 'email', value: 250 })
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ id: 'alert-1' }), 'firing')
+    expect(db.alert.update).toHaveBeenCalledWith({ where: { id: 'alert-1' }, data: { lastNotifiedAt: now } })
+  })
+
+  it('bumps an open alert and only reminds after the cooldown, unless acknowledged or silenced', async () => {
+    db.alert.findFirst.mockResolvedValue(openAlert({ lastNotifiedAt: new Date(now.getTime() - 10 * 60 * 1000) }))
+    await processAlertChecks([check()], now)
+
+    expect(db.alert.create).not.toHaveBeenCalled()
+    expect(db.alert.update.mock.calls[0][0].data).toMatchObject({ occurrences: { increment: 1 }, lastFiredAt: now })
+    expect(notify).not.toHaveBeenCalled()
+
+    db.alert.findFirst.mockResolvedValue(openAlert({ lastNotifiedAt: new Date(now.getTime() - 2 * 60 * 60 * 1000) }))
+    await processAlertChecks([check()], now)
+    expect(notify).toHaveBeenLastCalledWith(expect.anything(), 'reminder')
+
+    notify.mockClear()
+    db.alert.findFirst.mockResolvedValue(openAlert({ status: 'ACKNOWLEDGED' }))
+    await processAlertChecks([check()], now)
+    db.alert.findFirst.mockResolvedValue(openAlert())
+    db.alertSilence.findUnique.mockResolvedValue({ until: new Date(now.getTime() + 60 * 1000) })
+    await processAlertChecks([check()], now)
+    expect(notify).not.toHaveBeenCalled()
+  })
+
+  it('resolves the open alert once the check stops firing', async () => {
+    db.alert.findFirst.mockResolvedValue(openAlert({ lastNotifiedAt: new Date('2026-01-05T11:00:00Z') }))
+
+    await expect(processAlertChecks([check({ firing: false, value: 3 })], now)).resolves.toEqual({
+      fired: 0,
+      resolved: 1,
+      notified: 1,
+    })
+
+    expect(db.alert.update).toHaveBeenCalledWith({ where: { id: 'alert-1' }, data: { status: 'RESOLVED', resolvedAt: now } })
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ status: 'RESOLVED' }), 'resolved')
+  })
+})
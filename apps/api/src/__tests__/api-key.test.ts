@@ -0,0 +1,112 @@
+import { prisma } from '@truecheckia/database'
+import {
+  findApiKey,
+  generateApiKey,
+  getApiKeyStatus,
+  hashApiKey,
+  migrateLegacyApiKeys,
+  serializeApiKey,
+} from '../services/api-key.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    user: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    apiKey: { create: jest.fn(), findUnique: jest.fn() },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}))
+
+const db = prisma as unknown as {
+  user: { findMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock }
+  apiKey: { create: jest.Mock; findUnique: jest.Mock }
+}
+
+const now = new Date('2024-06-01T12:00:00Z')
+
+describe('API key service', () => {
+  it('generates keys that are only stored as a hash and a prefix', () => {
+    const { key, prefix, keyHash } = generateApiKey()
+
+    expect(key).toMatch(/^tcia_[0-9a-f]{64}$/)
+    expect(key.startsWith(prefix)).toBe(true)
+    expect(prefix).toHaveLength(13)
+    expect(keyHash).toBe(hashApiKey(key))
+    expect(keyHash).not.toContain(key.slice(5))
+    expect(generateApiKey().key).not.toBe(key)
+  })
+
+  it('derives the status from revocation and expiry', () => {
+    expect(getApiKeyStatus({ expiresAt: null, revokedAt: null }, now)).toBe('ACTIVE')
+    expect(getApiKeyStatus({ expiresAt: new Date('2024-07-01'), revokedAt: null }, now)).toBe('ACTIVE')
+    expect(getApiKeyStatus({ expiresAt: new Date('2024-05-01'), revokedAt: null }, now)).toBe('EXPIRED')
+    expect(getApiKeyStatus({ expiresAt: new Date('2024-05-01'), revokedAt: new Date('2024-04-01') }, now)).toBe('REVOKED')
+  })
+
+  it('never exposes the key hash', () => {
+    const info = serializeApiKey(
+      {
+        id: 'key-1',
+        name: 'CI',
+        prefix: 'tcia_12345678',
+        keyHash: 'secret-hash',
+        scopes: ['analyze'],
+        expiresAt: null,
+        revokedAt: null,
+        lastUsedAt: now,
+        lastUsedIp: '203.0.113.7',
+        createdAt: now,
+      } as Parameters<typeof serializeApiKey>[0],
+      now
+    )
+
+    expect(info).toEqual({
+      id: 'key-1',
+      name: 'CI',
+      prefix: 'tcia_12345678',
+      scopes: ['analyze'],
+      status: 'ACTIVE',
+      expiresAt: null,
+      lastUsedAt: now,
+      lastUsedIp: '203.0.113.7',
+      createdAt: now,
+    })
+  })
+
+  it('hashes every legacy key in batches and clears the plaintext column', async () => {
+    // Applies the query's filter, so migrated users drop out between batches
+    const users = ['user-1', 'user-2', 'user-3', 'user-4', 'user-5'].map(id => ({ id, apiKey: `legacy-${id}` as string | null }))
+    db.user.findMany.mockImplementation(async ({ where, take }) =>
+      users.filter(user => user.apiKey !== null && (!where.id || user.id > where.id.gt)).slice(0, take)
+    )
+    db.user.update.mockImplementation(async ({ where, data }) => Object.assign(users.find(user => user.id === where.id)!, data))
+    db.apiKey.create.mockImplementation(async ({ data }) => {
+      if (data.userId === 'user-2') throw new Error('Unique constraint failed')
+      return data
+    })
+    const onError = jest.fn()
+
+    await expect(migrateLegacyApiKeys(2, onError)).resolves.toEqual({ migrated: 4, failed: 1 })
+
+    expect(db.apiKey.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'user-1',
+      prefix: 'legacy-user-1',
+      keyHash: hashApiKey('legacy-user-1'),
+    })
+    // The first user of each later batch is not skipped
+    expect(db.apiKey.create.mock.calls.map(([args]) => args.data.userId)).toEqual(['user-1', 'user-2', 'user-3', 'user-4', 'user-5'])
+    expect(db.user.findMany.mock.calls[1][0].where).toEqual({ apiKey: { not: null }, id: { gt: 'user-2' } })
+    expect(onError).toHaveBeenCalledWith('user-2', expect.any(Error))
+  })
+
+  it('returns the key moved by a concurrent request on its first use', async () => {
+    const moved = { id: 'key-1', keyHash: hashApiKey('legacy-one') }
+    db.apiKey.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(moved)
+    db.user.findUnique.mockResolvedValue({ id: 'user-1' })
+    db.apiKey.create.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }))
+
+    await expect(findApiKey('legacy-one')).resolves.toBe(moved)
+    expect(db.apiKey.findUnique).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { keyHash: hashApiKey('legacy-one') } })
+    )
+  })
+})
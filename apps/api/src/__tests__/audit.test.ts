@@ -0,0 +1,100 @@
+import { prisma } from '@truecheckia/database'
+import { exportAuditEventsCsv, listAuditEvents, listSecurityEvents } from '../services/audit.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    auditEvent: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}))
+
+const db = prisma as unknown as {
+  auditEvent: { findMany: jest.Mock; count: jest.Mock }
+}
+
+const CHROME_ON_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36'
+
+function auditEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'evt-1',
+    actorId: 'user-1',
+    actorEmail: 'user@example.com',
+    action: 'auth.login',
+    targetType: 'user',
+    targetId: 'user-1',
+    reason: null,
+    before: null,
+    after: { method: 'password' },
+    ipAddress: '203.0.113.7',
+    userAgent: CHROME_ON_WINDOWS,
+    requestId: 'req-1',
+    createdAt: new Date('2026-01-02T03:04:05Z'),
+    ...overrides,
+  }
+}
+
+describe('Audit service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('filters by action prefix and date range', async () => {
+    db.auditEvent.findMany.mockResolvedValue([])
+    db.auditEvent.count.mockResolvedValue(0)
+    const from = new Date('2026-01-01T00:00:00Z')
+
+    await listAuditEvents({ action: 'admin.user.', targetId: 'user-1', from }, 2, 50)
+
+    expect(db.auditEvent.findMany).toHaveBeenCalledWith({
+      where: { targetId: 'user-1', action: { startsWith: 'admin.user.' }, createdAt: { gte: from } },
+      orderBy: { createdAt: 'desc' },
+      skip: 50,
+      take: 50,
+    })
+  })
+
+  it('exports CSV with JSON diffs and escaped values', async () => {
+    db.auditEvent.findMany.mockResolvedValue([
+      auditEvent({
+        action: 'admin.user.plan_changed',
+        actorEmail: 'admin@example.com',
+        reason: '=refund, per ticket',
+        before: { plan: 'FREE' },
+        after: { plan: 'PRO' },
+      }),
+    ])
+
+    const [header, row] = (await exportAuditEventsCsv({})).split('\r\n')
+
+    expect(header).toBe(
+      'createdAt,action,actorId,actorEmail,targetType,targetId,reason,before,after,ipAddress,userAgent,requestId'
+    )
+    expect(row).toContain('2026-01-02T03:04:05.000Z,admin.user.plan_changed,user-1,admin@example.com')
+    expect(row).toContain(`"'=refund, per ticket","{""plan"":""FREE""}","{""plan"":""PRO""}"`)
+  })
+
+  it("shows users their security events without the admin's details", async () => {
+    db.auditEvent.findMany.mockResolvedValue([
+      auditEvent({ id: 'evt-2', action: 'admin.user.suspended', actorId: 'admin-1', ipAddress: '198.51.100.1' }),
+      auditEvent(),
+    ])
+
+    const events = await listSecurityEvents('user-1')
+
+    expect(db.auditEvent.findMany.mock.calls[0][0].where).toMatchObject({ targetType: 'user', targetId: 'user-1' })
+    expect(events).toEqual([
+      { id: 'evt-2', action: 'admin.user.suspended', createdAt: expect.any(Date), ipAddress: null, device: null, byAdmin: true },
+      {
+        id: 'evt-1',
+        action: 'auth.login',
+        createdAt: expect.any(Date),
+        ipAddress: '203.0.113.7',
+        device: 'Chrome on Windows',
+        byAdmin: false,
+      },
+    ])
+  })
+})
@@ -0,0 +1,52 @@
+import { buildBatchCsv, summarizeBatch } from '../services/batch.service'
+
+const analysis = (id: string, aiScore: number) => ({
+  id,
+  aiScore,
+  confidence: 'HIGH',
+  isAiGenerated: aiScore > 65,
+  wordCount: 120,
+  createdAt: new Date('2024-03-01T12:00:00Z'),
+})
+
+const items = [
+  { index: 1, label: 'maria.docx', status: 'COMPLETED', charCount: 800, analysis: analysis('a2', 30.4) },
+  { index: 0, label: 'Essay, "draft"', status: 'COMPLETED', charCount: 900, analysis: analysis('a1', 82) },
+  { index: 2, label: '=HYPERLINK("x")', status: 'FAILED', charCount: 0, error: 'Could not extract text', analysis: null },
+  { index: 3, label: 'pending.txt', status: 'PENDING', charCount: 500, analysis: null },
+]
+
+describe('Batch service', () => {
+  it('summarizes completed items only', () => {
+    expect(summarizeBatch(items)).toEqual({
+      totalItems: 4,
+      completedItems: 2,
+      failedItems: 1,
+      averageAiScore: 56,
+      aiGeneratedCount: 1,
+      highestAiScore: 82,
+    })
+  })
+
+  it('returns null scores when nothing has been analyzed', () => {
+    const summary = summarizeBatch([items[2], items[3]])
+    expect(summary.averageAiScore).toBeNull()
+    expect(summary.highestAiScore).toBeNull()
+  })
+
+  it('builds one CSV row per item in submission order', () => {
+    const lines = buildBatchCsv(items).trimEnd().split('\r\n')
+
+    expect(lines).toHaveLength(5)
+    expect(lines[0]).toBe('item,label,status,ai_score,confidence,is_ai_generated,word_count,char_count,analysis_id,analyzed_at,error')
+    expect(lines[1]).toBe('1,"Essay, ""draft""",COMPLETED,82,HIGH,true,120,900,a1,2024-03-01T12:00:00.000Z,')
+    expect(lines[2]).toBe('2,maria.docx,COMPLETED,30,HIGH,false,120,800,a2,2024-03-01T12:00:00.000Z,')
+    expect(lines[4]).toBe('4,pending.txt,PENDING,,,,,500,,,')
+  })
+
+  it('neutralises spreadsheet formulas in labels', () => {
+    const row = buildBatchCsv(items).split('\r\n')[3]
+    expect(row.startsWith(`3,"'=HYPERLINK(""x"")",FAILED`)).toBe(true)
+    expect(row.endsWith('Could not extract text')).toBe(true)
+  })
+})
@@ -0,0 +1,167 @@
+import JSZip from 'jszip'
+import { prisma } from '@truecheckia/database'
+import {
+  buildDataExportArchive,
+  buildDataExportUrl,
+  createDataExport,
+  getNextExportAvailableAt,
+  serializeDataExport,
+  signDataExport,
+  verifyDataExportSignature,
+} from '../services/data-export.service'
+import { serializePreferences } from '../services/preferences.service'
+
+jest.mock('@truecheckia/config', () => {
+  const actual = jest.requireActual('@truecheckia/config')
+  return {
+    ...actual,
+    config: { ...actual.config, auth: { ...actual.config.auth, jwtSecret: 'test-secret' } },
+  }
+})
+jest.mock('@truecheckia/database', () => ({ prisma: { $transaction: jest.fn() } }))
+jest.mock('../lib/queue-adapter', () => ({ RedisAdapter: {} }))
+
+const db = prisma as unknown as { $transaction: jest.Mock }
+
+const HOUR = 60 * 60 * 1000
+
+describe('Data export service', () => {
+  describe('signed download links', () => {
+    const expires = Date.now() + HOUR
+
+    it('accepts the signature it issued until the link expires', () => {
+      const signature = signDataExport('export-1', expires)
+
+      expect(verifyDataExportSignature('export-1', expires, signature)).toBe(true)
+      expect(verifyDataExportSignature('export-1', expires, signature, expires + 1)).toBe(false)
+    })
+
+    it('rejects signatures for another export or expiry', () => {
+      const signature = signDataExport('export-1', expires)
+
+      expect(verifyDataExportSignature('export-2', expires, signature)).toBe(false)
+      expect(verifyDataExportSignature('export-1', expires + HOUR, signature)).toBe(false)
+      expect(verifyDataExportSignature('export-1', NaN, signature)).toBe(false)
+      expect(verifyDataExportSignature('export-1', expires, '')).toBe(false)
+    })
+
+    it('puts the expiry and signature in the URL', () => {
+      const url = new URL(buildDataExportUrl('export-1', new Date(expires)))
+
+      expect(url.pathname).toBe('/api/user/data-export/export-1/download')
+      expect(url.searchParams.get('expires')).toBe(String(expires))
+      expect(url.searchParams.get('signature')).toBe(signDataExport('export-1', expires))
+    })
+  })
+
+  it('allows one export per day', () => {
+    const now = new Date('2024-06-02T12:00:00Z')
+
+    expect(getNextExportAvailableAt(null, now)).toBeNull()
+    expect(getNextExportAvailableAt(new Date('2024-06-02T08:00:00Z'), now)).toEqual(new Date('2024-06-03T08:00:00Z'))
+    expect(getNextExportAvailableAt(new Date('2024-06-01T11:00:00Z'), now)).toBeNull()
+  })
+
+  describe('createDataExport', () => {
+    const now = new Date('2024-06-02T12:00:00Z')
+    const calls: string[] = []
+    const tx = {
+      $executeRaw: jest.fn(async () => void calls.push('lock')),
+      dataExport: {
+        findFirst: jest.fn(async () => void calls.push('check')),
+        create: jest.fn(async ({ data }) => ({ id: 'export-2', ...data })),
+      },
+    }
+
+    beforeEach(() => {
+      calls.length = 0
+      tx.dataExport.create.mockClear()
+      db.$transaction.mockImplementation(fn => fn(tx))
+    })
+
+    it('checks the limit under the per-user lock before inserting', async () => {
+      tx.dataExport.findFirst.mockImplementationOnce(async () => {
+        calls.push('check')
+        return { createdAt: new Date('2024-06-01T08:00:00Z') }
+      })
+
+      await expect(createDataExport('user-1', now)).resolves.toEqual({
+        status: 'created',
+        dataExport: { id: 'export-2', userId: 'user-1' },
+      })
+      expect(calls).toEqual(['lock', 'check'])
+      expect(tx.$executeRaw.mock.calls[0]).toContain('data-export:user-1')
+    })
+
+    it('refuses a second export within the cooldown', async () => {
+      tx.dataExport.findFirst.mockResolvedValueOnce({ createdAt: new Date('2024-06-02T08:00:00Z') })
+
+      await expect(createDataExport('user-1', now)).resolves.toEqual({
+        status: 'limited',
+        nextAvailableAt: new Date('2024-06-03T08:00:00Z'),
+      })
+      expect(tx.dataExport.create).not.toHaveBeenCalled()
+    })
+  })
+
+  it('reports completed exports past their expiry as expired', () => {
+    const record = {
+      id: 'export-1',
+      status: 'COMPLETED' as const,
+      fileSize: 2048,
+      completedAt: new Date('2024-06-01T12:00:00Z'),
+      expiresAt: new Date('2024-06-03T12:00:00Z'),
+      createdAt: new Date('2024-06-01T11:59:00Z'),
+    }
+
+    expect(serializeDataExport(record, new Date('2024-06-02T12:00:00Z')).status).toBe('COMPLETED')
+    expect(serializeDataExport(record, new Date('2024-06-04T12:00:00Z'))).toMatchObject({
+      id: 'export-1',
+      status: 'EXPIRED',
+      error: null,
+      downloadedAt: null,
+    })
+  })
+
+  it('builds a ZIP with JSON and CSV files', async () => {
+    const archive = await buildDataExportArchive({
+      profile: { id: 'user-1', email: 'user@example.com' },
+      preferences: serializePreferences(null),
+      subscription: null,
+      analyses: [{
+        id: 'analysis-1',
+        createdAt: new Date('2024-06-01T12:00:00Z'),
+        language: 'pt',
+        wordCount: 3,
+        charCount: 18,
+        aiScore: 81.6,
+        confidence: 'HIGH',
+        isAiGenerated: true,
+        text: '=SUM(A1), "quoted"',
+      }],
+      apiUsage: [],
+      notifications: [],
+    })
+
+    const zip = await JSZip.loadAsync(archive)
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'README.txt',
+      'analyses.csv',
+      'analyses.json',
+      'api-usage.csv',
+      'api-usage.json',
+      'notifications.csv',
+      'notifications.json',
+      'preferences.json',
+      'profile.json',
+      'subscription.json',
+    ])
+
+    expect(JSON.parse(await zip.file('profile.json')!.async('string'))).toEqual({ id: 'user-1', email: 'user@example.com' })
+
+    const csv = (await zip.file('analyses.csv')!.async('string')).replace(/^\uFEFF/, '')
+    expect(csv.split('\r\n')[1]).toBe(
+      `analysis-1,2024-06-01T12:00:00.000Z,pt,3,18,82,HIGH,true,"'=SUM(A1), ""quoted"""`
+    )
+  })
+})
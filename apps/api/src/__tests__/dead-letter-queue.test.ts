@@ -0,0 +1,107 @@
+import { DeadLetterQueue } from '../lib/dead-letter-queue'
+
+// Just enough of Redis for the DLQ: hashes, lists and sorted sets
+jest.mock('../lib/upstash', () => {
+  const hashes = new Map<string, Record<string, string>>()
+  const lists = new Map<string, string[]>()
+  const sortedSets = new Map<string, Map<string, number>>()
+  const list = (key: string) => lists.get(key) ?? lists.set(key, []).get(key)!
+
+  return {
+    serverlessCache: {},
+    __store: { hashes, lists, sortedSets },
+    upstash: {
+      hset: jest.fn(async (key: string, values: Record<string, string>) => {
+        hashes.set(key, { ...hashes.get(key), ...values })
+      }),
+      hget: jest.fn(async (key: string, field: string) => hashes.get(key)?.[field] ?? null),
+      hgetall: jest.fn(async (key: string) => hashes.get(key) ?? {}),
+      hincrby: jest.fn(),
+      expire: jest.fn(),
+      del: jest.fn(async (key: string) => {
+        hashes.delete(key)
+        lists.delete(key)
+      }),
+      lpush: jest.fn(async (key: string, value: string) => list(key).unshift(value)),
+      lrem: jest.fn(async (key: string, _count: number, value: string) => {
+        lists.set(key, list(key).filter(item => item !== value))
+      }),
+      lrange: jest.fn(async (key: string, start: number, stop: number) =>
+        list(key).slice(start, stop === -1 ? undefined : stop + 1)
+      ),
+      zadd: jest.fn(async (key: string, { score, member }: { score: number; member: string }) => {
+        const set = sortedSets.get(key) ?? new Map<string, number>()
+        sortedSets.set(key, set.set(member, score))
+      }),
+      zrem: jest.fn(async (key: string, member: string) => sortedSets.get(key)?.delete(member)),
+    },
+  }
+})
+
+const { __store: store } = jest.requireMock('../lib/upstash') as {
+  __store: {
+    hashes: Map<string, Record<string, string>>
+    lists: Map<string, string[]>
+    sortedSets: Map<string, Map<string, number>>
+  }
+}
+
+describe('Dead letter queue', () => {
+  beforeEach(() => {
+    store.hashes.clear()
+    store.lists.clear()
+    store.sortedSets.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  it('keeps the error of every attempt and lists a job once', async () => {
+    await DeadLetterQueue.addFailedJob('job-1', 'email', { to: 'a@example.com' }, 'SMTP timeout')
+    await DeadLetterQueue.addFailedJob('job-1', 'email', { to: 'a@example.com' }, 'Mailbox full', {}, 1)
+
+    const job = await DeadLetterQueue.getJobDetails('job-1')
+
+    expect(job?.errors?.map(attempt => [attempt.error, attempt.retryCount])).toEqual([
+      ['SMTP timeout', 0],
+      ['Mailbox full', 1],
+    ])
+    expect(job?.status).toBe('scheduled-retry')
+    expect(store.lists.get('dlq:email')).toEqual(['job-1'])
+  })
+
+  it('requeues every permanent failure with its edited payload', async () => {
+    await DeadLetterQueue.addFailedJob('job-1', 'analysis', { text: 'bad' }, 'Invalid input', { maxRetries: 0 })
+    await DeadLetterQueue.addFailedJob('job-2', 'analysis', { text: 'ok' }, 'Timeout', { maxRetries: 0 })
+    await DeadLetterQueue.updateJobData('job-1', { text: 'fixed' })
+
+    await expect(DeadLetterQueue.retryAll('permanent-failures', { force: true })).resolves.toEqual({
+      retried: 2,
+      failed: 0,
+      errors: [],
+    })
+
+    const requeued = store.lists.get('queue:analysis:pending')!.map(entry => JSON.parse(entry))
+    expect(requeued.map(entry => [entry.id, entry.data.text])).toEqual([
+      ['job-1', 'fixed'],
+      ['job-2', 'ok'],
+    ])
+    expect(store.lists.get('dlq:permanent-failures')).toEqual([])
+
+    // Already back on the queue
+    await expect(DeadLetterQueue.retryAll('analysis')).resolves.toMatchObject({ retried: 0 })
+  })
+
+  it('purges a job from every list', async () => {
+    await DeadLetterQueue.addFailedJob('job-1', 'email', {}, 'Bounced', { maxRetries: 0 })
+    await DeadLetterQueue.addFailedJob('job-2', 'email', {}, 'Bounced')
+
+    await expect(DeadLetterQueue.purgeJob('job-1')).resolves.toBe(true)
+    await expect(DeadLetterQueue.purgeJob('job-1')).resolves.toBe(false)
+
+    expect(store.lists.get('dlq:email')).toEqual(['job-2'])
+    expect(store.lists.get('dlq:permanent-failures')).toEqual([])
+    expect(store.hashes.has('failed-job:job-1')).toBe(false)
+
+    await expect(DeadLetterQueue.purgeQueue('email')).resolves.toEqual({ purged: 1 })
+    expect(store.sortedSets.get('retry-job:schedule')?.size).toBe(0)
+  })
+})
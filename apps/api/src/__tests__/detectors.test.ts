@@ -0,0 +1,99 @@
+import type { OpenAIAnalysisResponse } from '@truecheckia/types'
+import { detectorRegistry, type DetectorProvider } from '../services/detectors'
+import { analyzeWithDetectors, getAnalysisCacheKey } from '../services/openai.service'
+
+const stubDetector = (name: string, score: number, fail = false): DetectorProvider => ({
+  name,
+  analyze: jest.fn(async (): Promise<OpenAIAnalysisResponse> => {
+    if (fail) throw new Error(`${name} unavailable`)
+    return {
+      score,
+      confidence: 'medium',
+      main_indicators: ['ai_markers'],
+      explanation: `${name} explanation`,
+      suspicious_parts: [],
+    }
+  }),
+})
+
+describe('Detector ensemble', () => {
+  afterEach(() => {
+    detectorRegistry.unregister('stub-a')
+    detectorRegistry.unregister('stub-b')
+  })
+
+  it('combines detector scores by weight', async () => {
+    detectorRegistry.register(stubDetector('stub-a', 90))
+    detectorRegistry.register(stubDetector('stub-b', 50))
+
+    const result = await analyzeWithDetectors('Some text to analyze.', 'en', {
+      detectors: [
+        { provider: 'stub-a', weight: 0.75 },
+        { provider: 'stub-b', weight: 0.25 },
+      ],
+    })
+
+    expect(result.aiScore).toBe(80)
+    expect(result.explanation).toBe('stub-a explanation')
+    expect(result.detectors).toHaveLength(2)
+  })
+
+  it('renormalises weights when a detector fails', async () => {
+    detectorRegistry.register(stubDetector('stub-a', 90, true))
+    detectorRegistry.register(stubDetector('stub-b', 30))
+
+    const result = await analyzeWithDetectors('Some text to analyze.', 'en', {
+      detectors: [
+        { provider: 'stub-a', weight: 0.7 },
+        { provider: 'stub-b', weight: 0.3 },
+      ],
+    })
+
+    expect(result.aiScore).toBe(30)
+    expect(result.confidence).toBe('MEDIUM')
+    expect(result.detectors.map(d => d.provider)).toEqual(['stub-b'])
+  })
+
+  it('skips a provider missing from the registry like any failed detector', async () => {
+    detectorRegistry.register(stubDetector('stub-b', 40))
+
+    const result = await analyzeWithDetectors('Some text to analyze.', 'en', {
+      detectors: [
+        { provider: 'not-registered', weight: 0.5 },
+        { provider: 'stub-b', weight: 0.5 },
+      ],
+    })
+
+    expect(result.aiScore).toBe(40)
+    expect(result.detectors.map(d => d.provider)).toEqual(['stub-b'])
+  })
+
+  it('keys cached results by ensemble and language as well as text', () => {
+    const ensemble = [{ provider: 'openai', model: 'gpt-4', weight: 1 }]
+    const key = getAnalysisCacheKey('Some text', 'en', ensemble)
+
+    expect(key).toMatch(/^analysis:[0-9a-f]{64}$/)
+    expect(getAnalysisCacheKey('Some text', 'en', [...ensemble])).toBe(key)
+    expect(getAnalysisCacheKey('Some text', 'pt', ensemble)).not.toBe(key)
+    expect(getAnalysisCacheKey('Some text', 'en', [{ ...ensemble[0], model: 'gpt-3.5-turbo' }])).not.toBe(key)
+    expect(getAnalysisCacheKey('Some text', 'en', [...ensemble, { provider: 'heuristic', weight: 0.5 }])).not.toBe(key)
+  })
+
+  it('throws when every detector fails', async () => {
+    detectorRegistry.register(stubDetector('stub-a', 0, true))
+
+    await expect(
+      analyzeWithDetectors('Some text', 'en', { detectors: [{ provider: 'stub-a', weight: 1 }] })
+    ).rejects.toThrow('All AI detectors failed')
+  })
+
+  it('runs the offline heuristic detector without network access', async () => {
+    const text = 'Furthermore, the results are clear. Moreover, the data is robust. Additionally, the method is sound.'
+    const result = await analyzeWithDetectors(text, 'en', {
+      detectors: [{ provider: 'heuristic', weight: 1 }],
+    })
+
+    expect(result.aiScore).toBeGreaterThan(0)
+    expect(result.indicators.map(i => i.type)).toContain('ai_markers')
+  })
+})
@@ -0,0 +1,124 @@
+import type { AnalysisResult } from '@truecheckia/types'
+import { analyzeWithDetectors } from '../services/openai.service'
+import {
+  aggregateChunkResults,
+  analyzeChunks,
+  calculateCreditCost,
+  ChunkAnalysisError,
+  splitIntoChunks,
+  type DocumentChunk,
+} from '../services/document.service'
+
+jest.mock('../services/openai.service', () => ({
+  ...jest.requireActual('../services/openai.service'),
+  analyzeWithDetectors: jest.fn(),
+}))
+
+const analyze = analyzeWithDetectors as jest.MockedFunction<typeof analyzeWithDetectors>
+
+const paragraph = (sentences: number, label: string) =>
+  Array.from({ length: sentences }, (_, i) => `${label} sentence number ${i} is here.`).join(' ')
+
+const chunkResult = (aiScore: number, extra: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  id: '',
+  aiScore,
+  confidence: 'MEDIUM',
+  isAiGenerated: aiScore > 65,
+  indicators: [{ type: 'ai_markers', description: 'markers', severity: 'medium' }],
+  explanation: `score ${aiScore}`,
+  suspiciousParts: [],
+  processingTime: 100,
+  wordCount: 10,
+  charCount: 100,
+  sentences: [],
+  ...extra,
+})
+
+describe('Document service', () => {
+  const text = [paragraph(50, 'First'), paragraph(300, 'Second'), paragraph(10, 'Third')].join('\n\n')
+
+  it('splits on paragraph boundaries within the chunk size', () => {
+    const chunks = splitIntoChunks(text, 4000, 'en')
+
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.forEach((chunk, index) => {
+      expect(chunk.index).toBe(index)
+      expect(chunk.text.length).toBeLessThanOrEqual(4000)
+      expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text)
+    })
+    // Sentences of the long second paragraph are packed after the first one
+    expect(chunks[0].text).toBe(`${paragraph(50, 'First')}\n\n${paragraph(66, 'Second')}`)
+    expect(chunks[1].text.startsWith('Second sentence number 66 is here.')).toBe(true)
+  })
+
+  it('keeps short documents in a single chunk', () => {
+    expect(splitIntoChunks(paragraph(5, 'Short'), 4000, 'en')).toHaveLength(1)
+  })
+
+  it('charges one credit per started block of characters', () => {
+    expect(calculateCreditCost(100)).toBe(1)
+    expect(calculateCreditCost(10000)).toBe(1)
+    expect(calculateCreditCost(10001)).toBe(2)
+  })
+
+  it('weights the aggregate score by chunk length and shifts offsets', () => {
+    const chunks = [
+      { index: 0, startIndex: 0, endIndex: 300, text: 'a'.repeat(300) },
+      { index: 1, startIndex: 302, endIndex: 402, text: 'b'.repeat(100) },
+    ]
+    const results = new Map<number, AnalysisResult>([
+      [0, chunkResult(80)],
+      [1, chunkResult(40, {
+        suspiciousParts: [{ text: 'b', score: 90, reason: 'x', startIndex: 5, endIndex: 10 }],
+      })],
+    ])
+
+    const result = aggregateChunkResults('x'.repeat(402), 'en', chunks, results)
+
+    expect(result.aiScore).toBe(70)
+    expect(result.chunks.map(c => c.aiScore)).toEqual([80, 40])
+    expect(result.suspiciousParts[0].startIndex).toBe(307)
+    expect(result.indicators).toHaveLength(1)
+  })
+
+  describe('analyzeChunks', () => {
+    const chunks: DocumentChunk[] = [0, 1, 2, 3].map(index => ({
+      index,
+      startIndex: index * 10,
+      endIndex: index * 10 + 9,
+      text: `chunk ${index}`,
+    }))
+
+    afterEach(() => analyze.mockReset())
+
+    it('keeps the chunks that finished when another one fails', async () => {
+      analyze.mockImplementation(async text => {
+        if (text === 'chunk 0') throw new Error('Detector timed out')
+        return chunkResult(50)
+      })
+
+      const error = await analyzeChunks(chunks, 'en', { concurrency: 2 }).catch(e => e)
+
+      expect(error).toBeInstanceOf(ChunkAnalysisError)
+      expect(error.message).toBe('Detector timed out')
+      // Chunk 1 ran alongside the failing one; nothing new starts afterwards
+      expect([...error.results.keys()]).toEqual([1])
+      expect(analyze).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not start chunks expected to finish after the deadline', async () => {
+      let clock = 0
+      const now = jest.spyOn(Date, 'now').mockImplementation(() => clock)
+      analyze.mockImplementation(async () => {
+        clock += 4000
+        return chunkResult(50)
+      })
+
+      // Each chunk takes 4s: the second would end at 8s, past the deadline
+      const results = await analyzeChunks(chunks, 'en', { concurrency: 1, deadline: 7000 })
+
+      expect([...results.keys()]).toEqual([0])
+      now.mockRestore()
+    })
+  })
+})
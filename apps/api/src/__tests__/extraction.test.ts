@@ -0,0 +1,75 @@
+import JSZip from 'jszip'
+import { detectFormat, extractText, readZipEntries } from '../services/extraction.service'
+
+describe('Extraction service', () => {
+  it('detects formats from MIME type or extension', () => {
+    expect(detectFormat('application/pdf', 'paper.bin')).toBe('pdf')
+    expect(detectFormat('application/octet-stream', 'notes.MD')).toBe('md')
+    expect(detectFormat('image/png', 'photo.png')).toBeNull()
+  })
+
+  it('normalises plain text paragraphs', async () => {
+    const { text } = await extractText(Buffer.from('\uFEFFFirst line\r\n\r\n\r\n\r\nSecond line  \r\n'), 'txt')
+    expect(text).toBe('First line\n\nSecond line')
+  })
+
+  it('strips Markdown syntax but keeps paragraphs', async () => {
+    const markdown = '# Title\n\nSome **bold** text with a [link](https://example.com) and snake_case_name.\n\n```\ncode\n```\n'
+    const { text } = await extractText(Buffer.from(markdown), 'md')
+    expect(text).toBe('Title\n\nSome bold text with a link and snake_case_name.')
+  })
+
+  it('extracts ODT paragraphs and page count', async () => {
+    const zip = new JSZip()
+    zip.file('content.xml', '<office:document-content><office:body><office:text><text:h>Título</text:h><text:p>Primeiro<text:s text:c="2"/>parágrafo &amp; mais.</text:p><text:p>Segundo <text:span>parágrafo</text:span>.</text:p></office:text></office:body></office:document-content>')
+    zip.file('meta.xml', '<meta:document-statistic meta:page-count="3"/>')
+
+    const result = await extractText(await zip.generateAsync({ type: 'nodebuffer' }), 'odt')
+
+    expect(result.text).toBe('Título\n\nPrimeiro  parágrafo & mais.\n\nSegundo parágrafo.')
+    expect(result.pageCount).toBe(3)
+  })
+
+  it('extracts DOCX text from the checked entries', async () => {
+    const zip = new JSZip()
+    zip.file('word/document.xml', '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body><w:p><w:r><w:t>Primeiro parágrafo.</w:t></w:r></w:p><w:p><w:r><w:t>Segundo.</w:t></w:r></w:p></w:body></w:document>')
+    zip.file('docProps/app.xml', '<Properties><Pages>2</Pages></Properties>')
+
+    const result = await extractText(await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }), 'docx')
+
+    expect(result.text).toBe('Primeiro parágrafo.\n\nSegundo.')
+    expect(result.pageCount).toBe(2)
+  })
+
+  describe('archive size limit', () => {
+    const bomb = async () => {
+      const zip = new JSZip()
+      zip.file('content.xml', '<office:body>' + ' '.repeat(100000) + '</office:body>')
+      zip.file('meta.xml', '<meta/>')
+      return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', comment: 'made by a test' })
+    }
+
+    it('refuses archives that inflate past the limit', async () => {
+      const buffer = await bomb()
+
+      expect(buffer.length).toBeLessThan(2000)
+      expect(readZipEntries(buffer, 200000).get('meta.xml')?.toString()).toBe('<meta/>')
+      expect(() => readZipEntries(buffer, 50000)).toThrow('Archive expands beyond 50000 bytes')
+      expect(() => readZipEntries(Buffer.from('not a zip file at all, just some text'))).toThrow('Invalid archive')
+      await expect(extractText(buffer, 'odt')).resolves.toMatchObject({ format: 'odt' })
+    })
+
+    it('counts inflated bytes, not the sizes the archive declares', async () => {
+      const buffer = await bomb()
+      // Claim every entry is 10 bytes, in the local headers and the central directory
+      for (let offset = 0; offset < buffer.length - 4; offset++) {
+        const signature = buffer.readUInt32LE(offset)
+        if (signature === 0x04034b50) buffer.writeUInt32LE(10, offset + 22)
+        if (signature === 0x02014b50) buffer.writeUInt32LE(10, offset + 24)
+      }
+
+      expect(() => readZipEntries(buffer, 50000)).toThrow('Archive expands beyond 50000 bytes')
+      await expect(extractText(buffer, 'odt')).resolves.toMatchObject({ format: 'odt' })
+    })
+  })
+})
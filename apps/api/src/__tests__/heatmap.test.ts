@@ -0,0 +1,49 @@
+import { locateExcerpt, locateSuspiciousParts, scoreSentences } from '../services/heatmap.service'
+
+const TEXT = 'The  weather was “nice” today. However, it is worth noting that climate patterns, in general, are complex, nuanced, and multifaceted.\n\nI went out. Bought bread at the corner shop because we ran out again.'
+
+// The located substring, or null when the excerpt was not found
+const excerptOf = (range: { startIndex: number; endIndex: number } | null) =>
+  range && TEXT.slice(range.startIndex, range.endIndex)
+
+describe('Heatmap service', () => {
+  it('locates exact excerpts', () => {
+    expect(excerptOf(locateExcerpt(TEXT, 'climate patterns, in general'))).toBe('climate patterns, in general')
+  })
+
+  it('ignores quote, casing and whitespace differences', () => {
+    expect(excerptOf(locateExcerpt(TEXT, '"the weather was "nice" today"'))).toBe('The  weather was “nice” today')
+  })
+
+  it('spans elided excerpts', () => {
+    expect(excerptOf(locateExcerpt(TEXT, 'However, it is worth noting ... multifaceted.'))).toMatch(/^However.*multifaceted\.$/)
+  })
+
+  it('falls back to fuzzy sentence matching for paraphrased excerpts', () => {
+    expect(excerptOf(locateExcerpt(TEXT, 'climate patterns are in general complex and nuanced and multifaceted'))).toMatch(/^However/)
+  })
+
+  it('returns null for excerpts that are not in the text', () => {
+    expect(locateExcerpt(TEXT, 'a completely unrelated excerpt about space travel')).toBeNull()
+  })
+
+  it('caps located parts at 200 characters but keeps the full range', () => {
+    const long = 'Sentence with many words in it. '.repeat(10).trim()
+    const [part] = locateSuspiciousParts(long, [{ text: long, score: 80, reason: 'uniform' }], 'en')
+
+    expect(part.text).toBe(long.slice(0, 200))
+    expect(part).toMatchObject({ startIndex: 0, endIndex: long.length })
+  })
+
+  it('scores every sentence and flags the ones with suspicious parts', () => {
+    const parts = locateSuspiciousParts(TEXT, [{ text: 'in general, are complex', score: 90, reason: 'hedging' }], 'en')
+    const sentences = scoreSentences(TEXT, 'en', parts, 50)
+
+    expect(sentences).toHaveLength(4)
+    expect(sentences.map(s => s.flagged)).toEqual([false, true, false, false])
+    expect(sentences[1].score).toBeGreaterThan(sentences[0].score)
+    sentences.forEach(sentence => {
+      expect(sentence.endIndex).toBeGreaterThan(sentence.startIndex)
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { Request, Response } from 'express'
+import { config } from '@truecheckia/config'
+import { MetricsRegistry } from '../lib/metrics'
+import { authenticateMetrics } from '../middleware/metrics.middleware'
+
+function scrapeRequest(authorization?: string) {
+  const req = { method: 'GET', path: '/metrics', headers: { authorization } } as unknown as Request
+  const res = { setHeader: jest.fn(), status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response
+  return { req, res }
+}
+
+describe('Metrics', () => {
+  const originalToken = config.monitoring.metricsToken
+
+  afterEach(() => {
+    config.monitoring.metricsToken = originalToken
+  })
+
+  it('renders counters and cumulative histogram buckets as OpenMetrics', () => {
+    const registry = new MetricsRegistry()
+    const tokens = registry.counter({ name: 'tokens', help: 'Tokens used.', labelNames: ['model'] })
+    const duration = registry.histogram({ name: 'duration_seconds', help: 'Duration.', labelNames: ['route'], buckets: [1, 0.1] })
+
+    tokens.inc({ model: 'gpt-4' }, 120)
+    duration.observe({ route: '/api/share/:token' }, 0.05)
+    duration.observe({ route: '/api/share/:token' }, 0.5)
+    duration.observe({ route: '/api/share/:token' }, 3)
+
+    expect(registry.render().split('\n')).toEqual([
+      '# HELP tokens Tokens used.',
+      '# TYPE tokens counter',
+      'tokens_total{model="gpt-4"} 120',
+      '# HELP duration_seconds Duration.',
+      '# TYPE duration_seconds histogram',
+      'duration_seconds_bucket{route="/api/share/:token",le="0.1"} 1',
+      'duration_seconds_bucket{route="/api/share/:token",le="1"} 2',
+      'duration_seconds_bucket{route="/api/share/:token",le="+Inf"} 3',
+      'duration_seconds_sum{route="/api/share/:token"} 3.55',
+      'duration_seconds_count{route="/api/share/:token"} 3',
+      '# EOF',
+      '',
+    ])
+  })
+
+  it('escapes label values and refuses to register a name twice', () => {
+    const registry = new MetricsRegistry()
+    registry.gauge({ name: 'jobs', help: 'Jobs.', labelNames: ['queue'] }).set({ queue: 'a"b\\c' }, 2)
+
+    expect(registry.render()).toContain('jobs{queue="a\\"b\\\\c"} 2')
+    expect(() => registry.counter({ name: 'jobs', help: 'Again.' })).toThrow('already registered')
+  })
+
+  it('only lets scrapes with the configured bearer token through', () => {
+    const next = jest.fn()
+
+    config.monitoring.metricsToken = ''
+    const disabled = scrapeRequest('Bearer anything')
+    authenticateMetrics(disabled.req, disabled.res, next)
+    expect(disabled.res.status).toHaveBeenCalledWith(404)
+
+    config.monitoring.metricsToken = 'scrape-secret'
+    expect(() => authenticateMetrics(scrapeRequest().req, scrapeRequest().res, next)).toThrow('Invalid metrics token')
+    expect(() => authenticateMetrics(scrapeRequest('Bearer wrong').req, scrapeRequest().res, next)).toThrow('Invalid metrics token')
+    expect(next).not.toHaveBeenCalled()
+
+    const allowed = scrapeRequest('Bearer scrape-secret')
+    authenticateMetrics(allowed.req, allowed.res, next)
+    expect(next).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,69 @@
+import { prisma } from '@truecheckia/database'
+import { listNotifications, serializeNotification } from '../services/notification.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    notification: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+const findMany = (prisma as unknown as { notification: { findMany: jest.Mock } }).notification.findMany
+
+const notification = (id: string) => ({
+  id,
+  userId: 'user-1',
+  type: 'ANALYSIS',
+  title: 'Analysis Complete',
+  message: 'Your analysis has been processed. AI Score: 82%',
+  read: false,
+  readAt: null,
+  metadata: { analysisId: 'analysis-1' },
+  createdAt: new Date('2024-06-01T12:00:00Z'),
+})
+
+describe('Notification service', () => {
+  beforeEach(() => {
+    findMany.mockReset()
+  })
+
+  it('serializes notifications without the owner', () => {
+    expect(serializeNotification(notification('n1'))).toEqual({
+      id: 'n1',
+      type: 'ANALYSIS',
+      title: 'Analysis Complete',
+      message: 'Your analysis has been processed. AI Score: 82%',
+      read: false,
+      readAt: null,
+      metadata: { analysisId: 'analysis-1' },
+      createdAt: new Date('2024-06-01T12:00:00Z'),
+    })
+  })
+
+  it('returns a cursor when there is another page', async () => {
+    findMany.mockResolvedValue([notification('n3'), notification('n2'), notification('n1')])
+
+    const result = await listNotifications('user-1', { limit: 2, type: 'ANALYSIS', read: false })
+
+    expect(result.notifications.map(n => n.id)).toEqual(['n3', 'n2'])
+    expect(result.nextCursor).toBe('n2')
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user-1', type: 'ANALYSIS', read: false },
+      take: 3,
+    }))
+  })
+
+  it('continues after the cursor and ends on the last page', async () => {
+    findMany.mockResolvedValue([notification('n1')])
+
+    const result = await listNotifications('user-1', { cursor: 'n2', limit: 2 })
+
+    expect(result.nextCursor).toBeNull()
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user-1' },
+      cursor: { id: 'n2' },
+      skip: 1,
+    }))
+  })
+})
@@ -0,0 +1,119 @@
+import { prisma } from '@truecheckia/database'
+import {
+  canSendEmail,
+  DEFAULT_PREFERENCES,
+  isAiGeneratedFor,
+  resolveAnalysisLanguage,
+  serializePreferences,
+} from '../services/preferences.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    userPreferences: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('../lib/queue-adapter', () => ({
+  RedisAdapter: {
+    cacheGet: jest.fn().mockResolvedValue(null),
+    cacheSet: jest.fn().mockResolvedValue(undefined),
+    cacheDel: jest.fn().mockResolvedValue(undefined),
+  },
+}))
+
+const db = prisma as unknown as {
+  user: { findUnique: jest.Mock }
+  userPreferences: { findUnique: jest.Mock }
+}
+
+const record = {
+  language: 'en-US',
+  theme: 'dark',
+  analysisLanguage: 'en-US',
+  autoSaveAnalyses: false,
+  detailedReports: true,
+  confidenceThreshold: 80,
+  emailAnalysisComplete: false,
+  emailCreditsLow: true,
+  emailPlanExpiring: true,
+  emailNewFeatures: false,
+}
+
+describe('Preferences service', () => {
+  beforeEach(() => {
+    db.user.findUnique.mockReset()
+    db.userPreferences.findUnique.mockReset()
+  })
+
+  it('falls back to the defaults when nothing was saved', () => {
+    expect(serializePreferences(null)).toEqual(DEFAULT_PREFERENCES)
+    expect(DEFAULT_PREFERENCES.analysisSettings.confidenceThreshold).toBe(65)
+  })
+
+  it('maps stored columns to the nested shape', () => {
+    expect(serializePreferences(record)).toEqual({
+      language: 'en-US',
+      analysisLanguage: 'en-US',
+      theme: 'dark',
+      emailNotifications: {
+        analysisComplete: false,
+        creditsLow: true,
+        planExpiring: true,
+        newFeatures: false,
+        security: true,
+      },
+      analysisSettings: {
+        autoSave: false,
+        detailedReports: true,
+        confidenceThreshold: 80,
+      },
+    })
+  })
+
+  it('applies the user threshold to AI scores', () => {
+    const preferences = serializePreferences(record)
+    expect(isAiGeneratedFor(75, preferences)).toBe(false)
+    expect(isAiGeneratedFor(81, preferences)).toBe(true)
+    expect(isAiGeneratedFor(75, DEFAULT_PREFERENCES)).toBe(true)
+  })
+
+  it('uses the preferred analysis language only when none is requested', () => {
+    expect(resolveAnalysisLanguage('pt', serializePreferences(record))).toBe('pt')
+    expect(resolveAnalysisLanguage(undefined, serializePreferences(record))).toBe('en')
+    expect(resolveAnalysisLanguage(undefined, DEFAULT_PREFERENCES)).toBe('pt')
+  })
+
+  describe('canSendEmail', () => {
+    it('always sends security and uncategorized emails', async () => {
+      await expect(canSendEmail('security', { userId: 'user-1' })).resolves.toBe(true)
+      await expect(canSendEmail(undefined, { email: 'someone@example.com' })).resolves.toBe(true)
+      expect(db.userPreferences.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('honours the opt-in of the recipient', async () => {
+      db.userPreferences.findUnique.mockResolvedValue(record)
+
+      await expect(canSendEmail('analysisComplete', { userId: 'user-1' })).resolves.toBe(false)
+      await expect(canSendEmail('creditsLow', { userId: 'user-1' })).resolves.toBe(true)
+    })
+
+    it('finds the recipient by email when the job has no user id', async () => {
+      db.user.findUnique.mockResolvedValue({ id: 'user-1' })
+      db.userPreferences.findUnique.mockResolvedValue(record)
+
+      await expect(canSendEmail('analysisComplete', { email: 'user@example.com' })).resolves.toBe(false)
+      expect(db.userPreferences.findUnique).toHaveBeenCalledWith({ where: { userId: 'user-1' } })
+    })
+
+    it('sends to addresses that do not belong to a user', async () => {
+      db.user.findUnique.mockResolvedValue(null)
+
+      await expect(canSendEmail('creditsLow', { email: 'guest@example.com' })).resolves.toBe(true)
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { generateAnalysisReport } from '../services/report.service'
+import type { ReportAnalysis } from '../services/report.service'
+
+const text = 'A inteligência artificial revolucionou inúmeras indústrias. Além disso, é importante ressaltar que a adoção crescente traz desafios éticos.'
+
+const analysis = (overrides: Partial<ReportAnalysis> = {}): ReportAnalysis => ({
+  id: 'analysis-1',
+  text,
+  wordCount: 20,
+  charCount: text.length,
+  language: 'pt',
+  aiScore: 78.4,
+  confidence: 'HIGH',
+  isAiGenerated: true,
+  indicators: [{ type: 'ai_markers', description: 'Marcadores típicos de IA', severity: 'medium' }],
+  explanation: 'Estrutura uniforme e conectivos típicos.',
+  suspiciousParts: [
+    {
+      text: 'é importante ressaltar',
+      score: 90,
+      reason: 'Marcador de IA',
+      startIndex: text.indexOf('é importante'),
+      endIndex: text.indexOf('é importante') + 22,
+    },
+  ],
+  modelUsed: 'openai:gpt-4',
+  processingTime: 1200,
+  metadata: { fileName: 'redacao.pdf', pageCount: 2 },
+  createdAt: new Date('2024-05-01T10:00:00Z'),
+  ...overrides,
+})
+
+const pageCount = (pdf: Buffer) => (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length
+
+describe('Report service', () => {
+  it('renders a PDF document', async () => {
+    const pdf = await generateAnalysisReport(analysis(), { userName: 'Maria' })
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+    expect(pageCount(pdf)).toBeGreaterThanOrEqual(1)
+  })
+
+  it('renders analyses without indicators, suspicious parts or metadata', async () => {
+    const pdf = await generateAnalysisReport(analysis({
+      language: 'en',
+      indicators: [],
+      suspiciousParts: [],
+      metadata: null,
+      modelUsed: null,
+    }))
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+  })
+
+  it('adds pages for long reports and tolerates characters outside the standard fonts', async () => {
+    const suspiciousParts = Array.from({ length: 40 }, (_, i) => ({
+      text: `trecho suspeito ${i} 🚀 中文`,
+      score: 80,
+      reason: 'Repetitivo',
+    }))
+
+    const pdf = await generateAnalysisReport(analysis({ suspiciousParts, charCount: 5000 }))
+
+    expect(pageCount(pdf)).toBeGreaterThan(1)
+  })
+})
@@ -0,0 +1,235 @@
+import jwt from 'jsonwebtoken'
+import { prisma } from '@truecheckia/database'
+import {
+  createSession,
+  describeDevice,
+  describeLocation,
+  hashRefreshToken,
+  isSessionActive,
+  revokeAllSessions,
+  rotateRefreshToken,
+} from '../services/session.service'
+
+jest.mock('@truecheckia/config', () => {
+  const actual = jest.requireActual('@truecheckia/config')
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      auth: { ...actual.config.auth, jwtSecret: 'test-secret', refreshSecret: 'test-refresh-secret' },
+    },
+  }
+})
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    session: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    refreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}))
+
+const db = prisma as unknown as {
+  session: Record<'create' | 'findFirst' | 'findMany' | 'update' | 'updateMany', jest.Mock>
+  refreshToken: Record<'create' | 'findUnique' | 'update' | 'updateMany', jest.Mock>
+}
+
+const user = { id: 'user-1', email: 'user@example.com', role: 'USER', plan: 'FREE' }
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+
+describe('Session service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    db.refreshToken.create.mockImplementation(({ data }) => ({ id: `token-${data.tokenHash.slice(0, 6)}`, ...data }))
+    db.refreshToken.updateMany.mockResolvedValue({ count: 1 })
+    db.session.findMany.mockResolvedValue([{ id: 'session-2' }])
+  })
+
+  it('records the device and stores only a hash of the refresh token', async () => {
+    const tokens = await createSession(user, {
+      ipAddress: '10.0.0.1',
+      userAgent: CHROME_WINDOWS,
+      location: 'Recife, BR',
+    })
+
+    const access = jwt.verify(tokens.accessToken, 'test-secret') as any
+    const session = db.session.create.mock.calls[0][0].data
+    const { data } = db.refreshToken.create.mock.calls[0][0]
+
+    expect(session).toMatchObject({
+      id: access.sessionId,
+      userId: 'user-1',
+      device: 'Chrome on Windows',
+      ipAddress: '10.0.0.1',
+      location: 'Recife, BR',
+    })
+    expect(session.expiresAt).toEqual(data.expiresAt)
+    expect(data).toMatchObject({
+      userId: 'user-1',
+      familyId: access.sessionId,
+      tokenHash: hashRefreshToken(tokens.refreshToken),
+    })
+    expect(JSON.stringify(data)).not.toContain(tokens.refreshToken)
+    expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now())
+  })
+
+  it('labels common browsers and platforms', () => {
+    expect(describeDevice(CHROME_WINDOWS)).toBe('Chrome on Windows')
+    expect(
+      describeDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1')
+    ).toBe('Safari on iPhone')
+    expect(
+      describeDevice('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0')
+    ).toBe('Edge on macOS')
+    expect(describeDevice('curl/8.5.0')).toBe('curl')
+    expect(describeDevice(undefined)).toBe('Unknown device')
+  })
+
+  it('derives an approximate location from edge geo headers', () => {
+    expect(describeLocation({ 'x-vercel-ip-city': 'S%C3%A3o%20Paulo', 'x-vercel-ip-country': 'BR' })).toBe('São Paulo, BR')
+    expect(describeLocation({ 'cf-ipcountry': 'PT' })).toBe('PT')
+    expect(describeLocation({ 'cf-ipcountry': 'XX' })).toBeUndefined()
+    expect(describeLocation({})).toBeUndefined()
+  })
+
+  describe('rotateRefreshToken', () => {
+    let refreshToken: string
+    let sessionId: string
+
+    beforeEach(async () => {
+      const tokens = await createSession(user)
+      refreshToken = tokens.refreshToken
+      sessionId = (jwt.decode(tokens.accessToken) as any).sessionId
+      jest.clearAllMocks()
+      db.refreshToken.create.mockImplementation(({ data }) => ({ id: 'token-2', ...data }))
+      db.refreshToken.updateMany.mockResolvedValue({ count: 1 })
+    })
+
+    const record = (overrides = {}) => ({
+      id: 'token-1',
+      userId: 'user-1',
+      familyId: sessionId,
+      revokedAt: null,
+      revokedReason: null,
+      user,
+      ...overrides,
+    })
+
+    it('issues a new pair in the same session and retires the old token', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(record())
+
+      const result = await rotateRefreshToken(refreshToken)
+
+      expect(result.status).toBe('rotated')
+      const tokens = (result as any).tokens
+      expect(tokens.refreshToken).not.toBe(refreshToken)
+      expect((jwt.decode(tokens.accessToken) as any).sessionId).toBe(sessionId)
+      expect(db.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'rotated' },
+      })
+      expect(db.refreshToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { replacedById: 'token-2' },
+      })
+      expect(db.session.update).toHaveBeenCalledWith({
+        where: { id: sessionId },
+        data: { expiresAt: expect.any(Date), lastSeenAt: expect.any(Date) },
+      })
+    })
+
+    it('revokes the whole session when a rotated token is reused', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(record({ revokedAt: new Date(), revokedReason: 'rotated' }))
+      db.session.findMany.mockResolvedValue([{ id: sessionId }])
+
+      await expect(rotateRefreshToken(refreshToken)).resolves.toEqual({ status: 'reused', userId: 'user-1' })
+      expect(db.session.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [sessionId] }, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'reuse_detected' },
+      })
+      expect(db.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: { in: [sessionId] }, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'reuse_detected' },
+      })
+      expect(db.refreshToken.create).not.toHaveBeenCalled()
+    })
+
+    it('treats losing a concurrent rotation as reuse', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(record())
+      db.refreshToken.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      await expect(rotateRefreshToken(refreshToken)).resolves.toEqual({ status: 'reused', userId: 'user-1' })
+      expect(db.refreshToken.create).not.toHaveBeenCalled()
+    })
+
+    it('refuses to renew tokens of suspended and banned accounts', async () => {
+      const banned = { ...user, status: 'BANNED', statusExpiresAt: null }
+      db.refreshToken.findUnique.mockResolvedValue(record({ user: banned }))
+
+      await expect(rotateRefreshToken(refreshToken)).resolves.toEqual({ status: 'blocked', user: banned })
+      expect(db.refreshToken.updateMany).not.toHaveBeenCalled()
+      expect(db.refreshToken.create).not.toHaveBeenCalled()
+    })
+
+    it('rejects logged-out, unknown and forged tokens', async () => {
+      db.refreshToken.findUnique.mockResolvedValueOnce(record({ revokedAt: new Date(), revokedReason: 'logout' }))
+      await expect(rotateRefreshToken(refreshToken)).resolves.toEqual({ status: 'invalid' })
+
+      db.refreshToken.findUnique.mockResolvedValueOnce(null)
+      await expect(rotateRefreshToken(refreshToken)).resolves.toEqual({ status: 'invalid' })
+
+      const forged = jwt.sign({ userId: 'user-1' }, 'wrong-secret')
+      await expect(rotateRefreshToken(forged)).resolves.toEqual({ status: 'invalid' })
+      expect(db.refreshToken.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  it('keeps the current session when revoking the others', async () => {
+    await expect(revokeAllSessions('user-1', 'password_changed', 'session-1')).resolves.toBe(1)
+
+    expect(db.session.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', id: { not: 'session-1' }, revokedAt: null },
+      select: { id: true },
+    })
+    expect(db.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { familyId: { in: ['session-2'] }, revokedAt: null },
+      data: { revokedAt: expect.any(Date), revokedReason: 'password_changed' },
+    })
+  })
+
+  it('rejects access tokens without a live session', async () => {
+    await expect(isSessionActive('user-1', undefined)).resolves.toBe(false)
+    expect(db.session.findFirst).not.toHaveBeenCalled()
+
+    db.session.findFirst.mockResolvedValueOnce(null)
+    await expect(isSessionActive('user-1', 'session-1')).resolves.toBe(false)
+
+    db.session.findFirst.mockResolvedValueOnce({ lastSeenAt: new Date() })
+    await expect(isSessionActive('user-1', 'session-1')).resolves.toBe(true)
+    expect(db.session.update).not.toHaveBeenCalled()
+  })
+
+  it('refreshes last seen only when it is stale', async () => {
+    db.session.update.mockResolvedValue({})
+    db.session.findFirst.mockResolvedValueOnce({ lastSeenAt: new Date(Date.now() - 10 * 60 * 1000) })
+
+    await expect(isSessionActive('user-1', 'session-1')).resolves.toBe(true)
+    expect(db.session.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: { lastSeenAt: expect.any(Date) },
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import { generateShareToken, getShareState, serializeShare, toSharedView } from '../services/share.service'
+
+const now = new Date('2024-06-01T12:00:00Z')
+
+const share = {
+  id: 'share-1',
+  token: 'token-abc',
+  analysisId: 'analysis-1',
+  passwordHash: '$2a$12$hash',
+  expiresAt: null,
+  revokedAt: null,
+  viewCount: 3,
+  lastViewedAt: null,
+  createdAt: now,
+}
+
+describe('Share service', () => {
+  it('generates unique url-safe tokens', () => {
+    const tokens = new Set(Array.from({ length: 20 }, generateShareToken))
+
+    expect(tokens.size).toBe(20)
+    for (const token of tokens) {
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    }
+  })
+
+  it('derives the state of a share', () => {
+    expect(getShareState(share, now)).toBe('ACTIVE')
+    expect(getShareState({ ...share, expiresAt: new Date('2024-06-02T00:00:00Z') }, now)).toBe('ACTIVE')
+    expect(getShareState({ ...share, expiresAt: new Date('2024-06-01T11:59:59Z') }, now)).toBe('EXPIRED')
+    expect(getShareState({ ...share, revokedAt: new Date('2024-05-01T00:00:00Z') }, now)).toBe('REVOKED')
+  })
+
+  it('does not expose the password hash to the owner', () => {
+    const serialized = serializeShare(share, now)
+
+    expect(serialized).not.toHaveProperty('passwordHash')
+    expect(serialized.hasPassword).toBe(true)
+    expect(serialized.url.endsWith('/share/token-abc')).toBe(true)
+  })
+
+  it('redacts the analyzed text and quoted passages', () => {
+    const view = toSharedView({
+      aiScore: 81,
+      confidence: 'HIGH',
+      isAiGenerated: true,
+      indicators: [{ type: 'ai_markers', description: 'Marcadores', severity: 'high', evidence: 'trecho original' }],
+      explanation: 'Estrutura uniforme.',
+      language: 'pt',
+      wordCount: 120,
+      charCount: 800,
+      suspiciousParts: [{ text: 'trecho original', score: 90, reason: 'Marcador' }],
+      createdAt: now,
+    })
+
+    expect(view.suspiciousPartsCount).toBe(1)
+    expect(view.indicators).toEqual([{ type: 'ai_markers', description: 'Marcadores', severity: 'high' }])
+    expect(JSON.stringify(view)).not.toContain('trecho original')
+  })
+})
@@ -0,0 +1,50 @@
+import {
+  computeStylometry,
+  getStylometryIndicators,
+  splitSentences,
+} from '../services/stylometry.service'
+
+const AI_TEXT = 'Artificial intelligence is transforming many industries, including healthcare, finance, and education. Furthermore, it offers significant benefits, such as efficiency, accuracy, and scalability. However, it also raises important concerns, including privacy, bias, and accountability. Moreover, organizations must carefully balance innovation, regulation, and ethics. In conclusion, the future of AI depends on responsible, transparent, and inclusive development.'
+
+const HUMAN_TEXT = "I tried the new cafe downtown yesterday. Awful. The coffee tasted like it had been sitting there since Tuesday, and honestly the guy at the counter didn't care at all when I mentioned it. Whatever. My sister loves the place though, so maybe I just caught them on a bad day? Probably not going back."
+
+describe('Stylometry service', () => {
+  it('keeps abbreviations inside a sentence', () => {
+    const sentences = splitSentences('O Dr. Silva chegou cedo. Depois saiu.', 'pt')
+    expect(sentences).toEqual(['O Dr. Silva chegou cedo.', 'Depois saiu.'])
+  })
+
+  it('is deterministic', () => {
+    expect(computeStylometry(AI_TEXT, 'en')).toEqual(computeStylometry(AI_TEXT, 'en'))
+  })
+
+  it('scores uniform, comma-heavy text higher than varied text', () => {
+    const ai = computeStylometry(AI_TEXT, 'en')
+    const human = computeStylometry(HUMAN_TEXT, 'en')
+
+    expect(ai.burstiness).toBeLessThan(human.burstiness)
+    expect(ai.commasPerSentence).toBeGreaterThan(human.commasPerSentence)
+    expect(ai.score).toBeGreaterThan(human.score)
+  })
+
+  it('backs indicators with measured thresholds', () => {
+    expect(getStylometryIndicators(computeStylometry(AI_TEXT, 'en'), 'en')).toEqual([
+      'low_burstiness',
+      'excessive_commas',
+    ])
+    expect(getStylometryIndicators(computeStylometry(HUMAN_TEXT, 'en'), 'en')).toEqual([])
+  })
+
+  it('flags uniform paragraph lengths', () => {
+    const paragraph = 'This sentence has exactly seven words here. Another sentence follows with similar length now. A third one closes this short paragraph.'
+    const metrics = computeStylometry([paragraph, paragraph, paragraph].join('\n\n'), 'en')
+
+    expect(metrics.paragraphCount).toBe(3)
+    expect(getStylometryIndicators(metrics, 'en')).toContain('uniform_structure')
+  })
+
+  it('does not emit indicators for very short texts', () => {
+    const metrics = computeStylometry('Just one sentence, with, many, commas.', 'en')
+    expect(getStylometryIndicators(metrics, 'en')).toEqual([])
+  })
+})
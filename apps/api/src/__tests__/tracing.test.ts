@@ -0,0 +1,110 @@
+import { ROOT_CONTEXT, SpanKind, SpanStatusCode, trace, TraceFlags } from '@opentelemetry/api'
+import { InMemorySpanExporter, SamplingDecision } from '@opentelemetry/sdk-trace-base'
+import { serverlessQueue } from '../lib/upstash'
+import {
+  createSampler,
+  extractTraceContext,
+  flushSpans,
+  injectTraceContext,
+  shutdownTracing,
+  startTracing,
+  withCacheSpan,
+  withSpan,
+} from '../lib/tracing'
+
+// A Redis list per queue is all serverlessQueue.add/process need
+jest.mock('@upstash/redis', () => {
+  const lists = new Map<string, string[]>()
+  const list = (key: string) => lists.get(key) ?? lists.set(key, []).get(key)!
+
+  return {
+    Redis: jest.fn(() => ({
+      lpush: jest.fn(async (key: string, value: string) => list(key).unshift(value)),
+      rpop: jest.fn(async (key: string) => list(key).pop() ?? null),
+      zrangebyscore: jest.fn(async () => []),
+      hset: jest.fn(),
+      expire: jest.fn(),
+    })),
+  }
+})
+
+describe('Tracing', () => {
+  const exporter = new InMemorySpanExporter()
+
+  const exported = async () => {
+    await flushSpans()
+    return exporter.getFinishedSpans()
+  }
+
+  beforeAll(() => startTracing(exporter))
+  afterAll(() => shutdownTracing())
+  beforeEach(() => exporter.reset())
+
+  it('nests spans across awaits and records errors', async () => {
+    await expect(
+      withSpan('POST /api/analysis/check', { kind: SpanKind.SERVER }, async () => {
+        await withSpan('chat gpt-4', { kind: SpanKind.CLIENT }, async () => undefined)
+        await withCacheSpan('get', 'analysis:abc', async () => {
+          throw new Error('Redis down')
+        })
+      })
+    ).rejects.toThrow('Redis down')
+
+    const [chat, cache, request] = await exported()
+    expect([chat, cache, request].map(span => span.name)).toEqual(['chat gpt-4', 'cache get', 'POST /api/analysis/check'])
+    expect(chat.spanContext().traceId).toBe(request.spanContext().traceId)
+    expect(chat.parentSpanId).toBe(request.spanContext().spanId)
+    expect(cache.attributes).toMatchObject({ 'db.system': 'redis', 'cache.key_prefix': 'analysis' })
+    expect(cache.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Redis down' })
+    expect(cache.events[0].name).toBe('exception')
+    expect(request.parentSpanId).toBeUndefined()
+  })
+
+  it('skips cache spans outside a trace', async () => {
+    await withCacheSpan('get', 'analysis:abc', async () => null)
+
+    expect(await exported()).toEqual([])
+  })
+
+  it('continues the enqueuing trace when a serverless job is processed', async () => {
+    let traceparent: string | undefined
+    await withSpan('POST /api/analysis/check', { kind: SpanKind.SERVER }, async () => {
+      traceparent = injectTraceContext()?.traceparent
+      await serverlessQueue.add('analysis', { text: 'hello' })
+    })
+    // Malformed headers start a new trace rather than being continued
+    expect(trace.getSpanContext(extractTraceContext({ traceparent: '00-not-a-trace' }))).toBeUndefined()
+
+    await serverlessQueue.process('analysis', async () =>
+      withSpan('chat gpt-4', { kind: SpanKind.CLIENT }, async () => 'ok')
+    )
+
+    const spans = await exported()
+    const request = spans.find(span => span.name === 'POST /api/analysis/check')!
+    const job = spans.find(span => span.name === 'analysis process')!
+    const chat = spans.find(span => span.name === 'chat gpt-4')!
+    expect(traceparent).toBe(`00-${request.spanContext().traceId}-${request.spanContext().spanId}-01`)
+    expect(job.kind).toBe(SpanKind.CONSUMER)
+    expect(job.parentSpanId).toBe(request.spanContext().spanId)
+    expect(job.spanContext().traceId).toBe(request.spanContext().traceId)
+    expect(chat.parentSpanId).toBe(job.spanContext().spanId)
+  })
+
+  it('applies the local ratio to remote parents but follows local ones', () => {
+    const parent = (sampled: boolean, isRemote: boolean) =>
+      trace.setSpanContext(ROOT_CONTEXT, {
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        traceFlags: sampled ? TraceFlags.SAMPLED : TraceFlags.NONE,
+        isRemote,
+      })
+    const decide = (ratio: number, sampled: boolean, isRemote: boolean) =>
+      createSampler(ratio).shouldSample(parent(sampled, isRemote), '4bf92f3577b34da6a3ce929d0e0e4736', 'GET', SpanKind.SERVER, {}, [])
+        .decision
+
+    // A caller can't force its traces to be kept or dropped
+    expect(decide(0, true, true)).toBe(SamplingDecision.NOT_RECORD)
+    expect(decide(1, false, true)).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+    expect(decide(0, true, false)).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+  })
+})
@@ -0,0 +1,134 @@
+import jwt from 'jsonwebtoken'
+import { prisma } from '@truecheckia/database'
+import { base32Encode, generateTotp, getTimeStep, verifyTotp } from '../lib/totp'
+import {
+  createMfaToken,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  verifyMfaToken,
+  verifySecondFactor,
+} from '../services/two-factor.service'
+
+jest.mock('@truecheckia/config', () => {
+  const actual = jest.requireActual('@truecheckia/config')
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      auth: {
+        ...actual.config.auth,
+        jwtSecret: 'test-secret',
+        mfa: { ...actual.config.auth.mfa, encryptionKey: 'test-mfa-key' },
+      },
+    },
+  }
+})
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    recoveryCode: {
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+const db = prisma as unknown as {
+  user: { findUnique: jest.Mock; updateMany: jest.Mock }
+  recoveryCode: { updateMany: jest.Mock }
+}
+
+// RFC 6238 test secret
+const SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(SECRET, getTimeStep(59 * 1000))).toBe('287082')
+    expect(generateTotp(SECRET, getTimeStep(1111111109 * 1000))).toBe('081804')
+    expect(generateTotp(SECRET, getTimeStep(2000000000 * 1000))).toBe('279037')
+  })
+
+  it('accepts codes one step either side and returns the matching step', () => {
+    const now = 1111111109 * 1000
+    const step = getTimeStep(now)
+
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 1), { now })).toBe(step - 1)
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step + 1), { now })).toBe(step + 1)
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 2), { now })).toBeNull()
+    expect(verifyTotp(SECRET, 'abcdef', { now })).toBeNull()
+  })
+})
+
+describe('Two-factor service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('encrypts TOTP secrets at rest', () => {
+    const encrypted = encryptSecret(SECRET)
+
+    expect(encrypted).not.toContain(SECRET)
+    expect(encryptSecret(SECRET)).not.toBe(encrypted)
+    expect(decryptSecret(encrypted)).toBe(SECRET)
+  })
+
+  it('generates distinct recovery codes, hashed per user and ignoring format', () => {
+    const codes = generateRecoveryCodes(10)
+
+    expect(new Set(codes).size).toBe(10)
+    codes.forEach(code => expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/))
+    expect(hashRecoveryCode('user-1', 'ABCDE-fghjk')).toBe(hashRecoveryCode('user-1', 'abcdefghjk'))
+    expect(hashRecoveryCode('user-1', 'abcdefghjk')).not.toBe(hashRecoveryCode('user-2', 'abcdefghjk'))
+  })
+
+  it('keeps mfa tokens and access tokens apart', () => {
+    const mfaToken = createMfaToken('user-1')
+    const accessToken = jwt.sign({ userId: 'user-1' }, 'test-secret')
+
+    expect(verifyMfaToken(mfaToken)).toBe('user-1')
+    expect(verifyMfaToken(accessToken)).toBeNull()
+    expect((jwt.decode(mfaToken) as any).sessionId).toBeUndefined()
+  })
+
+  describe('verifySecondFactor', () => {
+    beforeEach(() => {
+      db.user.findUnique.mockResolvedValue({ twoFactorEnabled: true, twoFactorSecret: encryptSecret(SECRET) })
+    })
+
+    it('accepts a current code once', async () => {
+      const code = generateTotp(SECRET)
+      db.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+      await expect(verifySecondFactor('user-1', code)).resolves.toBe('totp')
+      await expect(verifySecondFactor('user-1', code)).resolves.toBeNull()
+      expect(db.user.updateMany.mock.calls[0][0].where.OR).toEqual([
+        { twoFactorLastStep: null },
+        { twoFactorLastStep: { lt: expect.any(Number) } },
+      ])
+    })
+
+    it('consumes recovery codes', async () => {
+      db.recoveryCode.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+      await expect(verifySecondFactor('user-1', 'abcde-fghjk')).resolves.toBe('recovery_code')
+      await expect(verifySecondFactor('user-1', 'abcde-fghjk')).resolves.toBeNull()
+      expect(db.recoveryCode.updateMany.mock.calls[0][0].where).toEqual({
+        userId: 'user-1',
+        codeHash: hashRecoveryCode('user-1', 'abcde-fghjk'),
+        usedAt: null,
+      })
+    })
+
+    it('rejects codes for accounts without 2FA', async () => {
+      db.user.findUnique.mockResolvedValue({ twoFactorEnabled: false, twoFactorSecret: null })
+
+      await expect(verifySecondFactor('user-1', generateTotp(SECRET))).resolves.toBeNull()
+      expect(db.user.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { prisma } from '@truecheckia/database'
+import { getUsageMetrics, resolveMetricsRange, rollupDailyStats } from '../services/usage-stats.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    analysis: { count: jest.fn(), groupBy: jest.fn() },
+    apiUsage: { count: jest.fn(), groupBy: jest.fn(), findMany: jest.fn() },
+    auditEvent: { groupBy: jest.fn() },
+    user: { count: jest.fn(), findMany: jest.fn() },
+    dailyStats: { upsert: jest.fn(), findMany: jest.fn() },
+  },
+}))
+
+const db = prisma as unknown as {
+  analysis: { count: jest.Mock; groupBy: jest.Mock }
+  apiUsage: { count: jest.Mock; groupBy: jest.Mock; findMany: jest.Mock }
+  auditEvent: { groupBy: jest.Mock }
+  user: { count: jest.Mock; findMany: jest.Mock }
+  dailyStats: { upsert: jest.Mock; findMany: jest.Mock }
+}
+
+function dailyRow(date: string, overrides: Record<string, unknown> = {}) {
+  return {
+    date: new Date(`${date}T00:00:00Z`),
+    analyses: 10,
+    cachedAnalyses: 2,
+    aiAnalyses: 6,
+    humanAnalyses: 4,
+    byLanguage: { pt: 10 },
+    byPlan: { FREE: 10 },
+    signups: 1,
+    activeUsers: 4,
+    apiCalls: 100,
+    apiErrors: 5,
+    apiLatencyP50: 200,
+    apiLatencyP95: 800,
+    ...overrides,
+  }
+}
+
+describe('Usage stats', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('rolls up a UTC day into one upserted row', async () => {
+    db.analysis.count.mockResolvedValueOnce(5).mockResolvedValueOnce(1).mockResolvedValueOnce(3)
+    db.analysis.groupBy
+      .mockResolvedValueOnce([
+        { language: 'pt', _count: { _all: 4 } },
+        { language: 'en', _count: { _all: 1 } },
+      ])
+      .mockResolvedValueOnce([
+        { userId: 'user-1', _count: { _all: 4 } },
+        { userId: 'user-gone', _count: { _all: 1 } },
+      ])
+    db.apiUsage.groupBy.mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-2' }])
+    db.auditEvent.groupBy.mockResolvedValue([{ actorId: 'user-3' }])
+    db.user.count.mockResolvedValue(2)
+    db.apiUsage.count.mockResolvedValueOnce(20).mockResolvedValueOnce(2)
+    db.user.findMany.mockResolvedValue([{ id: 'user-1', plan: 'PRO' }])
+    db.apiUsage.findMany.mockResolvedValueOnce([{ responseTime: 120 }]).mockResolvedValueOnce([{ responseTime: 900 }])
+
+    const stats = await rollupDailyStats(new Date('2026-01-05T18:30:00Z'))
+
+    const date = new Date('2026-01-05T00:00:00Z')
+    expect(db.analysis.count.mock.calls[0][0]).toEqual({
+      where: { createdAt: { gte: date, lt: new Date('2026-01-06T00:00:00Z') } },
+    })
+    expect(db.apiUsage.findMany.mock.calls.map(([args]) => args.skip)).toEqual([9, 18])
+    // Sign-ins come from audit events, which outlive the cleaned-up sessions
+    expect(db.auditEvent.groupBy.mock.calls[0][0].where).toEqual({
+      createdAt: { gte: date, lt: new Date('2026-01-06T00:00:00Z') },
+      action: { in: ['auth.login', 'auth.registered'] },
+      actorId: { not: null },
+    })
+    expect(stats).toEqual({
+      analyses: 5,
+      cachedAnalyses: 1,
+      aiAnalyses: 3,
+      humanAnalyses: 2,
+      byLanguage: { pt: 4, en: 1 },
+      byPlan: { PRO: 4, DELETED: 1 },
+      signups: 2,
+      activeUsers: 4,
+      apiCalls: 20,
+      apiErrors: 2,
+      apiLatencyP50: 120,
+      apiLatencyP95: 900,
+    })
+    expect(db.dailyStats.upsert).toHaveBeenCalledWith({ where: { date }, create: { date, ...stats }, update: stats })
+  })
+
+  it('merges daily rows into weeks', async () => {
+    db.dailyStats.findMany.mockResolvedValue([
+      dailyRow('2026-01-04'), // Sunday
+      dailyRow('2026-01-05', { activeUsers: 6, byLanguage: { en: 10 }, apiCalls: 300, apiLatencyP50: 100 }),
+      dailyRow('2026-01-06', { activeUsers: 2, apiCalls: 0, apiLatencyP50: null, apiLatencyP95: null }),
+    ])
+
+    const metrics = await getUsageMetrics(new Date('2026-01-01T00:00:00Z'), new Date('2026-01-06T00:00:00Z'), 'week')
+
+    expect(metrics.series.map(point => [point.period, point.days])).toEqual([
+      ['2025-12-29', 1],
+      ['2026-01-05', 2],
+    ])
+    expect(metrics.series[1]).toMatchObject({
+      analyses: 20,
+      byLanguage: { en: 10, pt: 10 },
+      activeUsers: 4,
+      apiCalls: 300,
+      apiLatencyP50: 100,
+      apiLatencyP95: 800,
+    })
+    expect(metrics.totals).toMatchObject({ days: 3, analyses: 30, apiLatencyP50: 125 })
+  })
+
+  it('defaults to the 30 days up to yesterday and rejects bad ranges', () => {
+    const now = new Date('2026-02-01T10:00:00Z')
+
+    expect(resolveMetricsRange({}, now)).toEqual({
+      status: 'ok',
+      from: new Date('2026-01-02T00:00:00Z'),
+      to: new Date('2026-01-31T00:00:00Z'),
+      granularity: 'day',
+    })
+    expect(resolveMetricsRange({ from: new Date('2026-01-10'), to: new Date('2026-01-01') }, now).status).toBe('invalid')
+    expect(resolveMetricsRange({ from: new Date('2020-01-01'), to: new Date('2026-01-01') }, now).status).toBe('invalid')
+  })
+})
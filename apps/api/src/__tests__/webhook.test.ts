@@ -0,0 +1,94 @@
+import dns from 'dns'
+import { prisma } from '@truecheckia/database'
+import {
+  getWebhookSecret,
+  isPublicAddress,
+  postWebhook,
+  signWebhookPayload,
+  validateWebhookUrl,
+  verifyWebhookSignature,
+} from '../services/webhook.service'
+
+jest.mock('@truecheckia/database', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+const db = prisma as unknown as {
+  user: { findUnique: jest.Mock; updateMany: jest.Mock }
+}
+
+const secret = 'whsec_test'
+const body = JSON.stringify({ id: 'delivery-1', event: 'analysis.completed', data: { aiScore: 82 } })
+const now = Date.UTC(2024, 5, 1, 12, 0, 0)
+const timestamp = Math.floor(now / 1000)
+
+describe('Webhook service', () => {
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const signature = signWebhookPayload(secret, timestamp, body)
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/)
+    expect(signature).toBe(signWebhookPayload(secret, timestamp, body))
+    expect(signature).not.toBe(signWebhookPayload(secret, timestamp + 1, body))
+    expect(signature).not.toBe(signWebhookPayload('whsec_other', timestamp, body))
+  })
+
+  it('verifies signatures within the timestamp tolerance', () => {
+    const signature = signWebhookPayload(secret, timestamp, body)
+
+    expect(verifyWebhookSignature(secret, timestamp, body, signature, 300, now)).toBe(true)
+    expect(verifyWebhookSignature(secret, timestamp, body, signature, 300, now + 301 * 1000)).toBe(false)
+    expect(verifyWebhookSignature(secret, timestamp, `${body} `, signature, 300, now)).toBe(false)
+    expect(verifyWebhookSignature(secret, timestamp, body, 'sha256=abc', 300, now)).toBe(false)
+  })
+
+  it('only accepts public HTTPS webhook URLs', () => {
+    expect(validateWebhookUrl('https://hooks.example.com/truecheckia')).toBeNull()
+    expect(validateWebhookUrl('not a url')).not.toBeNull()
+    expect(validateWebhookUrl('http://hooks.example.com/truecheckia')).toBe('webhook_url must use HTTPS')
+    expect(validateWebhookUrl('https://localhost:3000/hook')).toBe('webhook_url must point to a public host')
+    expect(validateWebhookUrl('https://10.0.0.5/hook')).toBe('webhook_url must point to a public host')
+    expect(validateWebhookUrl('https://[::1]/hook')).toBe('webhook_url must point to a public host')
+  })
+
+  it('treats private, loopback, link-local and mapped addresses as non-public', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true)
+    expect(isPublicAddress('2606:4700::1111')).toBe(true)
+    expect(isPublicAddress('169.254.169.254')).toBe(false)
+    expect(isPublicAddress('127.0.0.2')).toBe(false)
+    expect(isPublicAddress('172.20.1.1')).toBe(false)
+    expect(isPublicAddress('::ffff:10.0.0.1')).toBe(false)
+    expect(isPublicAddress('fd00::1')).toBe(false)
+    expect(isPublicAddress('not-an-ip')).toBe(false)
+  })
+
+  it('refuses to deliver to a host that resolves to a private address', async () => {
+    const lookup = jest.spyOn(dns, 'lookup').mockImplementation(((
+      _hostname: string,
+      _options: dns.LookupAllOptions,
+      callback: (error: null, addresses: dns.LookupAddress[]) => void
+    ) => callback(null, [{ address: '169.254.169.254', family: 4 }])) as unknown as typeof dns.lookup)
+
+    await expect(postWebhook('https://metadata.example.com/hook', {}, '{}')).rejects.toThrow(
+      'metadata.example.com resolves to a non-public address (169.254.169.254)'
+    )
+    lookup.mockRestore()
+  })
+
+  it('creates the signing secret only if none was stored concurrently', async () => {
+    db.user.findUnique
+      .mockResolvedValueOnce({ webhookSecret: null })
+      .mockResolvedValueOnce({ webhookSecret: 'whsec_from_other_request' })
+    db.user.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(getWebhookSecret('user-1')).resolves.toBe('whsec_from_other_request')
+    expect(db.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', webhookSecret: null },
+      data: { webhookSecret: expect.stringMatching(/^whsec_[0-9a-f]{64}$/) },
+    })
+  })
+})
@@ -1,10 +1,73 @@
-// @ts-nocheck
 import { Request, Response } from 'express'
 import bcrypt from 'bcryptjs'
 import { prisma } from '@truecheckia/database'
 import { config, ERROR_CODES } from '@truecheckia/config'
 import { AppError } from '../middleware/error.middleware'
-import type { ApiResponse } from '@truecheckia/types'
+import type {
+  AdminAdjustCreditsInput,
+  AdminChangePlanInput,
+  AdminPurgeDeadLetterInput,
+  AdminReasonInput,
+  AdminRequeueAllJobsInput,
+  AdminRequeueJobInput,
+  AdminSilenceAlertInput,
+  AdminSuspendInput,
+  ApiResponse,
+} from '@truecheckia/types'
+import {
+  adminAbuseFlagsQuerySchema,
+  adminAlertsQuerySchema,
+  adminAuditQuerySchema,
+  adminDeadLetterMetricsQuerySchema,
+  adminMetricsQuerySchema,
+  adminUsersQuerySchema,
+} from '@truecheckia/types'
+import { dismissAbuseFlag, listAbuseFlags } from '../services/abuse.service'
+import { acknowledgeAlert, listAlerts, silenceAlert, unsilenceAlert } from '../services/alert.service'
+import { getUsageMetrics, resolveMetricsRange } from '../services/usage-stats.service'
+import {
+  exportAuditEventsCsv,
+  getAuditContext,
+  listAuditEvents,
+  recordAuditEvent,
+} from '../services/audit.service'
+import {
+  adjustCredits,
+  banUser,
+  changePlan,
+  forceVerifyEmail,
+  getDeadLetterJob,
+  getDeadLetterMetrics,
+  getUserAnalyses,
+  getUserDetail,
+  getUserUsage,
+  impersonateUser,
+  listDeadLetterJobs,
+  purgeDeadLetterJob,
+  purgeDeadLetterJobs,
+  requeueAllDeadLetterJobs,
+  requeueDeadLetterJob,
+  searchUsers,
+  suspendUser,
+  unsuspendUser,
+  type AdminUserChange,
+} from '../services/admin.service'
+
+function sendUserChange(res: Response<ApiResponse>, result: AdminUserChange, message: string, unchangedMessage: string) {
+  if (result.status === 'not_found') {
+    throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
+  }
+
+  if (result.status === 'unchanged') {
+    throw new AppError(unchangedMessage, 409, ERROR_CODES.VALIDATION_ERROR)
+  }
+
+  res.json({
+    success: true,
+    data: result.user,
+    message,
+  })
+}
 
 class AdminController {
   async createDevUser(req: Request, res: Response<ApiResponse>) {
@@ -316,6 +379,323 @@ class AdminController {
       throw new AppError('Failed to seed sample data', 500, ERROR_CODES.INTERNAL_ERROR)
     }
   }
+
+  async listUsers(req: Request, res: Response<ApiResponse>) {
+    const { users, total, page, limit } = await searchUsers(adminUsersQuerySchema.parse(req.query))
+
+    res.json({
+      success: true,
+      data: users,
+      meta: { page, limit, total },
+    })
+  }
+
+  async getUser(req: Request<{ id: string }>, res: Response<ApiResponse>) {
+    const detail = await getUserDetail(req.params.id)
+
+    if (!detail) {
+      throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    res.json({
+      success: true,
+      data: detail,
+    })
+  }
+
+  async getUserAnalyses(req: Request<{ id: string }>, res: Response<ApiResponse>) {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+
+    const { analyses, total } = await getUserAnalyses(req.params.id, page, limit)
+
+    res.json({
+      success: true,
+      data: analyses,
+      meta: { page, limit, total },
+    })
+  }
+
+  async getUserUsage(req: Request<{ id: string }>, res: Response<ApiResponse>) {
+    res.json({
+      success: true,
+      data: await getUserUsage(req.params.id),
+    })
+  }
+
+  async adjustCredits(req: Request<{ id: string }, unknown, AdminAdjustCreditsInput>, res: Response<ApiResponse>) {
+    const { amount, reason } = req.body
+    const result = await adjustCredits(getAuditContext(req), req.params.id, amount, reason)
+
+    sendUserChange(res, result, 'Credits adjusted', 'Credits are already at zero')
+  }
+
+  async changePlan(req: Request<{ id: string }, unknown, AdminChangePlanInput>, res: Response<ApiResponse>) {
+    const { plan, reason } = req.body
+    const result = await changePlan(getAuditContext(req), req.params.id, plan, reason)
+
+    sendUserChange(res, result, `Plan changed to ${plan}`, `User is already on the ${plan} plan`)
+  }
+
+  async verifyEmail(req: Request<{ id: string }, unknown, AdminReasonInput>, res: Response<ApiResponse>) {
+    const result = await forceVerifyEmail(getAuditContext(req), req.params.id, req.body.reason)
+
+    sendUserChange(res, result, 'Email marked as verified', 'Email is already verified')
+  }
+
+  async suspendUser(req: Request<{ id: string }, unknown, AdminSuspendInput>, res: Response<ApiResponse>) {
+    const { reason, expiresAt } = req.body
+    const result = await suspendUser(getAuditContext(req), req.params.id, reason, expiresAt ? new Date(expiresAt) : null)
+
+    if (result.status === 'self') {
+      throw new AppError('You cannot suspend your own account', 400, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    sendUserChange(res, result, 'User suspended and signed out of all sessions', 'User is already suspended')
+  }
+
+  async banUser(req: Request<{ id: string }, unknown, AdminReasonInput>, res: Response<ApiResponse>) {
+    const result = await banUser(getAuditContext(req), req.params.id, req.body.reason)
+
+    if (result.status === 'self') {
+      throw new AppError('You cannot ban your own account', 400, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    sendUserChange(res, result, 'User banned and signed out of all sessions', 'User is already banned')
+  }
+
+  async unsuspendUser(req: Request<{ id: string }, unknown, AdminReasonInput>, res: Response<ApiResponse>) {
+    const result = await unsuspendUser(getAuditContext(req), req.params.id, req.body.reason)
+
+    sendUserChange(res, result, 'User reactivated', 'User is not suspended or banned')
+  }
+
+  async listAbuseFlags(req: Request, res: Response<ApiResponse>) {
+    const { flags, total, page, limit } = await listAbuseFlags(adminAbuseFlagsQuerySchema.parse(req.query))
+
+    res.json({
+      success: true,
+      data: flags,
+      meta: { page, limit, total },
+    })
+  }
+
+  async dismissAbuseFlag(req: Request<{ id: string }, unknown, AdminReasonInput>, res: Response<ApiResponse>) {
+    const result = await dismissAbuseFlag(getAuditContext(req), req.params.id, req.body.reason)
+
+    if (result === 'not_found') {
+      throw new AppError('Abuse flag not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    if (result === 'unchanged') {
+      throw new AppError('Abuse flag has already been reviewed', 409, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    res.json({
+      success: true,
+      message: 'Abuse flag dismissed',
+    })
+  }
+
+  async impersonateUser(req: Request<{ id: string }, unknown, AdminReasonInput>, res: Response<ApiResponse>) {
+    const result = await impersonateUser(getAuditContext(req), req.sessionId!, req.params.id, req.body.reason)
+
+    if (result.status === 'not_found') {
+      throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    if (result.status === 'forbidden') {
+      throw new AppError('Admin accounts cannot be impersonated', 403, ERROR_CODES.UNAUTHORIZED)
+    }
+
+    res.json({
+      success: true,
+      data: {
+        accessToken: result.accessToken,
+        expiresIn: result.expiresIn,
+        readOnly: true,
+        user: result.user,
+      },
+    })
+  }
+
+  async listDeadLetterJobs(req: Request, res: Response<ApiResponse>) {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+
+    const { jobs, total, stats } = await listDeadLetterJobs(req.query.queue as string | undefined, page, limit)
+
+    res.json({
+      success: true,
+      data: { jobs, stats },
+      meta: { page, limit, total },
+    })
+  }
+
+  async getDeadLetterJob(req: Request<{ jobId: string }>, res: Response<ApiResponse>) {
+    const job = await getDeadLetterJob(req.params.jobId)
+
+    if (!job) {
+      throw new AppError('Job not found in the dead letter queue', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    res.json({
+      success: true,
+      data: job,
+    })
+  }
+
+  async getDeadLetterMetrics(req: Request, res: Response<ApiResponse>) {
+    const { days = 7 } = adminDeadLetterMetricsQuerySchema.parse(req.query)
+
+    res.json({
+      success: true,
+      data: await getDeadLetterMetrics(days),
+    })
+  }
+
+  async requeueDeadLetterJob(req: Request<{ jobId: string }, unknown, AdminRequeueJobInput>, res: Response<ApiResponse>) {
+    const result = await requeueDeadLetterJob(getAuditContext(req), req.params.jobId, req.body.reason, req.body.data)
+
+    if (result === 'not_found') {
+      throw new AppError('Job not found in the dead letter queue', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    if (result === 'failed') {
+      throw new AppError('Failed to requeue job', 500, ERROR_CODES.INTERNAL_ERROR)
+    }
+
+    res.json({
+      success: true,
+      message: 'Job requeued',
+    })
+  }
+
+  async listAlerts(req: Request, res: Response<ApiResponse>) {
+    const { alerts, total, page, limit } = await listAlerts(adminAlertsQuerySchema.parse(req.query))
+
+    res.json({
+      success: true,
+      data: alerts,
+      meta: { page, limit, total },
+    })
+  }
+
+  async acknowledgeAlert(req: Request<{ id: string }, unknown, AdminReasonInput>, res: Response<ApiResponse>) {
+    const result = await acknowledgeAlert(getAuditContext(req), req.params.id, req.body.reason)
+
+    if (result === 'not_found') {
+      throw new AppError('Alert not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    if (result === 'unchanged') {
+      throw new AppError('Only firing alerts can be acknowledged', 409, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    res.json({
+      success: true,
+      message: 'Alert acknowledged',
+    })
+  }
+
+  async silenceAlert(req: Request<{ id: string }, unknown, AdminSilenceAlertInput>, res: Response<ApiResponse>) {
+    const result = await silenceAlert(getAuditContext(req), req.params.id, req.body.durationMinutes, req.body.reason)
+
+    if (result.status === 'not_found') {
+      throw new AppError('Alert not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    res.json({
+      success: true,
+      data: { silencedUntil: result.until },
+      message: 'Alert silenced',
+    })
+  }
+
+  async unsilenceAlert(req: Request<{ id: string }, unknown, AdminReasonInput>, res: Response<ApiResponse>) {
+    const result = await unsilenceAlert(getAuditContext(req), req.params.id, req.body.reason)
+
+    if (result === 'not_found') {
+      throw new AppError('Alert not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    if (result === 'unchanged') {
+      throw new AppError('Alert is not silenced', 409, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    res.json({
+      success: true,
+      message: 'Alert unsilenced',
+    })
+  }
+
+  async requeueAllDeadLetterJobs(req: Request<Record<string, never>, unknown, AdminRequeueAllJobsInput>, res: Response<ApiResponse>) {
+    const result = await requeueAllDeadLetterJobs(getAuditContext(req), req.body.queue, req.body.reason)
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.retried} job(s) requeued`,
+    })
+  }
+
+  async purgeDeadLetterJob(req: Request<{ jobId: string }, unknown, AdminReasonInput>, res: Response<ApiResponse>) {
+    if (!(await purgeDeadLetterJob(getAuditContext(req), req.params.jobId, req.body.reason))) {
+      throw new AppError('Job not found in the dead letter queue', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    res.json({
+      success: true,
+      message: 'Job deleted',
+    })
+  }
+
+  async purgeDeadLetterJobs(req: Request<Record<string, never>, unknown, AdminPurgeDeadLetterInput>, res: Response<ApiResponse>) {
+    const { reason, ...target } = req.body
+    const result = await purgeDeadLetterJobs(getAuditContext(req), target, reason)
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.purged} job(s) deleted`,
+    })
+  }
+
+  async getMetrics(req: Request, res: Response<ApiResponse>) {
+    const range = resolveMetricsRange(adminMetricsQuerySchema.parse(req.query))
+
+    if (range.status === 'invalid') {
+      throw new AppError(range.message, 400, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    res.json({
+      success: true,
+      data: await getUsageMetrics(range.from, range.to, range.granularity),
+    })
+  }
+
+  async listAuditEvents(req: Request, res: Response) {
+    const { format, page = 1, limit = 50, ...filters } = adminAuditQuerySchema.parse(req.query)
+
+    if (format === 'csv') {
+      const csv = await exportAuditEventsCsv(filters)
+      // Exports leave the system, so they are audited too
+      await recordAuditEvent(getAuditContext(req), { action: 'admin.audit.exported', after: { filters } })
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+      res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`)
+      // BOM so spreadsheet applications detect UTF-8
+      return res.send('\uFEFF' + csv)
+    }
+
+    const { events, total } = await listAuditEvents(filters, page, limit)
+
+    res.json({
+      success: true,
+      data: events,
+      meta: { page, limit, total },
+    })
+  }
 }
 
 export const adminController = new AdminController()
\ No newline at end of file
@@ -3,164 +3,420 @@ import { Request, Response } from 'express'
 import { prisma } from '@truecheckia/database'
 import { config, ERROR_CODES } from '@truecheckia/config'
 import { AppError } from '../middleware/error.middleware'
-import { analyzeWithOpenAI } from '../services/openai.service'
+import {
+  analyzeWithDetectors,
+  describeDetectors,
+  getAnalysisCacheKey,
+  getDetectorsForPlan,
+} from '../services/openai.service'
 import { RedisAdapter } from '../lib/queue-adapter'
-import { createHash } from 'crypto'
-import type { ApiResponse, AnalyzeTextInput, AnalysisResult } from '@truecheckia/types'
+import { DocumentProgress } from '../lib/document-progress'
+import { recordCacheLookup } from '../lib/metrics'
+import { ServerlessAnalysisQueue } from '../queues/serverless-analysis.queue'
+import { calculateCreditCost, splitIntoChunks } from '../services/document.service'
+import { detectFormat, extractText } from '../services/extraction.service'
+import type { ExtractedDocument } from '../services/extraction.service'
+import { generateAnalysisReport } from '../services/report.service'
+import { emailService } from '../services/email.service'
+import { getUserPreferences, isAiGeneratedFor, resolveAnalysisLanguage } from '../services/preferences.service'
+import { createHash, randomUUID } from 'crypto'
+import type { ApiResponse, AnalyzeTextInput, AnalyzeDocumentInput, AnalysisResult } from '@truecheckia/types'
 
-class AnalysisController {
-  async analyzeText(req: Request<{}, {}, AnalyzeTextInput>, res: Response<ApiResponse>) {
-    const { text, language = 'pt' } = req.body
-    const userId = req.userId!
+/**
+ * Analyze a text synchronously, charging one credit to FREE users.
+ * Shared by pasted text and uploaded documents. Without a language the
+ * user's preferred analysis language is used, and the result is only kept
+ * in the history when the user has auto-save on.
+ */
+async function runTextAnalysis(
+  userId: string,
+  text: string,
+  requestedLanguage?: string,
+  metadata?: Record<string, any>
+): Promise<AnalysisResult> {
+  // Check user credits
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { 
+      credits: true, 
+      plan: true,
+      creditsResetAt: true,
+    },
+  })
 
-    // Check user credits
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { 
-        credits: true, 
-        plan: true,
-        creditsResetAt: true,
-      },
-    })
+  if (!user) {
+    throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
+  }
 
-    if (!user) {
-      throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
+  // Reset credits if needed (monthly reset for free users)
+  if (user.plan === 'FREE') {
+    const now = new Date()
+    const resetDate = new Date(user.creditsResetAt)
+    const daysSinceReset = Math.floor((now.getTime() - resetDate.getTime()) / (1000 * 60 * 60 * 24))
+    
+    if (daysSinceReset >= 30) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          credits: config.limits.freeCredits,
+          creditsResetAt: now,
+        },
+      })
+      user.credits = config.limits.freeCredits
     }
+  }
+
+  // Check if user has credits (unlimited for PRO/ENTERPRISE)
+  if (user.plan === 'FREE' && user.credits <= 0) {
+    throw new AppError(
+      'Insufficient credits',
+      403,
+      ERROR_CODES.INSUFFICIENT_CREDITS,
+      { creditsRemaining: 0 }
+    )
+  }
 
-    // Reset credits if needed (monthly reset for free users)
+  const preferences = await getUserPreferences(userId)
+  const language = resolveAnalysisLanguage(requestedLanguage, preferences)
+  const aiThreshold = preferences.analysisSettings.confidenceThreshold
+  const autoSave = preferences.analysisSettings.autoSave
+
+  // Generate cache key
+  const textHash = createHash('sha256').update(text).digest('hex')
+  const cacheKey = getAnalysisCacheKey(text, language, getDetectorsForPlan(user.plan))
+
+  // Check cache
+  const cached = await RedisAdapter.cacheGet(cacheKey)
+  recordCacheLookup('analysis', Boolean(cached))
+  if (cached) {
+    // Still deduct credit for cached results
     if (user.plan === 'FREE') {
-      const now = new Date()
-      const resetDate = new Date(user.creditsResetAt)
-      const daysSinceReset = Math.floor((now.getTime() - resetDate.getTime()) / (1000 * 60 * 60 * 24))
-      
-      if (daysSinceReset >= 30) {
-        await prisma.user.update({
-          where: { id: userId },
-          data: {
-            credits: config.limits.freeCredits,
-            creditsResetAt: now,
-          },
-        })
-        user.credits = config.limits.freeCredits
-      }
+      await prisma.user.update({
+        where: { id: userId },
+        data: { credits: { decrement: 1 } },
+      })
     }
 
-    // Check if user has credits (unlimited for PRO/ENTERPRISE)
-    if (user.plan === 'FREE' && user.credits <= 0) {
+    // Cached results are shared between users, so apply this user's threshold
+    const isAiGenerated = isAiGeneratedFor(cached.aiScore, preferences)
+
+    // Save to history
+    const analysis = autoSave ? await prisma.analysis.create({
+      data: {
+        userId,
+        text: text.substring(0, 500), // Store first 500 chars only
+        wordCount: text.split(/\s+/).length,
+        charCount: text.length,
+        language,
+        aiScore: cached.aiScore,
+        confidence: cached.confidence,
+        isAiGenerated,
+        indicators: cached.indicators,
+        explanation: cached.explanation,
+        suspiciousParts: cached.suspiciousParts,
+        processingTime: 0,
+        cached: true,
+        metadata,
+        textHash,
+      },
+    }) : null
+
+    return {
+      ...cached,
+      id: analysis?.id ?? '',
+      isAiGenerated,
+      cached: true,
+    }
+  }
+
+  // Perform analysis
+  const startTime = Date.now()
+  let result: AnalysisResult
+  try {
+    result = await analyzeWithDetectors(text, language, { plan: user.plan, aiThreshold })
+  } catch (error) {
+    console.error('Analysis failed:', error)
+    throw new AppError(
+      'AI analysis service is temporarily unavailable. Please try again later.',
+      503,
+      ERROR_CODES.SERVICE_UNAVAILABLE
+    )
+  }
+  const processingTime = Date.now() - startTime
+
+  // Deduct credit only after successful analysis
+  if (user.plan === 'FREE') {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { credits: { decrement: 1 } },
+    })
+  }
+
+  // Save to database
+  const analysis = autoSave ? await prisma.analysis.create({
+    data: {
+      userId,
+      text: text.substring(0, 500),
+      wordCount: text.split(/\s+/).length,
+      charCount: text.length,
+      language,
+      aiScore: result.aiScore,
+      confidence: result.confidence,
+      isAiGenerated: result.isAiGenerated,
+      indicators: result.indicators as any,
+      explanation: result.explanation,
+      suspiciousParts: result.suspiciousParts as any,
+      processingTime,
+      cached: false,
+      modelUsed: describeDetectors(result.detectors),
+      metadata,
+      textHash,
+    },
+  }) : null
+
+  // Cache result
+  await RedisAdapter.cacheSet(cacheKey, result, config.cache.ttl)
+
+  // Prepare response
+  const response: AnalysisResult = {
+    id: analysis?.id ?? '',
+    aiScore: result.aiScore,
+    confidence: result.confidence,
+    isAiGenerated: result.isAiGenerated,
+    indicators: result.indicators,
+    explanation: result.explanation,
+    suspiciousParts: result.suspiciousParts,
+    processingTime,
+    wordCount: result.wordCount,
+    charCount: result.charCount,
+    detectors: result.detectors,
+    metrics: result.metrics,
+    sentences: result.sentences,
+  }
+
+  return response
+}
+
+/**
+ * Queue a long document for chunked analysis. FREE credits are reserved
+ * here and refunded by the queue if the document fails for good.
+ */
+async function queueDocumentAnalysis(
+  userId: string,
+  text: string,
+  requestedLanguage?: string,
+  metadata?: Record<string, any>
+) {
+  if (text.length > config.limits.document.maxTextLength) {
+    throw new AppError(
+      `Document exceeds the maximum of ${config.limits.document.maxTextLength} characters`,
+      400,
+      ERROR_CODES.TEXT_TOO_LONG
+    )
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      credits: true,
+      plan: true,
+    },
+  })
+
+  if (!user) {
+    throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
+  }
+
+  // Long documents cost more than one credit. The conditional decrement
+  // keeps concurrent uploads from spending the same credits twice.
+  const creditCost = calculateCreditCost(text.length)
+  if (user.plan === 'FREE') {
+    const reserved = await prisma.user.updateMany({
+      where: { id: userId, credits: { gte: creditCost } },
+      data: { credits: { decrement: creditCost } },
+    })
+
+    if (reserved.count === 0) {
       throw new AppError(
         'Insufficient credits',
         403,
         ERROR_CODES.INSUFFICIENT_CREDITS,
-        { creditsRemaining: 0 }
+        { creditsRequired: creditCost, creditsRemaining: user.credits }
       )
     }
+  }
 
-    // Generate cache key
-    const textHash = createHash('sha256').update(text).digest('hex')
-    const cacheKey = `${config.cache.analysisPrefix}${textHash}`
-
-    // Check cache
-    const cached = await RedisAdapter.cacheGet(cacheKey)
-    if (cached) {
-      // Still deduct credit for cached results
-      if (user.plan === 'FREE') {
-        await prisma.user.update({
-          where: { id: userId },
-          data: { credits: { decrement: 1 } },
-        })
-      }
-
-      // Save to history
-      const analysis = await prisma.analysis.create({
-        data: {
-          userId,
-          text: text.substring(0, 500), // Store first 500 chars only
-          wordCount: text.split(/\s+/).length,
-          charCount: text.length,
-          language,
-          aiScore: cached.aiScore,
-          confidence: cached.confidence,
-          isAiGenerated: cached.isAiGenerated,
-          indicators: cached.indicators,
-          explanation: cached.explanation,
-          suspiciousParts: cached.suspiciousParts,
-          processingTime: 0,
-          cached: true,
-        },
-      })
+  const preferences = await getUserPreferences(userId)
+  const language = resolveAnalysisLanguage(requestedLanguage, preferences)
 
-      return res.json({
-        success: true,
-        data: {
-          ...cached,
-          id: analysis.id,
-          cached: true,
-        },
+  const documentId = randomUUID()
+  const totalChunks = splitIntoChunks(text, config.limits.document.chunkSize, language).length
+
+  try {
+    await DocumentProgress.create({
+      id: documentId,
+      userId,
+      status: 'QUEUED',
+      totalChunks,
+      completedChunks: 0,
+      creditCost,
+    })
+
+    // Processed by the queue so each invocation stays within serverless limits
+    await ServerlessAnalysisQueue.addJob({
+      userId,
+      text,
+      language,
+      plan: user.plan,
+      documentId,
+      metadata,
+      priority: 1,
+    })
+  } catch (error) {
+    if (user.plan === 'FREE') {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { credits: { increment: creditCost } },
       })
     }
+    throw error
+  }
+
+  return {
+    documentId,
+    status: 'QUEUED',
+    totalChunks,
+    creditCost,
+  }
+}
 
-    // Perform analysis
-    const startTime = Date.now()
-    let result: AnalysisResult
+/**
+ * Render the PDF report of one of the user's analyses
+ */
+async function buildAnalysisReport(analysisId: string, userId: string) {
+  const analysis = await prisma.analysis.findFirst({
+    where: { id: analysisId, userId },
+    include: { user: { select: { name: true, email: true } } },
+  })
+
+  if (!analysis) {
+    throw new AppError('Analysis not found', 404, ERROR_CODES.NOT_FOUND)
+  }
+
+  const pdf = await generateAnalysisReport(analysis, { userName: analysis.user.name || analysis.user.email })
+  return {
+    analysis,
+    pdf,
+    fileName: `truecheckia-report-${analysis.id}.pdf`,
+  }
+}
+
+class AnalysisController {
+  async analyzeText(req: Request<{}, {}, AnalyzeTextInput>, res: Response<ApiResponse>) {
+    const { text, language } = req.body
+
+    const data = await runTextAnalysis(req.userId!, text, language)
+
+    res.json({
+      success: true,
+      data,
+    })
+  }
+
+  async analyzeDocument(req: Request<{}, {}, AnalyzeDocumentInput>, res: Response<ApiResponse>) {
+    const { text, language } = req.body
+
+    const data = await queueDocumentAnalysis(req.userId!, text, language)
+
+    res.status(202).json({
+      success: true,
+      data,
+    })
+  }
+
+  async uploadDocument(req: Request, res: Response<ApiResponse>) {
+    const file = req.file!
+    const language = ['pt', 'en'].includes(req.body.language) ? req.body.language : undefined
+    const format = detectFormat(file.mimetype, file.originalname)!
+
+    let extracted: ExtractedDocument
     try {
-      result = await analyzeWithOpenAI(text, language)
+      extracted = await extractText(file.buffer, format)
     } catch (error) {
-      console.error('Analysis failed:', error)
+      console.error('Text extraction failed:', error)
       throw new AppError(
-        'AI analysis service is temporarily unavailable. Please try again later.',
-        503,
-        ERROR_CODES.SERVICE_UNAVAILABLE
+        'Could not extract text from the document. The file may be corrupted or password protected.',
+        422,
+        ERROR_CODES.EXTRACTION_FAILED
       )
     }
-    const processingTime = Date.now() - startTime
 
-    // Deduct credit only after successful analysis
-    if (user.plan === 'FREE') {
-      await prisma.user.update({
-        where: { id: userId },
-        data: { credits: { decrement: 1 } },
+    const { text } = extracted
+    if (text.length < config.limits.analysis.minTextLength) {
+      throw new AppError(
+        `Extracted text must have at least ${config.limits.analysis.minTextLength} characters`,
+        400,
+        ERROR_CODES.TEXT_TOO_SHORT,
+        { extractedLength: text.length }
+      )
+    }
+
+    const document = {
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      pageCount: extracted.pageCount ?? null,
+    }
+
+    // Texts over the synchronous limit go through the chunked pipeline
+    if (text.length > config.limits.analysis.maxTextLength) {
+      const queued = await queueDocumentAnalysis(req.userId!, text, language, document)
+
+      return res.status(202).json({
+        success: true,
+        data: {
+          ...queued,
+          document: { ...document, text },
+        },
       })
     }
 
-    // Save to database
-    const analysis = await prisma.analysis.create({
+    const result = await runTextAnalysis(req.userId!, text, language, document)
+
+    res.json({
+      success: true,
       data: {
-        userId,
-        text: text.substring(0, 500),
-        wordCount: text.split(/\s+/).length,
-        charCount: text.length,
-        language,
-        aiScore: result.aiScore,
-        confidence: result.confidence,
-        isAiGenerated: result.isAiGenerated,
-        indicators: result.indicators as any,
-        explanation: result.explanation,
-        suspiciousParts: result.suspiciousParts as any,
-        processingTime,
-        cached: false,
+        ...result,
+        document: { ...document, text },
       },
     })
+  }
 
-    // Cache result
-    await RedisAdapter.cacheSet(cacheKey, result, config.cache.ttl)
+  async getDocumentStatus(req: Request, res: Response<ApiResponse>) {
+    const { documentId } = req.params
+    const userId = req.userId!
 
-    // Prepare response
-    const response: AnalysisResult = {
-      id: analysis.id,
-      aiScore: result.aiScore,
-      confidence: result.confidence,
-      isAiGenerated: result.isAiGenerated,
-      indicators: result.indicators,
-      explanation: result.explanation,
-      suspiciousParts: result.suspiciousParts,
-      processingTime,
-      wordCount: analysis.wordCount,
-      charCount: analysis.charCount,
+    const state = await DocumentProgress.get(documentId)
+    if (!state || state.userId !== userId) {
+      throw new AppError('Document not found', 404, ERROR_CODES.NOT_FOUND)
     }
 
+    const analysis = state.analysisId
+      ? await prisma.analysis.findFirst({ where: { id: state.analysisId, userId } })
+      : null
+
     res.json({
       success: true,
-      data: response,
+      data: {
+        documentId: state.id,
+        status: state.status,
+        totalChunks: state.totalChunks,
+        completedChunks: state.completedChunks,
+        creditCost: state.creditCost,
+        error: state.error,
+        createdAt: new Date(state.createdAt),
+        updatedAt: new Date(state.updatedAt),
+        analysis,
+      },
     })
   }
 
@@ -221,6 +477,46 @@ class AnalysisController {
     })
   }
 
+  async getReport(req: Request, res: Response) {
+    const { pdf, fileName } = await buildAnalysisReport(req.params.id, req.userId!)
+
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`)
+    res.setHeader('Content-Length', pdf.length)
+    res.send(pdf)
+  }
+
+  async emailReport(req: Request, res: Response<ApiResponse>) {
+    const { analysis, pdf, fileName } = await buildAnalysisReport(req.params.id, req.userId!)
+
+    try {
+      await emailService.sendAnalysisReportEmail(
+        analysis.user.email,
+        {
+          text: analysis.text,
+          score: Math.round(analysis.aiScore),
+          confidence: analysis.confidence,
+          explanation: analysis.explanation,
+        },
+        { filename: fileName, content: pdf, contentType: 'application/pdf' }
+      )
+    } catch (error) {
+      console.error('Failed to send analysis report email:', error)
+      throw new AppError(
+        'Could not send the report email. Please try again later.',
+        503,
+        ERROR_CODES.SERVICE_UNAVAILABLE
+      )
+    }
+
+    res.json({
+      success: true,
+      data: {
+        message: `Report sent to ${analysis.user.email}`,
+      },
+    })
+  }
+
   async getStats(req: Request, res: Response<ApiResponse>) {
     const userId = req.userId!
 
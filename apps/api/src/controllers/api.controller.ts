@@ -3,32 +3,26 @@ import { Request, Response } from 'express'
 import { prisma } from '@truecheckia/database'
 import { config, ERROR_CODES } from '@truecheckia/config'
 import { AppError } from '../middleware/error.middleware'
-import { analyzeWithOpenAI } from '../services/openai.service'
+import {
+  analyzeWithDetectors,
+  describeDetectors,
+  getAnalysisCacheKey,
+  getDetectorsForPlan,
+} from '../services/openai.service'
 import { cacheGet, cacheSet } from '../lib/redis'
+import { recordCacheLookup } from '../lib/metrics'
+import { ServerlessAnalysisQueue } from '../queues/serverless-analysis.queue'
+import { getUserPreferences, isAiGeneratedFor, resolveAnalysisLanguage } from '../services/preferences.service'
+import { getWebhookSecret, listWebhookDeliveries, rotateWebhookSecret, validateWebhookUrl } from '../services/webhook.service'
 import { createHash } from 'crypto'
-import type { ApiResponse, AnalyzeTextInput } from '@truecheckia/types'
+import type { ApiResponse, ApiAnalyzeInput } from '@truecheckia/types'
 
 class ApiController {
-  async analyze(req: Request<{}, {}, AnalyzeTextInput & { webhook_url?: string }>, res: Response<ApiResponse>) {
-    const { text, language = 'pt', webhook_url } = req.body
-    const apiKey = req.headers['x-api-key'] as string
+  async analyze(req: Request<{}, {}, ApiAnalyzeInput>, res: Response<ApiResponse>) {
+    const { text, webhook_url } = req.body
+    const isAsync = req.body.async === true || req.query.async === 'true'
 
-    if (!apiKey) {
-      throw new AppError('API key required', 401, ERROR_CODES.UNAUTHORIZED)
-    }
-
-    // Find user by API key
-    const user = await prisma.user.findUnique({
-      where: { apiKey },
-      select: { 
-        id: true,
-        plan: true,
-      },
-    })
-
-    if (!user) {
-      throw new AppError('Invalid API key', 401, ERROR_CODES.UNAUTHORIZED)
-    }
+    const user = { id: req.userId!, plan: req.user!.plan }
 
     if (user.plan === 'FREE') {
       throw new AppError(
@@ -38,15 +32,65 @@ class ApiController {
       )
     }
 
+    if (webhook_url) {
+      const problem = validateWebhookUrl(webhook_url)
+      if (problem) {
+        throw new AppError(problem, 400, ERROR_CODES.VALIDATION_ERROR)
+      }
+    }
+
+    const preferences = await getUserPreferences(user.id)
+    const language = resolveAnalysisLanguage(req.body.language, preferences)
+
     // Log API usage
     const startTime = Date.now()
 
+    if (isAsync) {
+      if (!webhook_url) {
+        throw new AppError('webhook_url is required when async=true', 400, ERROR_CODES.VALIDATION_ERROR)
+      }
+
+      // Make sure the secret exists before the first delivery is signed
+      await getWebhookSecret(user.id)
+
+      const jobId = await ServerlessAnalysisQueue.addJob({
+        userId: user.id,
+        text,
+        language,
+        plan: user.plan,
+        webhookUrl: webhook_url,
+        metadata: { source: 'api' },
+      })
+
+      await prisma.apiUsage.create({
+        data: {
+          userId: user.id,
+          endpoint: '/api/v1/analyze',
+          method: 'POST',
+          statusCode: 202,
+          responseTime: Date.now() - startTime,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+        },
+      })
+
+      return res.status(202).json({
+        success: true,
+        data: {
+          jobId,
+          status: 'queued',
+          webhookUrl: webhook_url,
+        },
+      })
+    }
+
     // Generate cache key
     const textHash = createHash('sha256').update(text).digest('hex')
-    const cacheKey = `${config.cache.analysisPrefix}${textHash}`
+    const cacheKey = getAnalysisCacheKey(text, language, getDetectorsForPlan(user.plan))
 
     // Check cache
     const cached = await cacheGet(cacheKey)
+    recordCacheLookup('analysis', Boolean(cached))
     if (cached) {
       // Log API usage
       await prisma.apiUsage.create({
@@ -65,17 +109,22 @@ class ApiController {
         success: true,
         data: {
           ...cached,
+          // Cached results are shared between users, so apply this user's threshold
+          isAiGenerated: isAiGeneratedFor(cached.aiScore, preferences),
           cached: true,
         },
       })
     }
 
     // Perform analysis
-    const result = await analyzeWithOpenAI(text, language)
+    const result = await analyzeWithDetectors(text, language, {
+      plan: user.plan,
+      aiThreshold: preferences.analysisSettings.confidenceThreshold,
+    })
     const processingTime = Date.now() - startTime
 
-    // Save to database
-    const analysis = await prisma.analysis.create({
+    // Save to history unless the user turned auto-save off
+    const analysis = preferences.analysisSettings.autoSave ? await prisma.analysis.create({
       data: {
         userId: user.id,
         text: text.substring(0, 500),
@@ -90,8 +139,10 @@ class ApiController {
         suspiciousParts: result.suspiciousParts,
         processingTime,
         cached: false,
+        modelUsed: describeDetectors(result.detectors),
+        textHash,
       },
-    })
+    }) : null
 
     // Cache result
     await cacheSet(cacheKey, result, config.cache.ttl)
@@ -109,13 +160,20 @@ class ApiController {
       },
     })
 
-    // TODO: If webhook_url provided, send result asynchronously
+    if (webhook_url) {
+      // Delivered in the background; failures are retried and logged
+      ServerlessAnalysisQueue.sendWebhook(
+        webhook_url,
+        { analysisId: analysis?.id, ...result },
+        { userId: user.id, analysisId: analysis?.id }
+      )
+    }
 
     res.json({
       success: true,
       data: {
-        id: analysis.id,
         ...result,
+        id: analysis?.id ?? '',
       },
     })
   }
@@ -132,20 +190,7 @@ class ApiController {
   }
 
   async getUsage(req: Request, res: Response<ApiResponse>) {
-    const apiKey = req.headers['x-api-key'] as string
-
-    if (!apiKey) {
-      throw new AppError('API key required', 401, ERROR_CODES.UNAUTHORIZED)
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { apiKey },
-      select: { id: true },
-    })
-
-    if (!user) {
-      throw new AppError('Invalid API key', 401, ERROR_CODES.UNAUTHORIZED)
-    }
+    const user = { id: req.userId! }
 
     const period = (req.query.period as string) || 'month'
     
@@ -202,6 +247,43 @@ class ApiController {
       },
     })
   }
+
+  async getWebhookDeliveries(req: Request, res: Response<ApiResponse>) {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+    const status = req.query.status as string | undefined
+
+    const { deliveries, total } = await listWebhookDeliveries(req.userId!, { page, limit, status })
+
+    res.json({
+      success: true,
+      data: deliveries,
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    })
+  }
+
+  async getWebhookSecret(req: Request, res: Response<ApiResponse>) {
+    res.json({
+      success: true,
+      data: {
+        secret: await getWebhookSecret(req.userId!),
+      },
+    })
+  }
+
+  async rotateWebhookSecret(req: Request, res: Response<ApiResponse>) {
+    res.json({
+      success: true,
+      data: {
+        secret: await rotateWebhookSecret(req.userId!),
+        message: 'Webhook secret rotated. Deliveries are now signed with the new secret.',
+      },
+    })
+  }
 }
 
 export const apiController = new ApiController()
\ No newline at end of file
@@ -1,16 +1,95 @@
 // @ts-nocheck
 import { Request, Response } from 'express'
 import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
 import crypto from 'crypto'
 import { prisma } from '@truecheckia/database'
 import { config, ERROR_CODES } from '@truecheckia/config'
 import { AppError } from '../middleware/error.middleware'
 import { emailService } from '../services/email.service'
 import { QueueAdapter } from '../lib/queue-adapter'
-import type { ApiResponse, LoginInput, RegisterInput, JWTPayload } from '@truecheckia/types'
-import { authenticate } from '../middleware/auth.middleware'
-import { generateTokens } from '../lib/jwt.utils'
+import type {
+  ApiResponse,
+  LoginInput,
+  RegisterInput,
+  TwoFactorCodeInput,
+  VerifyTwoFactorLoginInput,
+} from '@truecheckia/types'
+import { assertAccountActive, authenticate } from '../middleware/auth.middleware'
+import {
+  createSession,
+  describeLocation,
+  findSessionId,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  revokeUserSession,
+  rotateRefreshToken,
+  type SessionContext,
+  type SessionTokens,
+} from '../services/session.service'
+import {
+  confirmEnrollment,
+  createMfaToken,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  verifyMfaToken,
+  verifySecondFactor,
+} from '../services/two-factor.service'
+import { getAccountBlock } from '../services/account-status.service'
+import { screenNewAccount } from '../services/abuse.service'
+import {
+  getAuditContext,
+  listSecurityEvents,
+  recordUserEvent,
+  type AuditEventDetails,
+} from '../services/audit.service'
+
+const LOGIN_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  password: true,
+  plan: true,
+  role: true,
+  credits: true,
+  emailVerified: true,
+  twoFactorEnabled: true,
+  status: true,
+  statusExpiresAt: true,
+}
+
+function getLoginData(user, tokens: SessionTokens) {
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      plan: user.plan,
+      credits: user.credits,
+      role: user.role,
+      emailVerified: user.emailVerified,
+    },
+    ...tokens,
+    // Roles that must use 2FA are sent to enrol before anything else
+    ...(isTwoFactorRequired(user.role) && !user.twoFactorEnabled && { mfaEnrollmentRequired: true }),
+  }
+}
+
+function getSessionContext(req: Request): SessionContext {
+  return {
+    ipAddress: req.ip,
+    userAgent: req.headers['user-agent'],
+    location: describeLocation(req.headers),
+  }
+}
+
+// Record a user's own sign-in or security change in the audit log
+function auditAuthEvent(req: Request, user: { id: string; email: string }, action: string, details?: AuditEventDetails) {
+  return recordUserEvent(getAuditContext(req, user), user.id, action, details)
+}
 
 class AuthController {
   async register(req: Request<{}, {}, RegisterInput>, res: Response<ApiResponse>) {
@@ -43,6 +122,7 @@ class AuthController {
         emailVerified: false,
         emailVerificationToken,
         emailVerificationExpires,
+        signupIp: req.ip,
       },
       select: {
         id: true,
@@ -62,7 +142,9 @@ class AuthController {
     })
 
     // Generate tokens for immediate login (soft verification)
-    const { accessToken, refreshToken } = generateTokens(user)
+    const { accessToken, refreshToken } = await createSession(user, getSessionContext(req))
+    await auditAuthEvent(req, user, 'auth.registered', { after: { method: 'password' } })
+    await screenNewAccount(user, req.ip).catch(error => console.error('Abuse screening failed:', error))
 
     res.status(201).json({
       success: true,
@@ -113,11 +195,21 @@ class AuthController {
       },
     })
 
+    await auditAuthEvent(req, user, 'auth.email_verified')
+
     // Send welcome email
     await emailService.sendWelcomeEmail(user.email, user.name || undefined)
 
+    // The email link is not a second factor; these users sign in as usual
+    if (user.twoFactorEnabled) {
+      return res.json({
+        success: true,
+        message: 'Email verified successfully',
+      })
+    }
+
     // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user)
+    const { accessToken, refreshToken } = await createSession(user, getSessionContext(req))
 
     res.json({
       success: true,
@@ -142,16 +234,7 @@ class AuthController {
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        password: true,
-        plan: true,
-        role: true,
-        credits: true,
-        emailVerified: true,
-      },
+      select: LOGIN_USER_SELECT,
     })
 
     if (!user) {
@@ -162,26 +245,62 @@ class AuthController {
     const isValidPassword = await bcrypt.compare(password, user.password)
 
     if (!isValidPassword) {
+      // Not attributed to the user: anyone can type their email
+      await recordUserEvent(getAuditContext(req), user.id, 'auth.login_failed', { after: { method: 'password' } })
       throw new AppError('Incorrect password. Please check your password and try again.', 401, ERROR_CODES.INVALID_CREDENTIALS)
     }
 
+    assertAccountActive(user)
+
+    // With 2FA on, the password only earns a short-lived challenge token
+    if (user.twoFactorEnabled) {
+      return res.json({
+        success: true,
+        data: {
+          mfaRequired: true,
+          mfaToken: createMfaToken(user.id),
+        },
+      })
+    }
+
     // Generate tokens (email verification no longer required)
-    const { accessToken, refreshToken } = generateTokens(user)
+    const tokens = await createSession(user, getSessionContext(req))
+    await auditAuthEvent(req, user, 'auth.login', { after: { method: 'password' } })
     res.json({
       success: true,
-      data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          plan: user.plan,
-          credits: user.credits,
-          role: user.role,
-          emailVerified: user.emailVerified,
-        },
-        accessToken,
-        refreshToken,
-      },
+      data: getLoginData(user, tokens),
+    })
+  }
+
+  async verifyTwoFactorLogin(req: Request<{}, {}, VerifyTwoFactorLoginInput>, res: Response<ApiResponse>) {
+    const { mfaToken, code } = req.body
+
+    const userId = verifyMfaToken(mfaToken)
+    if (!userId) {
+      throw new AppError('Your sign-in attempt expired. Please sign in again.', 401, ERROR_CODES.TOKEN_EXPIRED)
+    }
+
+    // 400 rather than 401 so clients keep the challenge and let the user retry
+    const method = await verifySecondFactor(userId, code)
+    if (!method) {
+      await recordUserEvent(getAuditContext(req), userId, 'auth.login_failed', { after: { method: 'two_factor' } })
+      throw new AppError('Invalid authentication code', 400, ERROR_CODES.INVALID_MFA_CODE)
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: LOGIN_USER_SELECT,
+    })
+    assertAccountActive(user)
+
+    const tokens = await createSession(user, getSessionContext(req))
+    await auditAuthEvent(req, user, 'auth.login', { after: { method: 'password', secondFactor: method } })
+    res.json({
+      success: true,
+      ...(method === 'recovery_code' && {
+        message: 'Signed in with a recovery code. Generate new codes if you are running low.',
+      }),
+      data: getLoginData(user, tokens),
     })
   }
 
@@ -258,6 +377,9 @@ class AuthController {
       },
     })
 
+    await revokeAllSessions(user.id, 'password_reset')
+    await auditAuthEvent(req, user, 'auth.password_reset')
+
     res.json({
       success: true,
       message: 'Password reset successfully. You can now login with your new password.',
@@ -368,40 +490,37 @@ class AuthController {
       throw new AppError('Refresh token is required', 400, ERROR_CODES.VALIDATION_ERROR)
     }
 
-    try {
-      // Verify refresh token
-      const payload = jwt.verify(refreshToken, config.auth.refreshSecret) as JWTPayload
-
-      // Find user
-      const user = await prisma.user.findUnique({
-        where: { id: payload.userId },
-        select: {
-          id: true,
-          email: true,
-          role: true,
-          plan: true,
-        },
-      })
+    const result = await rotateRefreshToken(refreshToken, getSessionContext(req))
 
-      if (!user) {
-        throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
-      }
+    if (result.status === 'reused') {
+      console.warn(`Refresh token reuse detected for user ${result.userId}; session revoked`)
+      await recordUserEvent(getAuditContext(req), result.userId, 'auth.refresh_token_reused')
+      throw new AppError('Refresh token was already used. Please sign in again.', 401, ERROR_CODES.TOKEN_EXPIRED)
+    }
 
-      // Generate new tokens
-      const tokens = generateTokens(user)
+    if (result.status === 'blocked') {
+      assertAccountActive(result.user)
+    }
 
-      res.json({
-        success: true,
-        data: tokens,
-      })
-    } catch (error) {
+    if (result.status !== 'rotated') {
       throw new AppError('Invalid refresh token', 401, ERROR_CODES.TOKEN_EXPIRED)
     }
+
+    res.json({
+      success: true,
+      data: result.tokens,
+    })
   }
 
-  async logout(req: Request, res: Response<ApiResponse>) {
-    // In a production app, you might want to invalidate the refresh token here
-    // For now, we'll just return success
+  async logout(req: Request<{}, {}, { refreshToken?: string }>, res: Response<ApiResponse>) {
+    const { refreshToken } = req.body ?? {}
+
+    // The refresh token identifies the session even when the access token has expired
+    const sessionId = (refreshToken && (await findSessionId(refreshToken))) || req.sessionId
+    if (sessionId) {
+      await revokeSession(sessionId, 'logout')
+    }
+
     res.json({
       success: true,
       message: 'Logged out successfully',
@@ -443,6 +562,10 @@ class AuthController {
       },
     })
 
+    // Sign out everywhere else; this session stays signed in
+    const revoked = await revokeAllSessions(userId, 'password_changed', req.sessionId)
+    await recordUserEvent(getAuditContext(req), userId, 'auth.password_changed', { after: { sessionsRevoked: revoked } })
+
     res.json({
       success: true,
       message: 'Password changed successfully',
@@ -450,13 +573,131 @@ class AuthController {
   }
 
   async logoutAll(req: Request, res: Response<ApiResponse>) {
-    // In a production app with token blacklisting, you would:
-    // 1. Add all user's refresh tokens to a blacklist
-    // 2. Invalidate all active sessions
-    // For now, we'll just return success as the frontend will handle token removal
+    const revoked = await revokeAllSessions(req.userId!, 'logout_all')
+    await recordUserEvent(getAuditContext(req), req.userId!, 'auth.logout_all', { after: { sessionsRevoked: revoked } })
+
     res.json({
       success: true,
       message: 'Logged out from all devices successfully',
+      data: { revoked },
+    })
+  }
+
+  async listSessions(req: Request, res: Response<ApiResponse>) {
+    const sessions = await listSessions(req.userId!, req.sessionId)
+
+    res.json({
+      success: true,
+      data: sessions,
+    })
+  }
+
+  async revokeSession(req: Request<{ sessionId: string }>, res: Response<ApiResponse>) {
+    const revoked = await revokeUserSession(req.userId!, req.params.sessionId)
+
+    if (!revoked) {
+      throw new AppError('Session not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    await recordUserEvent(getAuditContext(req), req.userId!, 'auth.session_revoked', {
+      after: { sessionId: req.params.sessionId },
+    })
+
+    res.json({
+      success: true,
+      message: req.params.sessionId === req.sessionId ? 'Logged out successfully' : 'Session revoked',
+    })
+  }
+
+  async listSecurityEvents(req: Request, res: Response<ApiResponse>) {
+    const events = await listSecurityEvents(req.userId!)
+
+    res.json({
+      success: true,
+      data: events,
+    })
+  }
+
+  async getTwoFactorStatus(req: Request, res: Response<ApiResponse>) {
+    const status = await getTwoFactorStatus(req.userId!, req.user!.role)
+
+    res.json({
+      success: true,
+      data: status,
+    })
+  }
+
+  async setupTwoFactor(req: Request, res: Response<ApiResponse>) {
+    const result = await startEnrollment(req.userId!)
+
+    if (result.status === 'already_enabled') {
+      throw new AppError('Two-factor authentication is already enabled', 409, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    res.json({
+      success: true,
+      data: {
+        secret: result.secret,
+        otpauthUrl: result.otpauthUrl,
+        qrCode: result.qrCode,
+      },
+    })
+  }
+
+  async enableTwoFactor(req: Request<{}, {}, TwoFactorCodeInput>, res: Response<ApiResponse>) {
+    const result = await confirmEnrollment(req.userId!, req.body.code)
+
+    if (result.status === 'not_started') {
+      throw new AppError('Start two-factor setup first', 400, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    if (result.status === 'invalid_code') {
+      throw new AppError('Invalid authentication code', 400, ERROR_CODES.INVALID_MFA_CODE)
+    }
+
+    await recordUserEvent(getAuditContext(req), req.userId!, 'auth.two_factor_enabled')
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled. Save your recovery codes somewhere safe.',
+      data: { recoveryCodes: result.recoveryCodes },
+    })
+  }
+
+  async disableTwoFactor(req: Request<{}, {}, TwoFactorCodeInput>, res: Response<ApiResponse>) {
+    if (isTwoFactorRequired(req.user!.role)) {
+      throw new AppError(
+        'Two-factor authentication is required for your account and cannot be disabled',
+        403,
+        ERROR_CODES.MFA_ENROLLMENT_REQUIRED
+      )
+    }
+
+    if (!(await verifySecondFactor(req.userId!, req.body.code))) {
+      throw new AppError('Invalid authentication code', 400, ERROR_CODES.INVALID_MFA_CODE)
+    }
+
+    await disableTwoFactor(req.userId!)
+    await recordUserEvent(getAuditContext(req), req.userId!, 'auth.two_factor_disabled')
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    })
+  }
+
+  async regenerateRecoveryCodes(req: Request<{}, {}, TwoFactorCodeInput>, res: Response<ApiResponse>) {
+    if (!(await verifySecondFactor(req.userId!, req.body.code))) {
+      throw new AppError('Invalid authentication code', 400, ERROR_CODES.INVALID_MFA_CODE)
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(req.userId!)
+    await recordUserEvent(getAuditContext(req), req.userId!, 'auth.recovery_codes_regenerated')
+
+    res.json({
+      success: true,
+      message: 'New recovery codes generated. The previous ones no longer work.',
+      data: { recoveryCodes },
     })
   }
 
@@ -476,8 +717,19 @@ class AuthController {
         return res.redirect(errorUrl)
       }
 
+      const block = getAccountBlock(user)
+      if (block) {
+        return res.redirect(`${config.frontend.url}/auth/callback?error=account_${block.toLowerCase()}`)
+      }
+
+      // The second factor is entered on the login page
+      if (user.twoFactorEnabled) {
+        return res.redirect(`${config.frontend.url}/login?mfaToken=${createMfaToken(user.id)}`)
+      }
+
       // Generate JWT tokens
-      const { accessToken, refreshToken } = generateTokens(user)
+      const { accessToken, refreshToken } = await createSession(user, getSessionContext(req))
+      await auditAuthEvent(req, user, 'auth.login', { after: { method: 'google' } })
 
       // Redirect to frontend with tokens in URL
       const successUrl = `${config.frontend.url}/auth/callback?accessToken=${accessToken}&refreshToken=${refreshToken}`
@@ -0,0 +1,278 @@
+import { Request, Response } from 'express'
+import { prisma } from '@truecheckia/database'
+import { config, ERROR_CODES } from '@truecheckia/config'
+import { AppError } from '../middleware/error.middleware'
+import { ServerlessAnalysisQueue } from '../queues/serverless-analysis.queue'
+import { buildBatchCsv, recordBatchItemResult, summarizeBatch } from '../services/batch.service'
+import { detectFormat, extractText } from '../services/extraction.service'
+import type { ApiResponse, CreateBatchInput } from '@truecheckia/types'
+
+interface PreparedItem {
+  label: string
+  text?: string
+  error?: string
+  metadata?: Record<string, any>
+}
+
+const ANALYSIS_SUMMARY_SELECT = {
+  id: true,
+  aiScore: true,
+  confidence: true,
+  isAiGenerated: true,
+  wordCount: true,
+  createdAt: true,
+}
+
+async function findOwnedBatch(batchId: string, userId: string, includeAnalyses = false) {
+  const batch = await prisma.batch.findFirst({
+    where: { id: batchId, userId },
+    include: {
+      items: {
+        orderBy: { index: 'asc' },
+        include: includeAnalyses
+          ? { analysis: { select: { ...ANALYSIS_SUMMARY_SELECT, explanation: true, indicators: true } } }
+          : { analysis: { select: ANALYSIS_SUMMARY_SELECT } },
+      },
+    },
+  })
+
+  if (!batch) {
+    throw new AppError('Batch not found', 404, ERROR_CODES.NOT_FOUND)
+  }
+
+  return batch
+}
+
+/**
+ * Extract the text of an uploaded file as a batch item. Problems with a
+ * single file fail that item instead of rejecting the whole batch.
+ */
+async function prepareFileItem(file: Express.Multer.File): Promise<PreparedItem> {
+  const label = file.originalname
+  const format = detectFormat(file.mimetype, file.originalname)!
+
+  let text: string
+  let pageCount: number | undefined
+  try {
+    const extracted = await extractText(file.buffer, format)
+    text = extracted.text
+    pageCount = extracted.pageCount
+  } catch (error) {
+    console.error(`Text extraction failed for batch file ${label}:`, error)
+    return { label, error: 'Could not extract text from the document' }
+  }
+
+  if (text.length < config.limits.analysis.minTextLength) {
+    return { label, error: `Extracted text must have at least ${config.limits.analysis.minTextLength} characters` }
+  }
+  if (text.length > config.limits.analysis.maxTextLength) {
+    return {
+      label,
+      error: `Extracted text exceeds ${config.limits.analysis.maxTextLength} characters; upload it on its own to analyze it as a long document`,
+    }
+  }
+
+  return {
+    label,
+    text,
+    metadata: {
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      pageCount: pageCount ?? null,
+    },
+  }
+}
+
+class BatchController {
+  async createBatch(req: Request<Record<string, never>, unknown, CreateBatchInput>, res: Response<ApiResponse>) {
+    const userId = req.userId!
+    const { name, language = 'pt', texts = [] } = req.body
+    const files = (req.files as Express.Multer.File[]) || []
+    const totalItems = texts.length + files.length
+
+    if (totalItems === 0) {
+      throw new AppError('A batch needs at least one text or file', 400, ERROR_CODES.VALIDATION_ERROR)
+    }
+    if (totalItems > config.limits.batch.maxItems) {
+      throw new AppError(
+        `A batch accepts at most ${config.limits.batch.maxItems} items`,
+        400,
+        ERROR_CODES.VALIDATION_ERROR,
+        { maxItems: config.limits.batch.maxItems, received: totalItems }
+      )
+    }
+
+    const prepared: PreparedItem[] = [
+      ...texts.map((item, index) => ({ label: item.label || `Text ${index + 1}`, text: item.text })),
+    ]
+    for (const file of files) {
+      prepared.push(await prepareFileItem(file))
+    }
+
+    if (prepared.every(item => item.error)) {
+      throw new AppError(
+        'None of the batch items can be analyzed',
+        422,
+        ERROR_CODES.EXTRACTION_FAILED,
+        { items: prepared.map(item => ({ label: item.label, error: item.error })) }
+      )
+    }
+
+    const batch = await prisma.batch.create({
+      data: {
+        userId,
+        name,
+        language,
+        totalItems,
+        failedItems: prepared.filter(item => item.error).length,
+        items: {
+          create: prepared.map((item, index) => ({
+            index,
+            label: item.label,
+            charCount: item.text?.length ?? 0,
+            status: item.error ? 'FAILED' : 'PENDING',
+            error: item.error,
+          })),
+        },
+      },
+      include: { items: { orderBy: { index: 'asc' } } },
+    })
+
+    // One queue job per item; results are collected as the jobs complete
+    for (const item of batch.items) {
+      if (item.status !== 'PENDING') continue
+
+      const { text, metadata } = prepared[item.index]
+      try {
+        const jobId = await ServerlessAnalysisQueue.addJob({
+          userId,
+          text,
+          language,
+          plan: req.user!.plan,
+          batchItemId: item.id,
+          metadata: {
+            ...metadata,
+            batchId: batch.id,
+            batchItemId: item.id,
+            label: item.label,
+          },
+        })
+        await prisma.batchItem.update({ where: { id: item.id }, data: { jobId } })
+        item.jobId = jobId
+      } catch (error) {
+        console.error(`Failed to queue batch item ${item.id}:`, error)
+        await recordBatchItemResult(item.id, { error: 'Failed to queue item for analysis' })
+        item.status = 'FAILED'
+        item.error = 'Failed to queue item for analysis'
+      }
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        batchId: batch.id,
+        name: batch.name,
+        status: batch.status,
+        totalItems: batch.totalItems,
+        items: batch.items.map(item => ({
+          id: item.id,
+          index: item.index,
+          label: item.label,
+          status: item.status,
+          charCount: item.charCount,
+          error: item.error,
+        })),
+      },
+    })
+  }
+
+  async listBatches(req: Request, res: Response<ApiResponse>) {
+    const userId = req.userId!
+    const page = parseInt(req.query.page as string) || 1
+    const limit = parseInt(req.query.limit as string) || 10
+    const skip = (page - 1) * limit
+
+    const [batches, total] = await Promise.all([
+      prisma.batch.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.batch.count({ where: { userId } }),
+    ])
+
+    res.json({
+      success: true,
+      data: batches,
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    })
+  }
+
+  async getBatch(req: Request, res: Response<ApiResponse>) {
+    const batch = await findOwnedBatch(req.params.batchId, req.userId!)
+    const processed = batch.completedItems + batch.failedItems
+
+    res.json({
+      success: true,
+      data: {
+        id: batch.id,
+        name: batch.name,
+        language: batch.language,
+        status: batch.status,
+        totalItems: batch.totalItems,
+        completedItems: batch.completedItems,
+        failedItems: batch.failedItems,
+        progress: Math.round((processed / batch.totalItems) * 100),
+        createdAt: batch.createdAt,
+        completedAt: batch.completedAt,
+        items: batch.items.map(item => ({
+          id: item.id,
+          index: item.index,
+          label: item.label,
+          status: item.status,
+          charCount: item.charCount,
+          error: item.error,
+          analysis: item.analysis,
+        })),
+      },
+    })
+  }
+
+  async getBatchResults(req: Request, res: Response<ApiResponse>) {
+    const batch = await findOwnedBatch(req.params.batchId, req.userId!, true)
+
+    res.json({
+      success: true,
+      data: {
+        id: batch.id,
+        name: batch.name,
+        status: batch.status,
+        summary: summarizeBatch(batch.items),
+        items: batch.items.map(item => ({
+          index: item.index,
+          label: item.label,
+          status: item.status,
+          error: item.error,
+          analysis: item.analysis,
+        })),
+      },
+    })
+  }
+
+  async exportBatchCsv(req: Request, res: Response) {
+    const batch = await findOwnedBatch(req.params.batchId, req.userId!)
+    const fileName = (batch.name || `batch-${batch.id}`).replace(/[^\w.-]+/g, '_')
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`)
+    // BOM so spreadsheet applications detect UTF-8 labels
+    res.send('\uFEFF' + buildBatchCsv(batch.items))
+  }
+}
+
+export const batchController = new BatchController()
@@ -0,0 +1,15 @@
+import { Request, Response } from 'express'
+import { OPENMETRICS_CONTENT_TYPE } from '../lib/metrics'
+import { collectMetrics } from '../services/metrics.service'
+
+class MetricsController {
+  async scrape(req: Request, res: Response) {
+    const body = await collectMetrics()
+
+    res.setHeader('Content-Type', OPENMETRICS_CONTENT_TYPE)
+    res.setHeader('Cache-Control', 'no-store')
+    res.send(body)
+  }
+}
+
+export const metricsController = new MetricsController()
@@ -0,0 +1,139 @@
+import { Request, Response } from 'express'
+import { ERROR_CODES } from '@truecheckia/config'
+import { AppError } from '../middleware/error.middleware'
+import {
+  countUnreadNotifications,
+  deleteNotification,
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '../services/notification.service'
+import type { ApiResponse, NotificationType } from '@truecheckia/types'
+
+// How often an open stream re-checks the unread count
+const STREAM_POLL_INTERVAL = 5000
+// Streams are closed before serverless function timeouts; EventSource clients reconnect
+const STREAM_MAX_DURATION = 55000
+const STREAM_RETRY_DELAY = 3000
+
+class NotificationController {
+  async listNotifications(req: Request, res: Response<ApiResponse>) {
+    const userId = req.userId!
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50)
+    const cursor = req.query.cursor as string | undefined
+    const type = req.query.type as NotificationType | undefined
+    const read = req.query.read === undefined ? undefined : req.query.read === 'true'
+
+    const { notifications, nextCursor } = await listNotifications(userId, { cursor, limit, type, read })
+
+    res.json({
+      success: true,
+      data: notifications,
+      meta: {
+        limit,
+        nextCursor,
+      },
+    })
+  }
+
+  async getUnreadCount(req: Request, res: Response<ApiResponse>) {
+    res.json({
+      success: true,
+      data: {
+        count: await countUnreadNotifications(req.userId!),
+      },
+    })
+  }
+
+  async markRead(req: Request<{ notificationId: string }>, res: Response<ApiResponse>) {
+    const updated = await markNotificationRead(req.userId!, req.params.notificationId)
+
+    if (!updated) {
+      throw new AppError('Notification not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Notification marked as read',
+      },
+    })
+  }
+
+  async markAllRead(req: Request, res: Response<ApiResponse>) {
+    const updated = await markAllNotificationsRead(req.userId!)
+
+    res.json({
+      success: true,
+      data: {
+        updated,
+        message: 'All notifications marked as read',
+      },
+    })
+  }
+
+  async deleteNotification(req: Request<{ notificationId: string }>, res: Response<ApiResponse>) {
+    const deleted = await deleteNotification(req.userId!, req.params.notificationId)
+
+    if (!deleted) {
+      throw new AppError('Notification not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Notification deleted',
+      },
+    })
+  }
+
+  /**
+   * Server-sent events with the unread count. An `unread` event is sent on
+   * connect and whenever the count changes; comments keep proxies from
+   * closing an idle connection.
+   */
+  async streamUnreadCount(req: Request, res: Response) {
+    const userId = req.userId!
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps compression from buffering events
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    })
+    res.write(`retry: ${STREAM_RETRY_DELAY}\n\n`)
+
+    let lastCount: number | null = null
+    let closed = false
+
+    const push = async () => {
+      try {
+        const count = await countUnreadNotifications(userId)
+        if (closed) return
+
+        if (count !== lastCount) {
+          lastCount = count
+          res.write(`event: unread\ndata: ${JSON.stringify({ count })}\n\n`)
+        } else {
+          res.write(': ping\n\n')
+        }
+      } catch (error) {
+        console.error('Notification stream error:', error)
+      }
+    }
+
+    const interval = setInterval(push, STREAM_POLL_INTERVAL)
+    const timeout = setTimeout(() => res.end(), STREAM_MAX_DURATION)
+
+    req.on('close', () => {
+      closed = true
+      clearInterval(interval)
+      clearTimeout(timeout)
+    })
+
+    await push()
+  }
+}
+
+export const notificationController = new NotificationController()
@@ -0,0 +1,130 @@
+import { Request, Response } from 'express'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@truecheckia/database'
+import { config, ERROR_CODES } from '@truecheckia/config'
+import { AppError } from '../middleware/error.middleware'
+import { generateShareToken, getShareState, serializeShare, toSharedView } from '../services/share.service'
+import type { ApiResponse, CreateShareInput } from '@truecheckia/types'
+
+const SHARE_PASSWORD_HEADER = 'x-share-password'
+
+class ShareController {
+  async createShare(req: Request<Record<string, never>, unknown, CreateShareInput>, res: Response<ApiResponse>) {
+    const userId = req.userId!
+    const { analysisId, expiresInDays, password } = req.body
+
+    const analysis = await prisma.analysis.findFirst({
+      where: { id: analysisId, userId },
+      select: { id: true },
+    })
+
+    if (!analysis) {
+      throw new AppError('Analysis not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    const share = await prisma.sharedAnalysis.create({
+      data: {
+        token: generateShareToken(),
+        analysisId,
+        userId,
+        passwordHash: password ? await bcrypt.hash(password, config.auth.bcryptRounds) : null,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      },
+    })
+
+    res.status(201).json({
+      success: true,
+      data: serializeShare(share),
+    })
+  }
+
+  async listShares(req: Request, res: Response<ApiResponse>) {
+    const userId = req.userId!
+    const analysisId = req.query.analysisId as string | undefined
+
+    const shares = await prisma.sharedAnalysis.findMany({
+      where: {
+        userId,
+        ...(analysisId && { analysisId }),
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const now = new Date()
+    res.json({
+      success: true,
+      data: shares.map(share => serializeShare(share, now)),
+    })
+  }
+
+  async revokeShare(req: Request, res: Response<ApiResponse>) {
+    const userId = req.userId!
+
+    const share = await prisma.sharedAnalysis.findFirst({
+      where: { id: req.params.shareId, userId },
+    })
+
+    if (!share) {
+      throw new AppError('Share link not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    const revoked = share.revokedAt
+      ? share
+      : await prisma.sharedAnalysis.update({
+          where: { id: share.id },
+          data: { revokedAt: new Date() },
+        })
+
+    res.json({
+      success: true,
+      data: serializeShare(revoked),
+    })
+  }
+
+  async getSharedAnalysis(req: Request, res: Response<ApiResponse>) {
+    // Public links must not be cached by proxies or indexed by crawlers
+    res.setHeader('Cache-Control', 'no-store')
+    res.setHeader('X-Robots-Tag', 'noindex, nofollow')
+
+    const share = await prisma.sharedAnalysis.findUnique({
+      where: { token: req.params.token },
+      include: { analysis: true },
+    })
+
+    if (!share) {
+      throw new AppError('Share link not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    if (getShareState(share) !== 'ACTIVE') {
+      throw new AppError('This share link has expired or was revoked', 410, ERROR_CODES.SHARE_EXPIRED)
+    }
+
+    if (share.passwordHash) {
+      const password = req.get(SHARE_PASSWORD_HEADER)
+
+      if (!password) {
+        throw new AppError('This share link is password protected', 403, ERROR_CODES.SHARE_PASSWORD_REQUIRED)
+      }
+
+      const isValid = await bcrypt.compare(password, share.passwordHash)
+      if (!isValid) {
+        throw new AppError('Invalid share password', 403, ERROR_CODES.SHARE_PASSWORD_INVALID)
+      }
+    }
+
+    await prisma.sharedAnalysis.update({
+      where: { id: share.id },
+      data: {
+        viewCount: { increment: 1 },
+        lastViewedAt: new Date(),
+      },
+    })
+
+    res.json({
+      success: true,
+      data: toSharedView(share.analysis, share.expiresAt),
+    })
+  }
+}
+
+export const shareController = new ShareController()
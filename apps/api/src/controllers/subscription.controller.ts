@@ -5,11 +5,22 @@ import { prisma } from '@truecheckia/database'
 import { config, ERROR_CODES, PLANS } from '@truecheckia/config'
 import { AppError } from '../middleware/error.middleware'
 import type { ApiResponse } from '@truecheckia/types'
+import { createAuditEvent, getAuditContext, type AuditContext } from '../services/audit.service'
 
 const stripe = new Stripe(config.stripe.secretKey, {
   apiVersion: '2023-10-16',
 })
 
+/**
+ * Cancel a Stripe subscription immediately, without waiting for the period
+ * end. Used when the account itself is being deleted.
+ */
+export async function cancelStripeSubscription(stripeSubId: string): Promise<Stripe.Subscription> {
+  return stripe.subscriptions.cancel(stripeSubId, {
+    cancellation_details: { comment: 'Account deleted by the user' },
+  })
+}
+
 class SubscriptionController {
   async createCheckout(req: Request, res: Response<ApiResponse>) {
     try {
@@ -175,23 +186,26 @@ class SubscriptionController {
       return res.status(400).send(`Webhook Error: ${err.message}`)
     }
 
+    // Plan changes are audited with no actor; the Stripe event id ties them to the webhook
+    const audit = getAuditContext(req)
+
     // Handle the event
     switch (event.type) {
       case 'checkout.session.completed': {
         const session = event.data.object as Stripe.Checkout.Session
-        await handleCheckoutComplete(session)
+        await handleCheckoutComplete(session, audit, event.id)
         break
       }
 
       case 'customer.subscription.updated': {
         const subscription = event.data.object as Stripe.Subscription
-        await handleSubscriptionUpdate(subscription)
+        await handleSubscriptionUpdate(subscription, audit, event.id)
         break
       }
 
       case 'customer.subscription.deleted': {
         const subscription = event.data.object as Stripe.Subscription
-        await handleSubscriptionDeleted(subscription)
+        await handleSubscriptionDeleted(subscription, audit, event.id)
         break
       }
 
@@ -215,10 +229,15 @@ class SubscriptionController {
   }
 }
 
-async function handleCheckoutComplete(session: Stripe.Checkout.Session) {
+async function handleCheckoutComplete(session: Stripe.Checkout.Session, audit: AuditContext, eventId: string) {
   const userId = session.metadata?.userId
   if (!userId) return
 
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { plan: true, credits: true },
+  })
+
   const subscription = await stripe.subscriptions.retrieve(
     session.subscription as string
   )
@@ -253,10 +272,29 @@ async function handleCheckoutComplete(session: Stripe.Checkout.Session) {
         currentPeriodEnd: new Date(subscription.current_period_end * 1000),
       },
     }),
+    prisma.notification.create({
+      data: {
+        userId,
+        type: 'SUBSCRIPTION',
+        title: 'Subscription Active',
+        message: `Your ${plan} plan is now active. Enjoy unlimited analyses!`,
+        metadata: {
+          subscriptionId: subscription.id,
+          plan,
+        },
+      },
+    }),
+    createAuditEvent(audit, {
+      action: 'subscription.activated',
+      targetType: 'user',
+      targetId: userId,
+      ...(user && { before: { plan: user.plan, credits: user.credits } }),
+      after: { plan, credits: -1, stripeSubId: subscription.id, stripeEventId: eventId },
+    }),
   ])
 }
 
-async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
+async function handleSubscriptionUpdate(subscription: Stripe.Subscription, audit: AuditContext, eventId: string) {
   const customerId = subscription.customer as string
   
   const sub = await prisma.subscription.findUnique({
@@ -281,17 +319,26 @@ async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
       break
   }
 
-  await prisma.subscription.update({
-    where: { stripeCustomerId: customerId },
-    data: {
-      status,
-      currentPeriodEnd: new Date(subscription.current_period_end * 1000),
-      cancelAtPeriodEnd: subscription.cancel_at_period_end,
-    },
-  })
+  await prisma.$transaction([
+    prisma.subscription.update({
+      where: { stripeCustomerId: customerId },
+      data: {
+        status,
+        currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      },
+    }),
+    createAuditEvent(audit, {
+      action: 'subscription.updated',
+      targetType: 'user',
+      targetId: sub.userId,
+      before: { status: sub.status, cancelAtPeriodEnd: sub.cancelAtPeriodEnd },
+      after: { status, cancelAtPeriodEnd: subscription.cancel_at_period_end, stripeEventId: eventId },
+    }),
+  ])
 }
 
-async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription, audit: AuditContext, eventId: string) {
   const customerId = subscription.customer as string
   
   const sub = await prisma.subscription.findUnique({
@@ -318,6 +365,21 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
         stripePriceId: null,
       },
     }),
+    prisma.notification.create({
+      data: {
+        userId: sub.userId,
+        type: 'SUBSCRIPTION',
+        title: 'Subscription Canceled',
+        message: `Your ${sub.plan} subscription has ended and your account is back on the FREE plan.`,
+      },
+    }),
+    createAuditEvent(audit, {
+      action: 'subscription.canceled',
+      targetType: 'user',
+      targetId: sub.userId,
+      before: { plan: sub.plan, status: sub.status },
+      after: { plan: 'FREE', status: 'CANCELED', credits: config.limits.freeCredits, stripeEventId: eventId },
+    }),
   ])
 }
 
@@ -329,7 +391,24 @@ async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
 async function handlePaymentFailed(invoice: Stripe.Invoice) {
   // Handle failed payment
   console.error('Payment failed for invoice:', invoice.id)
-  // You might want to send an email notification here
+
+  const sub = await prisma.subscription.findUnique({
+    where: { stripeCustomerId: invoice.customer as string },
+  })
+
+  if (!sub) return
+
+  await prisma.notification.create({
+    data: {
+      userId: sub.userId,
+      type: 'SUBSCRIPTION',
+      title: 'Payment Failed',
+      message: 'We could not charge your payment method. Update it in the billing portal to keep your plan.',
+      metadata: {
+        invoiceId: invoice.id,
+      },
+    },
+  })
 }
 
 export const subscriptionController = new SubscriptionController()
\ No newline at end of file
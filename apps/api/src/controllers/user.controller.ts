@@ -2,9 +2,46 @@
 import { Request, Response } from 'express'
 import { prisma } from '@truecheckia/database'
 import { config, ERROR_CODES } from '@truecheckia/config'
+import bcrypt from 'bcryptjs'
 import { AppError } from '../middleware/error.middleware'
-import { randomBytes } from 'crypto'
-import type { ApiResponse, UpdateProfileInput } from '@truecheckia/types'
+import {
+  cancelAccountDeletion,
+  isRecentSignIn,
+  scheduleAccountDeletion,
+} from '../services/account-deletion.service'
+import { generateApiKey, serializeApiKey } from '../services/api-key.service'
+import { getAuditContext, recordUserEvent } from '../services/audit.service'
+import {
+  createDataExport,
+  findLastDataExport,
+  getNextExportAvailableAt,
+  serializeDataExport,
+  verifyDataExportSignature,
+} from '../services/data-export.service'
+import { getUserPreferences, updateUserPreferences } from '../services/preferences.service'
+import { getWebhookSecret, listWebhookDeliveries, rotateWebhookSecret } from '../services/webhook.service'
+import { emailService } from '../services/email.service'
+import { ServerlessExportQueue } from '../queues/serverless-export.queue'
+import type {
+  ApiResponse,
+  CancelAccountDeletionInput,
+  CreateApiKeyInput,
+  DeleteAccountInput,
+  UpdateProfileInput,
+  UserPreferencesInput,
+} from '@truecheckia/types'
+
+async function findOwnedApiKey(keyId: string, userId: string) {
+  const apiKey = await prisma.apiKey.findFirst({
+    where: { id: keyId, userId, revokedAt: null },
+  })
+
+  if (!apiKey) {
+    throw new AppError('API key not found', 404, ERROR_CODES.NOT_FOUND)
+  }
+
+  return apiKey
+}
 
 class UserController {
   async getProfile(req: Request, res: Response<ApiResponse>) {
@@ -19,8 +56,9 @@ class UserController {
         avatar: true,
         plan: true,
         credits: true,
-        apiKey: true,
+        password: true,
         createdAt: true,
+        deletionScheduledAt: true,
         _count: {
           select: {
             analyses: true,
@@ -33,10 +71,13 @@ class UserController {
       throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
     }
 
+    const { password, ...profile } = user
+
     res.json({
       success: true,
       data: {
-        ...user,
+        ...profile,
+        hasPassword: Boolean(password), // OAuth-only accounts re-authenticate by signing in again
         totalAnalyses: user._count.analyses,
       },
     })
@@ -46,6 +87,11 @@ class UserController {
     const userId = req.userId!
     const { name, avatar } = req.body
 
+    const before = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true, avatar: true },
+    })
+
     const user = await prisma.user.update({
       where: { id: userId },
       data: {
@@ -61,12 +107,201 @@ class UserController {
       },
     })
 
+    await recordUserEvent(getAuditContext(req), userId, 'user.profile_updated', {
+      before,
+      after: { name: user.name, avatar: user.avatar },
+    })
+
     res.json({
       success: true,
       data: user,
     })
   }
 
+  async getPreferences(req: Request, res: Response<ApiResponse>) {
+    const preferences = await getUserPreferences(req.userId!)
+
+    res.json({
+      success: true,
+      data: preferences,
+    })
+  }
+
+  async updatePreferences(req: Request<{}, {}, UserPreferencesInput>, res: Response<ApiResponse>) {
+    const preferences = await updateUserPreferences(req.userId!, req.body)
+
+    res.json({
+      success: true,
+      data: preferences,
+    })
+  }
+
+  async getDataExport(req: Request, res: Response<ApiResponse>) {
+    const userId = req.userId!
+
+    const [latest, lastCounted] = await Promise.all([
+      prisma.dataExport.findFirst({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      }),
+      findLastDataExport(userId),
+    ])
+
+    res.json({
+      success: true,
+      data: {
+        export: latest ? serializeDataExport(latest) : null,
+        nextAvailableAt: getNextExportAvailableAt(lastCounted?.createdAt),
+      },
+    })
+  }
+
+  async requestDataExport(req: Request, res: Response<ApiResponse>) {
+    const userId = req.userId!
+
+    const result = await createDataExport(userId)
+    if (result.status === 'limited') {
+      throw new AppError(
+        'You can request one data export per day',
+        429,
+        ERROR_CODES.RATE_LIMIT,
+        { nextAvailableAt: result.nextAvailableAt }
+      )
+    }
+    const { dataExport } = result
+
+    try {
+      await ServerlessExportQueue.addJob({ exportId: dataExport.id, userId })
+    } catch (error) {
+      await prisma.dataExport.update({
+        where: { id: dataExport.id },
+        data: { status: 'FAILED', error: 'Could not queue the export' },
+      })
+      throw error
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        export: serializeDataExport(dataExport),
+        message: 'Your export is being prepared. We will email you a download link when it is ready.',
+      },
+    })
+  }
+
+  async downloadDataExport(req: Request<{ exportId: string }>, res: Response) {
+    const { exportId } = req.params
+    const expires = Number(req.query.expires)
+    const signature = typeof req.query.signature === 'string' ? req.query.signature : ''
+
+    if (!verifyDataExportSignature(exportId, expires, signature)) {
+      throw new AppError('Invalid or expired download link', 403, ERROR_CODES.UNAUTHORIZED)
+    }
+
+    const dataExport = await prisma.dataExport.findUnique({
+      where: { id: exportId },
+    })
+
+    if (!dataExport || dataExport.status !== 'COMPLETED' || !dataExport.archive) {
+      throw new AppError('This data export is no longer available', 410, ERROR_CODES.NOT_FOUND)
+    }
+
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: { downloadedAt: new Date() },
+    })
+
+    const fileName = `truecheckia-data-export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`
+    res.setHeader('Content-Type', 'application/zip')
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`)
+    res.setHeader('Content-Length', dataExport.archive.length)
+    res.setHeader('Cache-Control', 'no-store')
+    res.send(Buffer.from(dataExport.archive))
+  }
+
+  async deleteAccount(req: Request<{}, {}, DeleteAccountInput>, res: Response<ApiResponse>) {
+    const userId = req.userId!
+    const { password } = req.body
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, password: true, deletionScheduledAt: true },
+    })
+
+    if (!user) {
+      throw new AppError('User not found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    if (user.deletionScheduledAt) {
+      throw new AppError('Account deletion is already scheduled', 409, ERROR_CODES.VALIDATION_ERROR, {
+        deletionScheduledAt: user.deletionScheduledAt,
+      })
+    }
+
+    // Re-authenticate: the password, or a fresh sign-in for OAuth-only accounts
+    if (user.password) {
+      if (!password || !(await bcrypt.compare(password, user.password))) {
+        throw new AppError('Password is incorrect', 400, ERROR_CODES.INVALID_CREDENTIALS)
+      }
+    } else if (!isRecentSignIn(req.authTime)) {
+      // 403 rather than 401 so clients don't just refresh the token and retry
+      throw new AppError(
+        'Please sign in again to confirm account deletion',
+        403,
+        ERROR_CODES.REAUTH_REQUIRED,
+        { maxAgeMinutes: config.limits.accountDeletion.reauthMaxAgeMinutes }
+      )
+    }
+
+    const { scheduledAt, cancelToken } = await scheduleAccountDeletion(userId)
+    await recordUserEvent(getAuditContext(req), userId, 'user.deletion_requested', {
+      after: { deletionScheduledAt: scheduledAt },
+    })
+
+    try {
+      await emailService.sendAccountDeletionEmail(user.email, cancelToken, scheduledAt)
+    } catch (error) {
+      // The deletion can still be cancelled from the profile page
+      console.error('Failed to send account deletion email:', error)
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        deletionScheduledAt: scheduledAt,
+        message: `Your account will be deleted on ${scheduledAt.toUTCString()}. We sent you a link to cancel.`,
+      },
+    })
+  }
+
+  async cancelAccountDeletion(req: Request<{}, {}, CancelAccountDeletionInput>, res: Response<ApiResponse>) {
+    const { token } = req.body
+
+    if (!token && !req.userId) {
+      throw new AppError('Cancellation token is required', 400, ERROR_CODES.VALIDATION_ERROR)
+    }
+
+    // The email link works signed out, so find whose deletion it is first
+    const owner = token
+      ? await prisma.user.findUnique({ where: { deletionCancelToken: token }, select: { id: true } })
+      : { id: req.userId! }
+
+    const cancelled = await cancelAccountDeletion(token ? { token } : { userId: req.userId! })
+
+    if (!cancelled) {
+      throw new AppError('No pending account deletion found', 404, ERROR_CODES.NOT_FOUND)
+    }
+
+    await recordUserEvent(getAuditContext(req), owner.id, 'user.deletion_canceled', {
+      after: { via: token ? 'email_link' : 'profile' },
+    })
+
+    res.json({
+      success: true,
+      message: 'Account deletion cancelled',
+    })
+  }
+
   async getCredits(req: Request, res: Response<ApiResponse>) {
     const userId = req.userId!
 
@@ -102,8 +337,21 @@ class UserController {
     })
   }
 
-  async generateApiKey(req: Request, res: Response<ApiResponse>) {
+  async listApiKeys(req: Request, res: Response<ApiResponse>) {
+    const keys = await prisma.apiKey.findMany({
+      where: { userId: req.userId!, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    res.json({
+      success: true,
+      data: keys.map(key => serializeApiKey(key)),
+    })
+  }
+
+  async createApiKey(req: Request<{}, {}, CreateApiKeyInput>, res: Response<ApiResponse>) {
     const userId = req.userId!
+    const { name, scopes, expiresInDays } = req.body
 
     // Check if user has PRO or ENTERPRISE plan
     const user = await prisma.user.findUnique({
@@ -119,29 +367,85 @@ class UserController {
       )
     }
 
-    // Generate new API key
-    const apiKey = `tcia_${randomBytes(32).toString('hex')}`
+    const activeKeys = await prisma.apiKey.count({
+      where: { userId, revokedAt: null },
+    })
 
-    await prisma.user.update({
-      where: { id: userId },
-      data: { apiKey },
+    if (activeKeys >= config.limits.apiKeys.maxPerUser) {
+      throw new AppError(
+        `You can have at most ${config.limits.apiKeys.maxPerUser} API keys. Revoke one first.`,
+        400,
+        ERROR_CODES.VALIDATION_ERROR
+      )
+    }
+
+    const { key, prefix, keyHash } = generateApiKey()
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId,
+        name: name.trim(),
+        prefix,
+        keyHash,
+        scopes: [...new Set(scopes)],
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      },
+    })
+
+    await recordUserEvent(getAuditContext(req), userId, 'user.api_key_created', {
+      after: { keyId: apiKey.id, name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes },
+    })
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...serializeApiKey(apiKey),
+        key,
+        message: 'Store this key securely. It will not be shown again.',
+      },
+    })
+  }
+
+  async rotateApiKey(req: Request<{ keyId: string }>, res: Response<ApiResponse>) {
+    const existing = await findOwnedApiKey(req.params.keyId, req.userId!)
+    const { key, prefix, keyHash } = generateApiKey()
+
+    // Same id, name and scopes; the old secret stops working immediately
+    const apiKey = await prisma.apiKey.update({
+      where: { id: existing.id },
+      data: {
+        prefix,
+        keyHash,
+        lastUsedAt: null,
+        lastUsedIp: null,
+      },
+    })
+
+    await recordUserEvent(getAuditContext(req), req.userId!, 'user.api_key_rotated', {
+      before: { keyId: existing.id, prefix: existing.prefix },
+      after: { keyId: apiKey.id, prefix: apiKey.prefix },
     })
 
     res.json({
       success: true,
       data: {
-        apiKey,
+        ...serializeApiKey(apiKey),
+        key,
         message: 'Store this key securely. It will not be shown again.',
       },
     })
   }
 
-  async revokeApiKey(req: Request, res: Response<ApiResponse>) {
-    const userId = req.userId!
+  async revokeApiKey(req: Request<{ keyId: string }>, res: Response<ApiResponse>) {
+    const existing = await findOwnedApiKey(req.params.keyId, req.userId!)
 
-    await prisma.user.update({
-      where: { id: userId },
-      data: { apiKey: null },
+    await prisma.apiKey.update({
+      where: { id: existing.id },
+      data: { revokedAt: new Date() },
+    })
+
+    await recordUserEvent(getAuditContext(req), req.userId!, 'user.api_key_revoked', {
+      before: { keyId: existing.id, name: existing.name, prefix: existing.prefix },
     })
 
     res.json({
@@ -152,6 +456,47 @@ class UserController {
     })
   }
 
+  async getWebhookDeliveries(req: Request, res: Response<ApiResponse>) {
+    const userId = req.userId!
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+    const status = req.query.status as string | undefined
+
+    const { deliveries, total } = await listWebhookDeliveries(userId, { page, limit, status })
+
+    res.json({
+      success: true,
+      data: deliveries,
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    })
+  }
+
+  async getWebhookSecret(req: Request, res: Response<ApiResponse>) {
+    res.json({
+      success: true,
+      data: {
+        secret: await getWebhookSecret(req.userId!),
+      },
+    })
+  }
+
+  async rotateWebhookSecret(req: Request, res: Response<ApiResponse>) {
+    const secret = await rotateWebhookSecret(req.userId!)
+    await recordUserEvent(getAuditContext(req), req.userId!, 'user.webhook_secret_rotated')
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        message: 'Webhook secret rotated. Deliveries are now signed with the new secret.',
+      },
+    })
+  }
+
   async getStats(req: Request, res: Response<ApiResponse>) {
     const userId = req.userId!
 
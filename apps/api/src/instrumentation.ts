@@ -0,0 +1,5 @@
+import { startTracing } from './lib/tracing'
+
+// Imported by server.ts before anything else, so express and http are
+// loaded after the instrumentations are in place
+startTracing()
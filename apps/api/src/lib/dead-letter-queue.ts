@@ -18,9 +18,16 @@ export interface FailedJob {
   createdAt: number
   lastRetryAt?: number
   nextRetryAt?: number
+  errors?: FailedJobError[] // every failure, oldest first
   metadata?: Record<string, any>
 }
 
+export interface FailedJobError {
+  error: string
+  failedAt: number
+  retryCount: number
+}
+
 export interface RetryConfig {
   maxRetries: number
   baseDelay: number // milliseconds
@@ -34,6 +41,7 @@ export class DeadLetterQueue {
   private static readonly FAILED_JOBS_PREFIX = 'failed-job'
   private static readonly RETRY_JOBS_PREFIX = 'retry-job'
   private static readonly METRICS_PREFIX = 'dlq-metrics'
+  private static readonly MAX_ERROR_HISTORY = 20
   
   private static readonly DEFAULT_RETRY_CONFIG: RetryConfig = {
     maxRetries: 3,
@@ -44,17 +52,26 @@ export class DeadLetterQueue {
   }
 
   /**
-   * Add a failed job to the DLQ
+   * Add a failed job to the DLQ and schedule its next retry.
+   * `retryCount` is the number of retries already attempted, so the
+   * backoff keeps growing when a retried job fails again.
    */
   static async addFailedJob(
     jobId: string,
     originalQueue: string,
     data: any,
     error: string,
-    retryConfig: Partial<RetryConfig> = {}
+    retryConfig: Partial<RetryConfig> = {},
+    retryCount: number = 0
   ): Promise<string> {
     const config = { ...this.DEFAULT_RETRY_CONFIG, ...retryConfig }
     const now = Date.now()
+
+    // A retried job that fails again keeps the errors of its earlier attempts
+    const previous = await this.getFailedJob(jobId)
+    const previousErrors = previous
+      ? previous.errors ?? [{ error: previous.error, failedAt: previous.failedAt, retryCount: previous.retryCount }]
+      : []
     
     const failedJob: FailedJob = {
       id: jobId,
@@ -62,9 +79,10 @@ export class DeadLetterQueue {
       data,
       error,
       failedAt: now,
-      retryCount: 0,
+      retryCount,
       maxRetries: config.maxRetries,
-      createdAt: now,
+      createdAt: previous?.createdAt ?? now,
+      errors: [...previousErrors, { error, failedAt: now, retryCount }].slice(-this.MAX_ERROR_HISTORY),
       metadata: {
         config,
         environment: process.env.NODE_ENV,
@@ -80,12 +98,22 @@ export class DeadLetterQueue {
         lastUpdated: now.toString(),
       })
 
-      // Add to DLQ list for processing
+      // Add to DLQ list for processing, once per job
+      await upstash.lrem(`${this.DLQ_PREFIX}:${originalQueue}`, 0, jobId)
       await upstash.lpush(`${this.DLQ_PREFIX}:${originalQueue}`, jobId)
 
       // Update metrics
       await this.updateMetrics(originalQueue, 'failed', 1)
 
+      if (retryCount < config.maxRetries) {
+        failedJob.nextRetryAt = await this.scheduleRetry(jobId, retryCount, config)
+        await upstash.hset(`${this.FAILED_JOBS_PREFIX}:${jobId}`, {
+          data: JSON.stringify(failedJob),
+        })
+      } else {
+        await this.moveToPermanentFailure(jobId, failedJob)
+      }
+
       console.log(`Job ${jobId} added to DLQ for queue ${originalQueue}`)
       return jobId
     } catch (err) {
@@ -95,13 +123,13 @@ export class DeadLetterQueue {
   }
 
   /**
-   * Schedule a job for retry
+   * Schedule a job for retry, returning the retry time
    */
   static async scheduleRetry(
     jobId: string,
     retryCount: number,
     config: RetryConfig
-  ): Promise<void> {
+  ): Promise<number> {
     const delay = this.calculateRetryDelay(retryCount, config)
     const nextRetryAt = Date.now() + delay
 
@@ -121,6 +149,7 @@ export class DeadLetterQueue {
       })
 
       console.log(`Job ${jobId} scheduled for retry in ${delay}ms`)
+      return nextRetryAt
     } catch (error) {
       console.error('Failed to schedule retry:', error)
       throw error
@@ -171,9 +200,10 @@ export class DeadLetterQueue {
   }
 
   /**
-   * Retry a specific job
+   * Retry a specific job. `force` requeues it even when it has used up its
+   * retries, taking it off the permanent failure list.
    */
-  private static async retryJob(jobId: string): Promise<void> {
+  private static async retryJob(jobId: string, force = false): Promise<void> {
     const jobData = await upstash.hgetall(`${this.FAILED_JOBS_PREFIX}:${jobId}`)
     if (!jobData.data) {
       throw new Error(`Job ${jobId} not found in DLQ`)
@@ -181,13 +211,18 @@ export class DeadLetterQueue {
 
     const failedJob: FailedJob = JSON.parse(jobData.data)
     
-    if (failedJob.retryCount >= failedJob.maxRetries) {
+    if (!force && failedJob.retryCount >= failedJob.maxRetries) {
       // Move to permanent failure
       await this.moveToPermanentFailure(jobId, failedJob)
       return
     }
 
     try {
+      if (jobData.status === 'permanent-failure') {
+        await upstash.lrem(`${this.DLQ_PREFIX}:permanent-failures`, 0, jobId)
+      }
+
+
       // Increment retry count
       failedJob.retryCount++
       failedJob.lastRetryAt = Date.now()
@@ -339,10 +374,58 @@ export class DeadLetterQueue {
     }
   }
 
+  /**
+   * Failed job with its DLQ status, for inspection
+   */
+  static async getJobDetails(jobId: string): Promise<(FailedJob & { status: string }) | null> {
+    try {
+      const jobData = await upstash.hgetall(`${this.FAILED_JOBS_PREFIX}:${jobId}`)
+      if (!jobData?.data) return null
+
+      return { ...JSON.parse(jobData.data), status: jobData.status }
+    } catch (error) {
+      console.error(`Error getting failed job ${jobId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * List jobs in a queue's DLQ, or the permanent failures awaiting review,
+   * newest first
+   */
+  static async listJobs(
+    queue: string = 'permanent-failures',
+    offset: number = 0,
+    limit: number = 20
+  ): Promise<{ jobs: (FailedJob & { status: string })[]; total: number }> {
+    const key = `${this.DLQ_PREFIX}:${queue}`
+
+    try {
+      const [jobIds, total] = await Promise.all([
+        upstash.lrange(key, offset, offset + limit - 1),
+        upstash.llen(key),
+      ])
+
+      const jobs = []
+      for (const jobId of jobIds) {
+        const jobData = await upstash.hgetall(`${this.FAILED_JOBS_PREFIX}:${jobId}`)
+        // The list keeps the ids of purged jobs
+        if (!jobData?.data) continue
+
+        jobs.push({ ...JSON.parse(jobData.data), status: jobData.status })
+      }
+
+      return { jobs, total }
+    } catch (error) {
+      console.error(`Error listing DLQ jobs for ${queue}:`, error)
+      return { jobs: [], total: 0 }
+    }
+  }
+
   /**
    * Manually retry a specific job (admin function)
    */
-  static async manualRetry(jobId: string): Promise<boolean> {
+  static async manualRetry(jobId: string, { force = false }: { force?: boolean } = {}): Promise<boolean> {
     try {
       const failedJob = await this.getFailedJob(jobId)
       if (!failedJob) {
@@ -350,7 +433,7 @@ export class DeadLetterQueue {
         return false
       }
 
-      await this.retryJob(jobId)
+      await this.retryJob(jobId, force)
       return true
     } catch (error) {
       console.error(`Manual retry failed for job ${jobId}:`, error)
@@ -358,6 +441,85 @@ export class DeadLetterQueue {
     }
   }
 
+  /**
+   * Replace a failed job's payload, e.g. to fix bad input before retrying it
+   */
+  static async updateJobData(jobId: string, data: any): Promise<boolean> {
+    const failedJob = await this.getFailedJob(jobId)
+    if (!failedJob) return false
+
+    failedJob.data = data
+    failedJob.metadata = { ...failedJob.metadata, payloadEditedAt: Date.now() }
+
+    await upstash.hset(`${this.FAILED_JOBS_PREFIX}:${jobId}`, {
+      data: JSON.stringify(failedJob),
+      lastUpdated: Date.now().toString(),
+    })
+    return true
+  }
+
+  /**
+   * Retry every job in a queue's DLQ, or every permanent failure. Jobs
+   * already back on their queue are skipped.
+   */
+  static async retryAll(
+    queue: string = 'permanent-failures',
+    { force = false }: { force?: boolean } = {}
+  ): Promise<{ retried: number; failed: number; errors: string[] }> {
+    const results = { retried: 0, failed: 0, errors: [] as string[] }
+    const jobIds = [...new Set(await upstash.lrange(`${this.DLQ_PREFIX}:${queue}`, 0, -1))]
+
+    for (const jobId of jobIds) {
+      const status = await upstash.hget(`${this.FAILED_JOBS_PREFIX}:${jobId}`, 'status')
+      if (!status || status === 'retrying') continue
+
+      try {
+        await this.retryJob(jobId, force)
+        results.retried++
+      } catch (error) {
+        results.errors.push(`Job ${jobId}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        results.failed++
+      }
+    }
+
+    console.log(`Retried ${results.retried} jobs from DLQ ${queue}, ${results.failed} failed`)
+    return results
+  }
+
+  /**
+   * Delete a failed job and drop it from every DLQ list
+   */
+  static async purgeJob(jobId: string): Promise<boolean> {
+    const failedJob = await this.getFailedJob(jobId)
+    if (!failedJob) return false
+
+    await Promise.all([
+      upstash.del(`${this.FAILED_JOBS_PREFIX}:${jobId}`),
+      upstash.lrem(`${this.DLQ_PREFIX}:${failedJob.originalQueue}`, 0, jobId),
+      upstash.lrem(`${this.DLQ_PREFIX}:permanent-failures`, 0, jobId),
+      upstash.zrem(`${this.RETRY_JOBS_PREFIX}:schedule`, jobId),
+    ])
+    return true
+  }
+
+  /**
+   * Delete every job in a queue's DLQ, or every permanent failure
+   */
+  static async purgeQueue(queue: string = 'permanent-failures'): Promise<{ purged: number }> {
+    const key = `${this.DLQ_PREFIX}:${queue}`
+    const jobIds = [...new Set(await upstash.lrange(key, 0, -1))]
+    let purged = 0
+
+    for (const jobId of jobIds) {
+      if (await this.purgeJob(jobId)) purged++
+    }
+    // Also drops the ids of jobs purged earlier by age
+    await upstash.del(key)
+
+    console.log(`Purged ${purged} jobs from DLQ ${queue}`)
+    return { purged }
+  }
+
   /**
    * Purge old failed jobs (maintenance)
    */
@@ -0,0 +1,81 @@
+import { upstash } from './upstash'
+import type { AnalysisResult } from '@truecheckia/types'
+
+/**
+ * Progress tracking for chunked document analysis.
+ * Chunk results are persisted between serverless invocations so a document
+ * job can resume where the previous invocation stopped.
+ */
+
+export type DocumentStatus = 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+
+export interface DocumentState {
+  id: string
+  userId: string
+  status: DocumentStatus
+  totalChunks: number
+  completedChunks: number
+  creditCost: number
+  analysisId?: string
+  error?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export class DocumentProgress {
+  private static readonly PREFIX = 'document'
+  private static readonly TTL = 86400 // 24 hours
+
+  static async create(state: Omit<DocumentState, 'createdAt' | 'updatedAt'>): Promise<void> {
+    const now = Date.now()
+    await this.save(state.id, { ...state, createdAt: now, updatedAt: now })
+  }
+
+  static async get(documentId: string): Promise<DocumentState | null> {
+    // Upstash parses JSON values itself unless they were stored as plain strings
+    const data = await upstash.get<DocumentState | string>(`${this.PREFIX}:${documentId}`)
+    if (!data) return null
+    return typeof data === 'string' ? JSON.parse(data) : data
+  }
+
+  static async update(documentId: string, fields: Partial<DocumentState>): Promise<DocumentState | null> {
+    const state = await this.get(documentId)
+    if (!state) return null
+
+    const updated = { ...state, ...fields, updatedAt: Date.now() }
+    await this.save(documentId, updated)
+    return updated
+  }
+
+  static async saveChunkResults(documentId: string, results: Map<number, AnalysisResult>): Promise<void> {
+    if (results.size === 0) return
+
+    const key = `${this.PREFIX}:${documentId}:chunks`
+    const fields: Record<string, string> = {}
+    results.forEach((result, index) => {
+      fields[index.toString()] = JSON.stringify(result)
+    })
+
+    await upstash.hset(key, fields)
+    await upstash.expire(key, this.TTL)
+  }
+
+  static async getChunkResults(documentId: string): Promise<Map<number, AnalysisResult>> {
+    const data = await upstash.hgetall<Record<string, AnalysisResult | string>>(`${this.PREFIX}:${documentId}:chunks`)
+    const results = new Map<number, AnalysisResult>()
+
+    Object.entries(data || {}).forEach(([index, value]) => {
+      results.set(parseInt(index), typeof value === 'string' ? JSON.parse(value) : value)
+    })
+
+    return results
+  }
+
+  static async clearChunkResults(documentId: string): Promise<void> {
+    await upstash.del(`${this.PREFIX}:${documentId}:chunks`)
+  }
+
+  private static async save(documentId: string, state: DocumentState): Promise<void> {
+    await upstash.set(`${this.PREFIX}:${documentId}`, JSON.stringify(state), { ex: this.TTL })
+  }
+}
@@ -2,10 +2,12 @@
 import { upstash, serverlessCache } from './upstash'
 import { DeadLetterQueue } from './dead-letter-queue'
 import { config } from '@truecheckia/config'
+import { alertThreshold, processAlertChecks, type AlertCheck } from '../services/alert.service'
 
 /**
  * Job Monitoring System for Serverless Queues
- * Provides comprehensive monitoring, metrics, and alerting
+ * Provides comprehensive monitoring, metrics, and alerting. Alerts are
+ * stored and sent by the alert service.
  */
 
 export interface JobMetrics {
@@ -48,32 +50,11 @@ export interface PerformanceMetrics {
   }
 }
 
-export interface Alert {
-  id: string
-  type: 'error_rate' | 'latency' | 'throughput' | 'queue_size' | 'dlq_size'
-  severity: 'low' | 'medium' | 'high' | 'critical'
-  message: string
-  queue?: string
-  value: number
-  threshold: number
-  timestamp: number
-  acknowledged: boolean
-}
-
 export class JobMonitor {
   private static readonly METRICS_PREFIX = 'job-metrics'
   private static readonly PERFORMANCE_PREFIX = 'perf-metrics'
-  private static readonly ALERTS_PREFIX = 'alerts'
+  private static readonly ALERT_CHECK_LOCK_KEY = 'alerts:check-lock'
   private static readonly LATENCY_SAMPLES_KEY = 'latency-samples'
-  
-  // Alert thresholds
-  private static readonly THRESHOLDS = {
-    ERROR_RATE: 0.05, // 5%
-    HIGH_LATENCY_P95: 30000, // 30 seconds
-    LOW_THROUGHPUT: 10, // jobs per hour
-    LARGE_QUEUE_SIZE: 100,
-    LARGE_DLQ_SIZE: 10,
-  }
 
   /**
    * Record job start
@@ -152,7 +133,7 @@ export class JobMonitor {
       await this.updateThroughputMetrics(queueName)
 
       // Check for alerts
-      await this.checkAlerts(queueName)
+      await this.checkAlertsThrottled()
 
     } catch (err) {
       console.error('Failed to record job completion:', err)
@@ -437,157 +418,99 @@ export class JobMonitor {
   }
 
   /**
-   * Check for alerts based on current metrics
+   * Evaluate every alert rule against current metrics and persist the
+   * outcome: firing rules raise or bump an alert, the others resolve theirs.
    */
-  private static async checkAlerts(queueName?: string): Promise<void> {
+  static async checkAlerts(): Promise<void> {
     try {
-      const queues = queueName ? [queueName] : ['analysis', 'email', 'credits']
-      
-      for (const queue of queues) {
+      const queueNames = ['analysis', 'email', 'credits']
+      const checks: AlertCheck[] = []
+      const dlqStats = await DeadLetterQueue.getStats()
+
+      for (const queue of queueNames) {
         const metrics = await this.getQueueMetrics(queue)
-        const dlqStats = await DeadLetterQueue.getStats()
-        
-        // Check error rate
-        if (metrics.errorRate > this.THRESHOLDS.ERROR_RATE) {
-          await this.createAlert({
-            type: 'error_rate',
-            severity: 'high',
-            message: `High error rate in ${queue} queue: ${(metrics.errorRate * 100).toFixed(1)}%`,
-            queue,
-            value: metrics.errorRate,
-            threshold: this.THRESHOLDS.ERROR_RATE,
-          })
-        }
 
-        // Check queue size
-        if (metrics.pending > this.THRESHOLDS.LARGE_QUEUE_SIZE) {
-          await this.createAlert({
-            type: 'queue_size',
-            severity: 'medium',
-            message: `Large queue size in ${queue}: ${metrics.pending} jobs pending`,
-            queue,
-            value: metrics.pending,
-            threshold: this.THRESHOLDS.LARGE_QUEUE_SIZE,
-          })
-        }
+        const errorRate = alertThreshold('error_rate', queue)
+        checks.push({
+          rule: 'error_rate',
+          queue,
+          severity: 'HIGH',
+          firing: metrics.errorRate > errorRate,
+          message: `High error rate in ${queue} queue: ${(metrics.errorRate * 100).toFixed(1)}%`,
+          value: metrics.errorRate,
+          threshold: errorRate,
+        })
 
-        // Check DLQ size
-        const queueDlqSize = dlqStats.queues[queue]?.failed || 0
-        if (queueDlqSize > this.THRESHOLDS.LARGE_DLQ_SIZE) {
-          await this.createAlert({
-            type: 'dlq_size',
-            severity: 'high',
-            message: `Large DLQ size in ${queue}: ${queueDlqSize} failed jobs`,
-            queue,
-            value: queueDlqSize,
-            threshold: this.THRESHOLDS.LARGE_DLQ_SIZE,
-          })
-        }
+        const queueSize = alertThreshold('queue_size', queue)
+        checks.push({
+          rule: 'queue_size',
+          queue,
+          severity: 'MEDIUM',
+          firing: metrics.pending > queueSize,
+          message: `Large queue size in ${queue}: ${metrics.pending} jobs pending`,
+          value: metrics.pending,
+          threshold: queueSize,
+        })
 
-        // Check throughput (only if queue has been active)
-        if (metrics.completed > 0 && metrics.throughput < this.THRESHOLDS.LOW_THROUGHPUT) {
-          await this.createAlert({
-            type: 'throughput',
-            severity: 'medium',
-            message: `Low throughput in ${queue} queue: ${metrics.throughput} jobs/hour`,
-            queue,
-            value: metrics.throughput,
-            threshold: this.THRESHOLDS.LOW_THROUGHPUT,
-          })
-        }
-      }
+        const dlqSize = alertThreshold('dlq_size', queue)
+        const queueDlqSize = dlqStats.queues[queue]?.failed || 0
+        checks.push({
+          rule: 'dlq_size',
+          queue,
+          severity: 'HIGH',
+          firing: queueDlqSize > dlqSize,
+          message: `Large DLQ size in ${queue}: ${queueDlqSize} failed jobs`,
+          value: queueDlqSize,
+          threshold: dlqSize,
+        })
 
-      // Check overall latency
-      const perfMetrics = await this.getPerformanceMetrics()
-      if (perfMetrics.latency.p95 > this.THRESHOLDS.HIGH_LATENCY_P95) {
-        await this.createAlert({
-          type: 'latency',
-          severity: 'medium',
-          message: `High P95 latency: ${(perfMetrics.latency.p95 / 1000).toFixed(1)}s`,
-          value: perfMetrics.latency.p95,
-          threshold: this.THRESHOLDS.HIGH_LATENCY_P95,
+        // Only once the queue has been active
+        const throughput = alertThreshold('throughput', queue)
+        checks.push({
+          rule: 'throughput',
+          queue,
+          severity: 'MEDIUM',
+          firing: metrics.completed > 0 && metrics.throughput < throughput,
+          message: `Low throughput in ${queue} queue: ${metrics.throughput} jobs/hour`,
+          value: metrics.throughput,
+          threshold: throughput,
         })
       }
 
-    } catch (error) {
-      console.error('Error checking alerts:', error)
-    }
-  }
-
-  /**
-   * Create an alert
-   */
-  private static async createAlert(alertData: Omit<Alert, 'id' | 'timestamp' | 'acknowledged'>): Promise<void> {
-    const alert: Alert = {
-      ...alertData,
-      id: `${Date.now()}-${Math.random().toString(36).substring(2)}`,
-      timestamp: Date.now(),
-      acknowledged: false,
-    }
-
-    try {
-      // Store alert
-      await upstash.hset(`${this.ALERTS_PREFIX}:${alert.id}`, {
-        data: JSON.stringify(alert),
-        created: alert.timestamp.toString(),
+      // Overall latency
+      const perfMetrics = await this.getPerformanceMetrics()
+      const latency = alertThreshold('latency')
+      checks.push({
+        rule: 'latency',
+        severity: 'MEDIUM',
+        firing: perfMetrics.latency.p95 > latency,
+        message: `High P95 latency: ${(perfMetrics.latency.p95 / 1000).toFixed(1)}s`,
+        value: perfMetrics.latency.p95,
+        threshold: latency,
       })
 
-      // Add to recent alerts list
-      await upstash.lpush(`${this.ALERTS_PREFIX}:recent`, alert.id)
-
-      // Keep only last 100 alerts
-      await upstash.ltrim(`${this.ALERTS_PREFIX}:recent`, 0, 99)
-
-      // Set expiration (keep for 7 days)
-      await upstash.expire(`${this.ALERTS_PREFIX}:${alert.id}`, 7 * 24 * 60 * 60)
-
-      console.log(`Alert created: ${alert.message}`)
-    } catch (error) {
-      console.error('Failed to create alert:', error)
-    }
-  }
-
-  /**
-   * Get recent alerts
-   */
-  static async getAlerts(limit: number = 20): Promise<Alert[]> {
-    try {
-      const alertIds = await upstash.lrange(`${this.ALERTS_PREFIX}:recent`, 0, limit - 1)
-      const alerts: Alert[] = []
-
-      for (const alertId of alertIds) {
-        const alertData = await upstash.hgetall(`${this.ALERTS_PREFIX}:${alertId}`)
-        if (alertData.data) {
-          alerts.push(JSON.parse(alertData.data))
-        }
+      const { fired, resolved } = await processAlertChecks(checks)
+      if (fired > 0 || resolved > 0) {
+        console.log(`Alerts checked: ${fired} fired, ${resolved} resolved`)
       }
-
-      return alerts.sort((a, b) => b.timestamp - a.timestamp)
     } catch (error) {
-      console.error('Error getting alerts:', error)
-      return []
+      console.error('Error checking alerts:', error)
     }
   }
 
   /**
-   * Acknowledge an alert
+   * Run the alert checks at most once per interval across all instances,
+   * since every job completion and the cron ask for them. Overlapping runs
+   * would both see no open alert and raise duplicates.
    */
-  static async acknowledgeAlert(alertId: string): Promise<boolean> {
-    try {
-      const alertData = await upstash.hgetall(`${this.ALERTS_PREFIX}:${alertId}`)
-      if (!alertData.data) return false
-
-      const alert: Alert = JSON.parse(alertData.data)
-      alert.acknowledged = true
-
-      await upstash.hset(`${this.ALERTS_PREFIX}:${alertId}`, {
-        data: JSON.stringify(alert),
-      })
-
-      return true
-    } catch (error) {
-      console.error('Error acknowledging alert:', error)
-      return false
+  static async checkAlertsThrottled(): Promise<void> {
+    const { checkIntervalSeconds } = config.monitoring.alerts
+    const acquired = await upstash.set(this.ALERT_CHECK_LOCK_KEY, Date.now().toString(), {
+      nx: true,
+      ex: checkIntervalSeconds,
+    })
+    if (acquired) {
+      await this.checkAlerts()
     }
   }
 
@@ -1,26 +1,57 @@
 // @ts-nocheck
+import { randomUUID } from 'crypto'
 import jwt from 'jsonwebtoken'
 import { config } from '@truecheckia/config'
 import type { JWTPayload } from '@truecheckia/types'
 
+export interface TokenOptions {
+  authTime?: number // when the user signed in; refreshes pass the original value along
+  sessionId?: string // refresh token family, checked on every request
+}
+
 /**
- * Generate JWT access and refresh tokens for a user
+ * Generate JWT access and refresh tokens for a user. Use the session service
+ * to issue tokens to clients; it records the refresh token so it can be
+ * rotated and revoked.
  */
-export function generateTokens(user: any) {
+export function generateTokens(user: any, options: TokenOptions = {}) {
   const payload: JWTPayload = {
     userId: user.id,
     email: user.email,
     role: user.role || 'USER',
     plan: user.plan || 'FREE',
+    authTime: options.authTime ?? Math.floor(Date.now() / 1000),
+    ...(options.sessionId && { sessionId: options.sessionId }),
   }
 
   const accessToken = jwt.sign(payload, config.auth.jwtSecret, {
     expiresIn: config.auth.jwtExpiresIn,
   })
 
+  // A unique id keeps two refresh tokens issued in the same second distinct
   const refreshToken = jwt.sign(payload, config.auth.refreshSecret, {
     expiresIn: config.auth.refreshExpiresIn,
+    jwtid: randomUUID(),
   })
 
   return { accessToken, refreshToken }
-}
\ No newline at end of file
+}
+
+/**
+ * Read-only access token for an admin viewing a user's account. It is tied
+ * to the admin's session and comes without a refresh token.
+ */
+export function generateImpersonationToken(user: any, impersonatorId: string, sessionId: string): string {
+  const payload: JWTPayload = {
+    userId: user.id,
+    email: user.email,
+    role: user.role || 'USER',
+    plan: user.plan || 'FREE',
+    sessionId,
+    impersonatorId,
+  }
+
+  return jwt.sign(payload, config.auth.jwtSecret, {
+    expiresIn: config.auth.impersonationExpiresIn,
+  })
+}
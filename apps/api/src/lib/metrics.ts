@@ -0,0 +1,275 @@
+/**
+ * Minimal in-process metrics registry rendered in the OpenMetrics text
+ * format for Prometheus. Counters and histograms accumulate for the life of
+ * the process; gauges are set at scrape time from Redis and the database.
+ */
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+
+type Labels = Record<string, string | number>
+
+interface MetricOptions {
+  name: string
+  help: string
+  labelNames?: string[]
+}
+
+interface HistogramOptions extends MetricOptions {
+  buckets: number[]
+}
+
+// Latency buckets in seconds, from cache hits up to slow model calls
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(names: string[], values: string[], extra = ''): string {
+  const pairs = names.map((name, index) => `${name}="${escapeLabelValue(values[index])}"`)
+  if (extra) pairs.push(extra)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN'
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+abstract class Metric<T> {
+  readonly name: string
+  readonly help: string
+  readonly labelNames: string[]
+  protected readonly series = new Map<string, { labels: string[]; value: T }>()
+
+  constructor(options: MetricOptions) {
+    this.name = options.name
+    this.help = options.help
+    this.labelNames = options.labelNames ?? []
+  }
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram'
+  protected abstract initial(): T
+  protected abstract renderSeries(labels: string[], value: T): string[]
+
+  protected get(labels: Labels = {}): T {
+    const values = this.labelNames.map(name => String(labels[name] ?? ''))
+    const key = JSON.stringify(values)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels: values, value: this.initial() }
+      this.series.set(key, entry)
+    }
+    return entry.value
+  }
+
+  reset(): void {
+    this.series.clear()
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value))
+    }
+    return lines
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter'
+
+  inc(labels?: Labels, amount = 1): void {
+    if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`)
+    this.get(labels).value += amount
+  }
+
+  value(labels?: Labels): number {
+    return this.get(labels).value
+  }
+
+  protected initial() {
+    return { value: 0 }
+  }
+
+  protected renderSeries(labels: string[], { value }: { value: number }): string[] {
+    return [`${this.name}_total${formatLabels(this.labelNames, labels)} ${formatValue(value)}`]
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge'
+
+  set(labels: Labels | undefined, value: number): void {
+    this.get(labels).value = value
+  }
+
+  protected initial() {
+    return { value: 0 }
+  }
+
+  protected renderSeries(labels: string[], { value }: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value)}`]
+  }
+}
+
+interface HistogramValue {
+  counts: number[]
+  sum: number
+  count: number
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram'
+  readonly buckets: number[]
+
+  constructor(options: HistogramOptions) {
+    super(options)
+    this.buckets = [...options.buckets].sort((a, b) => a - b)
+  }
+
+  observe(labels: Labels | undefined, value: number): void {
+    const series = this.get(labels)
+    const index = this.buckets.findIndex(bound => value <= bound)
+    if (index !== -1) series.counts[index]++
+    series.sum += value
+    series.count++
+  }
+
+  /** Start a timer; calling the result observes the elapsed seconds. */
+  startTimer(labels?: Labels): (extra?: Labels) => number {
+    const start = process.hrtime.bigint()
+    return (extra?: Labels) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9
+      this.observe({ ...labels, ...extra }, seconds)
+      return seconds
+    }
+  }
+
+  protected initial(): HistogramValue {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+  }
+
+  protected renderSeries(labels: string[], value: HistogramValue): string[] {
+    const lines: string[] = []
+    let cumulative = 0
+    this.buckets.forEach((bound, index) => {
+      cumulative += value.counts[index]
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, `le="${formatValue(bound)}"`)} ${cumulative}`)
+    })
+    lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, 'le="+Inf"')} ${value.count}`)
+    lines.push(`${this.name}_sum${formatLabels(this.labelNames, labels)} ${formatValue(value.sum)}`)
+    lines.push(`${this.name}_count${formatLabels(this.labelNames, labels)} ${value.count}`)
+    return lines
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<unknown>>()
+
+  counter(options: MetricOptions): Counter {
+    return this.register(new Counter(options))
+  }
+
+  gauge(options: MetricOptions): Gauge {
+    return this.register(new Gauge(options))
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(new Histogram(options))
+  }
+
+  render(): string {
+    const lines: string[] = []
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render())
+    }
+    lines.push('# EOF')
+    return `${lines.join('\n')}\n`
+  }
+
+  resetAll(): void {
+    for (const metric of this.metrics.values()) metric.reset()
+  }
+
+  private register<M extends Metric<unknown>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`)
+    }
+    this.metrics.set(metric.name, metric)
+    return metric
+  }
+}
+
+export const metrics = new MetricsRegistry()
+
+export const httpRequestDuration = metrics.histogram({
+  name: 'truecheckia_http_request_duration_seconds',
+  help: 'HTTP request duration by route and status.',
+  labelNames: ['method', 'route', 'status'],
+  buckets: DURATION_BUCKETS,
+})
+
+export const detectorRequestDuration = metrics.histogram({
+  name: 'truecheckia_openai_request_duration_seconds',
+  help: 'Chat completion latency by detector provider and model.',
+  labelNames: ['provider', 'model', 'outcome'],
+  buckets: DURATION_BUCKETS,
+})
+
+export const detectorTokens = metrics.counter({
+  name: 'truecheckia_openai_tokens',
+  help: 'Tokens used by chat completions, by provider, model and type.',
+  labelNames: ['provider', 'model', 'type'],
+})
+
+export const cacheLookups = metrics.counter({
+  name: 'truecheckia_cache_lookups',
+  help: 'Cache lookups by cache and result (hit or miss).',
+  labelNames: ['cache', 'result'],
+})
+
+export const cacheHitRatio = metrics.gauge({
+  name: 'truecheckia_cache_hit_ratio',
+  help: 'Share of cache lookups that hit since the process started.',
+  labelNames: ['cache'],
+})
+
+export const queueJobs = metrics.gauge({
+  name: 'truecheckia_queue_jobs',
+  help: 'Jobs in each queue by state.',
+  labelNames: ['queue', 'state'],
+})
+
+export const deadLetterJobs = metrics.gauge({
+  name: 'truecheckia_dlq_jobs',
+  help: 'Jobs in each dead letter queue.',
+  labelNames: ['queue'],
+})
+
+export const deadLetterRetries = metrics.gauge({
+  name: 'truecheckia_dlq_scheduled_retries',
+  help: 'Dead letter jobs waiting for an automatic retry.',
+})
+
+export const databasePool = metrics.gauge({
+  name: 'truecheckia_db_pool_connections',
+  help: 'Prisma connection pool connections by state.',
+  labelNames: ['state'],
+})
+
+export const databaseUp = metrics.gauge({
+  name: 'truecheckia_db_up',
+  help: 'Whether the database answered the last scrape (1) or not (0).',
+})
+
+/** Count an analysis cache lookup and keep the hit ratio current. */
+export function recordCacheLookup(cache: string, hit: boolean): void {
+  cacheLookups.inc({ cache, result: hit ? 'hit' : 'miss' })
+
+  const hits = cacheLookups.value({ cache, result: 'hit' })
+  const misses = cacheLookups.value({ cache, result: 'miss' })
+  cacheHitRatio.set({ cache }, hits / (hits + misses))
+}
@@ -4,6 +4,7 @@ import { Strategy as GoogleStrategy } from 'passport-google-oauth20'
 import { config } from '@truecheckia/config'
 import { prisma } from '@truecheckia/database'
 import { generateTokens } from './jwt.utils'
+import { screenNewAccount } from '../services/abuse.service'
 
 // Configure Google OAuth strategy
 passport.use(
@@ -12,8 +13,9 @@ passport.use(
       clientID: config.auth.google.clientId,
       clientSecret: config.auth.google.clientSecret,
       callbackURL: config.auth.google.callbackUrl,
+      passReqToCallback: true, // for the signup IP
     },
-    async (accessToken, refreshToken, profile, done) => {
+    async (req, accessToken, refreshToken, profile, done) => {
       try {
         // Extract user info from Google profile
         const { id: googleId, emails, name } = profile
@@ -60,8 +62,10 @@ passport.use(
             emailVerified: true, // Google emails are verified
             credits: config.limits.freeCredits,
             creditsResetAt: new Date(),
+            signupIp: req.ip,
           },
         })
+        await screenNewAccount(user, req.ip).catch(error => console.error('Abuse screening failed:', error))
 
         return done(null, user)
       } catch (error) {
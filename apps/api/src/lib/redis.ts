@@ -1,5 +1,6 @@
 import Redis from 'ioredis'
 import { config } from '@truecheckia/config'
+import { withCacheSpan } from './tracing'
 
 let redis: Redis | null = null
 
@@ -42,21 +43,22 @@ export const getRedis = (): Redis => {
   return redis
 }
 
-export const cacheGet = async (key: string): Promise<any | null> => {
+export const cacheGet = (key: string): Promise<any | null> => withCacheSpan('get', key, async span => {
   try {
     const data = await getRedis().get(key)
+    span?.setAttribute('cache.hit', Boolean(data))
     return data ? JSON.parse(data) : null
   } catch (error) {
     console.error('Cache get error:', error)
     return null
   }
-}
+})
 
-export const cacheSet = async (
+export const cacheSet = (
   key: string,
   value: any,
   ttl?: number
-): Promise<void> => {
+): Promise<void> => withCacheSpan('set', key, async () => {
   try {
     const serialized = JSON.stringify(value)
     if (ttl) {
@@ -67,7 +69,7 @@ export const cacheSet = async (
   } catch (error) {
     console.error('Cache set error:', error)
   }
-}
+})
 
 export const cacheDel = async (key: string): Promise<void> => {
   try {
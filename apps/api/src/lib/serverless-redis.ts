@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { config } from '@truecheckia/config'
 import { serverlessCache, upstash } from './upstash'
+import { withCacheSpan } from './tracing'
 
 /**
  * Serverless Redis adapter - seamless drop-in replacement for ioredis
@@ -112,17 +113,19 @@ export const jsonOperations = {
 }
 
 // Drop-in replacement for existing Redis functions with auto-serialization
-export const cacheGet = async (key: string): Promise<any | null> => {
-  return await jsonOperations.getJSON(key)
-}
+export const cacheGet = (key: string): Promise<any | null> => withCacheSpan('get', key, async span => {
+  const value = await jsonOperations.getJSON(key)
+  span?.setAttribute('cache.hit', value !== null && value !== undefined)
+  return value
+})
 
-export const cacheSet = async (
+export const cacheSet = (
   key: string,
   value: any,
   ttl?: number
-): Promise<void> => {
+): Promise<void> => withCacheSpan('set', key, async () => {
   await jsonOperations.setJSON(key, value, ttl ? { ex: ttl } : undefined)
-}
+})
 
 export const cacheDel = async (key: string): Promise<void> => {
   return await serverlessCache.del(key)
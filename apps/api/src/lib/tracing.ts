@@ -0,0 +1,207 @@
+import {
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Context,
+  type Span,
+} from '@opentelemetry/api'
+import { ExpressInstrumentation } from '@opentelemetry/instrumentation-express'
+import { HttpInstrumentation } from '@opentelemetry/instrumentation-http'
+import { Resource } from '@opentelemetry/resources'
+import { NodeSDK } from '@opentelemetry/sdk-node'
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  ParentBasedSampler,
+  TraceIdRatioBasedSampler,
+  type Sampler,
+  type SpanExporter,
+  type SpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http'
+import { ATTR_SERVICE_NAME, SEMRESATTRS_DEPLOYMENT_ENVIRONMENT } from '@opentelemetry/semantic-conventions'
+import { PrismaInstrumentation } from '@prisma/instrumentation'
+import type { Request } from 'express'
+import { config } from '@truecheckia/config'
+
+/**
+ * OpenTelemetry setup. The SDK instruments incoming HTTP requests, Express
+ * routes and Prisma queries; the helpers below add spans for model calls,
+ * cache access and queue jobs, and carry the trace context through job
+ * payloads as W3C `traceparent`.
+ */
+
+export { SpanKind, SpanStatusCode, type Span }
+
+// What travels in headers and job payloads
+export type TraceCarrier = {
+  traceparent?: string
+  tracestate?: string
+}
+
+export interface SpanOptions {
+  kind?: SpanKind
+  attributes?: Attributes
+  // Defaults to the active context; ROOT_CONTEXT starts a new trace
+  parent?: Context
+  // Only trace inside a recording span, for chatty operations like cache reads
+  requireParent?: boolean
+}
+
+const MAX_QUEUED_SPANS = 2048
+
+const tracer = trace.getTracer('truecheckia-api')
+
+let sdk: NodeSDK | null = null
+let processor: SpanProcessor | null = null
+
+export function isTracingEnabled(): boolean {
+  return config.tracing.exporter === 'otlp' || config.tracing.exporter === 'console'
+}
+
+function createExporter(): SpanExporter {
+  if (config.tracing.exporter === 'console') return new ConsoleSpanExporter()
+
+  return new OTLPTraceExporter({
+    url: `${config.tracing.otlpEndpoint.replace(/\/$/, '')}/v1/traces`,
+    headers: config.tracing.otlpHeaders,
+  })
+}
+
+/**
+ * Keep a share of traces by trace id. Local parents are followed so a trace
+ * is never cut in half inside the process, but a caller's sampled flag is
+ * not trusted: remote parents get the same ratio as new traces.
+ */
+export function createSampler(ratio: number = config.tracing.sampleRatio): Sampler {
+  const local = new TraceIdRatioBasedSampler(ratio)
+  return new ParentBasedSampler({
+    root: local,
+    remoteParentSampled: local,
+    remoteParentNotSampled: local,
+  })
+}
+
+/**
+ * Start the SDK. The HTTP and Express instrumentations only patch modules
+ * loaded afterwards, so this must run before express is first imported.
+ * Does nothing when no exporter is configured, unless one is given.
+ */
+export function startTracing(exporter?: SpanExporter): void {
+  if (sdk || (!exporter && !isTracingEnabled())) return
+
+  processor = new BatchSpanProcessor(exporter ?? createExporter(), {
+    maxQueueSize: MAX_QUEUED_SPANS,
+    maxExportBatchSize: config.tracing.batchSize,
+    scheduledDelayMillis: config.tracing.flushIntervalMs,
+  })
+
+  sdk = new NodeSDK({
+    resource: new Resource({
+      [ATTR_SERVICE_NAME]: config.tracing.serviceName,
+      [SEMRESATTRS_DEPLOYMENT_ENVIRONMENT]: config.env,
+    }),
+    sampler: createSampler(),
+    spanProcessors: [processor],
+    instrumentations: [
+      new HttpInstrumentation({
+        applyCustomAttributesOnSpan: (span, request) => {
+          const { requestId } = request as Request
+          if (requestId) span.setAttribute('request.id', requestId)
+        },
+      }),
+      new ExpressInstrumentation(),
+      new PrismaInstrumentation(),
+    ],
+  })
+  sdk.start()
+}
+
+/**
+ * Export every finished span now. The batch timer doesn't keep the process
+ * alive and a serverless function is frozen as soon as it responds, so each
+ * invocation must await this before returning. Failures are logged, never
+ * thrown.
+ */
+export async function flushSpans(): Promise<void> {
+  try {
+    await processor?.forceFlush()
+  } catch (error) {
+    console.error('Failed to export spans:', error)
+  }
+}
+
+/** Flush and stop the SDK, on shutdown. */
+export async function shutdownTracing(): Promise<void> {
+  if (!sdk) return
+
+  try {
+    await sdk.shutdown()
+  } catch (error) {
+    console.error('Failed to shut down tracing:', error)
+  } finally {
+    sdk = null
+    processor = null
+  }
+}
+
+/**
+ * Run `fn` inside a new active span that ends when it settles. Errors are
+ * recorded on the span and rethrown.
+ */
+export async function withSpan<T>(
+  name: string,
+  options: SpanOptions,
+  fn: (span?: Span) => Promise<T> | T
+): Promise<T> {
+  const parent = options.parent ?? context.active()
+  if (options.requireParent && !trace.getSpan(parent)?.isRecording()) {
+    return fn()
+  }
+
+  return tracer.startActiveSpan(name, { kind: options.kind, attributes: options.attributes }, parent, async span => {
+    try {
+      return await fn(span)
+    } catch (error) {
+      const exception = error instanceof Error ? error : new Error(String(error))
+      span.recordException(exception)
+      span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message })
+      throw error
+    } finally {
+      span.end()
+    }
+  })
+}
+
+export function injectTraceContext(from: Context = context.active()): TraceCarrier | undefined {
+  const carrier: TraceCarrier = {}
+  propagation.inject(from, carrier)
+  return carrier.traceparent ? carrier : undefined
+}
+
+/** Context to continue a trace from; malformed or missing headers start a new one. */
+export function extractTraceContext(carrier?: Record<string, string | string[] | undefined> | null): Context {
+  return propagation.extract(ROOT_CONTEXT, carrier ?? {})
+}
+
+/** Client span for a cache read or write made inside a trace. */
+export function withCacheSpan<T>(operation: 'get' | 'set', key: string, fn: (span?: Span) => Promise<T>): Promise<T> {
+  return withSpan(
+    `cache ${operation}`,
+    {
+      kind: SpanKind.CLIENT,
+      requireParent: true,
+      attributes: {
+        'db.system': 'redis',
+        'db.operation': operation,
+        // The prefix tells analyses from preferences without leaking ids
+        'cache.key_prefix': key.split(':')[0],
+      },
+    },
+    fn
+  )
+}
@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { Redis } from '@upstash/redis'
 import { config } from '@truecheckia/config'
+import { extractTraceContext, injectTraceContext, SpanKind, withSpan } from './tracing'
 
 // Upstash Redis client - serverless compatible
 export const upstash = new Redis({
@@ -181,6 +182,8 @@ export const serverlessQueue = {
       data,
       queueName,
       createdAt: Date.now(),
+      // Lets the job's span link back to the request that enqueued it
+      traceContext: injectTraceContext(),
       ...(options?.delay && { executeAt: Date.now() + options.delay }),
     }
 
@@ -228,8 +231,20 @@ export const serverlessQueue = {
           createdAt: job.createdAt?.toString() || Date.now().toString(),
         })
 
-        // Process the job
-        const result = await processor(job)
+        // Process the job, continuing the trace it was enqueued from
+        const result = await withSpan(
+          `${queueName} process`,
+          {
+            kind: SpanKind.CONSUMER,
+            parent: extractTraceContext(job.traceContext),
+            attributes: {
+              'messaging.system': 'redis',
+              'messaging.destination.name': queueName,
+              'messaging.message.id': job.id,
+            },
+          },
+          () => processor(job)
+        )
 
         // Mark as completed with proper serialization
         await upstash.hset(`job:${job.id}`, {
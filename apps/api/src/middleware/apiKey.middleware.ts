@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express'
+import { ERROR_CODES } from '@truecheckia/config'
+import { AppError } from './error.middleware'
+import { assertAccountActive } from './auth.middleware'
+import { findApiKey, getApiKeyStatus, recordApiKeyUse } from '../services/api-key.service'
+import type { ApiKeyScope } from '@truecheckia/types'
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: {
+        id: string
+        scopes: string[]
+      }
+    }
+  }
+}
+
+/**
+ * Authenticate a public API request by its `x-api-key` header and require
+ * the key to carry `scope`. Sets the same `req.user` as `authenticate`.
+ */
+export const authenticateApiKey = (scope: ApiKeyScope) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rawKey = req.headers['x-api-key'] as string
+
+      if (!rawKey) {
+        throw new AppError('API key required', 401, ERROR_CODES.UNAUTHORIZED)
+      }
+
+      const apiKey = await findApiKey(rawKey)
+      const status = apiKey ? getApiKeyStatus(apiKey) : 'REVOKED'
+
+      if (!apiKey || status === 'REVOKED') {
+        throw new AppError('Invalid API key', 401, ERROR_CODES.UNAUTHORIZED)
+      }
+
+      if (status === 'EXPIRED') {
+        throw new AppError('API key expired', 401, ERROR_CODES.TOKEN_EXPIRED)
+      }
+
+      if (!apiKey.scopes.includes(scope)) {
+        throw new AppError(
+          `API key does not have the "${scope}" scope`,
+          403,
+          ERROR_CODES.UNAUTHORIZED,
+          { requiredScope: scope }
+        )
+      }
+
+      assertAccountActive(apiKey.user)
+
+      await recordApiKeyUse(apiKey, req.ip)
+
+      req.user = {
+        userId: apiKey.user.id,
+        email: apiKey.user.email,
+        role: apiKey.user.role,
+        plan: apiKey.user.plan,
+      }
+      req.userId = apiKey.user.id
+      req.apiKey = {
+        id: apiKey.id,
+        scopes: apiKey.scopes,
+      }
+
+      next()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express'
 import jwt from 'jsonwebtoken'
 import { config, ERROR_CODES } from '@truecheckia/config'
-import { prisma } from '@truecheckia/database'
 import { AppError } from './error.middleware'
+import { findAuthUser, getAccountBlock, isAccountBlocked, isActiveAdmin } from '../services/account-status.service'
+import { isSessionActive } from '../services/session.service'
+import { isTwoFactorEnabled, isTwoFactorRequired } from '../services/two-factor.service'
 import type { JWTPayload } from '@truecheckia/types'
 
 declare global {
@@ -10,10 +12,37 @@ declare global {
     interface Request {
       user?: JWTPayload
       userId?: string
+      authTime?: number // when the user last signed in, for actions that need a recent sign-in
+      sessionId?: string
+      impersonatorId?: string // admin viewing the account read-only
     }
   }
 }
 
+// Impersonation tokens are read-only
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+/**
+ * Reject suspended and banned accounts. Shared by token, API key and
+ * password sign-in so every way in answers the same.
+ */
+export function assertAccountActive(user: { status?: string | null; statusExpiresAt?: Date | null }) {
+  const block = getAccountBlock(user)
+
+  if (block === 'BANNED') {
+    throw new AppError('This account has been banned', 403, ERROR_CODES.ACCOUNT_BANNED)
+  }
+
+  if (block === 'SUSPENDED') {
+    throw new AppError(
+      'This account has been suspended. Please contact support.',
+      403,
+      ERROR_CODES.ACCOUNT_SUSPENDED,
+      user.statusExpiresAt ? { suspendedUntil: user.statusExpiresAt } : undefined
+    )
+  }
+}
+
 export const authenticate = async (
   req: Request,
   res: Response,
@@ -29,15 +58,30 @@ export const authenticate = async (
     const decoded = jwt.verify(token, config.auth.jwtSecret) as JWTPayload
     
     // Verify user still exists
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { id: true, email: true, role: true, plan: true },
-    })
+    const user = await findAuthUser(decoded.userId)
     
     if (!user) {
       throw new AppError('User not found', 401, ERROR_CODES.UNAUTHORIZED)
     }
     
+    // Tokens stop working as soon as their session is revoked. Impersonation
+    // tokens live on the admin's session.
+    if (!(await isSessionActive(decoded.impersonatorId ?? user.id, decoded.sessionId))) {
+      throw new AppError('Session expired or revoked', 401, ERROR_CODES.UNAUTHORIZED)
+    }
+    
+    if (decoded.impersonatorId) {
+      if (!READ_ONLY_METHODS.includes(req.method)) {
+        throw new AppError('Impersonation sessions are read-only', 403, ERROR_CODES.UNAUTHORIZED)
+      }
+      // Admins who were demoted or blocked lose the views they opened
+      if (!(await isActiveAdmin(decoded.impersonatorId))) {
+        throw new AppError('Impersonation is no longer allowed', 401, ERROR_CODES.UNAUTHORIZED)
+      }
+    } else {
+      assertAccountActive(user)
+    }
+    
     req.user = {
       userId: user.id,
       email: user.email,
@@ -45,6 +89,9 @@ export const authenticate = async (
       plan: user.plan,
     }
     req.userId = user.id
+    req.authTime = decoded.authTime
+    req.sessionId = decoded.sessionId
+    req.impersonatorId = decoded.impersonatorId
     
     next()
   } catch (error) {
@@ -63,12 +110,12 @@ export const optionalAuth = async (
     if (token) {
       const decoded = jwt.verify(token, config.auth.jwtSecret) as JWTPayload
       
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        select: { id: true, email: true, role: true, plan: true },
-      })
+      const user = await findAuthUser(decoded.userId)
+      const usable = decoded.impersonatorId
+        ? READ_ONLY_METHODS.includes(req.method) && (await isActiveAdmin(decoded.impersonatorId))
+        : !!user && !isAccountBlocked(user)
       
-      if (user) {
+      if (user && usable && (await isSessionActive(decoded.impersonatorId ?? user.id, decoded.sessionId))) {
         req.user = {
           userId: user.id,
           email: user.email,
@@ -76,6 +123,8 @@ export const optionalAuth = async (
           plan: user.plan,
         }
         req.userId = user.id
+        req.sessionId = decoded.sessionId
+        req.impersonatorId = decoded.impersonatorId
       }
     }
     
@@ -86,6 +135,15 @@ export const optionalAuth = async (
   }
 }
 
+// For GET routes that reveal secrets or create them on first read
+export const denyImpersonation = (req: Request, res: Response, next: NextFunction) => {
+  if (req.impersonatorId) {
+    return next(new AppError('Not available while impersonating a user', 403, ERROR_CODES.UNAUTHORIZED))
+  }
+
+  next()
+}
+
 export const requirePlan = (plans: string[]) => {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -128,6 +186,32 @@ export const requireRole = (roles: string[]) => {
   }
 }
 
+// Accounts whose role is in config.auth.mfa.requiredRoles must enrol in 2FA
+// before using routes behind this middleware
+export const requireTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError('Unauthorized', 401, ERROR_CODES.UNAUTHORIZED)
+    }
+
+    if (isTwoFactorRequired(req.user.role) && !(await isTwoFactorEnabled(req.user.userId))) {
+      throw new AppError(
+        'Two-factor authentication must be enabled for this account',
+        403,
+        ERROR_CODES.MFA_ENROLLMENT_REQUIRED
+      )
+    }
+
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
 function extractToken(req: Request): string | null {
   // Check Authorization header
   const authHeader = req.headers.authorization
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express'
+import { createHash, timingSafeEqual } from 'crypto'
+import { config, ERROR_CODES } from '@truecheckia/config'
+import { AppError } from './error.middleware'
+import { notFoundHandler } from './notFound.middleware'
+import { httpRequestDuration } from '../lib/metrics'
+
+/**
+ * Time every request into the HTTP histogram. Routes are labelled by their
+ * pattern (`/api/share/:token`), never the raw URL, to keep cardinality low.
+ */
+export const httpMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const end = httpRequestDuration.startTimer({ method: req.method })
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched'
+    end({ route, status: res.statusCode })
+  })
+
+  next()
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
+
+/**
+ * Let Prometheus scrape with `Authorization: Bearer <METRICS_TOKEN>`.
+ * Without a configured token the endpoint does not exist.
+ */
+export const authenticateMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const token = config.monitoring.metricsToken
+  if (!token) {
+    return notFoundHandler(req, res)
+  }
+
+  const header = req.headers.authorization
+  const provided = header?.startsWith('Bearer ') ? header.slice(7) : ''
+
+  if (!provided || !timingSafeEqual(digest(provided), digest(token))) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="metrics"')
+    throw new AppError('Invalid metrics token', 401, ERROR_CODES.UNAUTHORIZED)
+  }
+
+  next()
+}
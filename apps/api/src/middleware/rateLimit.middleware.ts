@@ -41,4 +41,5 @@ export const authLimiter = createRateLimiter(
   config.env === 'development' ? 60 * 1000 : 15 * 60 * 1000
 )
 export const analysisLimiter = createRateLimiter(30, 60 * 1000) // 30 requests per minute
-export const apiLimiter = createRateLimiter(100, 60 * 1000) // 100 requests per minute for API users
\ No newline at end of file
+export const apiLimiter = createRateLimiter(100, 60 * 1000) // 100 requests per minute for API users
+export const shareAccessLimiter = createRateLimiter(20, 60 * 1000) // 20 requests per minute for public share links
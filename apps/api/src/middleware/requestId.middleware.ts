@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express'
+import { randomUUID } from 'crypto'
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    requestId?: string
+  }
+}
+
+// Ids from a proxy or client are kept when they look sane, so logs line up
+const INCOMING_REQUEST_ID = /^[\w.:-]{1,128}$/
+
+/**
+ * Give every request an id, echoed in the X-Request-Id response header and
+ * stored on audit events.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.headers['x-request-id']
+
+  req.requestId = typeof incoming === 'string' && INCOMING_REQUEST_ID.test(incoming) ? incoming : randomUUID()
+  res.setHeader('X-Request-Id', req.requestId)
+
+  next()
+}
@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from 'express'
+import multer from 'multer'
+import { config, ERROR_CODES } from '@truecheckia/config'
+import { AppError } from './error.middleware'
+import { detectFormat } from '../services/extraction.service'
+
+// Files are kept in memory only for the duration of the request
+const createUploader = (maxFiles: number) => multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.limits.upload.maxFileSize,
+    files: maxFiles,
+  },
+  fileFilter: (req, file, cb) => {
+    if (!detectFormat(file.mimetype, file.originalname)) {
+      return cb(new AppError(
+        'Unsupported file type. Use PDF, DOCX, ODT, TXT or Markdown',
+        415,
+        ERROR_CODES.UNSUPPORTED_FILE_TYPE,
+        { mimeType: file.mimetype }
+      ))
+    }
+    cb(null, true)
+  },
+})
+
+const documentUploader = createUploader(1)
+const batchUploader = createUploader(config.limits.batch.maxItems)
+
+const handleUploadError = (error: unknown, next: NextFunction, maxFiles: number): boolean => {
+  if (error instanceof multer.MulterError) {
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      next(new AppError(
+        `File exceeds the maximum size of ${Math.round(config.limits.upload.maxFileSize / 1024 / 1024)}MB`,
+        413,
+        ERROR_CODES.FILE_TOO_LARGE
+      ))
+    } else if (error.code === 'LIMIT_FILE_COUNT') {
+      next(new AppError(
+        `Too many files. The maximum is ${maxFiles}`,
+        400,
+        ERROR_CODES.VALIDATION_ERROR
+      ))
+    } else {
+      next(new AppError(error.message, 400, ERROR_CODES.VALIDATION_ERROR))
+    }
+    return true
+  }
+  if (error) {
+    next(error)
+    return true
+  }
+  return false
+}
+
+/**
+ * Accept a single document in the `file` field of a multipart request
+ */
+export const uploadDocument = (req: Request, res: Response, next: NextFunction) => {
+  documentUploader.single('file')(req, res, (error: unknown) => {
+    if (handleUploadError(error, next, 1)) {
+      return
+    }
+    if (!req.file) {
+      return next(new AppError('No file uploaded', 400, ERROR_CODES.VALIDATION_ERROR))
+    }
+    next()
+  })
+}
+
+/**
+ * Accept up to config.limits.batch.maxItems documents in the `files` field.
+ * JSON requests pass through untouched so a batch can also be made of texts.
+ */
+export const uploadBatchFiles = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.is('multipart/form-data')) {
+    return next()
+  }
+
+  batchUploader.array('files')(req, res, (error: unknown) => {
+    if (handleUploadError(error, next, config.limits.batch.maxItems)) {
+      return
+    }
+    next()
+  })
+}
@@ -1,15 +1,22 @@
 // @ts-nocheck
 import Queue from 'bull'
 import { config } from '@truecheckia/config'
-import { analyzeWithOpenAI } from '../services/openai.service'
+import {
+  analyzeWithDetectors,
+  describeDetectors,
+  getAnalysisCacheKey,
+  getDetectorsForPlan,
+} from '../services/openai.service'
 import { prisma } from '@truecheckia/database'
 import { cacheSet } from '../lib/redis'
 import { createHash } from 'crypto'
+import { getUserPreferences } from '../services/preferences.service'
 
 export interface AnalysisJobData {
   userId: string
   text: string
   language: string
+  plan?: string
   webhookUrl?: string
   priority?: number
 }
@@ -28,14 +35,20 @@ export const analysisQueue = new Queue<AnalysisJobData>('analysis', config.redis
 
 // Process analysis jobs
 analysisQueue.process(async (job) => {
-  const { userId, text, language, webhookUrl } = job.data
+  const { userId, text, language, plan, webhookUrl } = job.data
   
   console.log(`Processing analysis job ${job.id} for user ${userId}`)
   
   try {
     // Perform analysis
-    const result = await analyzeWithOpenAI(text, language)
+    const preferences = await getUserPreferences(userId)
+    const result = await analyzeWithDetectors(text, language, {
+      plan,
+      aiThreshold: preferences.analysisSettings.confidenceThreshold,
+    })
     
+    const textHash = createHash('sha256').update(text).digest('hex')
+
     // Save to database
     const analysis = await prisma.analysis.create({
       data: {
@@ -52,12 +65,13 @@ analysisQueue.process(async (job) => {
         suspiciousParts: result.suspiciousParts,
         processingTime: result.processingTime,
         cached: false,
+        modelUsed: describeDetectors(result.detectors),
+        textHash,
       },
     })
     
     // Cache result
-    const textHash = createHash('sha256').update(text).digest('hex')
-    const cacheKey = `${config.cache.analysisPrefix}${textHash}`
+    const cacheKey = getAnalysisCacheKey(text, language, getDetectorsForPlan(plan))
     await cacheSet(cacheKey, result, config.cache.ttl)
     
     // Send webhook if provided
@@ -3,6 +3,8 @@ import Queue from 'bull'
 import nodemailer from 'nodemailer'
 import { config } from '@truecheckia/config'
 import { emailService } from '../services/email.service'
+import { canSendEmail, EMAIL_TEMPLATE_CATEGORIES } from '../services/preferences.service'
+import type { EmailCategory } from '../services/preferences.service'
 
 export interface EmailJobData {
   to: string
@@ -10,6 +12,8 @@ export interface EmailJobData {
   html: string
   text?: string
   type?: 'resend' | 'smtp'
+  userId?: string
+  category?: EmailCategory // opt-in checked before sending
 }
 
 export const emailQueue = new Queue<EmailJobData>('email', config.redis.url, {
@@ -37,11 +41,16 @@ const transporter = nodemailer.createTransport({
 
 // Process email jobs
 emailQueue.process(async (job) => {
-  const { to, subject, html, text, type = 'resend' } = job.data
+  const { to, subject, html, text, type = 'resend', userId, category } = job.data
   
   console.log(`Sending email to ${to}: ${subject} via ${type}`)
   
   try {
+    if (!(await canSendEmail(category, { userId, email: to }))) {
+      console.log(`Email to ${to} skipped: recipient opted out`)
+      return { to, status: 'skipped' }
+    }
+
     // Use Resend in production, SMTP (Mailhog) in development
     if (type === 'resend' && config.resend.apiKey) {
       await emailService.sendEmail({ to, subject, html })
@@ -133,6 +142,21 @@ export const emailTemplates = {
     text: `Hello ${name}, your ${plan} plan subscription has been confirmed! Access ${config.app.url}/dashboard`,
   }),
   
+  planExpiring: (name: string, plan: string, renewalDate: string) => ({
+    subject: 'Your plan renews soon - TrueCheckIA',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #007bff;">Your subscription renews soon</h2>
+        <p>Hello ${name},</p>
+        <p>Your <strong>${plan}</strong> plan renews on <strong>${new Date(renewalDate).toLocaleDateString('en-US')}</strong>.</p>
+        <p>No action is needed to keep your plan. You can review or cancel it from your billing page.</p>
+        <a href="${config.app.url}/subscription" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Manage Subscription</a>
+        <p>Best regards,<br>TrueCheckIA Team</p>
+      </div>
+    `,
+    text: `Hello ${name}, your ${plan} plan renews on ${new Date(renewalDate).toLocaleDateString('en-US')}. Manage it at ${config.app.url}/subscription`,
+  }),
+
   paymentFailed: (name: string) => ({
     subject: 'Payment Issue - TrueCheckIA',
     html: `
@@ -166,5 +190,6 @@ export async function sendTemplateEmail(
   return sendEmail({
     to,
     ...emailData,
+    category: EMAIL_TEMPLATE_CATEGORIES[template],
   })
 }
\ No newline at end of file
@@ -1,20 +1,57 @@
 // @ts-nocheck
 import { serverlessQueue } from '../lib/upstash'
-import { analyzeWithOpenAI } from '../services/openai.service'
+import {
+  analyzeWithDetectors,
+  describeDetectors,
+  getAnalysisCacheKey,
+  getDetectorsForPlan,
+} from '../services/openai.service'
 import { prisma } from '@truecheckia/database'
 import { cacheSet } from '../lib/serverless-redis'
 import { createHash } from 'crypto'
 import { config } from '@truecheckia/config'
 import { DeadLetterQueue } from '../lib/dead-letter-queue'
 import { JobMonitor } from '../lib/job-monitor'
+import { DocumentProgress } from '../lib/document-progress'
+import type { AnalysisResult } from '@truecheckia/types'
+import {
+  aggregateChunkResults,
+  analyzeChunks,
+  ChunkAnalysisError,
+  splitIntoChunks,
+} from '../services/document.service'
+import { recordBatchItemResult } from '../services/batch.service'
+import { getUserPreferences } from '../services/preferences.service'
+import { sendTemplateEmail } from './serverless-email.queue'
+import {
+  getWebhookSecret,
+  postWebhook,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../services/webhook.service'
+import type { WebhookEvent } from '../services/webhook.service'
+
+export interface WebhookContext {
+  userId: string
+  event?: WebhookEvent
+  analysisId?: string
+  jobId?: string
+}
 
 export interface AnalysisJobData {
   userId: string
   text: string
   language: string
+  plan?: string
   webhookUrl?: string
   priority?: number
   analysisId?: string
+  documentId?: string // set for chunked long-document analysis
+  batchItemId?: string // set for items of a batch analysis
+  metadata?: Record<string, any> // stored on the Analysis record (e.g. uploaded file info)
 }
 
 /**
@@ -23,6 +60,7 @@ export interface AnalysisJobData {
  */
 export class ServerlessAnalysisQueue {
   private static readonly QUEUE_NAME = 'analysis'
+  private static readonly WEBHOOK_QUEUE_NAME = 'webhook'
 
   /**
    * Add analysis job to queue
@@ -48,7 +86,7 @@ export class ServerlessAnalysisQueue {
    * Process analysis job (called by webhook/cron)
    */
   static async processJob(job: any): Promise<any> {
-    const { userId, text, language, webhookUrl, analysisId } = job.data
+    const { userId, text, language, plan, webhookUrl, analysisId, documentId, batchItemId, metadata } = job.data
     
     console.log(`Processing analysis job ${job.id} for user ${userId}`)
     
@@ -57,9 +95,22 @@ export class ServerlessAnalysisQueue {
       if (!job.isRetry) {
         await JobMonitor.recordJobStart(job.id, this.QUEUE_NAME, job.data)
       }
+
+      if (documentId) {
+        const outcome = await this.processDocumentJob(job)
+        await JobMonitor.recordJobCompletion(job.id, this.QUEUE_NAME, true, undefined, outcome)
+        return outcome
+      }
+
       // Perform analysis
-      const result = await analyzeWithOpenAI(text, language)
+      const preferences = await getUserPreferences(userId)
+      const result = await analyzeWithDetectors(text, language, {
+        plan,
+        aiThreshold: preferences.analysisSettings.confidenceThreshold,
+      })
       
+      const textHash = createHash('sha256').update(text).digest('hex')
+
       // Save to database or update existing
       let analysis
       if (analysisId) {
@@ -75,6 +126,7 @@ export class ServerlessAnalysisQueue {
             suspiciousParts: result.suspiciousParts,
             processingTime: result.processingTime,
             cached: false,
+            modelUsed: describeDetectors(result.detectors),
             status: 'COMPLETED',
           },
         })
@@ -95,36 +147,44 @@ export class ServerlessAnalysisQueue {
             suspiciousParts: result.suspiciousParts,
             processingTime: result.processingTime,
             cached: false,
-            status: 'COMPLETED',
+            modelUsed: describeDetectors(result.detectors),
+            metadata,
+            textHash,
           },
         })
       }
       
       // Cache result
-      const textHash = createHash('sha256').update(text).digest('hex')
-      const cacheKey = `${config.cache.analysisPrefix}${textHash}`
+      const cacheKey = getAnalysisCacheKey(text, language, getDetectorsForPlan(plan))
       await cacheSet(cacheKey, result, config.cache.ttl)
       
       // Send webhook if provided
       if (webhookUrl) {
-        await this.sendWebhook(webhookUrl, {
-          analysisId: analysis.id,
-          ...result,
-        })
+        await this.sendWebhook(
+          webhookUrl,
+          { jobId: job.id, analysisId: analysis.id, ...result },
+          { userId, analysisId: analysis.id, jobId: job.id }
+        )
       }
       
-      // Create notification for user
-      await prisma.notification.create({
-        data: {
-          userId,
-          type: 'ANALYSIS',
-          title: 'Analysis Complete',
-          message: `Your analysis has been processed. AI Score: ${result.aiScore}%`,
-          metadata: {
-            analysisId: analysis.id,
+      if (batchItemId) {
+        // The batch sends a single notification once every item is done
+        await recordBatchItemResult(batchItemId, { analysisId: analysis.id })
+      } else {
+        // Create notification for user
+        await prisma.notification.create({
+          data: {
+            userId,
+            type: 'ANALYSIS',
+            title: 'Analysis Complete',
+            message: `Your analysis has been processed. AI Score: ${result.aiScore}%`,
+            metadata: {
+              analysisId: analysis.id,
+            },
           },
-        },
-      })
+        })
+        await this.sendCompletionEmail(userId, analysis.id, result.aiScore)
+      }
       
       // Record successful completion
       await JobMonitor.recordJobCompletion(job.id, this.QUEUE_NAME, true, undefined, { analysisId: analysis.id, ...result })
@@ -150,13 +210,40 @@ export class ServerlessAnalysisQueue {
       
       // Add to DLQ for retry (unless already retried max times)
       const retryCount = job.retryCount || 0
+
+      // Completed chunks are kept, so a retry resumes the document
+      if (documentId) {
+        const state = await DocumentProgress.update(documentId, {
+          error: errorMessage,
+          ...(retryCount >= 3 && { status: 'FAILED' }),
+        }).catch(console.error)
+
+        // Credits reserved when the document was queued go back to the user
+        if (retryCount >= 3 && plan === 'FREE' && state?.creditCost) {
+          await prisma.user.update({
+            where: { id: userId },
+            data: { credits: { increment: state.creditCost } },
+          }).catch(console.error)
+        }
+      }
+      if (batchItemId && retryCount >= 3) {
+        await recordBatchItemResult(batchItemId, { error: errorMessage }).catch(console.error)
+      }
+      if (webhookUrl && retryCount >= 3) {
+        await this.sendWebhook(
+          webhookUrl,
+          { jobId: job.id, error: errorMessage },
+          { userId, event: 'analysis.failed', jobId: job.id }
+        )
+      }
       if (retryCount < 3) {
         await DeadLetterQueue.addFailedJob(
           job.id,
           this.QUEUE_NAME,
           job.data,
           errorMessage,
-          { maxRetries: 3, baseDelay: 30000 }
+          { maxRetries: 3, baseDelay: 30000 },
+          retryCount
         )
       }
       
@@ -164,6 +251,133 @@ export class ServerlessAnalysisQueue {
     }
   }
 
+  /**
+   * Process one slice of a chunked document job.
+   * Analyzes as many chunks as fit in the invocation time budget, stores
+   * their results and re-enqueues the job until every chunk is done.
+   */
+  private static async processDocumentJob(job: any): Promise<any> {
+    const { userId, text, language, plan, webhookUrl, documentId, metadata } = job.data
+
+    const chunks = splitIntoChunks(text, config.limits.document.chunkSize, language)
+    const results = await DocumentProgress.getChunkResults(documentId)
+    const pending = chunks.filter(chunk => !results.has(chunk.index))
+
+    await DocumentProgress.update(documentId, { status: 'PROCESSING', completedChunks: results.size })
+
+    let fresh: Map<number, AnalysisResult>
+    try {
+      fresh = await analyzeChunks(pending, language, {
+        plan,
+        deadline: Date.now() + config.limits.document.timeBudgetMs,
+      })
+    } catch (error) {
+      // Keep the chunks that finished so the retry only redoes the rest
+      if (error instanceof ChunkAnalysisError) {
+        await DocumentProgress.saveChunkResults(documentId, error.results)
+      }
+      throw error
+    }
+    await DocumentProgress.saveChunkResults(documentId, fresh)
+    fresh.forEach((result, index) => results.set(index, result))
+
+    if (results.size < chunks.length) {
+      await DocumentProgress.update(documentId, { completedChunks: results.size })
+
+      // Continue with the remaining chunks in the next invocation
+      await serverlessQueue.add(this.QUEUE_NAME, job.data, { delay: 1000 })
+      console.log(`Document ${documentId}: ${results.size}/${chunks.length} chunks analyzed, continuing`)
+
+      return { documentId, status: 'PROCESSING', completedChunks: results.size, totalChunks: chunks.length }
+    }
+
+    const preferences = await getUserPreferences(userId)
+    const result = aggregateChunkResults(
+      text,
+      language,
+      chunks,
+      results,
+      preferences.analysisSettings.confidenceThreshold
+    )
+
+    const analysis = await prisma.analysis.create({
+      data: {
+        userId,
+        text: text.substring(0, 500),
+        wordCount: result.wordCount,
+        charCount: result.charCount,
+        language,
+        aiScore: result.aiScore,
+        confidence: result.confidence,
+        isAiGenerated: result.isAiGenerated,
+        indicators: result.indicators,
+        explanation: result.explanation,
+        suspiciousParts: result.suspiciousParts,
+        processingTime: result.processingTime,
+        cached: false,
+        modelUsed: describeDetectors(results.get(0)?.detectors),
+        textHash: createHash('sha256').update(text).digest('hex'),
+        metadata: {
+          ...metadata,
+          documentId,
+          chunks: result.chunks,
+          metrics: result.metrics,
+        },
+      },
+    })
+
+    await DocumentProgress.update(documentId, {
+      status: 'COMPLETED',
+      completedChunks: chunks.length,
+      analysisId: analysis.id,
+      error: undefined,
+    })
+    await DocumentProgress.clearChunkResults(documentId)
+
+    if (webhookUrl) {
+      await this.sendWebhook(
+        webhookUrl,
+        { jobId: job.id, analysisId: analysis.id, documentId, ...result },
+        { userId, analysisId: analysis.id, jobId: job.id }
+      )
+    }
+
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: 'ANALYSIS',
+        title: 'Document Analysis Complete',
+        message: `Your document has been processed in ${chunks.length} parts. AI Score: ${result.aiScore}%`,
+        metadata: {
+          analysisId: analysis.id,
+          documentId,
+        },
+      },
+    })
+    await this.sendCompletionEmail(userId, analysis.id, result.aiScore)
+
+    return { analysisId: analysis.id, documentId, ...result }
+  }
+
+  /**
+   * Email the user that a queued analysis is ready. The email queue drops it
+   * if the user opted out of analysis emails.
+   */
+  private static async sendCompletionEmail(userId: string, analysisId: string, aiScore: number): Promise<void> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, name: true },
+      })
+      if (user) {
+        await sendTemplateEmail(user.email, 'analysisComplete', user.name || user.email, analysisId, aiScore)
+      }
+    } catch (error) {
+      // The analysis is already saved; a missing email must not fail the job
+      console.error(`Failed to queue completion email for analysis ${analysisId}:`, error)
+    }
+  }
+
   /**
    * Process all pending jobs (called by cron)
    */
@@ -181,7 +395,7 @@ export class ServerlessAnalysisQueue {
       // Then process regular pending jobs
       for (let i = 0; i < maxJobs; i++) {
         try {
-          await serverlessQueue.process(this.QUEUE_NAME, this.processJob)
+          await serverlessQueue.process(this.QUEUE_NAME, this.processJob.bind(this))
           processed++
         } catch (error) {
           if (error instanceof Error && error.message.includes('No jobs available')) {
@@ -193,6 +407,21 @@ export class ServerlessAnalysisQueue {
           failed++
         }
       }
+
+      // Finally, deliver webhooks that are due for another attempt
+      for (let i = 0; i < maxJobs; i++) {
+        try {
+          await serverlessQueue.process(
+            this.WEBHOOK_QUEUE_NAME,
+            job => this.deliverWebhook(job.data.deliveryId, job.retryCount || 0)
+          )
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('No jobs available')) {
+            break
+          }
+          console.error('Failed to process webhook job:', error)
+        }
+      }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error'
       console.error('Error in processPendingJobs:', errorMsg)
@@ -215,29 +444,121 @@ export class ServerlessAnalysisQueue {
 
   /**
    * Send webhook notification
+   * Every delivery is logged for the customer; failed attempts are retried
+   * with exponential backoff through the DLQ.
    */
-  private static async sendWebhook(url: string, data: any): Promise<void> {
+  static async sendWebhook(url: string, data: any, context: WebhookContext): Promise<void> {
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-TrueCheckIA-Event': 'analysis.completed',
-          'User-Agent': 'TrueCheckIA-Webhook/1.0',
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          userId: context.userId,
+          event: context.event || 'analysis.completed',
+          url,
+          payload: data,
+          analysisId: context.analysisId,
+          jobId: context.jobId,
         },
-        body: JSON.stringify(data),
       })
-      
-      if (!response.ok) {
-        console.error(`Webhook failed: ${response.status} ${response.statusText}`)
-      } else {
-        console.log(`Webhook sent successfully to ${url}`)
-      }
+
+      await this.deliverWebhook(delivery.id)
     } catch (error) {
       console.error('Failed to send webhook:', error)
     }
   }
 
+  /**
+   * Attempt one delivery. Never throws for an unreachable endpoint, so a
+   * customer outage does not fail the analysis job that produced the event.
+   */
+  static async deliverWebhook(deliveryId: string, retryCount = 0): Promise<{ delivered: boolean }> {
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { id: deliveryId } })
+    if (!delivery || delivery.status === 'SUCCEEDED') {
+      return { delivered: Boolean(delivery) }
+    }
+
+    const secret = await getWebhookSecret(delivery.userId)
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: delivery.createdAt.toISOString(),
+      data: delivery.payload,
+    })
+    const timestamp = Math.floor(Date.now() / 1000)
+    const startTime = Date.now()
+
+    let responseStatus: number | null = null
+    let responseBody: string | null = null
+    let errorMessage: string | null = null
+
+    try {
+      // Resolves the host on every attempt and refuses private addresses
+      const response = await postWebhook(delivery.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TrueCheckIA-Webhook/1.0',
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp.toString(),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+      }, body)
+
+      responseStatus = response.status
+      responseBody = response.body
+      if (response.status < 200 || response.status >= 300) {
+        errorMessage = `HTTP ${response.status} ${response.statusText}`.trim()
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    }
+
+    const attempt = {
+      attempts: { increment: 1 },
+      responseStatus,
+      responseBody,
+      durationMs: Date.now() - startTime,
+      lastAttemptAt: new Date(),
+    }
+
+    if (!errorMessage) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { ...attempt, status: 'SUCCEEDED', error: null, nextRetryAt: null, deliveredAt: new Date() },
+      })
+      console.log(`Webhook ${delivery.id} delivered to ${delivery.url}`)
+      return { delivered: true }
+    }
+
+    console.error(`Webhook ${delivery.id} failed: ${errorMessage}`)
+
+    const { maxRetries, retryBaseDelay, retryMaxDelay } = config.limits.webhooks
+    let nextRetryAt: Date | null = null
+    if (retryCount < maxRetries) {
+      const jobId = `webhook-${delivery.id}`
+      await DeadLetterQueue.addFailedJob(
+        jobId,
+        this.WEBHOOK_QUEUE_NAME,
+        { deliveryId: delivery.id },
+        errorMessage,
+        { maxRetries, baseDelay: retryBaseDelay, maxDelay: retryMaxDelay },
+        retryCount
+      ).catch(console.error)
+
+      const failedJob = await DeadLetterQueue.getFailedJob(jobId)
+      nextRetryAt = failedJob?.nextRetryAt ? new Date(failedJob.nextRetryAt) : null
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        ...attempt,
+        status: nextRetryAt ? 'RETRYING' : 'FAILED',
+        error: errorMessage,
+        nextRetryAt,
+      },
+    })
+
+    return { delivered: false }
+  }
+
   /**
    * Get queue statistics
    */
@@ -3,6 +3,7 @@ import { serverlessQueue } from '../lib/upstash'
 import { config } from '@truecheckia/config'
 import { prisma } from '@truecheckia/database'
 import { sendTemplateEmail } from './serverless-email.queue'
+import { rollupDailyStats } from '../services/usage-stats.service'
 
 /**
  * Serverless Credits Queue
@@ -223,7 +224,7 @@ export class ServerlessCreditsQueue {
         const recentNotification = await prisma.notification.findFirst({
           where: {
             userId: subscription.userId,
-            type: 'SUBSCRIPTION_RENEWAL',
+            type: 'SUBSCRIPTION',
             createdAt: {
               gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
             },
@@ -235,7 +236,7 @@ export class ServerlessCreditsQueue {
           await prisma.notification.create({
             data: {
               userId: subscription.userId,
-              type: 'SUBSCRIPTION_RENEWAL',
+              type: 'SUBSCRIPTION',
               title: 'Subscription Renewal Reminder',
               message: `Your ${subscription.plan} subscription will renew soon.`,
               metadata: {
@@ -244,6 +245,14 @@ export class ServerlessCreditsQueue {
               },
             },
           })
+
+          await sendTemplateEmail(
+            subscription.user.email,
+            'planExpiring',
+            subscription.user.name,
+            subscription.plan,
+            subscription.currentPeriodEnd.toISOString()
+          )
           
           processed++
           console.log(`Created renewal reminder for user ${subscription.user.email}`)
@@ -258,42 +267,16 @@ export class ServerlessCreditsQueue {
   }
 
   /**
-   * Aggregate usage statistics
+   * Roll up yesterday (UTC) into DailyStats
    */
   static async aggregateUsageStats(): Promise<{ statsUpdated: boolean }> {
     console.log('Aggregating usage statistics...')
     
     try {
-      const today = new Date()
-      const yesterday = new Date(today)
-      yesterday.setDate(yesterday.getDate() - 1)
-      yesterday.setHours(0, 0, 0, 0)
-      
-      const endOfYesterday = new Date(yesterday)
-      endOfYesterday.setHours(23, 59, 59, 999)
-      
-      // Get statistics for yesterday
-      const [totalAnalyses, totalUsers, activeUsers] = await Promise.all([
-        prisma.analysis.count({
-          where: {
-            createdAt: {
-              gte: yesterday,
-              lte: endOfYesterday,
-            },
-          },
-        }),
-        prisma.user.count(),
-        prisma.user.count({
-          where: {
-            lastLoginAt: {
-              gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Last 30 days
-            },
-          },
-        }),
-      ])
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000)
+      const stats = await rollupDailyStats(yesterday)
       
-      // Store daily stats (you might want to create a separate table for this)
-      console.log(`Daily stats - Analyses: ${totalAnalyses}, Total Users: ${totalUsers}, Active Users: ${activeUsers}`)
+      console.log(`Daily stats - Analyses: ${stats.analyses}, Signups: ${stats.signups}, Active Users: ${stats.activeUsers}`)
       
       return { statsUpdated: true }
     } catch (error) {
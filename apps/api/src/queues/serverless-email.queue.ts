@@ -2,6 +2,8 @@
 import { serverlessQueue } from '../lib/upstash'
 import { emailService } from '../services/email.service'
 import { config } from '@truecheckia/config'
+import { canSendEmail, EMAIL_TEMPLATE_CATEGORIES } from '../services/preferences.service'
+import type { EmailCategory } from '../services/preferences.service'
 
 export interface EmailJobData {
   to: string
@@ -11,6 +13,8 @@ export interface EmailJobData {
   type?: 'resend' | 'smtp'
   template?: string
   templateData?: any
+  userId?: string
+  category?: EmailCategory // opt-in checked before sending; defaults from the template
 }
 
 /**
@@ -38,11 +42,17 @@ export class ServerlessEmailQueue {
    * Process email job (called by webhook/cron)
    */
   static async processJob(job: any): Promise<any> {
-    const { to, subject, html, text, type = 'resend', template, templateData } = job.data
+    const { to, subject, html, text, type = 'resend', template, templateData, userId, category } = job.data
     
     console.log(`Sending email to ${to}: ${subject} via ${type}`)
     
     try {
+      // Checked at send time so opting out also stops already queued emails
+      if (!(await canSendEmail(category ?? EMAIL_TEMPLATE_CATEGORIES[template], { userId, email: to }))) {
+        console.log(`Email to ${to} skipped: recipient opted out`)
+        return { to, status: 'skipped' }
+      }
+
       let emailData = { to, subject, html, text }
       
       // If using template, generate content
@@ -221,6 +231,21 @@ export class ServerlessEmailQueue {
         text: `Hello ${name}, there was an issue with your payment. Update at ${config.frontend.url}/dashboard/billing`,
       }),
 
+      planExpiring: (name: string, plan: string, renewalDate: string) => ({
+        subject: 'Your plan renews soon - TrueCheckIA',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #007bff;">Your subscription renews soon</h2>
+            <p>Hello ${name},</p>
+            <p>Your <strong>${plan}</strong> plan renews on <strong>${new Date(renewalDate).toLocaleDateString('en-US')}</strong>.</p>
+            <p>No action is needed to keep your plan. You can review or cancel it from your billing page.</p>
+            <a href="${config.frontend.url}/subscription" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Manage Subscription</a>
+            <p>Best regards,<br>TrueCheckIA Team</p>
+          </div>
+        `,
+        text: `Hello ${name}, your ${plan} plan renews on ${new Date(renewalDate).toLocaleDateString('en-US')}. Manage it at ${config.frontend.url}/subscription`,
+      }),
+
       analysisComplete: (name: string, analysisId: string, aiScore: number) => ({
         subject: 'Analysis Complete - TrueCheckIA',
         html: `
@@ -0,0 +1,182 @@
+import { serverlessQueue } from '../lib/upstash'
+import { prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import { DeadLetterQueue } from '../lib/dead-letter-queue'
+import { JobMonitor } from '../lib/job-monitor'
+import { emailService } from '../services/email.service'
+import { buildDataExportArchive, buildDataExportUrl, collectUserData } from '../services/data-export.service'
+
+export interface ExportJobData {
+  exportId: string
+  userId: string
+}
+
+/**
+ * Serverless Export Queue
+ * Builds personal data exports outside the request so large histories
+ * don't hit the request timeout.
+ */
+export class ServerlessExportQueue {
+  private static readonly QUEUE_NAME = 'export'
+
+  /**
+   * Add export job to queue
+   */
+  static async addJob(data: ExportJobData): Promise<string> {
+    try {
+      const jobId = await serverlessQueue.add(this.QUEUE_NAME, data)
+      await JobMonitor.recordJobStart(jobId, this.QUEUE_NAME, data)
+
+      console.log(`Added data export job ${jobId} for user ${data.userId}`)
+      return jobId
+    } catch (error) {
+      console.error('Failed to add data export job:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Collect the user's data, store the archive and email the download link
+   */
+  static async processJob(job: any): Promise<any> {
+    const { exportId, userId } = job.data
+
+    console.log(`Processing data export ${exportId} for user ${userId}`)
+
+    try {
+      if (!job.isRetry) {
+        await JobMonitor.recordJobStart(job.id, this.QUEUE_NAME, job.data)
+      }
+
+      await prisma.dataExport.update({
+        where: { id: exportId },
+        data: { status: 'PROCESSING', error: null },
+      })
+
+      const generatedAt = new Date()
+      const data = await collectUserData(userId)
+      const archive = await buildDataExportArchive(data, generatedAt)
+      const expiresAt = new Date(generatedAt.getTime() + config.limits.dataExport.linkTtlHours * 60 * 60 * 1000)
+
+      await prisma.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'COMPLETED',
+          archive,
+          fileSize: archive.length,
+          completedAt: generatedAt,
+          expiresAt,
+        },
+      })
+
+      const email = data.profile.email as string
+      await emailService.sendDataExportEmail(email, buildDataExportUrl(exportId, expiresAt), expiresAt)
+
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: 'INFO',
+          title: 'Data Export Ready',
+          message: `Your personal data export is ready. The download link was sent to ${email}.`,
+          metadata: { exportId },
+        },
+      })
+
+      const outcome = { exportId, fileSize: archive.length, expiresAt: expiresAt.toISOString() }
+      await JobMonitor.recordJobCompletion(job.id, this.QUEUE_NAME, true, undefined, outcome)
+      return outcome
+    } catch (error) {
+      console.error(`Failed to process data export ${exportId}:`, error)
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      await JobMonitor.recordJobCompletion(job.id, this.QUEUE_NAME, false, errorMessage)
+
+      const retryCount = job.retryCount || 0
+      if (retryCount < 3) {
+        await prisma.dataExport.update({
+          where: { id: exportId },
+          data: { status: 'PENDING', error: errorMessage },
+        }).catch(console.error)
+
+        await DeadLetterQueue.addFailedJob(
+          job.id,
+          this.QUEUE_NAME,
+          job.data,
+          errorMessage,
+          { maxRetries: 3, baseDelay: 60000 },
+          retryCount
+        )
+      } else {
+        // A failed export does not count towards the daily limit
+        await prisma.dataExport.update({
+          where: { id: exportId },
+          data: { status: 'FAILED', error: errorMessage },
+        }).catch(console.error)
+      }
+
+      throw error
+    }
+  }
+
+  /**
+   * Process pending export jobs (called by cron)
+   */
+  static async processPendingJobs(): Promise<{ processed: number; failed: number }> {
+    let processed = 0
+    let failed = 0
+    const maxJobs = 2 // Each export reads a user's whole history
+
+    for (let i = 0; i < maxJobs; i++) {
+      try {
+        await serverlessQueue.process(this.QUEUE_NAME, job => this.processJob(job))
+        processed++
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('No jobs available')) {
+          break
+        }
+        console.error('Failed to process data export job:', error)
+        failed++
+      }
+    }
+
+    if (processed > 0 || failed > 0) {
+      console.log(`Processed ${processed} data export jobs, ${failed} failed`)
+    }
+
+    return { processed, failed }
+  }
+
+  /**
+   * Drop archives whose download link has expired (keeps the record for the
+   * daily limit and the account page)
+   */
+  static async cleanExpiredExports(): Promise<{ expired: number }> {
+    try {
+      const result = await prisma.dataExport.updateMany({
+        where: {
+          status: 'COMPLETED',
+          expiresAt: { lt: new Date() },
+        },
+        data: {
+          status: 'EXPIRED',
+          archive: null,
+        },
+      })
+
+      console.log(`Expired ${result.count} data exports`)
+      return { expired: result.count }
+    } catch (error) {
+      console.error('Failed to clean expired data exports:', error)
+      return { expired: 0 }
+    }
+  }
+
+  /**
+   * Get queue statistics
+   */
+  static async getQueueStats(): Promise<any> {
+    return await serverlessQueue.getQueueStats(this.QUEUE_NAME)
+  }
+}
+
+export default ServerlessExportQueue
@@ -2,6 +2,12 @@ import { config } from '@truecheckia/config'
 import ServerlessAnalysisQueue from './serverless-analysis.queue'
 import ServerlessEmailQueue from './serverless-email.queue'
 import ServerlessCreditsQueue from './serverless-credits.queue'
+import ServerlessExportQueue from './serverless-export.queue'
+import { processScheduledDeletions } from '../services/account-deletion.service'
+import { runAbuseScan } from '../services/abuse.service'
+import { JobMonitor } from '../lib/job-monitor'
+import { liftExpiredSuspensions } from '../services/account-status.service'
+import { cleanExpiredSessions } from '../services/session.service'
 
 /**
  * Serverless Queue Manager
@@ -28,6 +34,7 @@ export class ServerlessQueueManager {
     analysis: { processed: number; failed: number }
     email: { processed: number; failed: number }
     credits: { processed: number }
+    exports: { processed: number; failed: number }
   }> {
     console.log('Processing all pending jobs...')
     
@@ -35,6 +42,7 @@ export class ServerlessQueueManager {
       ServerlessAnalysisQueue.processPendingJobs(),
       ServerlessEmailQueue.processPendingJobs(),
       this.processCreditsJobs(),
+      ServerlessExportQueue.processPendingJobs(),
     ])
 
     const analysisResult = results[0].status === 'fulfilled' 
@@ -49,16 +57,22 @@ export class ServerlessQueueManager {
       ? results[2].value 
       : { processed: 0 }
 
+    const exportsResult = results[3].status === 'fulfilled' 
+      ? results[3].value 
+      : { processed: 0, failed: 1 }
+
     console.log('Queue processing summary:', {
       analysis: analysisResult,
       email: emailResult,
       credits: creditsResult,
+      exports: exportsResult,
     })
 
     return {
       analysis: analysisResult,
       email: emailResult,
       credits: creditsResult,
+      exports: exportsResult,
     }
   }
 
@@ -89,6 +103,32 @@ export class ServerlessQueueManager {
       if (hour === 2 && minute === 0) {
         const result = await ServerlessCreditsQueue.cleanOldNotifications()
         processed += result.deleted
+
+        const exports = await ServerlessExportQueue.cleanExpiredExports()
+        processed += exports.expired
+
+        const sessions = await cleanExpiredSessions()
+        processed += sessions.deleted
+      }
+      
+      // Run at 4 AM - Delete accounts whose grace period ended
+      if (hour === 4 && minute === 0) {
+        const result = await processScheduledDeletions()
+        processed += result.deleted
+      }
+      
+      // Run every hour at :30 - Lift expired suspensions and flag abuse patterns
+      if (minute === 30) {
+        const suspensions = await liftExpiredSuspensions()
+        processed += suspensions.lifted
+
+        const abuse = await runAbuseScan()
+        processed += abuse.flagged
+      }
+      
+      // Run every 5 minutes - Evaluate alert rules, so alerts also resolve while queues are idle
+      if (minute % 5 === 0) {
+        await JobMonitor.checkAlertsThrottled()
       }
       
       // Run at 9 AM - Process subscription renewals
@@ -223,7 +263,8 @@ export class ServerlessQueueManager {
 export { 
   ServerlessAnalysisQueue, 
   ServerlessEmailQueue, 
-  ServerlessCreditsQueue 
+  ServerlessCreditsQueue,
+  ServerlessExportQueue,
 }
 
 // Compatibility exports (maintain existing API)
@@ -1,6 +1,25 @@
 import { Router } from 'express'
 import { adminController } from '../controllers/admin.controller'
 import { config } from '@truecheckia/config'
+import { authenticate, requireRole, requireTwoFactor } from '../middleware/auth.middleware'
+import { validateQuery, validateRequest } from '../middleware/validate.middleware'
+import {
+  adminAbuseFlagsQuerySchema,
+  adminAdjustCreditsSchema,
+  adminAlertsQuerySchema,
+  adminAuditQuerySchema,
+  adminChangePlanSchema,
+  adminDeadLetterMetricsQuerySchema,
+  adminDeadLetterQuerySchema,
+  adminMetricsQuerySchema,
+  adminPurgeDeadLetterSchema,
+  adminReasonSchema,
+  adminRequeueAllJobsSchema,
+  adminRequeueJobSchema,
+  adminSilenceAlertSchema,
+  adminSuspendSchema,
+  adminUsersQuerySchema,
+} from '@truecheckia/types'
 
 const router = Router()
 
@@ -16,8 +35,8 @@ const devOnly = (req: any, res: any, next: any) => {
   next()
 }
 
-// Apply dev-only middleware to all admin routes
-router.use(devOnly)
+// Signed-in admins with two-factor authentication; every change is audited
+const adminOnly = [authenticate, requireRole(['ADMIN']), requireTwoFactor]
 
 /**
  * @swagger
@@ -60,7 +79,7 @@ router.use(devOnly)
  *       403:
  *         description: Not available in production
  */
-router.post('/create-dev-user', adminController.createDevUser)
+router.post('/create-dev-user', devOnly, adminController.createDevUser)
 
 /**
  * @swagger
@@ -75,7 +94,7 @@ router.post('/create-dev-user', adminController.createDevUser)
  *       403:
  *         description: Not available in production
  */
-router.get('/database-stats', adminController.getDatabaseStats)
+router.get('/database-stats', devOnly, adminController.getDatabaseStats)
 
 /**
  * @swagger
@@ -92,6 +111,934 @@ router.get('/database-stats', adminController.getDatabaseStats)
  *       403:
  *         description: Not available in production
  */
-router.post('/seed-sample-data', adminController.seedSampleData)
+router.post('/seed-sample-data', devOnly, adminController.seedSampleData)
 
-export { router as adminRoutes }
\ No newline at end of file
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Search users
+ *     description: Filters combine; search matches email, name or exact id
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: plan
+ *         schema:
+ *           type: string
+ *           enum: [FREE, PRO, ENTERPRISE]
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [USER, ADMIN]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, SUSPENDED, BANNED]
+ *       - in: query
+ *         name: emailVerified
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: flagged
+ *         description: Only users with (or without) open abuse flags
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Matching users, newest first
+ *       403:
+ *         description: Not an admin, or two-factor authentication not enabled
+ */
+router.get('/users', ...adminOnly, validateQuery(adminUsersQuerySchema), adminController.listUsers)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get a user
+ *     description: Account, subscription, counts, active sessions, abuse flags and recent admin actions
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User details
+ *       404:
+ *         description: User not found
+ */
+router.get('/users/:id', ...adminOnly, adminController.getUser)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/analyses:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List a user's analyses
+ *     description: Newest first, with a preview of each text
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Analysis history
+ */
+router.get('/users/:id/analyses', ...adminOnly, adminController.getUserAnalyses)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/usage:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get a user's usage
+ *     description: Analyses and API requests over the last 30 days
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usage summary
+ */
+router.get('/users/:id/usage', ...adminOnly, adminController.getUserUsage)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/credits:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Adjust a user's credits
+ *     description: Adds the amount, or removes it when negative. Balances don't go below zero.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, reason]
+ *             properties:
+ *               amount:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Credits adjusted
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: Nothing to change
+ */
+router.post('/users/:id/credits', ...adminOnly, validateRequest(adminAdjustCreditsSchema), adminController.adjustCredits)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/plan:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Change a user's plan
+ *     description: Changes the plan on the account only; the Stripe subscription is left as it is
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [plan, reason]
+ *             properties:
+ *               plan:
+ *                 type: string
+ *                 enum: [FREE, PRO, ENTERPRISE]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Plan changed
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User is already on that plan
+ */
+router.patch('/users/:id/plan', ...adminOnly, validateRequest(adminChangePlanSchema), adminController.changePlan)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/verify-email:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Mark a user's email as verified
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       409:
+ *         description: Email is already verified
+ */
+router.post('/users/:id/verify-email', ...adminOnly, validateRequest(adminReasonSchema), adminController.verifyEmail)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/impersonate:
+ *   post:
+ *     tags: [Admin]
+ *     summary: View the app as a user
+ *     description: Returns a 15 minute read-only access token for the user. It only allows GET requests and stops working when the admin's session ends.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Read-only access token
+ *       403:
+ *         description: Admin accounts cannot be impersonated
+ *       404:
+ *         description: User not found
+ */
+router.post('/users/:id/impersonate', ...adminOnly, validateRequest(adminReasonSchema), adminController.impersonateUser)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/suspend:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Suspend a user
+ *     description: |
+ *       Blocks sign-in and API access and revokes all of the user's sessions.
+ *       With `expiresAt` the suspension lifts itself at that time. Open abuse
+ *       flags on the user are closed as actioned.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: User suspended
+ *       400:
+ *         description: Admins cannot suspend themselves
+ *       409:
+ *         description: User is already suspended until that time
+ */
+router.post('/users/:id/suspend', ...adminOnly, validateRequest(adminSuspendSchema), adminController.suspendUser)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/ban:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Ban a user
+ *     description: |
+ *       Like a suspension without an expiry, for accounts that won't be
+ *       reinstated. Open abuse flags on the user are closed as actioned.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User banned
+ *       400:
+ *         description: Admins cannot ban themselves
+ *       409:
+ *         description: User is already banned
+ */
+router.post('/users/:id/ban', ...adminOnly, validateRequest(adminReasonSchema), adminController.banUser)
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/unsuspend:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Reactivate a suspended or banned user
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User reactivated
+ *       409:
+ *         description: User is not suspended or banned
+ */
+router.post('/users/:id/unsuspend', ...adminOnly, validateRequest(adminReasonSchema), adminController.unsuspendUser)
+
+/**
+ * @swagger
+ * /api/admin/abuse-flags:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List abuse flags
+ *     description: |
+ *       Accounts matched by the abuse heuristics: several signups or API
+ *       callers on one IP, disposable email addresses, and the same text
+ *       analyzed from several accounts.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, DISMISSED, ACTIONED]
+ *           default: OPEN
+ *       - in: query
+ *         name: rule
+ *         schema:
+ *           type: string
+ *           enum: [SAME_IP_SIGNUPS, SHARED_API_IP, DISPOSABLE_EMAIL, DUPLICATE_TEXT]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Flags with the flagged user, newest first
+ */
+router.get('/abuse-flags', ...adminOnly, validateQuery(adminAbuseFlagsQuerySchema), adminController.listAbuseFlags)
+
+/**
+ * @swagger
+ * /api/admin/abuse-flags/{id}/dismiss:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Dismiss an abuse flag
+ *     description: Marks the flag as a false positive. Later matches of the same rule don't reopen it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Flag dismissed
+ *       404:
+ *         description: Flag not found
+ *       409:
+ *         description: Flag has already been reviewed
+ */
+router.post('/abuse-flags/:id/dismiss', ...adminOnly, validateRequest(adminReasonSchema), adminController.dismissAbuseFlag)
+
+/**
+ * @swagger
+ * /api/admin/dlq:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List dead letter queue jobs
+ *     description: Jobs that failed in a queue, or by default those that used up their retries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: queue
+ *         schema:
+ *           type: string
+ *           default: permanent-failures
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Failed jobs and DLQ statistics
+ */
+router.get('/dlq', ...adminOnly, validateQuery(adminDeadLetterQuerySchema), adminController.listDeadLetterJobs)
+
+/**
+ * @swagger
+ * /api/admin/dlq/metrics:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Dead letter queue activity
+ *     description: Failed, retried and permanently failed jobs per queue and day
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 7
+ *           maximum: 30
+ *     responses:
+ *       200:
+ *         description: Daily counts and totals
+ */
+router.get('/dlq/metrics', ...adminOnly, validateQuery(adminDeadLetterMetricsQuerySchema), adminController.getDeadLetterMetrics)
+
+/**
+ * @swagger
+ * /api/admin/dlq/requeue-all:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Requeue every failed job in a DLQ
+ *     description: Jobs already back on their queue are skipped
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               queue:
+ *                 type: string
+ *                 default: permanent-failures
+ *     responses:
+ *       200:
+ *         description: Number of jobs requeued and of jobs that could not be
+ */
+router.post('/dlq/requeue-all', ...adminOnly, validateRequest(adminRequeueAllJobsSchema), adminController.requeueAllDeadLetterJobs)
+
+/**
+ * @swagger
+ * /api/admin/dlq/purge:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Delete failed jobs
+ *     description: Deletes every job in one DLQ, or every failed job older than some days
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               queue:
+ *                 type: string
+ *               olderThanDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *     responses:
+ *       200:
+ *         description: Number of jobs deleted
+ *       400:
+ *         description: Neither or both of queue and olderThanDays given
+ */
+router.post('/dlq/purge', ...adminOnly, validateRequest(adminPurgeDeadLetterSchema), adminController.purgeDeadLetterJobs)
+
+/**
+ * @swagger
+ * /api/admin/dlq/{jobId}:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Inspect a failed job
+ *     description: Payload, DLQ status, retry counts and the error of every failed attempt
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Failed job
+ *       404:
+ *         description: Job not found
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Delete a failed job
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Job deleted
+ *       404:
+ *         description: Job not found
+ */
+router.get('/dlq/:jobId', ...adminOnly, adminController.getDeadLetterJob)
+router.delete('/dlq/:jobId', ...adminOnly, validateRequest(adminReasonSchema), adminController.purgeDeadLetterJob)
+
+/**
+ * @swagger
+ * /api/admin/dlq/{jobId}/requeue:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Requeue a failed job
+ *     description: |
+ *       Puts the job back on its original queue, even after it used up its
+ *       retries. `data` replaces the job's payload before it is requeued.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               data:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Job requeued
+ *       404:
+ *         description: Job not found
+ */
+router.post('/dlq/:jobId/requeue', ...adminOnly, validateRequest(adminRequeueJobSchema), adminController.requeueDeadLetterJob)
+
+/**
+ * @swagger
+ * /api/admin/alerts:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List job monitor alerts
+ *     description: |
+ *       Alerts raised by the queue monitor, most recently fired first. Without
+ *       a status only open (firing or acknowledged) alerts are listed.
+ *       `silencedUntil` is set while the alert's notifications are muted.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [FIRING, ACKNOWLEDGED, RESOLVED]
+ *       - in: query
+ *         name: rule
+ *         schema:
+ *           type: string
+ *           enum: [error_rate, latency, throughput, queue_size, dlq_size]
+ *       - in: query
+ *         name: queue
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Matching alerts
+ */
+router.get('/alerts', ...adminOnly, validateQuery(adminAlertsQuerySchema), adminController.listAlerts)
+
+/**
+ * @swagger
+ * /api/admin/alerts/{id}/acknowledge:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Acknowledge an alert
+ *     description: Stops reminders for a firing alert. It still resolves by itself once the condition clears.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Alert acknowledged
+ *       404:
+ *         description: Alert not found
+ *       409:
+ *         description: Alert is not firing
+ */
+router.post('/alerts/:id/acknowledge', ...adminOnly, validateRequest(adminReasonSchema), adminController.acknowledgeAlert)
+
+/**
+ * @swagger
+ * /api/admin/alerts/{id}/silence:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Silence an alert
+ *     description: |
+ *       Mutes notifications for the alert's rule and queue, including alerts
+ *       raised later, for the given time. Alerts are still recorded.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason, durationMinutes]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               durationMinutes:
+ *                 type: integer
+ *                 minimum: 5
+ *                 maximum: 10080
+ *     responses:
+ *       200:
+ *         description: Alert silenced
+ *       404:
+ *         description: Alert not found
+ */
+router.post('/alerts/:id/silence', ...adminOnly, validateRequest(adminSilenceAlertSchema), adminController.silenceAlert)
+
+/**
+ * @swagger
+ * /api/admin/alerts/{id}/unsilence:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Lift an alert's silence
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Notifications resumed
+ *       404:
+ *         description: Alert not found
+ *       409:
+ *         description: Alert is not silenced
+ */
+router.post('/alerts/:id/unsilence', ...adminOnly, validateRequest(adminReasonSchema), adminController.unsilenceAlert)
+
+/**
+ * @swagger
+ * /api/admin/metrics:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Usage metrics for charts
+ *     description: |
+ *       Served from the daily rollups (UTC days, up to yesterday), never the
+ *       raw tables. Per week or month, counts are summed, active users are the
+ *       daily average and API latencies are call-weighted averages of the
+ *       daily percentiles.
+ *
+ *       Limits: only saved analyses are counted (not those of users with
+ *       auto-save off). `byPlan` uses each user's plan when the day was
+ *       rolled up, so a backfill counts past analyses under current plans.
+ *       Active users are users who analyzed, called the API or signed in.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         description: Defaults to 30 days before `to`
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         description: Defaults to yesterday
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: granularity
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *     responses:
+ *       200:
+ *         description: One point per period with analyses, cache hits, AI/human split, languages, plans, signups, active users, API calls and latency
+ *       400:
+ *         description: Invalid range
+ */
+router.get('/metrics', ...adminOnly, validateQuery(adminMetricsQuerySchema), adminController.getMetrics)
+
+/**
+ * @swagger
+ * /api/admin/audit:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Query the audit log
+ *     description: Admin actions, sign-ins, security changes and plan changes, newest first. With format=csv, downloads up to 10,000 matching events.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           example: user
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         description: Action prefix, e.g. "auth." or "admin.user.plan_changed"
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Audit events, or a CSV file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *           text/csv:
+ *             schema:
+ *               type: string
+ */
+router.get('/audit', ...adminOnly, validateQuery(adminAuditQuerySchema), adminController.listAuditEvents)
+
+export { router as adminRoutes }
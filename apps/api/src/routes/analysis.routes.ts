@@ -1,9 +1,11 @@
 import { Router } from 'express'
 import { analysisController } from '../controllers/analysis.controller'
-import { authenticate } from '../middleware/auth.middleware'
+import { batchController } from '../controllers/batch.controller'
+import { authenticate, requirePlan } from '../middleware/auth.middleware'
 import { analysisLimiter } from '../middleware/rateLimit.middleware'
 import { validateRequest } from '../middleware/validate.middleware'
-import { analyzeTextSchema } from '@truecheckia/types'
+import { uploadDocument, uploadBatchFiles } from '../middleware/upload.middleware'
+import { analyzeTextSchema, analyzeDocumentSchema, createBatchSchema } from '@truecheckia/types'
 
 const router = Router()
 
@@ -48,6 +50,294 @@ router.post(
   analysisController.analyzeText
 )
 
+/**
+ * @swagger
+ * /api/analysis/document:
+ *   post:
+ *     summary: Queue a long document for chunked AI detection
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 minLength: 50
+ *                 maxLength: 200000
+ *               language:
+ *                 type: string
+ *                 enum: [pt, en]
+ *                 default: pt
+ *     responses:
+ *       202:
+ *         description: Document queued for analysis
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient credits
+ */
+router.post(
+  '/document',
+  authenticate,
+  analysisLimiter,
+  validateRequest(analyzeDocumentSchema),
+  analysisController.analyzeDocument
+)
+
+/**
+ * @swagger
+ * /api/analysis/upload:
+ *   post:
+ *     summary: Upload a document (PDF, DOCX, ODT, TXT, Markdown) for AI detection
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               language:
+ *                 type: string
+ *                 enum: [pt, en]
+ *                 default: pt
+ *     responses:
+ *       200:
+ *         description: Analysis completed
+ *       202:
+ *         description: Long document queued for chunked analysis
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient credits
+ *       413:
+ *         description: File too large
+ *       415:
+ *         description: Unsupported file type
+ *       422:
+ *         description: Text could not be extracted
+ */
+router.post(
+  '/upload',
+  authenticate,
+  analysisLimiter,
+  uploadDocument,
+  analysisController.uploadDocument
+)
+
+/**
+ * @swagger
+ * /api/analysis/document/{documentId}:
+ *   get:
+ *     summary: Get progress and result of a chunked document analysis
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Document progress retrieved
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Document not found
+ */
+router.get('/document/:documentId', authenticate, analysisController.getDocumentStatus)
+
+/**
+ * @swagger
+ * /api/analysis/batch:
+ *   post:
+ *     summary: Create a batch analysis from texts and/or uploaded files (PRO and ENTERPRISE)
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - texts
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 120
+ *               language:
+ *                 type: string
+ *                 enum: [pt, en]
+ *                 default: pt
+ *               texts:
+ *                 type: array
+ *                 maxItems: 50
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - text
+ *                   properties:
+ *                     label:
+ *                       type: string
+ *                     text:
+ *                       type: string
+ *                       minLength: 50
+ *                       maxLength: 10000
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - files
+ *             properties:
+ *               name:
+ *                 type: string
+ *               language:
+ *                 type: string
+ *                 enum: [pt, en]
+ *                 default: pt
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       202:
+ *         description: Batch created and its items queued for analysis
+ *       400:
+ *         description: Empty batch or too many items
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Plan does not include batch analysis
+ *       422:
+ *         description: None of the items can be analyzed
+ *   get:
+ *     summary: List the user's batch analyses
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Batches retrieved
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  '/batch',
+  authenticate,
+  requirePlan(['PRO', 'ENTERPRISE']),
+  analysisLimiter,
+  uploadBatchFiles,
+  validateRequest(createBatchSchema),
+  batchController.createBatch
+)
+router.get('/batch', authenticate, batchController.listBatches)
+
+/**
+ * @swagger
+ * /api/analysis/batch/{batchId}:
+ *   get:
+ *     summary: Get batch progress and per-item status
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Batch progress retrieved
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Batch not found
+ */
+router.get('/batch/:batchId', authenticate, batchController.getBatch)
+
+/**
+ * @swagger
+ * /api/analysis/batch/{batchId}/results:
+ *   get:
+ *     summary: Get aggregate results of a batch
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Batch results retrieved
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Batch not found
+ */
+router.get('/batch/:batchId/results', authenticate, batchController.getBatchResults)
+
+/**
+ * @swagger
+ * /api/analysis/batch/{batchId}/results.csv:
+ *   get:
+ *     summary: Download batch results as CSV, one row per item
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Batch not found
+ */
+router.get('/batch/:batchId/results.csv', authenticate, batchController.exportBatchCsv)
+
 /**
  * @swagger
  * /api/analysis/history:
@@ -99,6 +389,75 @@ router.get('/history', authenticate, analysisController.getHistory)
  */
 router.get('/:id', authenticate, analysisController.getAnalysis)
 
+/**
+ * @swagger
+ * /api/analysis/{id}/report.pdf:
+ *   get:
+ *     summary: Download the PDF report of an analysis (PRO and ENTERPRISE)
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF report
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Plan does not include PDF reports
+ *       404:
+ *         description: Analysis not found
+ */
+router.get(
+  '/:id/report.pdf',
+  authenticate,
+  requirePlan(['PRO', 'ENTERPRISE']),
+  analysisController.getReport
+)
+
+/**
+ * @swagger
+ * /api/analysis/{id}/report/email:
+ *   post:
+ *     summary: Email the PDF report of an analysis to the user (PRO and ENTERPRISE)
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report sent
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Plan does not include PDF reports
+ *       404:
+ *         description: Analysis not found
+ *       503:
+ *         description: Email could not be sent
+ */
+router.post(
+  '/:id/report/email',
+  authenticate,
+  requirePlan(['PRO', 'ENTERPRISE']),
+  analysisController.emailReport
+)
+
 /**
  * @swagger
  * /api/analysis/stats:
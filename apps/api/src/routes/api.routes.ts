@@ -1,8 +1,12 @@
 import { Router } from 'express'
 import { apiController } from '../controllers/api.controller'
-import { apiLimiter } from '../middleware/rateLimit.middleware'
-import { validateRequest } from '../middleware/validate.middleware'
-import { analyzeTextSchema } from '@truecheckia/types'
+import { batchController } from '../controllers/batch.controller'
+import { requirePlan } from '../middleware/auth.middleware'
+import { authenticateApiKey } from '../middleware/apiKey.middleware'
+import { analysisLimiter, apiLimiter } from '../middleware/rateLimit.middleware'
+import { validateQuery, validateRequest } from '../middleware/validate.middleware'
+import { uploadBatchFiles } from '../middleware/upload.middleware'
+import { apiAnalyzeSchema, createBatchSchema, webhookDeliveriesQuerySchema } from '@truecheckia/types'
 
 const router = Router()
 
@@ -34,18 +38,35 @@ const router = Router()
  *               webhook_url:
  *                 type: string
  *                 format: uri
+ *                 description: HTTPS endpoint that receives the signed result
+ *               async:
+ *                 type: boolean
+ *                 description: Queue the analysis and deliver the result to webhook_url
+ *     parameters:
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Same as the async body field
  *     responses:
  *       200:
  *         description: Analysis completed
+ *       202:
+ *         description: Analysis queued; the result is sent to webhook_url
+ *       400:
+ *         description: Invalid input or webhook_url
  *       401:
- *         description: Invalid API key
+ *         description: Invalid or expired API key
+ *       403:
+ *         description: API key lacks the analyze scope
  *       429:
  *         description: Rate limit exceeded
  */
 router.post(
   '/analyze',
+  authenticateApiKey('analyze'),
   apiLimiter,
-  validateRequest(analyzeTextSchema),
+  validateRequest(apiAnalyzeSchema),
   apiController.analyze
 )
 
@@ -82,6 +103,169 @@ router.get('/status', apiController.getStatus)
  *       401:
  *         description: Invalid API key
  */
-router.get('/usage', apiController.getUsage)
+router.get('/usage', authenticateApiKey('usage'), apiController.getUsage)
+
+/**
+ * @swagger
+ * /api/v1/webhooks/deliveries:
+ *   get:
+ *     summary: List webhook delivery attempts
+ *     description: |
+ *       Every webhook is a POST with the headers X-TrueCheckIA-Event,
+ *       X-TrueCheckIA-Delivery, X-TrueCheckIA-Timestamp (unix seconds) and
+ *       X-TrueCheckIA-Signature, which is `sha256=` followed by the hex
+ *       HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the webhook secret.
+ *       Failed deliveries are retried with exponential backoff.
+ *     tags: [External API]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, RETRYING, SUCCEEDED, FAILED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Delivery log retrieved
+ *       401:
+ *         description: Invalid API key
+ */
+router.get(
+  '/webhooks/deliveries',
+  authenticateApiKey('analyze'),
+  apiLimiter,
+  validateQuery(webhookDeliveriesQuerySchema),
+  apiController.getWebhookDeliveries
+)
+
+/**
+ * @swagger
+ * /api/v1/webhooks/secret:
+ *   get:
+ *     summary: Get the secret used to sign webhook payloads
+ *     tags: [External API]
+ *     security:
+ *       - apiKey: []
+ *     responses:
+ *       200:
+ *         description: Signing secret
+ *       401:
+ *         description: Invalid API key
+ *   post:
+ *     summary: Replace the webhook signing secret
+ *     tags: [External API]
+ *     security:
+ *       - apiKey: []
+ *     responses:
+ *       200:
+ *         description: New signing secret
+ *       401:
+ *         description: Invalid API key
+ */
+router.get('/webhooks/secret', authenticateApiKey('analyze'), apiLimiter, apiController.getWebhookSecret)
+router.post('/webhooks/secret', authenticateApiKey('analyze'), apiLimiter, apiController.rotateWebhookSecret)
+
+/**
+ * @swagger
+ * /api/v1/batch:
+ *   post:
+ *     summary: Create a batch analysis (same body as /api/analysis/batch)
+ *     tags: [External API]
+ *     security:
+ *       - apiKey: []
+ *     responses:
+ *       202:
+ *         description: Batch created and its items queued for analysis
+ *       401:
+ *         description: Invalid or expired API key
+ *       403:
+ *         description: API key lacks the batch scope or plan does not include batch analysis
+ */
+router.post(
+  '/batch',
+  authenticateApiKey('batch'),
+  requirePlan(['PRO', 'ENTERPRISE']),
+  analysisLimiter,
+  uploadBatchFiles,
+  validateRequest(createBatchSchema),
+  batchController.createBatch
+)
+
+/**
+ * @swagger
+ * /api/v1/batch/{batchId}:
+ *   get:
+ *     summary: Get batch progress and per-item status
+ *     tags: [External API]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Batch progress retrieved
+ *       404:
+ *         description: Batch not found
+ */
+router.get('/batch/:batchId', authenticateApiKey('batch'), apiLimiter, batchController.getBatch)
+
+/**
+ * @swagger
+ * /api/v1/batch/{batchId}/results:
+ *   get:
+ *     summary: Get aggregate results of a batch
+ *     tags: [External API]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Batch results retrieved
+ *       404:
+ *         description: Batch not found
+ */
+router.get('/batch/:batchId/results', authenticateApiKey('batch'), apiLimiter, batchController.getBatchResults)
+
+/**
+ * @swagger
+ * /api/v1/batch/{batchId}/results.csv:
+ *   get:
+ *     summary: Download batch results as CSV
+ *     tags: [External API]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *       404:
+ *         description: Batch not found
+ */
+router.get('/batch/:batchId/results.csv', authenticateApiKey('batch'), apiLimiter, batchController.exportBatchCsv)
 
 export const apiRoutes = router
\ No newline at end of file
@@ -2,8 +2,14 @@ import { Router } from 'express'
 import authController from '../controllers/auth.controller'
 import { authLimiter } from '../middleware/rateLimit.middleware'
 import { validateRequest } from '../middleware/validate.middleware'
-import { authenticate } from '../middleware/auth.middleware'
-import { loginSchema, registerSchema, refreshTokenSchema } from '@truecheckia/types'
+import { authenticate, optionalAuth } from '../middleware/auth.middleware'
+import {
+  loginSchema,
+  registerSchema,
+  refreshTokenSchema,
+  twoFactorCodeSchema,
+  verifyTwoFactorLoginSchema,
+} from '@truecheckia/types'
 import { z } from 'zod'
 import passport from '../lib/passport.config'
 
@@ -92,7 +98,7 @@ router.post(
  *                 type: string
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful. With 2FA enabled, returns mfaRequired and an mfaToken to send to /api/auth/login/2fa instead of tokens
  *       401:
  *         description: Invalid credentials
  */
@@ -103,6 +109,44 @@ router.post(
   authController.login
 )
 
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     description: Second step of login for accounts with 2FA. Accepts a code from the authenticator app or an unused recovery code.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mfaToken
+ *               - code
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *                 description: Returned by /api/auth/login, valid for 5 minutes
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       400:
+ *         description: Invalid or already used code
+ *       401:
+ *         description: Expired mfaToken; sign in again
+ */
+router.post(
+  '/login/2fa',
+  authLimiter,
+  validateRequest(verifyTwoFactorLoginSchema),
+  authController.verifyTwoFactorLogin
+)
+
 /**
  * @swagger
  * /api/auth/refresh:
@@ -122,9 +166,9 @@ router.post(
  *                 type: string
  *     responses:
  *       200:
- *         description: Token refreshed successfully
+ *         description: New access and refresh tokens; the refresh token sent can't be used again
  *       401:
- *         description: Invalid refresh token
+ *         description: Invalid refresh token, or one already used (the session is then revoked)
  */
 router.post(
   '/refresh',
@@ -137,14 +181,23 @@ router.post(
  * /api/auth/logout:
  *   post:
  *     summary: Logout user
+ *     description: Revokes the session of the refresh token, or of the access token when none is sent.
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Logout successful
  */
-router.post('/logout', authController.logout)
+router.post('/logout', optionalAuth, authController.logout)
 
 /**
  * @swagger
@@ -329,6 +382,7 @@ router.post(
  * /api/auth/logout-all:
  *   post:
  *     summary: Logout from all devices
+ *     description: Revokes every session of the user, including the current one.
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
@@ -340,6 +394,265 @@ router.post(
  */
 router.post('/logout-all', authenticate, authController.logoutAll)
 
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: Devices currently signed in to the account, most recently seen first. The session making the request has current set to true.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       device:
+ *                         type: string
+ *                         example: Chrome on Windows
+ *                       userAgent:
+ *                         type: string
+ *                       ipAddress:
+ *                         type: string
+ *                       location:
+ *                         type: string
+ *                         example: São Paulo, BR
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       lastSeenAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/sessions', authenticate, authController.listSessions)
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Signs the device out. Revoking the current session logs the caller out.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/sessions/:sessionId', authenticate, authController.revokeSession)
+
+/**
+ * @swagger
+ * /api/auth/security-events:
+ *   get:
+ *     summary: List recent security activity
+ *     description: The last 50 sign-ins, failed sign-in attempts and security changes on the account, including actions taken by support
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Security events, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       action:
+ *                         type: string
+ *                         example: auth.login
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       ipAddress:
+ *                         type: string
+ *                         nullable: true
+ *                       device:
+ *                         type: string
+ *                         nullable: true
+ *                       byAdmin:
+ *                         type: boolean
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/security-events', authenticate, authController.listSecurityEvents)
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     summary: Two-factor authentication status
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether 2FA is enabled, whether the account's role requires it, and how many recovery codes are left
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/2fa', authenticate, authController.getTwoFactorStatus)
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrolment
+ *     description: Generates a TOTP secret. 2FA is only enabled once a code from the authenticator app is confirmed with /api/auth/2fa/enable.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret, otpauth URI and QR code (PNG data URL) for the authenticator app
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: 2FA already enabled
+ */
+router.post('/2fa/setup', authenticate, authController.setupTwoFactor)
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrolment
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: 2FA enabled; returns the recovery codes, shown only this once
+ *       400:
+ *         description: Invalid code or setup not started
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  '/2fa/enable',
+  authenticate,
+  authLimiter,
+  validateRequest(twoFactorCodeSchema),
+  authController.enableTwoFactor
+)
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Authenticator or recovery code
+ *     responses:
+ *       200:
+ *         description: 2FA disabled
+ *       400:
+ *         description: Invalid code
+ *       403:
+ *         description: 2FA is required for the account's role
+ */
+router.post(
+  '/2fa/disable',
+  authenticate,
+  authLimiter,
+  validateRequest(twoFactorCodeSchema),
+  authController.disableTwoFactor
+)
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes; the previous ones stop working.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  authLimiter,
+  validateRequest(twoFactorCodeSchema),
+  authController.regenerateRecoveryCodes
+)
+
 /**
  * @swagger
  * /api/auth/google:
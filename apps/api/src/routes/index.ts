@@ -6,6 +6,9 @@ import { subscriptionRoutes } from './subscription.routes'
 import { apiRoutes } from './api.routes'
 import { adminRoutes } from './admin.routes'
 import { healthRoutes } from './health.routes'
+import { shareRoutes } from './share.routes'
+import { notificationRoutes } from './notification.routes'
+import { metricsRoutes } from './metrics.routes'
 import webhooksRoutes from './webhooks.routes'
 import { generalLimiter } from '../middleware/rateLimit.middleware'
 
@@ -14,6 +17,9 @@ export const setupRoutes = (app: Express) => {
   app.use('/health', healthRoutes)
   app.use('/api/health', healthRoutes)
   
+  // Prometheus scrapes (token protected, no rate limiting)
+  app.use('/metrics', metricsRoutes)
+  
   // Apply general rate limiter to all other API routes
   app.use('/api', generalLimiter)
   
@@ -22,6 +28,8 @@ export const setupRoutes = (app: Express) => {
   app.use('/api/analysis', analysisRoutes)
   app.use('/api/user', userRoutes)
   app.use('/api/subscription', subscriptionRoutes)
+  app.use('/api/share', shareRoutes)
+  app.use('/api/notifications', notificationRoutes)
   app.use('/api/v1', apiRoutes) // External API
   app.use('/api/admin', adminRoutes) // Admin endpoints (dev only)
   
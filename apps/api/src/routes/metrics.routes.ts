@@ -0,0 +1,29 @@
+import { Router } from 'express'
+import { metricsController } from '../controllers/metrics.controller'
+import { authenticateMetrics } from '../middleware/metrics.middleware'
+
+const router = Router()
+
+/**
+ * @swagger
+ * /metrics:
+ *   get:
+ *     summary: Prometheus scrape endpoint in the OpenMetrics text format
+ *     description: |
+ *       HTTP request, OpenAI latency and token, cache, queue, DLQ and Prisma
+ *       pool metrics. Requires `Authorization: Bearer <METRICS_TOKEN>` and is
+ *       disabled when METRICS_TOKEN is not set.
+ *     tags: [Monitoring]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Metrics in application/openmetrics-text
+ *       401:
+ *         description: Missing or invalid metrics token
+ *       404:
+ *         description: Metrics endpoint disabled
+ */
+router.get('/', authenticateMetrics, metricsController.scrape)
+
+export { router as metricsRoutes }
@@ -0,0 +1,150 @@
+import { Router } from 'express'
+import { notificationController } from '../controllers/notification.controller'
+import { authenticate } from '../middleware/auth.middleware'
+import { validateQuery } from '../middleware/validate.middleware'
+import { notificationsQuerySchema } from '@truecheckia/types'
+
+const router = Router()
+
+/**
+ * @swagger
+ * /api/notifications:
+ *   get:
+ *     summary: List the user's notifications, newest first
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: meta.nextCursor of the previous page
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [INFO, SUCCESS, WARNING, ERROR, CREDIT_LOW, SUBSCRIPTION, ANALYSIS]
+ *       - in: query
+ *         name: read
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', authenticate, validateQuery(notificationsQuerySchema), notificationController.listNotifications)
+
+/**
+ * @swagger
+ * /api/notifications/unread-count:
+ *   get:
+ *     summary: Get the number of unread notifications
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread count
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/unread-count', authenticate, notificationController.getUnreadCount)
+
+/**
+ * @swagger
+ * /api/notifications/stream:
+ *   get:
+ *     summary: Live unread count as server-sent events
+ *     description: |
+ *       Emits an `unread` event with `{"count": n}` on connect and whenever
+ *       the count changes. The server closes the stream after about a minute;
+ *       clients should reconnect.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/stream', authenticate, notificationController.streamUnreadCount)
+
+/**
+ * @swagger
+ * /api/notifications/read-all:
+ *   patch:
+ *     summary: Mark every notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications marked as read
+ *       401:
+ *         description: Unauthorized
+ */
+router.patch('/read-all', authenticate, notificationController.markAllRead)
+
+/**
+ * @swagger
+ * /api/notifications/{notificationId}/read:
+ *   patch:
+ *     summary: Mark a notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Notification not found
+ */
+router.patch('/:notificationId/read', authenticate, notificationController.markRead)
+
+/**
+ * @swagger
+ * /api/notifications/{notificationId}:
+ *   delete:
+ *     summary: Delete a notification
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification deleted
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Notification not found
+ */
+router.delete('/:notificationId', authenticate, notificationController.deleteNotification)
+
+export const notificationRoutes = router
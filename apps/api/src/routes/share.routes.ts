@@ -0,0 +1,117 @@
+import { Router } from 'express'
+import { shareController } from '../controllers/share.controller'
+import { authenticate } from '../middleware/auth.middleware'
+import { shareAccessLimiter } from '../middleware/rateLimit.middleware'
+import { validateRequest } from '../middleware/validate.middleware'
+import { createShareSchema } from '@truecheckia/types'
+
+const router = Router()
+
+/**
+ * @swagger
+ * /api/share:
+ *   post:
+ *     summary: Create a public read-only link to an analysis
+ *     tags: [Share]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - analysisId
+ *             properties:
+ *               analysisId:
+ *                 type: string
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *               password:
+ *                 type: string
+ *                 minLength: 4
+ *     responses:
+ *       201:
+ *         description: Share link created
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Analysis not found
+ *   get:
+ *     summary: List the share links created by the user
+ *     tags: [Share]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: analysisId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Share links retrieved
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/', authenticate, validateRequest(createShareSchema), shareController.createShare)
+router.get('/', authenticate, shareController.listShares)
+
+/**
+ * @swagger
+ * /api/share/{shareId}:
+ *   delete:
+ *     summary: Revoke a share link
+ *     tags: [Share]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Share link revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Share link not found
+ */
+router.delete('/:shareId', authenticate, shareController.revokeShare)
+
+/**
+ * @swagger
+ * /api/share/{token}:
+ *   get:
+ *     summary: View a shared analysis (public, redacted)
+ *     tags: [Share]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Share-Password
+ *         schema:
+ *           type: string
+ *         description: Required when the link is password protected
+ *     responses:
+ *       200:
+ *         description: Redacted analysis result
+ *       403:
+ *         description: Password required or invalid
+ *       404:
+ *         description: Share link not found
+ *       410:
+ *         description: Share link expired or revoked
+ */
+router.get('/:token', shareAccessLimiter, shareController.getSharedAnalysis)
+
+export const shareRoutes = router
@@ -1,9 +1,16 @@
 import { Router } from 'express'
 import { userController } from '../controllers/user.controller'
-import { authenticate } from '../middleware/auth.middleware'
+import { authenticate, denyImpersonation, optionalAuth } from '../middleware/auth.middleware'
 import { requireEmailVerified } from '../middleware/requireEmailVerified.middleware'
-import { validateRequest } from '../middleware/validate.middleware'
-import { updateProfileSchema } from '@truecheckia/types'
+import { validateQuery, validateRequest } from '../middleware/validate.middleware'
+import {
+  cancelAccountDeletionSchema,
+  createApiKeySchema,
+  deleteAccountSchema,
+  updateProfileSchema,
+  userPreferencesSchema,
+  webhookDeliveriesQuerySchema,
+} from '@truecheckia/types'
 
 const router = Router()
 
@@ -55,6 +62,229 @@ router.patch(
   userController.updateProfile
 )
 
+/**
+ * @swagger
+ * /api/user/preferences:
+ *   get:
+ *     summary: Get user preferences (defaults when none were saved)
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Preferences retrieved
+ *       401:
+ *         description: Unauthorized
+ *   put:
+ *     summary: Replace user preferences
+ *     description: |
+ *       `analysisSettings.autoSave` controls whether analyses are kept in the
+ *       history, `analysisSettings.confidenceThreshold` is the AI score above
+ *       which a text counts as AI-generated, and `emailNotifications` opts in
+ *       or out of each email category. Security emails are always sent.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - language
+ *               - analysisLanguage
+ *               - theme
+ *               - emailNotifications
+ *               - analysisSettings
+ *             properties:
+ *               language:
+ *                 type: string
+ *                 enum: [pt-BR, en-US, es-ES]
+ *               analysisLanguage:
+ *                 type: string
+ *                 enum: [auto, pt-BR, en-US, es-ES]
+ *               theme:
+ *                 type: string
+ *                 enum: [light, dark, system]
+ *               emailNotifications:
+ *                 type: object
+ *                 properties:
+ *                   analysisComplete:
+ *                     type: boolean
+ *                   creditsLow:
+ *                     type: boolean
+ *                   planExpiring:
+ *                     type: boolean
+ *                   newFeatures:
+ *                     type: boolean
+ *               analysisSettings:
+ *                 type: object
+ *                 properties:
+ *                   autoSave:
+ *                     type: boolean
+ *                   detailedReports:
+ *                     type: boolean
+ *                   confidenceThreshold:
+ *                     type: integer
+ *                     minimum: 0
+ *                     maximum: 100
+ *     responses:
+ *       200:
+ *         description: Preferences saved
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/preferences', authenticate, userController.getPreferences)
+router.put(
+  '/preferences',
+  authenticate,
+  validateRequest(userPreferencesSchema),
+  userController.updatePreferences
+)
+
+/**
+ * @swagger
+ * /api/user/data-export:
+ *   get:
+ *     summary: Status of the latest personal data export
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Latest export (or null) and when the next one can be requested
+ *       401:
+ *         description: Unauthorized
+ *   post:
+ *     summary: Request a personal data export (LGPD/GDPR)
+ *     description: |
+ *       Queues a ZIP with the profile, analyses, API usage, notifications,
+ *       subscription and preferences as JSON and CSV files. A signed download
+ *       link is emailed when it is ready. One export per day.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Export queued
+ *       401:
+ *         description: Unauthorized
+ *       429:
+ *         description: An export was already requested in the last 24 hours
+ */
+router.get('/data-export', authenticate, userController.getDataExport)
+router.post('/data-export', authenticate, userController.requestDataExport)
+
+/**
+ * @swagger
+ * /api/user/data-export/{exportId}/download:
+ *   get:
+ *     summary: Download a data export through the signed link sent by email
+ *     tags: [User]
+ *     parameters:
+ *       - in: path
+ *         name: exportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: ZIP archive
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Invalid or expired link
+ *       410:
+ *         description: Export no longer available
+ */
+router.get('/data-export/:exportId/download', userController.downloadDataExport)
+
+/**
+ * @swagger
+ * /api/user/account:
+ *   delete:
+ *     summary: Schedule deletion of the account after the grace period
+ *     description: |
+ *       Accounts with a password must send it. OAuth-only accounts must have
+ *       signed in within the last few minutes. A link to cancel the deletion is
+ *       emailed to the user.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [confirmation]
+ *             properties:
+ *               confirmation:
+ *                 type: string
+ *                 enum: [DELETE ACCOUNT]
+ *               password:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Deletion scheduled
+ *       400:
+ *         description: Wrong password
+ *       403:
+ *         description: OAuth sign-in too old, sign in again (AUTH006)
+ *       409:
+ *         description: Deletion already scheduled
+ */
+router.delete(
+  '/account',
+  authenticate,
+  validateRequest(deleteAccountSchema),
+  userController.deleteAccount
+)
+
+/**
+ * @swagger
+ * /api/user/account/cancel-deletion:
+ *   post:
+ *     summary: Cancel a scheduled account deletion
+ *     description: Works with the token from the email link or, without it, for the signed-in user.
+ *     tags: [User]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Deletion cancelled
+ *       404:
+ *         description: No pending deletion
+ */
+router.post(
+  '/account/cancel-deletion',
+  optionalAuth,
+  validateRequest(cancelAccountDeletionSchema),
+  userController.cancelAccountDeletion
+)
+
 /**
  * @swagger
  * /api/user/credits:
@@ -73,37 +303,176 @@ router.get('/credits', authenticate, userController.getCredits)
 
 /**
  * @swagger
- * /api/user/api-key:
- *   post:
- *     summary: Generate new API key
+ * /api/user/api-keys:
+ *   get:
+ *     summary: List active and expired API keys (the secret is never returned)
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: API key generated
+ *         description: API keys retrieved
+ *       401:
+ *         description: Unauthorized
+ *   post:
+ *     summary: Create a named API key with scopes
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [analyze, usage, batch]
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 730
+ *     responses:
+ *       201:
+ *         description: API key created; the key is only returned in this response
+ *       400:
+ *         description: Invalid input or key limit reached
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Feature not available for free plan
  */
-router.post('/api-key', authenticate, requireEmailVerified, userController.generateApiKey)
+router.get('/api-keys', authenticate, requireEmailVerified, userController.listApiKeys)
+router.post(
+  '/api-keys',
+  authenticate,
+  requireEmailVerified,
+  validateRequest(createApiKeySchema),
+  userController.createApiKey
+)
+
+/**
+ * @swagger
+ * /api/user/api-keys/{keyId}/rotate:
+ *   post:
+ *     summary: Replace the secret of an API key, keeping its name and scopes
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: New key returned; the old one stops working
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: API key not found
+ */
+router.post('/api-keys/:keyId/rotate', authenticate, requireEmailVerified, userController.rotateApiKey)
 
 /**
  * @swagger
- * /api/user/api-key:
+ * /api/user/api-keys/{keyId}:
  *   delete:
- *     summary: Revoke API key
+ *     summary: Revoke an API key
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: API key revoked
  *       401:
  *         description: Unauthorized
+ *       404:
+ *         description: API key not found
+ */
+router.delete('/api-keys/:keyId', authenticate, requireEmailVerified, userController.revokeApiKey)
+
+/**
+ * @swagger
+ * /api/user/webhooks/deliveries:
+ *   get:
+ *     summary: List webhook deliveries sent for API requests
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, RETRYING, SUCCEEDED, FAILED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Delivery log retrieved
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/webhooks/deliveries',
+  authenticate,
+  validateQuery(webhookDeliveriesQuerySchema),
+  userController.getWebhookDeliveries
+)
+
+/**
+ * @swagger
+ * /api/user/webhooks/secret:
+ *   get:
+ *     summary: Get the webhook signing secret
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Signing secret
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not available to admins impersonating the user
+ *   post:
+ *     summary: Rotate the webhook signing secret
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: New signing secret
+ *       401:
+ *         description: Unauthorized
  */
-router.delete('/api-key', authenticate, requireEmailVerified, userController.revokeApiKey)
+router.get('/webhooks/secret', authenticate, denyImpersonation, requireEmailVerified, userController.getWebhookSecret)
+router.post('/webhooks/secret', authenticate, requireEmailVerified, userController.rotateWebhookSecret)
 
 /**
  * @swagger
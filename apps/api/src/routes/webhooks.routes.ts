@@ -6,6 +6,8 @@ import ServerlessQueueManager from '../queues/serverless-index'
 import ServerlessAnalysisQueue from '../queues/serverless-analysis.queue'
 import ServerlessEmailQueue from '../queues/serverless-email.queue'
 import ServerlessCreditsQueue from '../queues/serverless-credits.queue'
+import ServerlessExportQueue from '../queues/serverless-export.queue'
+import { processScheduledDeletions } from '../services/account-deletion.service'
 
 const router = Router()
 
@@ -91,6 +93,30 @@ router.post('/process-emails', authenticateWebhook, async (req: Request, res: Re
   }
 })
 
+/**
+ * Process data export queue webhook
+ * POST /webhooks/process-exports
+ */
+router.post('/process-exports', authenticateWebhook, async (req: Request, res: Response) => {
+  try {
+    const result = await ServerlessExportQueue.processPendingJobs()
+    
+    res.json({
+      success: true,
+      message: 'Data export jobs processed',
+      data: result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error processing data export jobs:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process data export jobs',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
+
 /**
  * Process all pending jobs (combined webhook)
  * POST /webhooks/process-all
@@ -216,6 +242,56 @@ router.post('/cron/clean-notifications', authenticateCron, async (req: Request,
   }
 })
 
+/**
+ * Expire data export archives cron job
+ * POST /webhooks/cron/clean-exports
+ * Runs daily at 2 AM
+ */
+router.post('/cron/clean-exports', authenticateCron, async (req: Request, res: Response) => {
+  try {
+    const result = await ServerlessExportQueue.cleanExpiredExports()
+    
+    res.json({
+      success: true,
+      message: 'Expired data exports cleaned',
+      data: result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error cleaning data exports:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Failed to clean data exports',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
+
+/**
+ * Delete accounts past their grace period cron job
+ * POST /webhooks/cron/process-account-deletions
+ * Runs daily at 4 AM
+ */
+router.post('/cron/process-account-deletions', authenticateCron, async (req: Request, res: Response) => {
+  try {
+    const result = await processScheduledDeletions()
+    
+    res.json({
+      success: true,
+      message: 'Scheduled account deletions processed',
+      data: result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error processing account deletions:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process account deletions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
+
 /**
  * Process subscription renewals cron job
  * POST /webhooks/cron/process-renewals
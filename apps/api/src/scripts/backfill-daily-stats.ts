@@ -0,0 +1,41 @@
+#!/usr/bin/env tsx
+
+/**
+ * Backfill DailyStats
+ *
+ * Rolls up every UTC day in a range from the raw tables. Days already
+ * rolled up are recomputed, so the script can be re-run safely.
+ *
+ * Usage: npm run stats:backfill -- <from YYYY-MM-DD> [to YYYY-MM-DD]
+ * `to` defaults to yesterday.
+ */
+
+import { prisma } from '@truecheckia/database'
+import { formatDay, rollupDailyStatsRange } from '../services/usage-stats.service'
+
+function parseDay(value: string | undefined, name: string): Date {
+  const date = new Date(`${value}T00:00:00Z`)
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date "${value ?? ''}", expected YYYY-MM-DD`)
+  }
+  return date
+}
+
+async function main() {
+  const [fromArg, toArg] = process.argv.slice(2)
+  const from = parseDay(fromArg, 'from')
+  const to = toArg ? parseDay(toArg, 'to') : new Date(Date.now() - 24 * 60 * 60 * 1000)
+
+  console.log(`📊 Rolling up daily stats from ${formatDay(from)} to ${formatDay(to)}`)
+
+  const { days } = await rollupDailyStatsRange(from, to, day => console.log(`  ✅ ${formatDay(day)}`))
+
+  console.log(`Done: ${days} day(s) rolled up`)
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Backfill failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,34 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migrate legacy API keys
+ *
+ * Moves every plaintext key still stored in User.apiKey to a hashed ApiKey
+ * (named "Legacy key", with every scope) and clears the column. Safe to
+ * re-run: users already migrated have no legacy key left.
+ *
+ * Usage: npm run apikeys:migrate-legacy
+ */
+
+import { prisma } from '@truecheckia/database'
+import { migrateLegacyApiKeys } from '../services/api-key.service'
+
+async function main() {
+  console.log('🔑 Migrating legacy API keys')
+
+  const { migrated, failed } = await migrateLegacyApiKeys(100, (userId, error) =>
+    console.error(`  ❌ User ${userId}:`, error)
+  )
+
+  console.log(`Done: ${migrated} key(s) migrated, ${failed} failed`)
+  if (failed > 0) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
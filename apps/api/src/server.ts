@@ -1,3 +1,5 @@
+// Must come first: the SDK only instruments modules loaded after it starts
+import './instrumentation'
 import 'express-async-errors'
 import express from 'express'
 import cors from 'cors'
@@ -7,8 +9,11 @@ import compression from 'compression'
 import { config, validateConfig, validateServerlessConfig } from '@truecheckia/config'
 import { errorHandler } from './middleware/error.middleware'
 import { notFoundHandler } from './middleware/notFound.middleware'
+import { requestId } from './middleware/requestId.middleware'
+import { httpMetrics } from './middleware/metrics.middleware'
 import { setupRoutes } from './routes'
 import { setupSwagger } from './lib/swagger'
+import { shutdownTracing } from './lib/tracing'
 import { RedisAdapter, QueueAdapter, EnvironmentUtils } from './lib/queue-adapter'
 
 async function startServer() {
@@ -26,6 +31,8 @@ async function startServer() {
     
     // Basic middleware
     app.use(helmet())
+    app.use(requestId)
+    app.use(httpMetrics)
     
     // CORS configuration - dynamic based on environment
     const corsOptions = {
@@ -49,8 +56,8 @@ async function startServer() {
       },
       credentials: config.cors.credentials,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-      exposedHeaders: ['X-Total-Count', 'X-Page', 'X-Per-Page'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Share-Password', 'traceparent'],
+      exposedHeaders: ['X-Total-Count', 'X-Page', 'X-Per-Page', 'X-Request-Id'],
       maxAge: 86400, // 24 hours
     }
     
@@ -133,12 +140,14 @@ process.on('unhandledRejection', (error) => {
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully...')
   await QueueAdapter.shutdownQueues()
+  await shutdownTracing()
   process.exit(0)
 })
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully...')
   await QueueAdapter.shutdownQueues()
+  await shutdownTracing()
   process.exit(0)
 })
 
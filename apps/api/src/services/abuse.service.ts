@@ -0,0 +1,220 @@
+import { prisma, type Prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import type { AbuseRule, AdminAbuseFlagsQuery } from '@truecheckia/types'
+import { createAuditEvent, type AuditContext } from './audit.service'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Accounts listed in a flag's details; the flag itself goes on all of them
+const MAX_LISTED_ACCOUNTS = 20
+
+// Well-known throwaway address providers. More can be added with
+// ABUSE_DISPOSABLE_DOMAINS.
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  '10minutemail.com',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailnesia.com',
+  'mintemail.com',
+  'mohmal.com',
+  'sharklasers.com',
+  'spamgourmet.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'tempmail.net',
+  'tempmailo.com',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+  'yopmail.net',
+])
+
+export type AbuseFlagDismissal = 'dismissed' | 'unchanged' | 'not_found'
+
+/**
+ * Whether the address is at a disposable email provider, including its
+ * subdomains.
+ */
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.split('@').pop()?.trim().toLowerCase()
+  if (!domain) return false
+
+  const labels = domain.split('.')
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join('.')
+    if (DISPOSABLE_EMAIL_DOMAINS.has(candidate) || config.limits.abuse.disposableDomains.includes(candidate)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Values shared by at least `threshold` accounts, from (value, userId) pairs.
+ */
+export function findSharedValues(
+  pairs: { value: string | null; userId: string }[],
+  threshold: number
+): Map<string, string[]> {
+  const accounts = new Map<string, Set<string>>()
+  for (const { value, userId } of pairs) {
+    if (!value) continue
+    if (!accounts.has(value)) accounts.set(value, new Set())
+    accounts.get(value).add(userId)
+  }
+
+  const shared = new Map<string, string[]>()
+  for (const [value, userIds] of accounts) {
+    if (userIds.size >= threshold) shared.set(value, [...userIds])
+  }
+  return shared
+}
+
+/**
+ * Flag accounts for review. An account has at most one flag per rule:
+ * a later match refreshes the details but doesn't reopen a flag an admin
+ * already dismissed.
+ */
+export async function flagAccounts(userIds: string[], rule: AbuseRule, details: Prisma.InputJsonObject): Promise<number> {
+  for (const userId of userIds) {
+    await prisma.abuseFlag.upsert({
+      where: { userId_rule: { userId, rule } },
+      create: { userId, rule, details },
+      update: { details },
+    })
+  }
+  return userIds.length
+}
+
+function windowStart(now: Date): Date {
+  return new Date(now.getTime() - config.limits.abuse.windowHours * HOUR_MS)
+}
+
+function sharedDetails(key: string, value: string, userIds: string[]) {
+  return { [key]: value, accounts: userIds.slice(0, MAX_LISTED_ACCOUNTS), accountCount: userIds.length }
+}
+
+/**
+ * Checks run when an account is created: a disposable email address, and
+ * several accounts created from the same IP within the window.
+ */
+export async function screenNewAccount(user: { id: string; email: string }, ipAddress?: string, now = new Date()) {
+  if (isDisposableEmail(user.email)) {
+    await flagAccounts([user.id], 'DISPOSABLE_EMAIL', { domain: user.email.split('@').pop().toLowerCase() })
+  }
+
+  if (!ipAddress) return
+
+  const { sameIpSignups } = config.limits.abuse
+  const accounts = await prisma.user.findMany({
+    where: { signupIp: ipAddress, createdAt: { gte: windowStart(now) } },
+    select: { id: true },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_LISTED_ACCOUNTS * 5,
+  })
+
+  if (accounts.length >= sameIpSignups) {
+    const userIds = accounts.map(account => account.id)
+    await flagAccounts(userIds, 'SAME_IP_SIGNUPS', sharedDetails('ipAddress', ipAddress, userIds))
+  }
+}
+
+/**
+ * Periodic checks over the last window: several accounts calling the API
+ * from one IP, and several accounts analyzing the same text.
+ */
+export async function runAbuseScan(now = new Date()): Promise<{ flagged: number }> {
+  const since = windowStart(now)
+  const { sharedApiIpUsers, duplicateTextUsers } = config.limits.abuse
+  let flagged = 0
+
+  const apiCallers = await prisma.apiUsage.groupBy({
+    by: ['ipAddress', 'userId'],
+    where: { createdAt: { gte: since }, ipAddress: { not: null } },
+  })
+  const sharedIps = findSharedValues(
+    apiCallers.map(row => ({ value: row.ipAddress, userId: row.userId })),
+    sharedApiIpUsers
+  )
+  for (const [ipAddress, userIds] of sharedIps) {
+    flagged += await flagAccounts(userIds, 'SHARED_API_IP', sharedDetails('ipAddress', ipAddress, userIds))
+  }
+
+  const submitters = await prisma.analysis.groupBy({
+    by: ['textHash', 'userId'],
+    where: { createdAt: { gte: since }, textHash: { not: null } },
+  })
+  const sharedTexts = findSharedValues(
+    submitters.map(row => ({ value: row.textHash, userId: row.userId })),
+    duplicateTextUsers
+  )
+  for (const [textHash, userIds] of sharedTexts) {
+    flagged += await flagAccounts(userIds, 'DUPLICATE_TEXT', sharedDetails('textHash', textHash, userIds))
+  }
+
+  return { flagged }
+}
+
+export async function listAbuseFlags(query: AdminAbuseFlagsQuery) {
+  const page = query.page || 1
+  const limit = query.limit || 20
+  const where = {
+    status: query.status || 'OPEN',
+    ...(query.rule && { rule: query.rule }),
+  }
+
+  const [flags, total] = await Promise.all([
+    prisma.abuseFlag.findMany({
+      where,
+      include: {
+        user: { select: { id: true, email: true, name: true, plan: true, status: true, createdAt: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.abuseFlag.count({ where }),
+  ])
+
+  return { flags, total, page, limit }
+}
+
+export async function dismissAbuseFlag(context: AuditContext, flagId: string, reason: string): Promise<AbuseFlagDismissal> {
+  const flag = await prisma.abuseFlag.findUnique({ where: { id: flagId }, select: { userId: true, rule: true, status: true } })
+  if (!flag) return 'not_found'
+  if (flag.status !== 'OPEN') return 'unchanged'
+
+  await prisma.$transaction([
+    prisma.abuseFlag.update({
+      where: { id: flagId },
+      data: { status: 'DISMISSED', reviewedById: context.actorId, reviewedAt: new Date() },
+    }),
+    createAuditEvent(context, {
+      action: 'admin.abuse_flag.dismissed',
+      targetType: 'abuse_flag',
+      targetId: flagId,
+      reason,
+      before: { userId: flag.userId, rule: flag.rule, status: flag.status },
+      after: { status: 'DISMISSED' },
+    }),
+  ])
+
+  return 'dismissed'
+}
+
+/**
+ * Close a user's open flags once an admin has acted on the account. Returns
+ * the update so it can join the action's transaction.
+ */
+export function markFlagsActioned(context: AuditContext, userId: string) {
+  return prisma.abuseFlag.updateMany({
+    where: { userId, status: 'OPEN' },
+    data: { status: 'ACTIONED', reviewedById: context.actorId, reviewedAt: new Date() },
+  })
+}
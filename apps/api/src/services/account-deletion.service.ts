@@ -0,0 +1,187 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import { RedisAdapter } from '../lib/queue-adapter'
+import { cancelStripeSubscription } from '../controllers/subscription.controller'
+import { clearPreferencesCache } from './preferences.service'
+import { pseudonymiseAuditEvents } from './audit.service'
+import { getAnalysisCacheKey } from './openai.service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ScheduledDeletion {
+  scheduledAt: Date
+  cancelToken: string
+}
+
+export interface CachedAnalysisSource {
+  text: string
+  charCount: number
+  language: string
+}
+
+export function getDeletionDate(requestedAt = new Date()): Date {
+  return new Date(requestedAt.getTime() + config.limits.accountDeletion.graceDays * DAY_MS)
+}
+
+/**
+ * Whether an OAuth-only user signed in recently enough to delete the account
+ * without a password.
+ */
+export function isRecentSignIn(authTime: number | undefined, now = Date.now()): boolean {
+  if (!authTime) return false
+  return now - authTime * 1000 <= config.limits.accountDeletion.reauthMaxAgeMinutes * 60 * 1000
+}
+
+/**
+ * Redis keys of the analysis results this user may still have cached.
+ * Results are keyed by a hash of the full text and the database keeps only
+ * the first 500 characters, so truncated texts can't be matched; those
+ * entries expire on their own within the cache TTL, well inside the grace
+ * period. The plan may have changed since, so every plan's ensemble is tried.
+ */
+export function getAnalysisCacheKeys(analyses: CachedAnalysisSource[]): string[] {
+  const ensembles = Object.values(config.detectors.plans)
+  const keys = analyses
+    .filter(analysis => analysis.text.length === analysis.charCount)
+    .flatMap(analysis => ensembles.map(detectors => getAnalysisCacheKey(analysis.text, analysis.language, detectors)))
+
+  return [...new Set(keys)]
+}
+
+export async function scheduleAccountDeletion(userId: string, now = new Date()): Promise<ScheduledDeletion> {
+  const scheduledAt = getDeletionDate(now)
+  const cancelToken = randomBytes(32).toString('hex')
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      deletionRequestedAt: now,
+      deletionScheduledAt: scheduledAt,
+      deletionCancelToken: cancelToken,
+    },
+  })
+
+  return { scheduledAt, cancelToken }
+}
+
+/**
+ * Cancel a pending deletion, either for the signed-in user or from the email
+ * link. Returns false when there is nothing to cancel.
+ */
+export async function cancelAccountDeletion(where: { userId: string } | { token: string }): Promise<boolean> {
+  const result = await prisma.user.updateMany({
+    where: {
+      ...('userId' in where ? { id: where.userId } : { deletionCancelToken: where.token }),
+      deletionScheduledAt: { not: null },
+    },
+    data: {
+      deletionRequestedAt: null,
+      deletionScheduledAt: null,
+      deletionCancelToken: null,
+    },
+  })
+
+  return result.count > 0
+}
+
+async function purgeUserCache(userId: string): Promise<void> {
+  const since = new Date(Date.now() - config.cache.ttl * 1000)
+  const analyses = await prisma.analysis.findMany({
+    where: { userId, createdAt: { gte: since } },
+    select: { text: true, charCount: true, language: true },
+  })
+
+  await Promise.all([
+    ...getAnalysisCacheKeys(analyses).map(key => RedisAdapter.cacheDel(key)),
+    clearPreferencesCache(userId),
+  ])
+}
+
+/**
+ * Permanently delete an account: cancel the Stripe subscription, purge the
+ * user's cache entries and remove the user with all related rows. Only an
+ * anonymised deletion record and the pseudonymised audit trail are kept.
+ */
+export async function deleteAccount(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      plan: true,
+      password: true,
+      googleId: true,
+      createdAt: true,
+      deletionRequestedAt: true,
+      subscription: { select: { stripeSubId: true, status: true } },
+      _count: { select: { analyses: true } },
+    },
+  })
+
+  if (!user) return
+
+  // Stop billing first; if Stripe fails the account stays and the job retries
+  let stripeCanceled = false
+  const stripeSubId = user.subscription?.stripeSubId
+  if (stripeSubId && user.subscription.status !== 'CANCELED') {
+    try {
+      await cancelStripeSubscription(stripeSubId)
+      stripeCanceled = true
+    } catch (error) {
+      // Already gone on Stripe's side (e.g. canceled from the dashboard)
+      if (error?.code !== 'resource_missing') throw error
+    }
+  }
+
+  await purgeUserCache(userId).catch(error => {
+    console.error(`Failed to purge cache for user ${userId}:`, error)
+  })
+
+  await prisma.$transaction([
+    prisma.accountDeletionAudit.create({
+      data: {
+        userHash: createHash('sha256').update(user.id).digest('hex'),
+        plan: user.plan,
+        authProvider: user.password ? 'password' : user.googleId ? 'google' : 'unknown',
+        accountCreatedAt: user.createdAt,
+        requestedAt: user.deletionRequestedAt ?? new Date(),
+        analysesCount: user._count.analyses,
+        hadSubscription: Boolean(user.subscription),
+        stripeCanceled,
+      },
+    }),
+    ...pseudonymiseAuditEvents(userId),
+    // Everything else owned by the user is removed by cascading deletes
+    prisma.user.delete({ where: { id: userId } }),
+  ])
+}
+
+/**
+ * Delete every account whose grace period has ended (called by cron).
+ */
+export async function processScheduledDeletions(now = new Date()): Promise<{ deleted: number; failed: number }> {
+  const users = await prisma.user.findMany({
+    where: { deletionScheduledAt: { lte: now } },
+    select: { id: true },
+    take: 50,
+  })
+
+  let deleted = 0
+  let failed = 0
+
+  for (const user of users) {
+    try {
+      await deleteAccount(user.id)
+      deleted++
+    } catch (error) {
+      console.error(`Failed to delete account ${user.id}:`, error)
+      failed++
+    }
+  }
+
+  if (deleted > 0 || failed > 0) {
+    console.log(`Deleted ${deleted} accounts, ${failed} failed`)
+  }
+
+  return { deleted, failed }
+}
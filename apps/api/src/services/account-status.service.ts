@@ -0,0 +1,82 @@
+import { prisma } from '@truecheckia/database'
+import type { JWTPayload, UserStatus } from '@truecheckia/types'
+import { createAuditEvent } from './audit.service'
+
+export type AccountBlock = 'SUSPENDED' | 'BANNED'
+
+export interface AuthUser {
+  id: string
+  email: string
+  role: JWTPayload['role']
+  plan: JWTPayload['plan']
+  status: UserStatus
+  statusExpiresAt: Date | null
+}
+
+interface AccountStatus {
+  status?: string | null
+  statusExpiresAt?: Date | null
+}
+
+/**
+ * The fields request authentication needs, including the account status.
+ */
+export async function findAuthUser(userId: string): Promise<AuthUser | null> {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, role: true, plan: true, status: true, statusExpiresAt: true },
+  })
+}
+
+/**
+ * Whether an admin may still use impersonation tokens they were issued.
+ */
+export async function isActiveAdmin(userId: string): Promise<boolean> {
+  const user = await findAuthUser(userId)
+  return user?.role === 'ADMIN' && !isAccountBlocked(user)
+}
+
+/**
+ * Why the account can't be used, or null when it can. A suspension counts
+ * as lifted once its expiry passes, even before liftExpiredSuspensions has
+ * reset the stored status.
+ */
+export function getAccountBlock(user: AccountStatus, now = new Date()): AccountBlock | null {
+  if (user.status === 'BANNED') return 'BANNED'
+  if (user.status !== 'SUSPENDED') return null
+  if (user.statusExpiresAt && user.statusExpiresAt.getTime() <= now.getTime()) return null
+  return 'SUSPENDED'
+}
+
+export function isAccountBlocked(user: AccountStatus, now = new Date()): boolean {
+  return getAccountBlock(user, now) !== null
+}
+
+/**
+ * Reactivate accounts whose suspension has run out, recording it as a
+ * system action.
+ */
+export async function liftExpiredSuspensions(now = new Date()): Promise<{ lifted: number }> {
+  const users = await prisma.user.findMany({
+    where: { status: 'SUSPENDED', statusExpiresAt: { lte: now } },
+    select: { id: true, statusReason: true, statusExpiresAt: true },
+  })
+
+  for (const user of users) {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { status: 'ACTIVE', statusReason: null, statusChangedAt: now, statusExpiresAt: null },
+      }),
+      createAuditEvent({}, {
+        action: 'admin.user.suspension_expired',
+        targetType: 'user',
+        targetId: user.id,
+        before: { status: 'SUSPENDED', reason: user.statusReason, expiresAt: user.statusExpiresAt },
+        after: { status: 'ACTIVE' },
+      }),
+    ])
+  }
+
+  return { lifted: users.length }
+}
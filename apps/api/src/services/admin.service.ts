@@ -0,0 +1,506 @@
+import { prisma, type Plan, type Prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import type { AdminUsersQuery } from '@truecheckia/types'
+import { generateImpersonationToken } from '../lib/jwt.utils'
+import DeadLetterQueue from '../lib/dead-letter-queue'
+import { markFlagsActioned } from './abuse.service'
+import { createAuditEvent, recordAuditEvent, type AuditContext, type AuditEventInput } from './audit.service'
+import { listSessions, revokeAllSessions } from './session.service'
+
+const USAGE_WINDOW_DAYS = 30
+
+// Retries when the balance changes between reading and debiting it
+const MAX_CREDIT_ADJUST_ATTEMPTS = 3
+
+export const ADMIN_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  plan: true,
+  role: true,
+  credits: true,
+  creditsResetAt: true,
+  emailVerified: true,
+  status: true,
+  statusReason: true,
+  statusChangedAt: true,
+  statusExpiresAt: true,
+  twoFactorEnabled: true,
+  deletionScheduledAt: true,
+  googleId: true,
+  createdAt: true,
+  updatedAt: true,
+}
+
+export type AdminUserChange =
+  | { status: 'updated'; user: AdminUser }
+  | { status: 'unchanged' }
+  | { status: 'not_found' }
+
+export type SuspensionResult = AdminUserChange | { status: 'self' }
+
+export type ImpersonationResult =
+  | { status: 'issued'; accessToken: string; expiresIn: string; user: AdminUser }
+  | { status: 'forbidden' }
+  | { status: 'not_found' }
+
+export type AdminUser = ReturnType<typeof serializeAdminUser>
+
+function serializeAdminUser(user: Prisma.UserGetPayload<{ select: typeof ADMIN_USER_SELECT }>) {
+  const { googleId, ...rest } = user
+  return {
+    ...rest,
+    authProvider: googleId ? 'google' : 'password',
+  }
+}
+
+function userEvent(
+  userId: string,
+  action: string,
+  reason: string,
+  before: Prisma.InputJsonObject,
+  after: Prisma.InputJsonObject
+): AuditEventInput {
+  return { action: `admin.user.${action}`, targetType: 'user', targetId: userId, reason, before, after }
+}
+
+export async function searchUsers(query: AdminUsersQuery) {
+  const page = query.page || 1
+  const limit = query.limit || 20
+  const search = query.search?.trim()
+
+  const where: Prisma.UserWhereInput = {
+    ...(search && {
+      OR: [
+        { id: search },
+        { email: { contains: search, mode: 'insensitive' } },
+        { name: { contains: search, mode: 'insensitive' } },
+      ],
+    }),
+    ...(query.plan && { plan: query.plan }),
+    ...(query.role && { role: query.role }),
+    ...(query.status && { status: query.status }),
+    ...(query.emailVerified && { emailVerified: query.emailVerified === 'true' }),
+    ...(query.flagged && {
+      abuseFlags: query.flagged === 'true' ? { some: { status: 'OPEN' } } : { none: { status: 'OPEN' } },
+    }),
+  }
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: ADMIN_USER_SELECT,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.user.count({ where }),
+  ])
+
+  return { users: users.map(serializeAdminUser), total, page, limit }
+}
+
+/**
+ * Everything support needs on one screen: the account, its subscription,
+ * signed-in devices, abuse flags and the latest admin actions on it.
+ */
+export async function getUserDetail(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      ...ADMIN_USER_SELECT,
+      subscription: {
+        select: { plan: true, status: true, currentPeriodEnd: true, cancelAtPeriodEnd: true, stripeCustomerId: true },
+      },
+      _count: {
+        select: { analyses: true, apiKeys: true, batches: true },
+      },
+    },
+  })
+
+  if (!user) return null
+
+  const { subscription, _count, ...account } = user
+  const [sessions, abuseFlags, auditEvents] = await Promise.all([
+    listSessions(userId),
+    prisma.abuseFlag.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.auditEvent.findMany({
+      where: { targetType: 'user', targetId: userId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    }),
+  ])
+
+  return {
+    user: serializeAdminUser(account),
+    subscription,
+    counts: _count,
+    sessions,
+    abuseFlags,
+    auditEvents,
+  }
+}
+
+/**
+ * A user's analyses, newest first. Texts are cut to a preview.
+ */
+export async function getUserAnalyses(userId: string, page: number, limit: number) {
+  const [analyses, total] = await Promise.all([
+    prisma.analysis.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        text: true,
+        wordCount: true,
+        language: true,
+        aiScore: true,
+        confidence: true,
+        isAiGenerated: true,
+        modelUsed: true,
+        processingTime: true,
+        cached: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.analysis.count({ where: { userId } }),
+  ])
+
+  return {
+    analyses: analyses.map(({ text, ...analysis }) => ({
+      ...analysis,
+      textPreview: text.length > 200 ? `${text.slice(0, 200)}…` : text,
+    })),
+    total,
+  }
+}
+
+export async function getUserUsage(userId: string) {
+  const since = new Date(Date.now() - USAGE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const window = { userId, createdAt: { gte: since } }
+
+  const [analyses, requests, failedRequests, responseTime, endpoints] = await Promise.all([
+    prisma.analysis.count({ where: window }),
+    prisma.apiUsage.count({ where: window }),
+    prisma.apiUsage.count({ where: { ...window, statusCode: { gte: 400 } } }),
+    prisma.apiUsage.aggregate({ where: window, _avg: { responseTime: true } }),
+    prisma.apiUsage.groupBy({
+      by: ['endpoint'],
+      where: window,
+      _count: { _all: true },
+      orderBy: { _count: { endpoint: 'desc' } },
+      take: 10,
+    }),
+  ])
+
+  return {
+    since,
+    analyses,
+    apiRequests: requests,
+    failedApiRequests: failedRequests,
+    averageResponseTime: Math.round(responseTime._avg.responseTime || 0),
+    topEndpoints: endpoints.map(entry => ({ endpoint: entry.endpoint, requests: entry._count._all })),
+  }
+}
+
+/**
+ * Add (or with a negative amount, remove) credits. Balances don't go below
+ * zero.
+ */
+export async function adjustCredits(
+  context: AuditContext,
+  userId: string,
+  amount: number,
+  reason: string
+): Promise<AdminUserChange> {
+  for (let attempt = 1; attempt <= MAX_CREDIT_ADJUST_ATTEMPTS; attempt++) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { credits: true } })
+    if (!user) return { status: 'not_found' }
+
+    // Debits stop at zero
+    const change = Math.max(amount, -user.credits)
+    if (change === 0) return { status: 'unchanged' }
+
+    // An increment keeps credits spent or granted meanwhile; a debit only
+    // applies while the balance still covers it, otherwise it is recomputed
+    const updated = await prisma.$transaction(async tx => {
+      const { count } = await tx.user.updateMany({
+        where: { id: userId, credits: { gte: -change } },
+        data: { credits: { increment: change } },
+      })
+      if (count === 0) return null
+
+      const updated = await tx.user.findUnique({ where: { id: userId }, select: ADMIN_USER_SELECT })
+      await createAuditEvent(
+        context,
+        userEvent(userId, 'credits_adjusted', reason, { credits: updated.credits - change }, { credits: updated.credits, amount }),
+        tx
+      )
+      return updated
+    })
+
+    if (updated) return { status: 'updated', user: serializeAdminUser(updated) }
+  }
+
+  throw new Error(`Credits of user ${userId} kept changing; adjustment not applied`)
+}
+
+/**
+ * Change the plan on the account only. A Stripe subscription, if any, is
+ * left as it is.
+ */
+export async function changePlan(
+  context: AuditContext,
+  userId: string,
+  plan: Plan,
+  reason: string
+): Promise<AdminUserChange> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { plan: true } })
+  if (!user) return { status: 'not_found' }
+  if (user.plan === plan) return { status: 'unchanged' }
+
+  const [updated] = await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { plan }, select: ADMIN_USER_SELECT }),
+    createAuditEvent(context, userEvent(userId, 'plan_changed', reason, { plan: user.plan }, { plan })),
+  ])
+
+  return { status: 'updated', user: serializeAdminUser(updated) }
+}
+
+export async function forceVerifyEmail(
+  context: AuditContext,
+  userId: string,
+  reason: string
+): Promise<AdminUserChange> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { emailVerified: true } })
+  if (!user) return { status: 'not_found' }
+  if (user.emailVerified) return { status: 'unchanged' }
+
+  const [updated] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { emailVerified: true, emailVerificationToken: null, emailVerificationExpires: null },
+      select: ADMIN_USER_SELECT,
+    }),
+    createAuditEvent(
+      context,
+      userEvent(userId, 'email_verified', reason, { emailVerified: false }, { emailVerified: true })
+    ),
+  ])
+
+  return { status: 'updated', user: serializeAdminUser(updated) }
+}
+
+/**
+ * Block an account and sign it out everywhere. Open abuse flags on it are
+ * closed as actioned. Admins can't block themselves.
+ */
+async function blockUser(
+  context: AuditContext,
+  userId: string,
+  status: 'SUSPENDED' | 'BANNED',
+  reason: string,
+  expiresAt: Date | null
+): Promise<SuspensionResult> {
+  if (userId === context.actorId) return { status: 'self' }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { status: true, statusExpiresAt: true } })
+  if (!user) return { status: 'not_found' }
+  if (user.status === status && (user.statusExpiresAt?.getTime() ?? null) === (expiresAt?.getTime() ?? null)) {
+    return { status: 'unchanged' }
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { status, statusReason: reason, statusChangedAt: new Date(), statusExpiresAt: expiresAt },
+      select: ADMIN_USER_SELECT,
+    }),
+    markFlagsActioned(context, userId),
+    createAuditEvent(
+      context,
+      userEvent(
+        userId,
+        status === 'BANNED' ? 'banned' : 'suspended',
+        reason,
+        { status: user.status, expiresAt: user.statusExpiresAt },
+        { status, expiresAt }
+      )
+    ),
+  ])
+
+  await revokeAllSessions(userId, 'suspended')
+
+  return { status: 'updated', user: serializeAdminUser(updated) }
+}
+
+/**
+ * Suspend an account, until `expiresAt` or until an admin lifts it.
+ */
+export async function suspendUser(
+  context: AuditContext,
+  userId: string,
+  reason: string,
+  expiresAt: Date | null = null
+): Promise<SuspensionResult> {
+  return blockUser(context, userId, 'SUSPENDED', reason, expiresAt)
+}
+
+/**
+ * Ban an account for good. Only an admin can lift a ban.
+ */
+export async function banUser(context: AuditContext, userId: string, reason: string): Promise<SuspensionResult> {
+  return blockUser(context, userId, 'BANNED', reason, null)
+}
+
+/**
+ * Reactivate a suspended or banned account.
+ */
+export async function unsuspendUser(context: AuditContext, userId: string, reason: string): Promise<AdminUserChange> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { status: true } })
+  if (!user) return { status: 'not_found' }
+  if (user.status === 'ACTIVE') return { status: 'unchanged' }
+
+  const [updated] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { status: 'ACTIVE', statusReason: null, statusChangedAt: new Date(), statusExpiresAt: null },
+      select: ADMIN_USER_SELECT,
+    }),
+    createAuditEvent(context, userEvent(userId, 'unsuspended', reason, { status: user.status }, { status: 'ACTIVE' })),
+  ])
+
+  return { status: 'updated', user: serializeAdminUser(updated) }
+}
+
+/**
+ * Issue a read-only access token for the user, tied to the admin's session
+ * so it stops working when the admin signs out. Other admins can't be
+ * impersonated.
+ */
+export async function impersonateUser(
+  context: AuditContext,
+  adminSessionId: string,
+  userId: string,
+  reason: string
+): Promise<ImpersonationResult> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: ADMIN_USER_SELECT })
+  if (!user) return { status: 'not_found' }
+  if (user.role === 'ADMIN') return { status: 'forbidden' }
+
+  const accessToken = generateImpersonationToken(user, context.actorId, adminSessionId)
+  await recordAuditEvent(context, userEvent(userId, 'impersonated', reason, undefined, undefined))
+
+  return {
+    status: 'issued',
+    accessToken,
+    expiresIn: config.auth.impersonationExpiresIn,
+    user: serializeAdminUser(user),
+  }
+}
+
+export async function listDeadLetterJobs(queue: string | undefined, page: number, limit: number) {
+  const { jobs, total } = await DeadLetterQueue.listJobs(queue, (page - 1) * limit, limit)
+  return { jobs, total, stats: await DeadLetterQueue.getStats() }
+}
+
+export async function getDeadLetterJob(jobId: string) {
+  return DeadLetterQueue.getJobDetails(jobId)
+}
+
+export async function getDeadLetterMetrics(days: number) {
+  return DeadLetterQueue.getMetrics(days)
+}
+
+/**
+ * Put a failed job back on its queue, even after it used up its retries.
+ * With `data` the payload is replaced first, e.g. to fix the input that made
+ * it fail.
+ */
+export async function requeueDeadLetterJob(
+  context: AuditContext,
+  jobId: string,
+  reason: string,
+  data?: Record<string, unknown>
+): Promise<'requeued' | 'not_found' | 'failed'> {
+  const job = await DeadLetterQueue.getFailedJob(jobId)
+  if (!job) return 'not_found'
+
+  if (data && !(await DeadLetterQueue.updateJobData(jobId, data))) {
+    return 'failed'
+  }
+
+  if (!(await DeadLetterQueue.manualRetry(jobId, { force: true }))) {
+    return 'failed'
+  }
+
+  await recordAuditEvent(context, {
+    action: 'admin.job.requeued',
+    targetType: 'job',
+    targetId: jobId,
+    reason,
+    before: { queue: job.originalQueue, retryCount: job.retryCount, error: job.error, ...(data && { data: job.data }) },
+    // Job payloads are plain JSON
+    ...(data && { after: { data: data as Prisma.InputJsonObject } }),
+  })
+
+  return 'requeued'
+}
+
+/**
+ * Requeue every job in a queue's DLQ, by default the permanent failures.
+ */
+export async function requeueAllDeadLetterJobs(context: AuditContext, queue: string | undefined, reason: string) {
+  const result = await DeadLetterQueue.retryAll(queue, { force: true })
+
+  await recordAuditEvent(context, {
+    action: 'admin.job.requeued_all',
+    targetType: 'dlq',
+    targetId: queue ?? 'permanent-failures',
+    reason,
+    after: { retried: result.retried, failed: result.failed },
+  })
+
+  return result
+}
+
+export async function purgeDeadLetterJob(context: AuditContext, jobId: string, reason: string): Promise<boolean> {
+  const job = await DeadLetterQueue.getFailedJob(jobId)
+  if (!job || !(await DeadLetterQueue.purgeJob(jobId))) return false
+
+  await recordAuditEvent(context, {
+    action: 'admin.job.purged',
+    targetType: 'job',
+    targetId: jobId,
+    reason,
+    before: { queue: job.originalQueue, retryCount: job.retryCount, error: job.error },
+  })
+
+  return true
+}
+
+/**
+ * Delete every job in one DLQ, or every failed job older than some days.
+ */
+export async function purgeDeadLetterJobs(
+  context: AuditContext,
+  { queue, olderThanDays }: { queue?: string; olderThanDays?: number },
+  reason: string
+): Promise<{ purged: number }> {
+  const result = queue ? await DeadLetterQueue.purgeQueue(queue) : await DeadLetterQueue.purgeOldJobs(olderThanDays)
+
+  await recordAuditEvent(context, {
+    action: 'admin.dlq.purged',
+    targetType: 'dlq',
+    targetId: queue,
+    reason,
+    after: { ...(olderThanDays && { olderThanDays }), purged: result.purged },
+  })
+
+  return result
+}
@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto'
+import { config } from '@truecheckia/config'
+import { emailService } from './email.service'
+import {
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhook.service'
+
+export type AlertEvent = 'firing' | 'reminder' | 'resolved'
+
+export interface AlertRecord {
+  id: string
+  dedupeKey: string
+  rule: string
+  queue?: string | null
+  severity: string
+  status: string
+  message: string
+  value: number
+  threshold: number
+  occurrences: number
+  firstFiredAt: Date
+  lastFiredAt: Date
+  resolvedAt?: Date | null
+}
+
+/**
+ * A channel alerts are sent to. Channels that aren't configured report
+ * themselves disabled and are skipped.
+ */
+export interface AlertNotifier {
+  name: string
+  isEnabled(): boolean
+  send(alert: AlertRecord, event: AlertEvent): Promise<void>
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+  LOW: '#439fe0',
+  MEDIUM: '#ffc107',
+  HIGH: '#fd7e14',
+  CRITICAL: '#dc3545',
+}
+
+export function serializeAlertPayload(alert: AlertRecord) {
+  return {
+    id: alert.id,
+    rule: alert.rule,
+    queue: alert.queue ?? null,
+    severity: alert.severity,
+    status: alert.status,
+    message: alert.message,
+    value: alert.value,
+    threshold: alert.threshold,
+    occurrences: alert.occurrences,
+    firstFiredAt: alert.firstFiredAt.toISOString(),
+    lastFiredAt: alert.lastFiredAt.toISOString(),
+    resolvedAt: alert.resolvedAt?.toISOString() ?? null,
+  }
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'TrueCheckIA-Alerts/1.0',
+      ...headers,
+    },
+    body,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(config.limits.webhooks.timeoutMs),
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim())
+  }
+}
+
+export const emailNotifier: AlertNotifier = {
+  name: 'email',
+  isEnabled: () => config.monitoring.alerts.channels.email.length > 0,
+  async send(alert, event) {
+    for (const email of config.monitoring.alerts.channels.email) {
+      await emailService.sendAlertEmail(email, alert, event)
+    }
+  },
+}
+
+/**
+ * Same envelope and signature headers as the analysis webhooks, so
+ * receivers can reuse their verification code.
+ */
+export const webhookNotifier: AlertNotifier = {
+  name: 'webhook',
+  isEnabled: () => Boolean(config.monitoring.alerts.channels.webhookUrl),
+  async send(alert, event) {
+    const { webhookUrl, webhookSecret } = config.monitoring.alerts.channels
+    const id = randomUUID()
+    const body = JSON.stringify({
+      id,
+      event: `alert.${event}`,
+      createdAt: new Date().toISOString(),
+      data: serializeAlertPayload(alert),
+    })
+    const timestamp = Math.floor(Date.now() / 1000)
+
+    await postJson(webhookUrl, body, {
+      [WEBHOOK_EVENT_HEADER]: `alert.${event}`,
+      [WEBHOOK_DELIVERY_HEADER]: id,
+      ...(webhookSecret && {
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp.toString(),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhookSecret, timestamp, body),
+      }),
+    })
+  },
+}
+
+/**
+ * Incoming-webhook payload understood by Slack and by Slack-compatible
+ * endpoints (Mattermost, Rocket.Chat, Discord's /slack suffix).
+ */
+export function buildSlackPayload(alert: AlertRecord, event: AlertEvent) {
+  const resolved = event === 'resolved'
+  const prefix = resolved ? ':white_check_mark: Resolved' : event === 'reminder' ? ':rotating_light: Still firing' : ':rotating_light: Firing'
+
+  return {
+    text: `${prefix}: ${alert.message}`,
+    attachments: [
+      {
+        color: resolved ? '#28a745' : SEVERITY_COLORS[alert.severity] || SEVERITY_COLORS.MEDIUM,
+        fields: [
+          { title: 'Rule', value: alert.rule, short: true },
+          { title: 'Queue', value: alert.queue || 'all', short: true },
+          { title: 'Severity', value: alert.severity, short: true },
+          { title: 'Value', value: `${alert.value} (threshold ${alert.threshold})`, short: true },
+        ],
+        footer: `TrueCheckIA alert ${alert.id}`,
+        ts: Math.floor((resolved ? alert.resolvedAt ?? new Date() : alert.lastFiredAt).getTime() / 1000),
+      },
+    ],
+  }
+}
+
+export const slackNotifier: AlertNotifier = {
+  name: 'slack',
+  isEnabled: () => Boolean(config.monitoring.alerts.channels.slackWebhookUrl),
+  async send(alert, event) {
+    await postJson(config.monitoring.alerts.channels.slackWebhookUrl, JSON.stringify(buildSlackPayload(alert, event)))
+  },
+}
+
+const notifiers: AlertNotifier[] = [emailNotifier, webhookNotifier, slackNotifier]
+
+/**
+ * Add a channel, e.g. a pager integration. Notifiers with the same name are
+ * replaced.
+ */
+export function registerAlertNotifier(notifier: AlertNotifier): void {
+  const index = notifiers.findIndex(existing => existing.name === notifier.name)
+  if (index >= 0) {
+    notifiers[index] = notifier
+  } else {
+    notifiers.push(notifier)
+  }
+}
+
+/**
+ * Send to every enabled channel. A failing channel is logged and doesn't
+ * stop the others; returns the channels that accepted the alert.
+ */
+export async function notifyAlert(alert: AlertRecord, event: AlertEvent): Promise<string[]> {
+  const delivered: string[] = []
+
+  for (const notifier of notifiers) {
+    if (!notifier.isEnabled()) continue
+
+    try {
+      await notifier.send(alert, event)
+      delivered.push(notifier.name)
+    } catch (error) {
+      console.error(`Failed to send alert ${alert.id} via ${notifier.name}:`, error)
+    }
+  }
+
+  return delivered
+}
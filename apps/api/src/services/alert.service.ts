@@ -0,0 +1,241 @@
+import { prisma, type Alert, type AlertStatus, type Prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import type { AdminAlertsQuery, AlertRule } from '@truecheckia/types'
+import { createAuditEvent, type AuditContext } from './audit.service'
+import { notifyAlert, type AlertEvent } from './alert-notifiers'
+
+const MINUTE_MS = 60 * 1000
+
+// Open alerts still need attention; resolved ones are history
+const OPEN_STATUSES: AlertStatus[] = ['FIRING', 'ACKNOWLEDGED']
+
+/**
+ * The result of evaluating one rule, firing or not. Checks that aren't
+ * firing resolve the rule's open alert.
+ */
+export interface AlertCheck {
+  rule: AlertRule
+  queue?: string
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+  firing: boolean
+  value: number
+  threshold: number
+  message: string
+}
+
+export type AlertAcknowledgement = 'acknowledged' | 'unchanged' | 'not_found'
+
+export function alertDedupeKey(rule: string, queue?: string | null): string {
+  return queue ? `${rule}:${queue}` : rule
+}
+
+/**
+ * Threshold for a rule, with the queue's override from ALERT_THRESHOLDS
+ * taking precedence over the default.
+ */
+export function alertThreshold(rule: AlertRule, queue?: string): number {
+  const { thresholds, queueThresholds } = config.monitoring.alerts
+  return queueThresholds[`${queue}.${rule}`] ?? thresholds[rule]
+}
+
+async function isSilenced(dedupeKey: string, now: Date): Promise<boolean> {
+  const silence = await prisma.alertSilence.findUnique({ where: { dedupeKey }, select: { until: true } })
+  return Boolean(silence && silence.until > now)
+}
+
+async function notify(alert: Alert, event: AlertEvent, now: Date): Promise<boolean> {
+  if (await isSilenced(alert.dedupeKey, now)) return false
+
+  const delivered = await notifyAlert(alert, event)
+  if (delivered.length > 0 && event !== 'resolved') {
+    await prisma.alert.update({ where: { id: alert.id }, data: { lastNotifiedAt: now } })
+  }
+  return delivered.length > 0
+}
+
+/**
+ * Record the outcome of a round of checks. There is one open alert per rule
+ * and queue: a new one is created and sent when a check starts firing, repeat
+ * firings only bump it (with a reminder once the cooldown has passed, unless
+ * it was acknowledged), and it resolves when the check stops firing.
+ * Silenced rules are still recorded, just not sent.
+ */
+export async function processAlertChecks(
+  checks: AlertCheck[],
+  now = new Date()
+): Promise<{ fired: number; resolved: number; notified: number }> {
+  const cooldownMs = config.monitoring.alerts.cooldownMinutes * MINUTE_MS
+  let fired = 0
+  let resolved = 0
+  let notified = 0
+
+  for (const check of checks) {
+    const dedupeKey = alertDedupeKey(check.rule, check.queue)
+    const open = await prisma.alert.findFirst({
+      where: { dedupeKey, status: { in: OPEN_STATUSES } },
+      orderBy: { firstFiredAt: 'desc' },
+    })
+
+    if (!check.firing) {
+      if (!open) continue
+
+      const alert = await prisma.alert.update({
+        where: { id: open.id },
+        data: { status: 'RESOLVED', resolvedAt: now },
+      })
+      resolved++
+      // Only tell channels about the recovery if they heard about the alert
+      if (open.lastNotifiedAt && (await notify(alert, 'resolved', now))) notified++
+      continue
+    }
+
+    const values = {
+      severity: check.severity,
+      message: check.message,
+      value: check.value,
+      threshold: check.threshold,
+      lastFiredAt: now,
+    }
+
+    if (!open) {
+      const alert = await prisma.alert.create({
+        data: { dedupeKey, rule: check.rule, queue: check.queue ?? null, firstFiredAt: now, ...values },
+      })
+      fired++
+      if (await notify(alert, 'firing', now)) notified++
+      continue
+    }
+
+    const alert = await prisma.alert.update({
+      where: { id: open.id },
+      data: { ...values, occurrences: { increment: 1 } },
+    })
+
+    const cooledDown = !open.lastNotifiedAt || now.getTime() - open.lastNotifiedAt.getTime() >= cooldownMs
+    if (open.status === 'FIRING' && cooledDown) {
+      if (await notify(alert, open.lastNotifiedAt ? 'reminder' : 'firing', now)) notified++
+    }
+  }
+
+  return { fired, resolved, notified }
+}
+
+export async function listAlerts(query: AdminAlertsQuery, now = new Date()) {
+  const page = query.page || 1
+  const limit = query.limit || 20
+  const where: Prisma.AlertWhereInput = {
+    ...(query.status ? { status: query.status } : { status: { in: OPEN_STATUSES } }),
+    ...(query.rule && { rule: query.rule }),
+    ...(query.queue && { queue: query.queue }),
+  }
+
+  const [alerts, total] = await Promise.all([
+    prisma.alert.findMany({
+      where,
+      orderBy: { lastFiredAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.alert.count({ where }),
+  ])
+
+  const silences = await prisma.alertSilence.findMany({
+    where: { dedupeKey: { in: [...new Set(alerts.map(alert => alert.dedupeKey))] }, until: { gt: now } },
+  })
+  const silencedUntil = new Map(silences.map(silence => [silence.dedupeKey, silence.until]))
+
+  return {
+    alerts: alerts.map(alert => ({ ...alert, silencedUntil: silencedUntil.get(alert.dedupeKey) ?? null })),
+    total,
+    page,
+    limit,
+  }
+}
+
+/**
+ * Stop reminders for a firing alert. It still resolves by itself, and a new
+ * alert is raised if the rule fires again after that.
+ */
+export async function acknowledgeAlert(context: AuditContext, alertId: string, reason: string): Promise<AlertAcknowledgement> {
+  const alert = await prisma.alert.findUnique({ where: { id: alertId }, select: { dedupeKey: true, status: true } })
+  if (!alert) return 'not_found'
+  if (alert.status !== 'FIRING') return 'unchanged'
+
+  await prisma.$transaction([
+    prisma.alert.update({
+      where: { id: alertId },
+      data: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date(), acknowledgedById: context.actorId },
+    }),
+    createAuditEvent(context, {
+      action: 'admin.alert.acknowledged',
+      targetType: 'alert',
+      targetId: alertId,
+      reason,
+      before: { dedupeKey: alert.dedupeKey, status: alert.status },
+      after: { status: 'ACKNOWLEDGED' },
+    }),
+  ])
+
+  return 'acknowledged'
+}
+
+/**
+ * Mute notifications for the alert's rule and queue, including alerts it
+ * raises later, until the silence ends. Silencing again replaces the end.
+ */
+export async function silenceAlert(
+  context: AuditContext,
+  alertId: string,
+  durationMinutes: number,
+  reason: string,
+  now = new Date()
+): Promise<{ status: 'silenced'; until: Date } | { status: 'not_found' }> {
+  const alert = await prisma.alert.findUnique({ where: { id: alertId }, select: { dedupeKey: true } })
+  if (!alert) return { status: 'not_found' }
+
+  const until = new Date(now.getTime() + durationMinutes * MINUTE_MS)
+  const silence = { until, reason, createdById: context.actorId }
+
+  await prisma.$transaction([
+    prisma.alertSilence.upsert({
+      where: { dedupeKey: alert.dedupeKey },
+      create: { dedupeKey: alert.dedupeKey, ...silence },
+      update: silence,
+    }),
+    createAuditEvent(context, {
+      action: 'admin.alert.silenced',
+      targetType: 'alert',
+      targetId: alertId,
+      reason,
+      after: { dedupeKey: alert.dedupeKey, until: until.toISOString() },
+    }),
+  ])
+
+  return { status: 'silenced', until }
+}
+
+export async function unsilenceAlert(
+  context: AuditContext,
+  alertId: string,
+  reason: string,
+  now = new Date()
+): Promise<'unsilenced' | 'unchanged' | 'not_found'> {
+  const alert = await prisma.alert.findUnique({ where: { id: alertId }, select: { dedupeKey: true } })
+  if (!alert) return 'not_found'
+
+  const silence = await prisma.alertSilence.findUnique({ where: { dedupeKey: alert.dedupeKey } })
+  if (!silence || silence.until <= now) return 'unchanged'
+
+  await prisma.$transaction([
+    prisma.alertSilence.delete({ where: { dedupeKey: alert.dedupeKey } }),
+    createAuditEvent(context, {
+      action: 'admin.alert.unsilenced',
+      targetType: 'alert',
+      targetId: alertId,
+      reason,
+      before: { dedupeKey: alert.dedupeKey, until: silence.until.toISOString() },
+    }),
+  ])
+
+  return 'unsilenced'
+}
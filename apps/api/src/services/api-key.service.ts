@@ -0,0 +1,172 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from '@truecheckia/database'
+import { API_KEY_SCOPES } from '@truecheckia/types'
+import type { ApiKeyInfo, ApiKeyScope } from '@truecheckia/types'
+
+const KEY_PREFIX = 'tcia_'
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 8
+// Usage is recorded at most once per minute per key
+const LAST_USED_THROTTLE_MS = 60 * 1000
+
+export interface ApiKeyRecord {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  expiresAt?: Date | null
+  revokedAt?: Date | null
+  lastUsedAt?: Date | null
+  lastUsedIp?: string | null
+  createdAt: Date
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * A new random key. Only the hash and the visible prefix are stored; the
+ * key itself is shown to the user once.
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('hex')}`
+  return {
+    key,
+    prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  }
+}
+
+export function getApiKeyStatus(apiKey: Pick<ApiKeyRecord, 'expiresAt' | 'revokedAt'>, now = new Date()): ApiKeyInfo['status'] {
+  if (apiKey.revokedAt) return 'REVOKED'
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= now.getTime()) return 'EXPIRED'
+  return 'ACTIVE'
+}
+
+export function serializeApiKey(apiKey: ApiKeyRecord, now = new Date()): ApiKeyInfo {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes as ApiKeyScope[],
+    status: getApiKeyStatus(apiKey, now),
+    expiresAt: apiKey.expiresAt ?? null,
+    lastUsedAt: apiKey.lastUsedAt ?? null,
+    lastUsedIp: apiKey.lastUsedIp ?? null,
+    createdAt: apiKey.createdAt,
+  }
+}
+
+const USER_SELECT = { id: true, email: true, role: true, plan: true, status: true, statusExpiresAt: true }
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === 'P2002'
+}
+
+/**
+ * Move a plaintext key from `User.apiKey` to a hashed ApiKey with every
+ * scope, so integrations using it keep working.
+ */
+function migrateLegacyApiKey(userId: string, rawKey: string) {
+  return prisma.$transaction([
+    prisma.apiKey.create({
+      data: {
+        userId,
+        name: 'Legacy key',
+        prefix: rawKey.slice(0, VISIBLE_PREFIX_LENGTH),
+        keyHash: hashApiKey(rawKey),
+        scopes: [...API_KEY_SCOPES],
+      },
+      include: { user: { select: USER_SELECT } },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { apiKey: null },
+    }),
+  ])
+}
+
+/**
+ * Look up a key presented by a client. Keys issued before hashed keys
+ * existed live in `User.apiKey` until `migrateLegacyApiKeys` has run; such a
+ * key is moved the first time it is used.
+ */
+export async function findApiKey(rawKey: string) {
+  const findByHash = () =>
+    prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(rawKey) },
+      include: { user: { select: USER_SELECT } },
+    })
+
+  const apiKey = await findByHash()
+  if (apiKey) {
+    return apiKey
+  }
+
+  const legacyUser = await prisma.user.findUnique({
+    where: { apiKey: rawKey },
+    select: { id: true },
+  })
+  if (!legacyUser) {
+    return null
+  }
+
+  try {
+    const [migrated] = await migrateLegacyApiKey(legacyUser.id, rawKey)
+    return migrated
+  } catch (error) {
+    // Another request using the same key moved it first
+    if (!isUniqueViolation(error)) throw error
+    return findByHash()
+  }
+}
+
+/**
+ * One-off migration of every legacy plaintext key to a hashed ApiKey,
+ * clearing `User.apiKey`. Users are processed in batches and a key that
+ * fails to move is reported and left for the next run. Migrated users drop
+ * out of the filter, so batches page by id rather than by cursor row.
+ */
+export async function migrateLegacyApiKeys(
+  batchSize = 100,
+  onError: (userId: string, error: unknown) => void = () => undefined
+): Promise<{ migrated: number; failed: number }> {
+  let migrated = 0
+  let failed = 0
+  let cursor: string | undefined
+
+  for (;;) {
+    const users = await prisma.user.findMany({
+      where: { apiKey: { not: null }, ...(cursor && { id: { gt: cursor } }) },
+      select: { id: true, apiKey: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    })
+    if (users.length === 0) break
+
+    for (const user of users) {
+      try {
+        await migrateLegacyApiKey(user.id, user.apiKey!)
+        migrated++
+      } catch (error) {
+        failed++
+        onError(user.id, error)
+      }
+    }
+    cursor = users[users.length - 1].id
+  }
+
+  return { migrated, failed }
+}
+
+export async function recordApiKeyUse(apiKey: Pick<ApiKeyRecord, 'id' | 'lastUsedAt'>, ip?: string) {
+  const now = new Date()
+  if (apiKey.lastUsedAt && now.getTime() - apiKey.lastUsedAt.getTime() < LAST_USED_THROTTLE_MS) {
+    return
+  }
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: now, lastUsedIp: ip ?? null },
+  }).catch(console.error)
+}
@@ -0,0 +1,221 @@
+import { Request } from 'express'
+import { prisma, type Prisma } from '@truecheckia/database'
+import type { SecurityEvent } from '@truecheckia/types'
+import { escapeCsvValue } from './batch.service'
+import { describeDevice } from './session.service'
+
+// Upper bound on rows in one CSV export
+const AUDIT_EXPORT_LIMIT = 10000
+
+// Actions users see in their own security activity
+const SECURITY_ACTION_PREFIXES = ['auth.', 'user.api_key_', 'user.webhook_secret_', 'user.deletion_', 'admin.user.']
+
+const CSV_HEADER = [
+  'createdAt',
+  'action',
+  'actorId',
+  'actorEmail',
+  'targetType',
+  'targetId',
+  'reason',
+  'before',
+  'after',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+]
+
+export interface AuditContext {
+  actorId?: string
+  actorEmail?: string
+  ipAddress?: string
+  userAgent?: string
+  requestId?: string
+}
+
+export interface AuditActor {
+  id: string
+  email: string
+}
+
+export interface AuditEventDetails {
+  reason?: string
+  before?: Prisma.InputJsonObject
+  after?: Prisma.InputJsonObject
+}
+
+export interface AuditEventInput extends AuditEventDetails {
+  action: string
+  targetType?: string
+  targetId?: string
+}
+
+export interface AuditEventFilters {
+  actorId?: string
+  targetType?: string
+  targetId?: string
+  action?: string // prefix, so "auth." matches every sign-in event
+  from?: Date
+  to?: Date
+}
+
+/**
+ * Who is acting and from where. The actor defaults to the signed-in user;
+ * pass it explicitly while signing in, before `req.user` is set.
+ */
+export function getAuditContext(req: Request, actor?: AuditActor): AuditContext {
+  return {
+    actorId: actor?.id ?? req.user?.userId,
+    actorEmail: actor?.email ?? req.user?.email,
+    ipAddress: req.ip,
+    userAgent: req.headers['user-agent'],
+    requestId: req.requestId,
+  }
+}
+
+/**
+ * Build the insert for an audit event without running it, so callers can
+ * put it in the same transaction as the change it records (pass the
+ * transaction client in an interactive transaction). Events are
+ * append-only: the database client rejects updates and deletes, except
+ * clearing personal fields with pseudonymiseAuditEvents.
+ */
+export function createAuditEvent(
+  context: AuditContext,
+  event: AuditEventInput,
+  client: Pick<Prisma.TransactionClient, 'auditEvent'> = prisma
+) {
+  return client.auditEvent.create({
+    data: {
+      ...event,
+      actorId: context.actorId ?? null,
+      actorEmail: context.actorEmail ?? null,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+      requestId: context.requestId ?? null,
+    },
+  })
+}
+
+/**
+ * Build the updates that strip a deleted user's personal data from the audit
+ * trail: email, IP address and user agent on the events they made, and the
+ * IP address and user agent of anonymous attempts on their account (failed
+ * sign-ins). The events stay, tied to an id that no longer resolves to
+ * anyone, so admin actions and security history remain accountable.
+ */
+export function pseudonymiseAuditEvents(userId: string) {
+  return [
+    prisma.auditEvent.updateMany({
+      where: { actorId: userId },
+      data: { actorEmail: null, ipAddress: null, userAgent: null },
+    }),
+    prisma.auditEvent.updateMany({
+      where: { actorId: null, targetType: 'user', targetId: userId },
+      data: { ipAddress: null, userAgent: null },
+    }),
+  ]
+}
+
+export async function recordAuditEvent(context: AuditContext, event: AuditEventInput): Promise<void> {
+  await createAuditEvent(context, event)
+}
+
+/**
+ * Record an event on a user account, whoever the actor is.
+ */
+export async function recordUserEvent(
+  context: AuditContext,
+  userId: string,
+  action: string,
+  details: AuditEventDetails = {}
+): Promise<void> {
+  await recordAuditEvent(context, { action, targetType: 'user', targetId: userId, ...details })
+}
+
+function buildWhere(filters: AuditEventFilters) {
+  return {
+    ...(filters.actorId && { actorId: filters.actorId }),
+    ...(filters.targetType && { targetType: filters.targetType }),
+    ...(filters.targetId && { targetId: filters.targetId }),
+    ...(filters.action && { action: { startsWith: filters.action } }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to }),
+      },
+    }),
+  }
+}
+
+export async function listAuditEvents(filters: AuditEventFilters, page: number, limit: number) {
+  const where = buildWhere(filters)
+
+  const [events, total] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.auditEvent.count({ where }),
+  ])
+
+  return { events, total }
+}
+
+/**
+ * Matching events as CSV, newest first, up to AUDIT_EXPORT_LIMIT rows.
+ */
+export async function exportAuditEventsCsv(filters: AuditEventFilters): Promise<string> {
+  const events = await prisma.auditEvent.findMany({
+    where: buildWhere(filters),
+    orderBy: { createdAt: 'desc' },
+    take: AUDIT_EXPORT_LIMIT,
+  })
+
+  const rows = events.map(event => [
+    event.createdAt.toISOString(),
+    event.action,
+    event.actorId,
+    event.actorEmail,
+    event.targetType,
+    event.targetId,
+    event.reason,
+    event.before ? JSON.stringify(event.before) : null,
+    event.after ? JSON.stringify(event.after) : null,
+    event.ipAddress,
+    event.userAgent,
+    event.requestId,
+  ])
+
+  return [CSV_HEADER, ...rows].map(row => row.map(value => escapeCsvValue(value ?? '')).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Security activity on a user's account, newest first. Admin actions are
+ * shown without the admin's details.
+ */
+export async function listSecurityEvents(userId: string, limit = 50): Promise<SecurityEvent[]> {
+  const events = await prisma.auditEvent.findMany({
+    where: {
+      targetType: 'user',
+      targetId: userId,
+      OR: SECURITY_ACTION_PREFIXES.map(prefix => ({ action: { startsWith: prefix } })),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  })
+
+  return events.map(event => {
+    const byAdmin = event.action.startsWith('admin.')
+    return {
+      id: event.id,
+      action: event.action,
+      createdAt: event.createdAt,
+      ipAddress: byAdmin ? null : event.ipAddress,
+      device: byAdmin || !event.userAgent ? null : describeDevice(event.userAgent),
+      byAdmin,
+    }
+  })
+}
@@ -0,0 +1,157 @@
+import { prisma } from '@truecheckia/database'
+import type { BatchSummary } from '@truecheckia/types'
+
+export type BatchItemOutcome = { analysisId: string } | { error: string }
+
+export interface BatchCsvRow {
+  index: number
+  label: string
+  status: string
+  charCount: number
+  error?: string | null
+  analysis?: {
+    id: string
+    aiScore: number
+    confidence: string
+    isAiGenerated: boolean
+    wordCount: number
+    createdAt: Date | string
+  } | null
+}
+
+const CSV_HEADER = [
+  'item',
+  'label',
+  'status',
+  'ai_score',
+  'confidence',
+  'is_ai_generated',
+  'word_count',
+  'char_count',
+  'analysis_id',
+  'analyzed_at',
+  'error',
+]
+
+/**
+ * Record the outcome of one batch item and update the batch counters.
+ * The batch is finalised, and the user notified, by whichever item
+ * finishes last.
+ */
+export async function recordBatchItemResult(batchItemId: string, outcome: BatchItemOutcome): Promise<void> {
+  const failed = 'error' in outcome
+
+  // Only count each item once, even if its job is retried
+  const { count } = await prisma.batchItem.updateMany({
+    where: { id: batchItemId, status: 'PENDING' },
+    data: failed
+      ? { status: 'FAILED', error: outcome.error }
+      : { status: 'COMPLETED', analysisId: outcome.analysisId, error: null },
+  })
+  if (count === 0) return
+
+  const { batchId } = await prisma.batchItem.findUnique({
+    where: { id: batchItemId },
+    select: { batchId: true },
+  })
+
+  const batch = await prisma.batch.update({
+    where: { id: batchId },
+    data: failed ? { failedItems: { increment: 1 } } : { completedItems: { increment: 1 } },
+  })
+
+  if (batch.completedItems + batch.failedItems < batch.totalItems) {
+    if (batch.status === 'PENDING') {
+      await prisma.batch.updateMany({
+        where: { id: batchId, status: 'PENDING' },
+        data: { status: 'PROCESSING' },
+      })
+    }
+    return
+  }
+
+  await finalizeBatch(batchId)
+}
+
+/**
+ * Mark a batch whose items have all finished as COMPLETED (or FAILED when no
+ * item succeeded) and notify its owner once.
+ */
+export async function finalizeBatch(batchId: string): Promise<void> {
+  const batch = await prisma.batch.findUnique({ where: { id: batchId } })
+  if (!batch) return
+
+  const status = batch.completedItems === 0 ? 'FAILED' : 'COMPLETED'
+  const { count } = await prisma.batch.updateMany({
+    where: { id: batchId, status: { in: ['PENDING', 'PROCESSING'] } },
+    data: { status, completedAt: new Date() },
+  })
+  if (count === 0) return
+
+  const label = batch.name ? `"${batch.name}"` : 'Your batch'
+  await prisma.notification.create({
+    data: {
+      userId: batch.userId,
+      type: 'ANALYSIS',
+      title: status === 'COMPLETED' ? 'Batch Analysis Complete' : 'Batch Analysis Failed',
+      message: batch.failedItems > 0
+        ? `${label} has been processed: ${batch.completedItems} of ${batch.totalItems} items analyzed, ${batch.failedItems} failed.`
+        : `${label} has been processed: ${batch.completedItems} items analyzed.`,
+      metadata: {
+        batchId,
+      },
+    },
+  })
+}
+
+/**
+ * Aggregate figures over the analyzed items of a batch
+ */
+export function summarizeBatch(items: BatchCsvRow[]): BatchSummary {
+  const scores = items
+    .filter(item => item.status === 'COMPLETED' && item.analysis)
+    .map(item => item.analysis!)
+
+  return {
+    totalItems: items.length,
+    completedItems: items.filter(item => item.status === 'COMPLETED').length,
+    failedItems: items.filter(item => item.status === 'FAILED').length,
+    averageAiScore: scores.length > 0
+      ? Math.round(scores.reduce((sum, analysis) => sum + analysis.aiScore, 0) / scores.length)
+      : null,
+    aiGeneratedCount: scores.filter(analysis => analysis.isAiGenerated).length,
+    highestAiScore: scores.length > 0 ? Math.max(...scores.map(analysis => analysis.aiScore)) : null,
+  }
+}
+
+/**
+ * One CSV row per batch item, in submission order
+ */
+export function buildBatchCsv(items: BatchCsvRow[]): string {
+  const rows = [...items]
+    .sort((a, b) => a.index - b.index)
+    .map(item => [
+      item.index + 1,
+      item.label,
+      item.status,
+      item.analysis ? Math.round(item.analysis.aiScore) : '',
+      item.analysis?.confidence ?? '',
+      item.analysis ? item.analysis.isAiGenerated : '',
+      item.analysis?.wordCount ?? '',
+      item.charCount,
+      item.analysis?.id ?? '',
+      item.analysis ? new Date(item.analysis.createdAt).toISOString() : '',
+      item.error ?? '',
+    ])
+
+  return [CSV_HEADER, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n'
+}
+
+export function escapeCsvValue(value: unknown): string {
+  let text = String(value)
+  // Keep spreadsheet applications from evaluating labels as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,321 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import JSZip from 'jszip'
+import { prisma, type Prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import type { DataExportInfo, UserPreferences } from '@truecheckia/types'
+import { escapeCsvValue } from './batch.service'
+import { serializePreferences } from './preferences.service'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface DataExportRecord {
+  id: string
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'EXPIRED'
+  fileSize?: number | null
+  error?: string | null
+  completedAt?: Date | null
+  expiresAt?: Date | null
+  downloadedAt?: Date | null
+  createdAt: Date
+}
+
+export interface UserDataSnapshot {
+  profile: Record<string, unknown>
+  preferences: UserPreferences
+  subscription: Record<string, unknown> | null
+  analyses: Record<string, any>[]
+  apiUsage: Record<string, any>[]
+  notifications: Record<string, any>[]
+}
+
+/**
+ * Owner-facing description of an export. The archive itself is only served
+ * through the signed download link.
+ */
+export function serializeDataExport(record: DataExportRecord, now = new Date()): DataExportInfo {
+  // Links past their expiry count as expired before the cleanup job runs
+  const expired = record.status === 'COMPLETED' && record.expiresAt && record.expiresAt.getTime() <= now.getTime()
+
+  return {
+    id: record.id,
+    status: expired ? 'EXPIRED' : record.status,
+    fileSize: record.fileSize ?? null,
+    error: record.error ?? null,
+    completedAt: record.completedAt ?? null,
+    expiresAt: record.expiresAt ?? null,
+    downloadedAt: record.downloadedAt ?? null,
+    createdAt: record.createdAt,
+  }
+}
+
+export type DataExportRequest =
+  | { status: 'created'; dataExport: DataExportRecord & { userId: string } }
+  | { status: 'limited'; nextAvailableAt: Date }
+
+/**
+ * When the user may request another export, or null if they can right now.
+ */
+export function getNextExportAvailableAt(lastRequestedAt: Date | null | undefined, now = new Date()): Date | null {
+  if (!lastRequestedAt) return null
+
+  const next = new Date(lastRequestedAt.getTime() + config.limits.dataExport.cooldownHours * HOUR_MS)
+  return next.getTime() > now.getTime() ? next : null
+}
+
+// Latest export counting towards the daily limit; failed ones don't
+export function findLastDataExport(userId: string, client: Pick<Prisma.TransactionClient, 'dataExport'> = prisma) {
+  return client.dataExport.findFirst({
+    where: { userId, status: { not: 'FAILED' } },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * Create a pending export unless the daily limit is used up. The check and
+ * the insert run under a per-user lock, so concurrent requests can't all see
+ * no recent export and each queue a full archive.
+ */
+export function createDataExport(userId: string, now = new Date()): Promise<DataExportRequest> {
+  return prisma.$transaction(async tx => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`data-export:${userId}`}))`
+
+    const lastCounted = await findLastDataExport(userId, tx)
+    const nextAvailableAt = getNextExportAvailableAt(lastCounted?.createdAt, now)
+    if (nextAvailableAt) {
+      return { status: 'limited', nextAvailableAt }
+    }
+
+    return { status: 'created', dataExport: await tx.dataExport.create({ data: { userId } }) }
+  })
+}
+
+export function signDataExport(exportId: string, expires: number): string {
+  return createHmac('sha256', config.auth.jwtSecret).update(`data-export.${exportId}.${expires}`).digest('hex')
+}
+
+export function verifyDataExportSignature(
+  exportId: string,
+  expires: number,
+  signature: string,
+  now = Date.now()
+): boolean {
+  if (!Number.isFinite(expires) || expires <= now) {
+    return false
+  }
+
+  const expected = Buffer.from(signDataExport(exportId, expires))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Download link sent by email. It works without a session, so it is
+ * signed and stops working when the export expires.
+ */
+export function buildDataExportUrl(exportId: string, expiresAt: Date): string {
+  const expires = expiresAt.getTime()
+  const signature = signDataExport(exportId, expires)
+  return `${config.api.baseUrl}/api/user/data-export/${exportId}/download?expires=${expires}&signature=${signature}`
+}
+
+// Reads every row of a user's history a page at a time
+async function findAllPages(model: any, args: Record<string, unknown>): Promise<any[]> {
+  const { pageSize } = config.limits.dataExport
+  const rows: any[] = []
+  let cursor: string | undefined
+  let page: any[]
+
+  do {
+    page = await model.findMany({
+      ...args,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: pageSize,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    })
+    rows.push(...page)
+    cursor = page[page.length - 1]?.id
+  } while (page.length === pageSize)
+
+  return rows
+}
+
+/**
+ * Everything the user is entitled to receive. Credentials, tokens, secrets
+ * and payment provider ids are left out.
+ */
+export async function collectUserData(userId: string): Promise<UserDataSnapshot> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      avatar: true,
+      plan: true,
+      credits: true,
+      creditsResetAt: true,
+      role: true,
+      emailVerified: true,
+      googleId: true,
+      createdAt: true,
+      updatedAt: true,
+      preferences: true,
+      subscription: {
+        select: {
+          plan: true,
+          status: true,
+          currentPeriodEnd: true,
+          cancelAtPeriodEnd: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      },
+    },
+  })
+
+  if (!user) {
+    throw new Error(`User ${userId} not found`)
+  }
+
+  const { preferences, subscription, googleId, ...profile } = user
+
+  const [analyses, apiUsage, notifications] = await Promise.all([
+    findAllPages(prisma.analysis, {
+      where: { userId },
+      select: {
+        id: true,
+        text: true,
+        wordCount: true,
+        charCount: true,
+        language: true,
+        aiScore: true,
+        confidence: true,
+        isAiGenerated: true,
+        indicators: true,
+        explanation: true,
+        suspiciousParts: true,
+        modelUsed: true,
+        processingTime: true,
+        cached: true,
+        metadata: true,
+        createdAt: true,
+      },
+    }),
+    findAllPages(prisma.apiUsage, {
+      where: { userId },
+      select: {
+        id: true,
+        endpoint: true,
+        method: true,
+        statusCode: true,
+        responseTime: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+      },
+    }),
+    findAllPages(prisma.notification, {
+      where: { userId },
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        message: true,
+        read: true,
+        readAt: true,
+        metadata: true,
+        createdAt: true,
+      },
+    }),
+  ])
+
+  return {
+    profile: { ...profile, googleAccountLinked: Boolean(googleId) },
+    preferences: serializePreferences(preferences),
+    subscription: subscription ?? null,
+    analyses,
+    apiUsage,
+    notifications,
+  }
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+  const lines = [header, ...rows].map(row =>
+    row.map(value => escapeCsvValue(value instanceof Date ? value.toISOString() : value ?? '')).join(',')
+  )
+  // BOM so spreadsheet applications detect UTF-8
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+const README = (generatedAt: Date) => `TrueCheckIA - personal data export
+Generated at ${generatedAt.toISOString()}
+
+profile.json        Account details
+preferences.json    Interface, analysis and email preferences
+subscription.json   Current subscription (null on the free plan)
+analyses.json/.csv  Analysis history; texts are stored truncated to 500 characters
+api-usage.json/.csv Public API requests
+notifications.*     In-app notifications
+
+JSON files hold the complete records; CSV files hold the main columns.
+`
+
+/**
+ * ZIP with one JSON file per data set and CSV copies of the tabular ones.
+ */
+export async function buildDataExportArchive(data: UserDataSnapshot, generatedAt = new Date()): Promise<Buffer> {
+  const zip = new JSZip()
+  const json = (value: unknown) => JSON.stringify(value, null, 2)
+
+  zip.file('README.txt', README(generatedAt))
+  zip.file('profile.json', json(data.profile))
+  zip.file('preferences.json', json(data.preferences))
+  zip.file('subscription.json', json(data.subscription))
+
+  zip.file('analyses.json', json(data.analyses))
+  zip.file('analyses.csv', toCsv(
+    ['id', 'created_at', 'language', 'word_count', 'char_count', 'ai_score', 'confidence', 'is_ai_generated', 'text'],
+    data.analyses.map(analysis => [
+      analysis.id,
+      analysis.createdAt,
+      analysis.language,
+      analysis.wordCount,
+      analysis.charCount,
+      Math.round(analysis.aiScore),
+      analysis.confidence,
+      analysis.isAiGenerated,
+      analysis.text,
+    ])
+  ))
+
+  zip.file('api-usage.json', json(data.apiUsage))
+  zip.file('api-usage.csv', toCsv(
+    ['id', 'created_at', 'method', 'endpoint', 'status_code', 'response_time_ms', 'ip_address', 'user_agent'],
+    data.apiUsage.map(usage => [
+      usage.id,
+      usage.createdAt,
+      usage.method,
+      usage.endpoint,
+      usage.statusCode,
+      usage.responseTime,
+      usage.ipAddress,
+      usage.userAgent,
+    ])
+  ))
+
+  zip.file('notifications.json', json(data.notifications))
+  zip.file('notifications.csv', toCsv(
+    ['id', 'created_at', 'type', 'title', 'message', 'read', 'read_at'],
+    data.notifications.map(notification => [
+      notification.id,
+      notification.createdAt,
+      notification.type,
+      notification.title,
+      notification.message,
+      notification.read,
+      notification.readAt,
+    ])
+  ))
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
@@ -0,0 +1,71 @@
+import type { OpenAIAnalysisResponse } from '@truecheckia/types'
+import { computeStylometry, getStylometryIndicators, splitSentences } from '../stylometry.service'
+import type { DetectorProvider } from './types'
+
+const AI_MARKERS: Record<string, string[]> = {
+  pt: [
+    'além disso',
+    'vale ressaltar',
+    'vale destacar',
+    'é importante notar',
+    'é importante destacar',
+    'em suma',
+    'em conclusão',
+    'por outro lado',
+    'nesse sentido',
+    'dessa forma',
+  ],
+  en: [
+    'however,',
+    'furthermore',
+    'moreover',
+    "it's worth noting",
+    'it is worth noting',
+    'in conclusion',
+    'on the other hand',
+    'additionally',
+    'in summary',
+    'overall,',
+  ],
+}
+
+/**
+ * Deterministic offline detector.
+ * Combines the local stylometry score with typical LLM transition phrases.
+ * Needs no network access, so it can run the whole analysis pipeline in
+ * tests and act as a cheap ensemble member.
+ */
+export class HeuristicDetectorProvider implements DetectorProvider {
+  readonly name = 'heuristic'
+
+  async analyze(text: string, language: string): Promise<OpenAIAnalysisResponse> {
+    const markers = AI_MARKERS[language] || AI_MARKERS.en
+    const metrics = computeStylometry(text, language)
+    const sentences = splitSentences(text, language)
+    const markedSentences = sentences.filter(sentence =>
+      markers.some(marker => sentence.toLowerCase().includes(marker))
+    )
+
+    const markerDensity = Math.min(1, (markedSentences.length / Math.max(sentences.length, 1)) * 2)
+    const score = Math.round(0.75 * metrics.score + 25 * markerDensity)
+
+    const indicators = getStylometryIndicators(metrics, language)
+    if (markerDensity > 0.5) indicators.push('ai_markers')
+
+    return {
+      score,
+      confidence: metrics.sentenceCount < 5 ? 'low' : 'medium',
+      main_indicators: indicators,
+      explanation: language === 'pt'
+        ? `Análise estatística local: variação do comprimento das frases ${metrics.burstiness.toFixed(2)}, ${metrics.commasPerSentence.toFixed(2)} vírgulas por frase e ${markedSentences.length} frase(s) com marcadores típicos de IA.`
+        : `Local statistical analysis: sentence length variation ${metrics.burstiness.toFixed(2)}, ${metrics.commasPerSentence.toFixed(2)} commas per sentence and ${markedSentences.length} sentence(s) with typical AI markers.`,
+      suspicious_parts: markedSentences.slice(0, 5).map(sentence => ({
+        text: sentence,
+        reason: language === 'pt'
+          ? 'Contém expressões de transição típicas de texto gerado por IA'
+          : 'Contains transition phrases typical of AI-generated text',
+        score: Math.max(score, 60),
+      })),
+    }
+  }
+}
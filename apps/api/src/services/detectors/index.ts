@@ -0,0 +1,5 @@
+export { DetectorRegistry, detectorRegistry } from './registry'
+export { OpenAIDetectorProvider } from './openai.provider'
+export { HeuristicDetectorProvider } from './heuristic.provider'
+export { getDetectionPrompt } from './prompts'
+export type { DetectorProvider, DetectorOptions } from './types'
@@ -0,0 +1,114 @@
+import OpenAI from 'openai'
+import type { OpenAIAnalysisResponse } from '@truecheckia/types'
+import { detectorRequestDuration, detectorTokens } from '../../lib/metrics'
+import { SpanKind, withSpan } from '../../lib/tracing'
+import { getDetectionPrompt } from './prompts'
+import type { DetectorOptions, DetectorProvider } from './types'
+
+export interface OpenAIProviderOptions {
+  name: string
+  apiKey: string
+  defaultModel: string
+  baseURL?: string
+  organization?: string
+}
+
+/**
+ * Detector backed by the chat completions API.
+ * Also used for OpenAI-compatible local endpoints by passing a baseURL.
+ */
+export class OpenAIDetectorProvider implements DetectorProvider {
+  readonly name: string
+  private client: OpenAI | null = null
+
+  constructor(private readonly options: OpenAIProviderOptions) {
+    this.name = options.name
+  }
+
+  async analyze(
+    text: string,
+    language: string,
+    options: DetectorOptions = {}
+  ): Promise<OpenAIAnalysisResponse> {
+    const model = options.model || this.options.defaultModel
+
+    try {
+      const response = await this.complete(model, text, language)
+
+      const content = response.choices[0]?.message?.content
+      if (!content) {
+        throw new Error(`No response from ${this.name}`)
+      }
+
+      return JSON.parse(content) as OpenAIAnalysisResponse
+    } catch (error) {
+      console.error(`Analysis error with ${this.name}:${model}:`, error)
+      throw error
+    }
+  }
+
+  // Traced and timed per model, with token usage, for /metrics
+  private complete(model: string, text: string, language: string) {
+    return withSpan(
+      `chat ${model}`,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'gen_ai.system': this.name,
+          'gen_ai.operation.name': 'chat',
+          'gen_ai.request.model': model,
+        },
+      },
+      async span => {
+        const endTimer = detectorRequestDuration.startTimer({ provider: this.name, model })
+
+        try {
+          const response = await this.getClient().chat.completions.create({
+            model,
+            messages: [
+              {
+                role: 'system',
+                content: getDetectionPrompt(language),
+              },
+              {
+                role: 'user',
+                content: text,
+              },
+            ],
+            temperature: 0.3,
+            max_tokens: 1000,
+            response_format: { type: 'json_object' },
+          })
+          endTimer({ outcome: 'success' })
+
+          if (response.usage) {
+            detectorTokens.inc({ provider: this.name, model, type: 'prompt' }, response.usage.prompt_tokens)
+            detectorTokens.inc({ provider: this.name, model, type: 'completion' }, response.usage.completion_tokens)
+            span?.setAttributes({
+              'gen_ai.response.model': response.model,
+              'gen_ai.usage.input_tokens': response.usage.prompt_tokens,
+              'gen_ai.usage.output_tokens': response.usage.completion_tokens,
+            })
+          }
+
+          return response
+        } catch (error) {
+          endTimer({ outcome: 'error' })
+          throw error
+        }
+      }
+    )
+  }
+
+  // Created lazily so offline-only setups never need an API key
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.options.apiKey,
+        baseURL: this.options.baseURL,
+        organization: this.options.organization,
+      })
+    }
+    return this.client
+  }
+}
@@ -0,0 +1,58 @@
+import { config } from '@truecheckia/config'
+import { OpenAIDetectorProvider } from './openai.provider'
+import { HeuristicDetectorProvider } from './heuristic.provider'
+import type { DetectorProvider } from './types'
+
+/**
+ * Registry of available detector backends, keyed by provider name.
+ * Plans reference providers by name in config.detectors.plans.
+ */
+export class DetectorRegistry {
+  private readonly providers = new Map<string, DetectorProvider>()
+
+  register(provider: DetectorProvider): void {
+    this.providers.set(provider.name, provider)
+  }
+
+  unregister(name: string): void {
+    this.providers.delete(name)
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name)
+  }
+
+  get(name: string): DetectorProvider {
+    const provider = this.providers.get(name)
+    if (!provider) {
+      throw new Error(`Unknown detector provider: ${name}`)
+    }
+    return provider
+  }
+
+  list(): string[] {
+    return Array.from(this.providers.keys())
+  }
+}
+
+export const detectorRegistry = new DetectorRegistry()
+
+detectorRegistry.register(
+  new OpenAIDetectorProvider({
+    name: 'openai',
+    apiKey: config.openai.apiKey,
+    organization: config.openai.orgId,
+    defaultModel: config.openai.models.primary,
+  })
+)
+
+detectorRegistry.register(
+  new OpenAIDetectorProvider({
+    name: 'local',
+    apiKey: config.detectors.local.apiKey,
+    baseURL: config.detectors.local.baseUrl,
+    defaultModel: config.detectors.local.model,
+  })
+)
+
+detectorRegistry.register(new HeuristicDetectorProvider())
@@ -0,0 +1,15 @@
+import type { OpenAIAnalysisResponse } from '@truecheckia/types'
+
+export interface DetectorOptions {
+  model?: string
+}
+
+/**
+ * A backend able to score a text for AI generation.
+ * Providers return the raw detector response; the ensemble in
+ * openai.service combines them into the final AnalysisResult.
+ */
+export interface DetectorProvider {
+  readonly name: string
+  analyze(text: string, language: string, options?: DetectorOptions): Promise<OpenAIAnalysisResponse>
+}
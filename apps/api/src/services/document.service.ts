@@ -0,0 +1,272 @@
+import { config } from '@truecheckia/config'
+import type { AnalysisResult, ChunkResult, Indicator, SuspiciousPart } from '@truecheckia/types'
+import { analyzeWithDetectors, determineConfidence } from './openai.service'
+import { computeStylometry, segmentSentences } from './stylometry.service'
+
+export interface DocumentChunk {
+  index: number
+  startIndex: number
+  endIndex: number
+  text: string
+}
+
+export interface ChunkAnalysisOptions {
+  plan?: string
+  concurrency?: number
+  aiThreshold?: number
+  // Don't start a chunk that is not expected to finish by this timestamp (ms)
+  deadline?: number
+}
+
+/**
+ * A chunk failed. Chunks that finished before it are kept in `results` so
+ * the caller can store them before retrying.
+ */
+export class ChunkAnalysisError extends Error {
+  constructor(
+    readonly cause: unknown,
+    readonly results: Map<number, AnalysisResult>
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause))
+    this.name = 'ChunkAnalysisError'
+  }
+}
+
+// Keep the most relevant suspicious parts across all chunks
+const MAX_SUSPICIOUS_PARTS = 10
+
+const SEVERITY_RANK: Record<Indicator['severity'], number> = { low: 0, medium: 1, high: 2 }
+
+/**
+ * Credits charged for analyzing a text of the given length.
+ * One credit per started block of config.limits.document.charsPerCredit.
+ */
+export function calculateCreditCost(charCount: number): number {
+  return Math.max(1, Math.ceil(charCount / config.limits.document.charsPerCredit))
+}
+
+/**
+ * Split a document into chunks of at most maxChars on paragraph boundaries.
+ * Paragraphs longer than a chunk are split on sentences, and sentences
+ * longer than a chunk are cut hard.
+ */
+export function splitIntoChunks(
+  text: string,
+  maxChars: number = config.limits.document.chunkSize,
+  language: string = 'pt'
+): DocumentChunk[] {
+  const units: Array<{ startIndex: number; endIndex: number }> = []
+  const paragraphPattern = /\S[\s\S]*?(?=\n\s*\n|$)/g
+  let match: RegExpExecArray | null
+
+  while ((match = paragraphPattern.exec(text))) {
+    const startIndex = match.index
+    const endIndex = match.index + match[0].trimEnd().length
+
+    if (endIndex - startIndex <= maxChars) {
+      units.push({ startIndex, endIndex })
+      continue
+    }
+
+    for (const sentence of segmentSentences(text.slice(startIndex, endIndex), language)) {
+      for (let offset = sentence.startIndex; offset < sentence.endIndex; offset += maxChars) {
+        units.push({
+          startIndex: startIndex + offset,
+          endIndex: startIndex + Math.min(offset + maxChars, sentence.endIndex),
+        })
+      }
+    }
+  }
+
+  // Greedily pack consecutive units into chunks
+  const chunks: DocumentChunk[] = []
+  let current: { startIndex: number; endIndex: number } | null = null
+
+  const flush = () => {
+    if (!current) return
+    chunks.push({
+      index: chunks.length,
+      startIndex: current.startIndex,
+      endIndex: current.endIndex,
+      text: text.slice(current.startIndex, current.endIndex),
+    })
+    current = null
+  }
+
+  for (const unit of units) {
+    if (current && unit.endIndex - current.startIndex > maxChars) {
+      flush()
+    }
+    current = current
+      ? { startIndex: current.startIndex, endIndex: unit.endIndex }
+      : { ...unit }
+  }
+  flush()
+
+  return chunks
+}
+
+/**
+ * Analyze chunks in parallel with bounded concurrency.
+ * When a deadline is given, a chunk is only started if it is expected to
+ * finish before it (the average duration so far, or the configured estimate
+ * before any chunk is done). Chunks left out of the returned map can be
+ * resumed in another invocation; at least one chunk always starts so a job
+ * makes progress. If a chunk fails no new chunks are started, and a
+ * ChunkAnalysisError carrying the finished results is thrown once the
+ * running ones settle.
+ */
+export async function analyzeChunks(
+  chunks: DocumentChunk[],
+  language: string,
+  options: ChunkAnalysisOptions = {}
+): Promise<Map<number, AnalysisResult>> {
+  const concurrency = Math.max(1, options.concurrency || config.limits.document.concurrency)
+  const results = new Map<number, AnalysisResult>()
+  const queue = [...chunks]
+  let started = 0
+  let elapsed = 0
+  let failure: { error: unknown } | null = null
+
+  const expectedDuration = () =>
+    results.size > 0 ? elapsed / results.size : config.limits.document.chunkDurationMs
+
+  const worker = async () => {
+    while (queue.length > 0 && !failure) {
+      if (options.deadline && started > 0 && Date.now() + expectedDuration() > options.deadline) return
+
+      const chunk = queue.shift()!
+      const chunkStart = Date.now()
+      started++
+      try {
+        const result = await analyzeWithDetectors(chunk.text, language, { plan: options.plan })
+        elapsed += Date.now() - chunkStart
+        results.set(chunk.index, result)
+      } catch (error) {
+        failure = failure || { error }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker))
+
+  if (failure) {
+    throw new ChunkAnalysisError(failure.error, results)
+  }
+
+  return results
+}
+
+/**
+ * Combine per-chunk results into a single document result.
+ * Scores are weighted by chunk length; offsets are shifted back into the
+ * coordinates of the full document.
+ */
+export function aggregateChunkResults(
+  text: string,
+  language: string,
+  chunks: DocumentChunk[],
+  results: Map<number, AnalysisResult>,
+  aiThreshold: number = config.limits.analysis.aiThreshold
+): AnalysisResult {
+  const analyzed = chunks.filter(chunk => results.has(chunk.index))
+  if (analyzed.length === 0) {
+    throw new Error('No chunk results to aggregate')
+  }
+
+  const totalChars = analyzed.reduce((sum, chunk) => sum + chunk.text.length, 0)
+  const aiScore = analyzed.reduce(
+    (sum, chunk) => sum + results.get(chunk.index)!.aiScore * chunk.text.length,
+    0
+  ) / totalChars
+
+  const scores = analyzed.map(chunk => results.get(chunk.index)!.aiScore)
+  const confidence = analyzed.length > 1
+    ? determineConfidence(Math.max(...scores) - Math.min(...scores), aiScore)
+    : results.get(analyzed[0].index)!.confidence
+
+  const chunkResults: ChunkResult[] = analyzed.map(chunk => {
+    const result = results.get(chunk.index)!
+    return {
+      index: chunk.index,
+      startIndex: chunk.startIndex,
+      endIndex: chunk.endIndex,
+      aiScore: result.aiScore,
+      confidence: result.confidence,
+      isAiGenerated: result.isAiGenerated,
+      wordCount: result.wordCount,
+      charCount: result.charCount,
+    }
+  })
+
+  const shift = <T extends { startIndex?: number; endIndex?: number }>(item: T, offset: number): T => ({
+    ...item,
+    startIndex: item.startIndex !== undefined ? item.startIndex + offset : undefined,
+    endIndex: item.endIndex !== undefined ? item.endIndex + offset : undefined,
+  })
+
+  const suspiciousParts: SuspiciousPart[] = analyzed
+    .flatMap(chunk => results.get(chunk.index)!.suspiciousParts.map(part => shift(part, chunk.startIndex)))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUSPICIOUS_PARTS)
+    .sort((a, b) => (a.startIndex ?? Infinity) - (b.startIndex ?? Infinity))
+
+  const sentences = analyzed.flatMap(chunk =>
+    (results.get(chunk.index)!.sentences || []).map(sentence => ({
+      ...sentence,
+      startIndex: sentence.startIndex + chunk.startIndex,
+      endIndex: sentence.endIndex + chunk.startIndex,
+    }))
+  )
+
+  const highest = analyzed.reduce((best, chunk) =>
+    results.get(chunk.index)!.aiScore > results.get(best.index)!.aiScore ? chunk : best
+  )
+  const explanation = language === 'pt'
+    ? `Documento analisado em ${analyzed.length} partes; a pontuação final é a média ponderada pelo tamanho de cada parte. Parte ${highest.index + 1} (maior pontuação): ${results.get(highest.index)!.explanation}`
+    : `Document analyzed in ${analyzed.length} parts; the final score is the average weighted by the size of each part. Part ${highest.index + 1} (highest score): ${results.get(highest.index)!.explanation}`
+
+  return {
+    id: '', // Will be set by the caller
+    aiScore: Math.round(aiScore),
+    confidence,
+    isAiGenerated: aiScore > aiThreshold,
+    indicators: mergeIndicators(analyzed.map(chunk => results.get(chunk.index)!.indicators)),
+    explanation,
+    suspiciousParts,
+    processingTime: analyzed.reduce((sum, chunk) => sum + results.get(chunk.index)!.processingTime, 0),
+    wordCount: text.split(/\s+/).length,
+    charCount: text.length,
+    metrics: computeStylometry(text, language),
+    sentences,
+    chunks: chunkResults,
+  }
+}
+
+/**
+ * Analyze a whole document in one go. Used outside the serverless queue,
+ * where there is no invocation time limit.
+ */
+export async function analyzeDocument(
+  text: string,
+  language: string = 'pt',
+  options: ChunkAnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const chunks = splitIntoChunks(text, config.limits.document.chunkSize, language)
+  const results = await analyzeChunks(chunks, language, { ...options, deadline: undefined })
+  return aggregateChunkResults(text, language, chunks, results, options.aiThreshold)
+}
+
+// One entry per indicator type, keeping the highest severity seen
+function mergeIndicators(lists: Indicator[][]): Indicator[] {
+  const merged = new Map<string, Indicator>()
+
+  lists.flat().forEach(indicator => {
+    const existing = merged.get(indicator.type)
+    if (!existing || SEVERITY_RANK[indicator.severity] > SEVERITY_RANK[existing.severity]) {
+      merged.set(indicator.type, indicator)
+    }
+  })
+
+  return Array.from(merged.values())
+}
@@ -3,11 +3,18 @@ import { config } from '@truecheckia/config'
 
 const resend = new Resend(config.resend.apiKey || 'dummy-key')
 
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+  contentType?: string
+}
+
 export interface EmailOptions {
   to: string
   subject: string
   html: string
   from?: string
+  attachments?: EmailAttachment[]
 }
 
 export class EmailService {
@@ -29,6 +36,7 @@ export class EmailService {
         to: options.to,
         subject: options.subject,
         html: options.html,
+        attachments: options.attachments,
       })
 
       if (error) {
@@ -149,6 +157,105 @@ export class EmailService {
     })
   }
 
+  async sendDataExportEmail(email: string, downloadUrl: string, expiresAt: Date): Promise<void> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .button { display: inline-block; padding: 12px 30px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 30px; font-size: 14px; color: #666; }
+            .warning { background: #fff3cd; border-left: 4px solid #ffc107; padding: 10px; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>📦 TrueCheckIA</h1>
+              <p>Personal Data Export</p>
+            </div>
+            <div class="content">
+              <h2>Your data export is ready</h2>
+              <p>We gathered your profile, analyses, API usage, notifications, subscription and preferences into a ZIP file.</p>
+              <center>
+                <a href="${downloadUrl}" class="button">Download My Data</a>
+              </center>
+              <div class="warning">
+                <strong>⚠️ Warning:</strong> Anyone with this link can download your data. Do not forward this email. If you didn't request this export, change your password.
+              </div>
+              <p><small>This link expires on ${expiresAt.toUTCString()}.</small></p>
+            </div>
+            <div class="footer">
+              <p>© 2025 TrueCheckIA. All rights reserved.</p>
+              <p>This email was sent to ${email}</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `
+
+    await this.sendEmail({
+      to: email,
+      subject: '📦 Your data export is ready - TrueCheckIA',
+      html,
+    })
+  }
+
+  async sendAccountDeletionEmail(email: string, cancelToken: string, scheduledAt: Date): Promise<void> {
+    const cancelUrl = `${config.frontend.url}/cancel-deletion?token=${cancelToken}`
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .button { display: inline-block; padding: 12px 30px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 30px; font-size: 14px; color: #666; }
+            .warning { background: #fff3cd; border-left: 4px solid #ffc107; padding: 10px; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>🗑️ TrueCheckIA</h1>
+              <p>Account Deletion</p>
+            </div>
+            <div class="content">
+              <h2>Your account is scheduled for deletion</h2>
+              <p>We received a request to delete your TrueCheckIA account. On ${scheduledAt.toUTCString()} we will cancel your subscription and permanently remove your profile, analyses, API keys and all other data.</p>
+              <p>Changed your mind? Cancel the deletion before that date:</p>
+              <center>
+                <a href="${cancelUrl}" class="button">Keep My Account</a>
+              </center>
+              <div class="warning">
+                <strong>⚠️ Warning:</strong> If you didn't request this, cancel the deletion and change your password right away.
+              </div>
+              <p>You can also download a copy of your data from your profile page until then.</p>
+            </div>
+            <div class="footer">
+              <p>© 2025 TrueCheckIA. All rights reserved.</p>
+              <p>This email was sent to ${email}</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `
+
+    await this.sendEmail({
+      to: email,
+      subject: '🗑️ Your account will be deleted - TrueCheckIA',
+      html,
+    })
+  }
+
   async sendWelcomeEmail(email: string, name?: string): Promise<void> {
     const html = `
       <!DOCTYPE html>
@@ -221,7 +328,8 @@ export class EmailService {
       score: number
       confidence: string
       explanation: string
-    }
+    },
+    report?: EmailAttachment
   ): Promise<void> {
     const scoreColor = analysisData.score > 70 ? '#dc3545' : analysisData.score > 40 ? '#ffc107' : '#28a745'
     const scoreText = analysisData.score > 70 ? 'High AI probability' : analysisData.score > 40 ? 'Possible AI content' : 'Likely human'
@@ -260,14 +368,16 @@ export class EmailService {
               
               <div class="analysis-text">
                 <h3>📝 Analyzed Text:</h3>
-                <p>${analysisData.text.substring(0, 200)}${analysisData.text.length > 200 ? '...' : ''}</p>
+                <p>${escapeHtml(analysisData.text.substring(0, 200))}${analysisData.text.length > 200 ? '...' : ''}</p>
               </div>
               
               <div class="analysis-text">
                 <h3>🔍 Explanation:</h3>
-                <p>${analysisData.explanation}</p>
+                <p>${escapeHtml(analysisData.explanation)}</p>
               </div>
               
+              ${report ? '<p>The full PDF report is attached to this email.</p>' : ''}
+              
               <center>
                 <a href="${config.frontendUrl}/dashboard" class="button">View Complete Analysis</a>
               </center>
@@ -285,8 +395,66 @@ export class EmailService {
       to: email,
       subject: `📊 Analysis Complete - ${scoreText}`,
       html,
+      attachments: report ? [report] : undefined,
     })
   }
+
+  async sendAlertEmail(
+    email: string,
+    alert: { rule: string; queue?: string | null; severity: string; message: string; value: number; threshold: number; firstFiredAt: Date },
+    event: 'firing' | 'reminder' | 'resolved'
+  ): Promise<void> {
+    const resolved = event === 'resolved'
+    const title = resolved ? 'Alert resolved' : event === 'reminder' ? 'Alert still firing' : 'Alert firing'
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: ${resolved ? '#28a745' : '#dc3545'}; color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .footer { text-align: center; margin-top: 30px; font-size: 14px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${resolved ? '✅' : '🚨'} ${title}</h1>
+              <p>TrueCheckIA - Job Monitor</p>
+            </div>
+            <div class="content">
+              <h2>${escapeHtml(alert.message)}</h2>
+              <p><strong>Rule:</strong> ${alert.rule}${alert.queue ? ` (${escapeHtml(alert.queue)} queue)` : ''}</p>
+              <p><strong>Severity:</strong> ${alert.severity}</p>
+              <p><strong>Value:</strong> ${alert.value} (threshold ${alert.threshold})</p>
+              <p><strong>Firing since:</strong> ${alert.firstFiredAt.toUTCString()}</p>
+            </div>
+            <div class="footer">
+              <p>Acknowledge or silence this alert in the admin console.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `
+
+    await this.sendEmail({
+      to: email,
+      subject: `${resolved ? '✅' : '🚨'} [${alert.severity}] ${title}: ${alert.message}`,
+      html,
+    })
+  }
+}
+
+// Analyzed text is user content and must not be interpreted as markup
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
 }
 
 export const emailService = new EmailService()
\ No newline at end of file
@@ -0,0 +1,315 @@
+import { inflateRawSync } from 'zlib'
+import JSZip from 'jszip'
+import mammoth from 'mammoth'
+import { config } from '@truecheckia/config'
+// Import the library entry directly; the package index runs a debug self-test
+import pdfParse from 'pdf-parse/lib/pdf-parse.js'
+
+export type DocumentFormat = 'pdf' | 'docx' | 'odt' | 'txt' | 'md'
+
+export interface ExtractedDocument {
+  text: string
+  format: DocumentFormat
+  pageCount?: number
+}
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/x-markdown': 'md',
+}
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  odt: 'odt',
+  txt: 'txt',
+  md: 'md',
+  markdown: 'md',
+}
+
+export const SUPPORTED_MIME_TYPES = Object.keys(MIME_TYPES)
+
+// ZIP record signatures and the fixed part of their layout
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+const ZIP_END_RECORD_SIZE = 22
+const ZIP_ENTRY_HEADER_SIZE = 46
+const ZIP_LOCAL_HEADER_SIZE = 30
+const ZIP_METHOD_STORED = 0
+const ZIP_METHOD_DEFLATED = 8
+const ZIP_MAX_COMMENT_SIZE = 0xffff
+
+/**
+ * Resolve the document format from the MIME type, falling back to the file
+ * extension (browsers often send Markdown as application/octet-stream).
+ */
+export function detectFormat(mimeType: string, fileName: string): DocumentFormat | null {
+  if (MIME_TYPES[mimeType]) {
+    return MIME_TYPES[mimeType]
+  }
+
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+  return EXTENSIONS[extension] || null
+}
+
+/**
+ * Extract plain text from an uploaded document without any network calls.
+ * Paragraphs are separated by a blank line so sentence and chunk offsets
+ * computed on the result follow the original document structure.
+ */
+export async function extractText(buffer: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(buffer)
+    case 'docx':
+      return extractDocx(buffer)
+    case 'odt':
+      return extractOdt(buffer)
+    case 'md':
+      return { text: normaliseParagraphs(stripMarkdown(decodeText(buffer))), format }
+    case 'txt':
+      return { text: normaliseParagraphs(decodeText(buffer)), format }
+  }
+}
+
+async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  const pages: string[] = []
+
+  const result = await pdfParse(buffer, {
+    // Rebuild lines from text items, keeping one entry per page
+    pagerender: async (pageData: any) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: true })
+      let lastY: number | null = null
+      let page = ''
+
+      for (const item of content.items) {
+        const y = item.transform[5]
+        if (lastY !== null && Math.abs(y - lastY) > 1) {
+          page += '\n'
+        }
+        page += item.str
+        lastY = y
+      }
+
+      pages.push(page)
+      return page
+    },
+  })
+
+  return {
+    text: normaliseParagraphs(pages.map(reflowPdfPage).join('\n\n')),
+    format: 'pdf',
+    pageCount: result.numpages,
+  }
+}
+
+/**
+ * Inflate every file of a ZIP archive, refusing it as soon as the bytes
+ * actually inflated pass the configured limit. The sizes an archive declares
+ * are chosen by whoever built it, so zip bombs are caught by output instead;
+ * the document parsers only ever see the entries read here.
+ */
+export function readZipEntries(
+  buffer: Buffer,
+  maxUncompressedSize: number = config.limits.upload.maxUncompressedSize
+): Map<string, Buffer> {
+  // The end record sits at the very end, followed only by the archive comment
+  let end = -1
+  const lowest = Math.max(0, buffer.length - ZIP_END_RECORD_SIZE - ZIP_MAX_COMMENT_SIZE)
+  for (let offset = buffer.length - ZIP_END_RECORD_SIZE; offset >= lowest; offset--) {
+    if (buffer.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) {
+    throw new Error('Invalid archive: end of central directory not found')
+  }
+
+  const entries = new Map<string, Buffer>()
+  const count = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+  let total = 0
+
+  for (let i = 0; i < count; i++) {
+    if (offset + ZIP_ENTRY_HEADER_SIZE > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Invalid archive: malformed central directory')
+    }
+
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const name = buffer.toString('utf8', offset + ZIP_ENTRY_HEADER_SIZE, offset + ZIP_ENTRY_HEADER_SIZE + nameLength)
+    const localHeader = buffer.readUInt32LE(offset + 42)
+
+    if (localHeader + ZIP_LOCAL_HEADER_SIZE > buffer.length || buffer.readUInt32LE(localHeader) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error('Invalid archive: malformed local header')
+    }
+    const dataStart = localHeader + ZIP_LOCAL_HEADER_SIZE +
+      buffer.readUInt16LE(localHeader + 26) +
+      buffer.readUInt16LE(localHeader + 28)
+    // ZIP64 archives mark sizes as 0xFFFFFFFF and fail here; no real document needs them
+    if (dataStart + compressedSize > buffer.length) {
+      throw new Error('Invalid archive: entry runs past the end of the file')
+    }
+    const data = buffer.subarray(dataStart, dataStart + compressedSize)
+    const remaining = maxUncompressedSize - total
+
+    let content: Buffer
+    if (method === ZIP_METHOD_STORED) {
+      content = data
+    } else if (method === ZIP_METHOD_DEFLATED) {
+      try {
+        // One byte over the budget is enough to know the archive is too big
+        content = inflateRawSync(data, { maxOutputLength: remaining + 1 })
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(`Archive expands beyond ${maxUncompressedSize} bytes`)
+        }
+        throw new Error('Invalid archive: corrupt compressed data')
+      }
+    } else {
+      throw new Error(`Invalid archive: unsupported compression method ${method}`)
+    }
+
+    total += content.length
+    if (total > maxUncompressedSize) {
+      throw new Error(`Archive expands beyond ${maxUncompressedSize} bytes`)
+    }
+    if (!name.endsWith('/')) {
+      entries.set(name, content)
+    }
+
+    offset += ZIP_ENTRY_HEADER_SIZE +
+      nameLength +
+      buffer.readUInt16LE(offset + 30) +
+      buffer.readUInt16LE(offset + 32)
+  }
+
+  return entries
+}
+
+async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const entries = readZipEntries(buffer)
+
+  // mammoth gets an archive rebuilt from the checked entries, stored uncompressed
+  const zip = new JSZip()
+  entries.forEach((content, name) => zip.file(name, content))
+  const { value } = await mammoth.extractRawText({ buffer: await zip.generateAsync({ type: 'nodebuffer' }) })
+
+  // Page count is only known to the editor that last saved the file
+  const appXml = entries.get('docProps/app.xml')?.toString('utf8')
+  const pages = appXml?.match(/<Pages>(\d+)<\/Pages>/)
+
+  return {
+    text: normaliseParagraphs(value),
+    format: 'docx',
+    pageCount: pages ? parseInt(pages[1]) : undefined,
+  }
+}
+
+async function extractOdt(buffer: Buffer): Promise<ExtractedDocument> {
+  const entries = readZipEntries(buffer)
+  const content = entries.get('content.xml')?.toString('utf8')
+  if (!content) {
+    throw new Error('Invalid ODT document: content.xml not found')
+  }
+
+  const body = content.slice(content.indexOf('<office:body'))
+  const paragraphs: string[] = []
+  const blockPattern = /<text:(p|h)\b[^>]*?(?:\/>|>([\s\S]*?)<\/text:\1>)/g
+  let match: RegExpExecArray | null
+
+  while ((match = blockPattern.exec(body))) {
+    const inner = (match[2] || '')
+      .replace(/<text:s\b[^>]*?text:c="(\d+)"[^>]*\/>/g, (_, count) => ' '.repeat(parseInt(count)))
+      .replace(/<text:s\b[^>]*\/>/g, ' ')
+      .replace(/<text:tab\b[^>]*\/>/g, '\t')
+      .replace(/<text:line-break\b[^>]*\/>/g, '\n')
+      .replace(/<text:note\b[\s\S]*?<\/text:note>/g, '')
+      .replace(/<[^>]+>/g, '')
+    paragraphs.push(decodeXmlEntities(inner))
+  }
+
+  const meta = entries.get('meta.xml')?.toString('utf8')
+  const pages = meta?.match(/meta:page-count="(\d+)"/)
+
+  return {
+    text: normaliseParagraphs(paragraphs.join('\n\n')),
+    format: 'odt',
+    pageCount: pages ? parseInt(pages[1]) : undefined,
+  }
+}
+
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '')
+}
+
+// Join wrapped lines back into paragraphs and undo end-of-line hyphenation
+function reflowPdfPage(page: string): string {
+  const lines = page.split('\n').map(line => line.trim())
+  let text = ''
+
+  lines.forEach((line, index) => {
+    if (!line) {
+      text += '\n\n'
+      return
+    }
+    if (index === 0 || text.endsWith('\n\n')) {
+      text += line
+      return
+    }
+
+    const previous = lines[index - 1]
+    if (/[.!?:]["”)]?$/.test(previous) && /^[A-ZÀ-Ý0-9•\-–]/.test(line) && previous.length < 60) {
+      // A short line ending a sentence is most likely the end of a paragraph
+      text += `\n\n${line}`
+    } else if (/\p{L}-$/u.test(text)) {
+      text = text.slice(0, -1) + line
+    } else {
+      text += ` ${line}`
+    }
+  })
+
+  return text
+}
+
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // front matter
+    .replace(/```[\s\S]*?```/g, '') // fenced code
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '') // headings
+    .replace(/^\s{0,3}>\s?/gm, '') // blockquotes
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '') // list markers
+    .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, '') // rules
+    .replace(/(\*\*|__)(?!\s)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])([*_])(?!\s)(.+?)\2(?![\w*])/g, '$1$3')
+    .replace(/`([^`]+)`/g, '$1')
+}
+
+function normaliseParagraphs(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,208 @@
+import type { SentenceScore, SuspiciousPart } from '@truecheckia/types'
+import { commaBaseline, segmentSentences, tokenizeWords } from './stylometry.service'
+import type { SentenceSpan } from './stylometry.service'
+
+// Minimum token overlap for a fuzzy excerpt match to be accepted
+const MIN_FUZZY_SIMILARITY = 0.6
+
+// Excerpts are matched against runs of up to this many sentences
+const MAX_WINDOW_SENTENCES = 3
+
+// Longest excerpt text returned with a suspicious part
+const MAX_PART_LENGTH = 200
+
+interface NormalisedText {
+  value: string
+  // Original index of each character in value
+  offsets: number[]
+}
+
+/**
+ * Find the exact [startIndex, endIndex) range of an excerpt quoted by a
+ * detector. LLMs often change quotes, whitespace or casing, elide the middle
+ * with "..." or paraphrase slightly, so matching degrades from exact, to
+ * normalised, to a token-similarity search over sentence windows.
+ */
+export function locateExcerpt(
+  text: string,
+  excerpt: string,
+  sentences: SentenceSpan[] = segmentSentences(text)
+): { startIndex: number; endIndex: number } | null {
+  const cleaned = excerpt.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').replace(/^(\.\.\.|…)\s*|\s*(\.\.\.|…)$/g, '')
+  if (!cleaned) return null
+
+  const exact = text.indexOf(cleaned)
+  if (exact !== -1) {
+    return { startIndex: exact, endIndex: exact + cleaned.length }
+  }
+
+  const haystack = normalise(text)
+  const pieces = cleaned.split(/\s*(?:\.\.\.|…)\s*/).filter(Boolean)
+  const first = findNormalised(haystack, pieces[0])
+  if (first) {
+    if (pieces.length === 1) return first
+
+    const last = findNormalised(haystack, pieces[pieces.length - 1], first.endIndex)
+    if (last) return { startIndex: first.startIndex, endIndex: last.endIndex }
+  }
+
+  return fuzzyMatch(sentences, cleaned)
+}
+
+/**
+ * Resolve offsets for every suspicious part. Located parts carry the exact
+ * substring of the submitted text, capped like unlocated ones; the offsets
+ * still cover the whole excerpt.
+ */
+export function locateSuspiciousParts(text: string, parts: SuspiciousPart[], language: string = 'pt'): SuspiciousPart[] {
+  const sentences = segmentSentences(text, language)
+
+  return parts.map(part => {
+    const range = locateExcerpt(text, part.text, sentences)
+    if (!range) {
+      return { ...part, text: part.text.substring(0, MAX_PART_LENGTH) }
+    }
+    return {
+      ...part,
+      text: text.slice(range.startIndex, Math.min(range.endIndex, range.startIndex + MAX_PART_LENGTH)),
+      startIndex: range.startIndex,
+      endIndex: range.endIndex,
+    }
+  })
+}
+
+/**
+ * Score every sentence of the text for the heatmap overlay.
+ * Sentences covered by a located suspicious part take mostly that part's
+ * score; the rest are placed around the document score using their own
+ * length uniformity and comma density.
+ */
+export function scoreSentences(
+  text: string,
+  language: string,
+  parts: SuspiciousPart[],
+  documentScore: number
+): SentenceScore[] {
+  const sentences = segmentSentences(text, language)
+  const lengths = sentences.map(sentence => tokenizeWords(sentence.text).length)
+  const meanLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(lengths.length, 1)
+  const baseline = commaBaseline(language)
+  const located = parts.filter(part => part.startIndex !== undefined && part.endIndex !== undefined)
+
+  return sentences.map((sentence, index) => {
+    const uniformity = meanLength ? 1 - clamp(Math.abs(lengths[index] - meanLength) / meanLength) : 0
+    const commas = (sentence.text.match(/[,;]/g) || []).length
+    const local = 100 * (0.5 * uniformity + 0.5 * clamp(commas / (baseline * 2)))
+
+    const overlapping = located.filter(part => overlapRatio(sentence, part) >= 0.3)
+    const partScore = overlapping.length
+      ? Math.max(...overlapping.map(part => part.score))
+      : null
+
+    const score = partScore !== null
+      ? 0.7 * partScore + 0.3 * local
+      : 0.6 * documentScore + 0.4 * local
+
+    return {
+      startIndex: sentence.startIndex,
+      endIndex: sentence.endIndex,
+      score: Math.round(clamp(score / 100) * 100),
+      flagged: partScore !== null,
+    }
+  })
+}
+
+// Lowercase, unify quotes/dashes and collapse whitespace, keeping an index map
+function normalise(text: string): NormalisedText {
+  let value = ''
+  const offsets: number[] = []
+
+  for (let i = 0; i < text.length; i++) {
+    let char = text[i].toLowerCase()
+    if (/\s/.test(char)) {
+      if (value.endsWith(' ')) continue
+      char = ' '
+    } else if (/["“”]/.test(char)) {
+      char = '"'
+    } else if (/['‘’]/.test(char)) {
+      char = "'"
+    } else if (/[–—]/.test(char)) {
+      char = '-'
+    }
+    value += char
+    offsets.push(i)
+  }
+
+  return { value, offsets }
+}
+
+function findNormalised(
+  haystack: NormalisedText,
+  needle: string,
+  fromIndex: number = 0
+): { startIndex: number; endIndex: number } | null {
+  const target = normalise(needle.trim()).value
+  if (!target) return null
+
+  const fromNormalised = haystack.offsets.findIndex(offset => offset >= fromIndex)
+  const found = haystack.value.indexOf(target, Math.max(fromNormalised, 0))
+  if (found === -1) return null
+
+  return {
+    startIndex: haystack.offsets[found],
+    endIndex: haystack.offsets[found + target.length - 1] + 1,
+  }
+}
+
+// Best run of consecutive sentences by token Dice coefficient
+function fuzzyMatch(sentences: SentenceSpan[], excerpt: string): { startIndex: number; endIndex: number } | null {
+  const excerptTokens = tokenizeWords(excerpt)
+  if (excerptTokens.length === 0) return null
+
+  let best: { startIndex: number; endIndex: number; similarity: number } | null = null
+
+  for (let start = 0; start < sentences.length; start++) {
+    for (let size = 1; size <= MAX_WINDOW_SENTENCES && start + size <= sentences.length; size++) {
+      const window = sentences.slice(start, start + size)
+      const similarity = diceCoefficient(excerptTokens, tokenizeWords(window.map(s => s.text).join(' ')))
+
+      if (similarity >= MIN_FUZZY_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = {
+          startIndex: window[0].startIndex,
+          endIndex: window[window.length - 1].endIndex,
+          similarity,
+        }
+      }
+    }
+  }
+
+  return best && { startIndex: best.startIndex, endIndex: best.endIndex }
+}
+
+function diceCoefficient(a: string[], b: string[]): number {
+  const counts = new Map<string, number>()
+  a.forEach(token => counts.set(token, (counts.get(token) || 0) + 1))
+
+  let shared = 0
+  b.forEach(token => {
+    const count = counts.get(token) || 0
+    if (count > 0) {
+      shared++
+      counts.set(token, count - 1)
+    }
+  })
+
+  return (2 * shared) / (a.length + b.length)
+}
+
+function overlapRatio(sentence: SentenceSpan, part: SuspiciousPart): number {
+  const overlap = Math.min(sentence.endIndex, part.endIndex!) - Math.max(sentence.startIndex, part.startIndex!)
+  if (overlap <= 0) return 0
+
+  const shorter = Math.min(sentence.endIndex - sentence.startIndex, part.endIndex! - part.startIndex!)
+  return overlap / Math.max(shorter, 1)
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
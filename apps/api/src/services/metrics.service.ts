@@ -0,0 +1,79 @@
+import { prisma } from '@truecheckia/database'
+import { JobMonitor } from '../lib/job-monitor'
+import { DeadLetterQueue } from '../lib/dead-letter-queue'
+import {
+  databasePool,
+  databaseUp,
+  deadLetterJobs,
+  deadLetterRetries,
+  metrics,
+  queueJobs,
+} from '../lib/metrics'
+
+const QUEUE_NAMES = ['analysis', 'email', 'credits']
+
+// Prisma's pool gauges (metrics preview feature) and the state they report
+const PRISMA_POOL_GAUGES: Record<string, string> = {
+  prisma_pool_connections_open: 'open',
+  prisma_pool_connections_busy: 'busy',
+  prisma_pool_connections_idle: 'idle',
+  prisma_client_queries_wait: 'waiting',
+}
+
+async function collectQueueMetrics(): Promise<void> {
+  queueJobs.reset()
+
+  for (const queue of QUEUE_NAMES) {
+    const { pending, processing, delayed } = await JobMonitor.getQueueMetrics(queue)
+    queueJobs.set({ queue, state: 'pending' }, pending)
+    queueJobs.set({ queue, state: 'processing' }, processing)
+    queueJobs.set({ queue, state: 'delayed' }, delayed)
+  }
+}
+
+async function collectDeadLetterMetrics(): Promise<void> {
+  const stats = await DeadLetterQueue.getStats()
+
+  deadLetterJobs.reset()
+  for (const [queue, { failed }] of Object.entries(stats.queues)) {
+    deadLetterJobs.set({ queue }, failed)
+  }
+  deadLetterJobs.set({ queue: 'permanent-failures' }, stats.totalPermanentFailures)
+  deadLetterRetries.set(undefined, stats.retryQueue)
+}
+
+async function collectDatabaseMetrics(): Promise<void> {
+  databasePool.reset()
+
+  try {
+    const { gauges } = await prisma.$metrics.json()
+    for (const gauge of gauges) {
+      const state = PRISMA_POOL_GAUGES[gauge.key]
+      if (state) databasePool.set({ state }, gauge.value)
+    }
+    databaseUp.set(undefined, 1)
+  } catch (error) {
+    console.error('Failed to read Prisma metrics:', error)
+    databaseUp.set(undefined, 0)
+  }
+}
+
+/**
+ * Refresh the gauges read from Redis and Prisma, then render every metric.
+ * A source that fails keeps the scrape going with its gauges left empty.
+ */
+export async function collectMetrics(): Promise<string> {
+  const results = await Promise.allSettled([
+    collectQueueMetrics(),
+    collectDeadLetterMetrics(),
+    collectDatabaseMetrics(),
+  ])
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('Failed to collect metrics:', result.reason)
+    }
+  }
+
+  return metrics.render()
+}
@@ -0,0 +1,96 @@
+import { prisma } from '@truecheckia/database'
+import type { NotificationInfo, NotificationType } from '@truecheckia/types'
+
+export interface NotificationRecord {
+  id: string
+  type: string
+  title: string
+  message: string
+  read: boolean
+  readAt?: Date | null
+  metadata?: unknown
+  createdAt: Date
+}
+
+export interface NotificationFilters {
+  cursor?: string
+  limit?: number
+  type?: NotificationType
+  read?: boolean
+}
+
+export function serializeNotification(notification: NotificationRecord): NotificationInfo {
+  return {
+    id: notification.id,
+    type: notification.type as NotificationType,
+    title: notification.title,
+    message: notification.message,
+    read: notification.read,
+    readAt: notification.readAt ?? null,
+    metadata: (notification.metadata as Record<string, unknown>) ?? null,
+    createdAt: notification.createdAt,
+  }
+}
+
+/**
+ * Newest first. The cursor is the id of the last notification of the
+ * previous page; `nextCursor` is null on the last page.
+ */
+export async function listNotifications(
+  userId: string,
+  { cursor, limit = 20, type, read }: NotificationFilters
+) {
+  const notifications = await prisma.notification.findMany({
+    where: {
+      userId,
+      ...(type && { type }),
+      ...(read !== undefined && { read }),
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  })
+
+  const hasMore = notifications.length > limit
+  const page = hasMore ? notifications.slice(0, limit) : notifications
+
+  return {
+    notifications: page.map(serializeNotification),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  }
+}
+
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  return prisma.notification.count({
+    where: { userId, read: false },
+  })
+}
+
+/**
+ * Returns false when the notification does not exist or belongs to someone else.
+ */
+export async function markNotificationRead(userId: string, notificationId: string): Promise<boolean> {
+  const result = await prisma.notification.updateMany({
+    where: { id: notificationId, userId },
+    data: { read: true, readAt: new Date() },
+  })
+
+  return result.count > 0
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: { userId, read: false },
+    data: { read: true, readAt: new Date() },
+  })
+
+  return result.count
+}
+
+export async function deleteNotification(userId: string, notificationId: string): Promise<boolean> {
+  const result = await prisma.notification.deleteMany({
+    where: { id: notificationId, userId },
+  })
+
+  return result.count > 0
+}
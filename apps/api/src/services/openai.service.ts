@@ -1,224 +1,179 @@
-import OpenAI from 'openai'
+import { createHash } from 'crypto'
 import { config } from '@truecheckia/config'
-import type { OpenAIAnalysisResponse, AnalysisResult, Indicator, SuspiciousPart } from '@truecheckia/types'
+import type { DetectorSpec } from '@truecheckia/config'
+import type {
+  OpenAIAnalysisResponse,
+  AnalysisResult,
+  DetectorResult,
+  Indicator,
+  StylometryMetrics,
+  SuspiciousPart,
+} from '@truecheckia/types'
+import { detectorRegistry } from './detectors'
+import { locateSuspiciousParts, scoreSentences } from './heatmap.service'
+import {
+  computeStylometry,
+  describeStylometryIndicator,
+  getStylometryIndicators,
+  MIN_RELIABLE_SENTENCES,
+  STYLOMETRY_INDICATORS,
+} from './stylometry.service'
 
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-  organization: config.openai.orgId,
-})
-
-const DETECTION_PROMPT_PT = `You are an advanced AI text detector specializing in identifying content from GPT-4, Claude, Gemini, and other LLMs.
-
-ANALYZE WITH MULTIPLE LAYERS:
-
-1. MODEL-SPECIFIC PATTERNS:
-- GPT-4: Tendency for "However," transitions, nested parentheticals, "It's worth noting"
-- Claude: Apologetic tone, excessive caveats, "I should mention", ethical considerations
-- Gemini: Balanced viewpoints, "On one hand/other hand", comprehensive lists
-- Generic LLM: Perfect grammar, no typos, uniform sentence complexity
-
-2. LINGUISTIC FORENSICS:
-- Perplexity analysis: Unusually low perplexity scores
-- Burstiness: Lack of variation in sentence length (humans vary 30-50%)
-- Token predictability: High next-token predictability
-- Semantic coherence: Unnatural consistency in topic progression
-
-3. HUMAN AUTHENTICITY MARKERS (absence indicates AI):
-- Personal anecdotes with specific details (dates, names, places)
-- Emotional inconsistencies or contradictions
-- Cultural references and colloquialisms specific to region/age
-- Typos, grammatical quirks, or stylistic inconsistencies
-- Strong opinions without hedging
-- Natural digressions and tangential thoughts
-
-4. STATISTICAL ANOMALIES:
-- Sentence length variance (standard deviation < 4 words = suspicious)
-- Punctuation patterns (AI uses 40% more commas on average)
-- Paragraph length consistency (CV < 0.3 = likely AI)
-
-Return ONLY valid JSON:
-{
-  "score": 0-100,
-  "confidence": "high" | "medium" | "low",
-  "main_indicators": ["specific_indicator1", "specific_indicator2"],
-  "explanation": "detailed technical explanation in Portuguese",
-  "suspicious_parts": [
-    {"text": "suspicious excerpt", "reason": "specific reason", "score": 0-100}
-  ]
-}`
-
-const DETECTION_PROMPT_EN = `You are an advanced AI text detector specializing in identifying content from GPT-4, Claude, Gemini, and other LLMs.
-
-ANALYZE WITH MULTIPLE LAYERS:
-
-1. MODEL-SPECIFIC PATTERNS:
-- GPT-4: Tendency for "However," transitions, nested parentheticals, "It's worth noting"
-- Claude: Apologetic tone, excessive caveats, "I should mention", ethical considerations
-- Gemini: Balanced viewpoints, "On one hand/other hand", comprehensive lists
-- Generic LLM: Perfect grammar, no typos, uniform sentence complexity
-
-2. LINGUISTIC FORENSICS:
-- Perplexity analysis: Unusually low perplexity scores
-- Burstiness: Lack of variation in sentence length (humans vary 30-50%)
-- Token predictability: High next-token predictability
-- Semantic coherence: Unnatural consistency in topic progression
+export interface AnalyzeOptions {
+  plan?: string
+  detectors?: DetectorSpec[]
+  // Score above which the text counts as AI-generated (user preference)
+  aiThreshold?: number
+}
 
-3. HUMAN AUTHENTICITY MARKERS (absence indicates AI):
-- Personal anecdotes with specific details (dates, names, places)
-- Emotional inconsistencies or contradictions
-- Cultural references and colloquialisms specific to region/age
-- Typos, grammatical quirks, or stylistic inconsistencies
-- Strong opinions without hedging
-- Natural digressions and tangential thoughts
+interface DetectorRun {
+  spec: DetectorSpec
+  response: OpenAIAnalysisResponse
+}
 
-4. STATISTICAL ANOMALIES:
-- Sentence length variance (standard deviation < 4 words = suspicious)
-- Punctuation patterns (AI uses 40% more commas on average)
-- Paragraph length consistency (CV < 0.3 = likely AI)
+/**
+ * Resolve the detector ensemble for a plan, falling back to FREE.
+ */
+export function getDetectorsForPlan(plan: string = 'FREE'): DetectorSpec[] {
+  return config.detectors.plans[plan] || config.detectors.plans.FREE
+}
 
-Return ONLY valid JSON:
-{
-  "score": 0-100,
-  "confidence": "high" | "medium" | "low",
-  "main_indicators": ["specific_indicator1", "specific_indicator2"],
-  "explanation": "detailed technical explanation",
-  "suspicious_parts": [
-    {"text": "suspicious excerpt", "reason": "specific reason", "score": 0-100}
-  ]
-}`
+/**
+ * Redis key for an analysis result. The same text scores differently with
+ * another ensemble or language, so both are part of the key.
+ */
+export function getAnalysisCacheKey(text: string, language: string, detectors: DetectorSpec[]): string {
+  const ensemble = detectors.map(spec => `${describeDetector(spec)}@${spec.weight}`).join('+')
+  const hash = createHash('sha256').update(`${ensemble}\n${language}\n${text}`).digest('hex')
+  return `${config.cache.analysisPrefix}${hash}`
+}
 
-export async function analyzeWithOpenAI(
+/**
+ * Run the plan's detector ensemble in parallel and combine the results
+ * into a single weighted score.
+ */
+export async function analyzeWithDetectors(
   text: string,
-  language: string = 'pt'
+  language: string = 'pt',
+  options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> {
-  const prompt = language === 'pt' ? DETECTION_PROMPT_PT : DETECTION_PROMPT_EN
-  
-  let primaryAnalysis: OpenAIAnalysisResponse | null = null
-  let secondaryAnalysis: OpenAIAnalysisResponse | null = null
-  
-  // Try primary analysis (GPT-4o)
-  try {
-    primaryAnalysis = await performAnalysis(
-      text,
-      prompt,
-      config.openai.models.primary
-    )
-  } catch (error) {
-    console.error('Primary analysis failed:', error)
-  }
+  const specs = options.detectors || getDetectorsForPlan(options.plan)
 
-  // Try secondary analysis (GPT-4o-mini)  
-  try {
-    secondaryAnalysis = await performAnalysis(
-      text,
-      prompt,
-      config.openai.models.secondary
+  // Providers are resolved inside the promise so an unknown one fails alone
+  const settled = await Promise.allSettled(
+    specs.map(async spec =>
+      detectorRegistry.get(spec.provider).analyze(text, language, { model: spec.model })
     )
-  } catch (error) {
-    console.error('Secondary analysis failed:', error)
-  }
+  )
+
+  const runs: DetectorRun[] = []
+  settled.forEach((outcome, index) => {
+    const spec = specs[index]
+    if (outcome.status === 'fulfilled') {
+      runs.push({ spec, response: outcome.value })
+    } else {
+      console.error(`Detector ${describeDetector(spec)} failed:`, outcome.reason)
+    }
+  })
 
-  // If both failed, throw error
-  if (!primaryAnalysis && !secondaryAnalysis) {
-    throw new Error('Both AI analysis models failed. Please check your OpenAI API configuration.')
+  if (runs.length === 0) {
+    throw new Error('All AI detectors failed. Please check your detector configuration.')
   }
 
-  // Use available analysis or combine if both succeeded
-  let finalScore: number
+  const detectorScore = weightedAverage(runs)
+
+  // Blend in the local stylometry score when the text is long enough
+  const metrics = computeStylometry(text, language)
+  const reliableMetrics = metrics.sentenceCount >= MIN_RELIABLE_SENTENCES
+  const stylometryWeight = reliableMetrics ? config.detectors.stylometryWeight : 0
+  const finalScore = detectorScore * (1 - stylometryWeight) + metrics.score * stylometryWeight
+
+  // The highest weighted detector drives the explanation and highlights
+  const lead = runs.reduce((best, run) => (run.spec.weight > best.spec.weight ? run : best))
+
   let confidence: 'HIGH' | 'MEDIUM' | 'LOW'
   let explanation: string
-  let indicators: string[]
 
-  if (primaryAnalysis && secondaryAnalysis) {
-    // Both succeeded - combine results
-    finalScore = weightedAverage(
-      primaryAnalysis.score,
-      secondaryAnalysis.score,
-      0.7, // 70% weight for GPT-4o
-      0.3  // 30% weight for GPT-4o-mini
-    )
-    
-    const scoreDifference = Math.abs(primaryAnalysis.score - secondaryAnalysis.score)
+  if (runs.length > 1) {
+    const scores = runs.map(run => run.response.score)
+    const scoreDifference = Math.max(...scores) - Math.min(...scores)
     confidence = determineConfidence(scoreDifference, finalScore)
-    explanation = primaryAnalysis.explanation
-    indicators = primaryAnalysis.main_indicators
+    explanation = lead.response.explanation
   } else {
-    // Only one succeeded - use single result
-    const analysis = primaryAnalysis || secondaryAnalysis!
-    finalScore = analysis.score
     confidence = 'MEDIUM' // Lower confidence when only one model used
-    explanation = `${analysis.explanation} (Note: Analysis performed with single model due to API limitations)`
-    indicators = analysis.main_indicators
+    explanation = specs.length > 1
+      ? `${lead.response.explanation} (Note: Analysis performed with single model due to API limitations)`
+      : lead.response.explanation
+  }
+
+  // Metric-backed indicators replace the model's guesses for the same signals
+  let indicators = lead.response.main_indicators || []
+  if (reliableMetrics) {
+    indicators = [
+      ...indicators.filter(indicator => !STYLOMETRY_INDICATORS.includes(indicator)),
+      ...getStylometryIndicators(metrics, language),
+    ]
   }
 
   // Process indicators
-  const processedIndicators = processIndicators(indicators, language)
+  const processedIndicators = processIndicators(indicators, language, reliableMetrics ? metrics : undefined)
 
   // Process suspicious parts
-  const suspiciousParts = processSuspiciousParts(
-    (primaryAnalysis || secondaryAnalysis!).suspicious_parts
-  )
+  const suspiciousParts = processSuspiciousParts(lead.response.suspicious_parts || [], text, language)
+
+  // Per-sentence scores for the heatmap overlay
+  const sentences = scoreSentences(text, language, suspiciousParts, Math.round(finalScore))
+
+  const detectors: DetectorResult[] = runs.map(run => ({
+    provider: run.spec.provider,
+    model: run.spec.model,
+    score: run.response.score,
+    weight: run.spec.weight,
+  }))
 
   return {
     id: '', // Will be set by controller
     aiScore: Math.round(finalScore),
     confidence,
-    isAiGenerated: finalScore > 65, // Mais sensível após prompts melhorados
+    isAiGenerated: finalScore > (options.aiThreshold ?? config.limits.analysis.aiThreshold),
     indicators: processedIndicators,
     explanation,
     suspiciousParts,
     processingTime: 0, // Will be set by controller
     wordCount: text.split(/\s+/).length,
     charCount: text.length,
+    detectors,
+    metrics,
+    sentences,
   }
 }
 
-async function performAnalysis(
-  text: string,
-  prompt: string,
-  model: string
-): Promise<OpenAIAnalysisResponse> {
-  try {
-    const response = await openai.chat.completions.create({
-      model,
-      messages: [
-        {
-          role: 'system',
-          content: prompt,
-        },
-        {
-          role: 'user',
-          content: text,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' },
-    })
+/**
+ * @deprecated Use analyzeWithDetectors, which honours the plan's ensemble.
+ */
+export const analyzeWithOpenAI = analyzeWithDetectors
 
-    const content = response.choices[0]?.message?.content
-    if (!content) {
-      throw new Error('No response from OpenAI')
-    }
+/**
+ * Compact label for the detectors that produced a result, stored as modelUsed.
+ */
+export function describeDetectors(detectors: DetectorResult[] = []): string {
+  return detectors.map(describeDetector).join('+')
+}
 
-    return JSON.parse(content) as OpenAIAnalysisResponse
-  } catch (error) {
-    console.error(`Analysis error with ${model}:`, error)
-    // Throw error to let controller handle it properly
-    throw error
-  }
+function describeDetector(detector: { provider: string; model?: string }): string {
+  return detector.model ? `${detector.provider}:${detector.model}` : detector.provider
 }
 
-function weightedAverage(
-  score1: number,
-  score2: number,
-  weight1: number,
-  weight2: number
-): number {
-  return score1 * weight1 + score2 * weight2
+// Weights are renormalised over the detectors that actually answered
+function weightedAverage(runs: DetectorRun[]): number {
+  const totalWeight = runs.reduce((sum, run) => sum + run.spec.weight, 0)
+  if (totalWeight <= 0) {
+    return runs.reduce((sum, run) => sum + run.response.score, 0) / runs.length
+  }
+  return runs.reduce((sum, run) => sum + run.response.score * run.spec.weight, 0) / totalWeight
 }
 
-function determineConfidence(
+export function determineConfidence(
   scoreDifference: number,
   finalScore: number
 ): 'HIGH' | 'MEDIUM' | 'LOW' {
@@ -236,7 +191,8 @@ function determineConfidence(
 
 function processIndicators(
   indicators: string[],
-  language: string
+  language: string,
+  metrics?: StylometryMetrics
 ): Indicator[] {
   const indicatorMap: Record<string, { description: string; severity: 'high' | 'medium' | 'low' }> = {
     pattern_repetition: {
@@ -337,20 +293,26 @@ function processIndicators(
       description: indicator,
       severity: 'low' as const,
     }
+    const measured = metrics ? describeStylometryIndicator(indicator, metrics) : null
     return {
       type: indicator,
-      description: mapped.description,
+      description: measured ? `${mapped.description} (${measured})` : mapped.description,
       severity: mapped.severity,
     }
   })
 }
 
 function processSuspiciousParts(
-  parts: Array<{ text: string; reason: string; score: number }>
+  parts: Array<{ text: string; reason: string; score: number }>,
+  text: string,
+  language: string
 ): SuspiciousPart[] {
-  return parts.map(part => ({
-    text: part.text.substring(0, 200), // Limit text length
-    score: part.score,
-    reason: part.reason,
-  }))
+  const located = locateSuspiciousParts(
+    text,
+    parts.map(part => ({ text: part.text, score: part.score, reason: part.reason })),
+    language
+  )
+
+  // Keep them in reading order for the highlight overlay
+  return located.sort((a, b) => (a.startIndex ?? Infinity) - (b.startIndex ?? Infinity))
 }
\ No newline at end of file
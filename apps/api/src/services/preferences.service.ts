@@ -0,0 +1,171 @@
+import { prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import { RedisAdapter } from '../lib/queue-adapter'
+import { recordCacheLookup } from '../lib/metrics'
+import type { UserPreferences, UserPreferencesInput } from '@truecheckia/types'
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = config.limits.analysis.aiThreshold
+
+const CACHE_PREFIX = 'preferences:'
+const CACHE_TTL = 300 // 5 minutes
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  language: 'pt-BR',
+  analysisLanguage: 'auto',
+  theme: 'system',
+  emailNotifications: {
+    analysisComplete: true,
+    creditsLow: true,
+    planExpiring: true,
+    newFeatures: false,
+    security: true,
+  },
+  analysisSettings: {
+    autoSave: true,
+    detailedReports: false,
+    confidenceThreshold: DEFAULT_CONFIDENCE_THRESHOLD,
+  },
+}
+
+export type EmailCategory = keyof UserPreferences['emailNotifications']
+
+/**
+ * Opt-in that gates each templated email. Templates not listed here are
+ * transactional (verification, billing) and always sent.
+ */
+export const EMAIL_TEMPLATE_CATEGORIES: Record<string, EmailCategory> = {
+  analysisComplete: 'analysisComplete',
+  creditsLow: 'creditsLow',
+  planExpiring: 'planExpiring',
+}
+
+export interface UserPreferencesRecord {
+  language: string
+  theme: string
+  analysisLanguage: string
+  autoSaveAnalyses: boolean
+  detailedReports: boolean
+  confidenceThreshold: number
+  emailAnalysisComplete: boolean
+  emailCreditsLow: boolean
+  emailPlanExpiring: boolean
+  emailNewFeatures: boolean
+}
+
+export function serializePreferences(record: UserPreferencesRecord | null): UserPreferences {
+  if (!record) {
+    return DEFAULT_PREFERENCES
+  }
+
+  return {
+    language: record.language,
+    analysisLanguage: record.analysisLanguage,
+    theme: record.theme,
+    emailNotifications: {
+      analysisComplete: record.emailAnalysisComplete,
+      creditsLow: record.emailCreditsLow,
+      planExpiring: record.emailPlanExpiring,
+      newFeatures: record.emailNewFeatures,
+      security: true,
+    },
+    analysisSettings: {
+      autoSave: record.autoSaveAnalyses,
+      detailedReports: record.detailedReports,
+      confidenceThreshold: record.confidenceThreshold,
+    },
+  } as UserPreferences
+}
+
+function toRecord(input: UserPreferencesInput): UserPreferencesRecord {
+  return {
+    language: input.language,
+    theme: input.theme,
+    analysisLanguage: input.analysisLanguage,
+    autoSaveAnalyses: input.analysisSettings.autoSave,
+    detailedReports: input.analysisSettings.detailedReports,
+    confidenceThreshold: input.analysisSettings.confidenceThreshold,
+    emailAnalysisComplete: input.emailNotifications.analysisComplete,
+    emailCreditsLow: input.emailNotifications.creditsLow,
+    emailPlanExpiring: input.emailNotifications.planExpiring,
+    emailNewFeatures: input.emailNotifications.newFeatures,
+  }
+}
+
+/**
+ * Stored preferences, or the defaults for users who never saved any.
+ */
+export async function getUserPreferences(userId: string): Promise<UserPreferences> {
+  const cached = await RedisAdapter.cacheGet(`${CACHE_PREFIX}${userId}`)
+  recordCacheLookup('preferences', Boolean(cached))
+  if (cached) {
+    return cached
+  }
+
+  const record = await prisma.userPreferences.findUnique({
+    where: { userId },
+  })
+
+  const preferences = serializePreferences(record)
+  await RedisAdapter.cacheSet(`${CACHE_PREFIX}${userId}`, preferences, CACHE_TTL)
+  return preferences
+}
+
+export async function updateUserPreferences(userId: string, input: UserPreferencesInput): Promise<UserPreferences> {
+  const data = toRecord(input)
+
+  const record = await prisma.userPreferences.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  })
+
+  await clearPreferencesCache(userId)
+  return serializePreferences(record)
+}
+
+export async function clearPreferencesCache(userId: string): Promise<void> {
+  await RedisAdapter.cacheDel(`${CACHE_PREFIX}${userId}`)
+}
+
+/**
+ * Whether a score counts as AI-generated for this user.
+ */
+export function isAiGeneratedFor(aiScore: number, preferences: Pick<UserPreferences, 'analysisSettings'>): boolean {
+  return aiScore > preferences.analysisSettings.confidenceThreshold
+}
+
+/**
+ * Analysis language used when a request does not name one.
+ */
+export function resolveAnalysisLanguage(requested: string | undefined, preferences: Pick<UserPreferences, 'analysisLanguage'>): string {
+  if (requested) return requested
+  if (preferences.analysisLanguage === 'en-US') return 'en'
+  return 'pt'
+}
+
+/**
+ * Checked when an email job is processed, so an opt-out also stops emails
+ * that were already queued. Users are matched by id, or by address for
+ * jobs queued without one.
+ */
+export async function canSendEmail(category: EmailCategory | undefined, recipient: { userId?: string; email?: string }): Promise<boolean> {
+  if (!category || category === 'security') {
+    return true
+  }
+
+  let userId = recipient.userId
+  if (!userId && recipient.email) {
+    const user = await prisma.user.findUnique({
+      where: { email: recipient.email },
+      select: { id: true },
+    })
+    userId = user?.id
+  }
+
+  if (!userId) {
+    return true
+  }
+
+  const preferences = await getUserPreferences(userId)
+  return preferences.emailNotifications[category]
+}
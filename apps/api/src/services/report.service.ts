@@ -0,0 +1,400 @@
+import PDFDocument from 'pdfkit'
+import type { Indicator, SuspiciousPart } from '@truecheckia/types'
+
+export interface ReportAnalysis {
+  id: string
+  text: string
+  wordCount: number
+  charCount: number
+  language: string
+  aiScore: number
+  confidence: 'HIGH' | 'MEDIUM' | 'LOW'
+  isAiGenerated: boolean
+  indicators: Indicator[]
+  explanation: string
+  suspiciousParts: SuspiciousPart[]
+  modelUsed?: string | null
+  processingTime: number
+  metadata?: Record<string, any> | null
+  createdAt: Date
+}
+
+export interface ReportOptions {
+  // Shown as "prepared for" in the header
+  userName?: string | null
+}
+
+type ReportLanguage = 'pt' | 'en'
+
+const LABELS: Record<ReportLanguage, Record<string, string>> = {
+  pt: {
+    title: 'Relatório de Análise',
+    subtitle: 'Detecção de conteúdo gerado por IA',
+    preparedFor: 'Preparado para',
+    aiProbability: 'Probabilidade de IA',
+    confidence: 'Confiança',
+    verdict: 'Resultado',
+    aiGenerated: 'Provavelmente gerado por IA',
+    human: 'Provavelmente escrito por humano',
+    indicators: 'Indicadores detectados',
+    noIndicators: 'Nenhum indicador relevante foi detectado.',
+    explanation: 'Explicação',
+    excerpt: 'Trecho analisado',
+    excerptNote: 'Trechos suspeitos aparecem sublinhados em vermelho.',
+    truncatedNote: 'Apenas o início do texto é armazenado; trechos suspeitos fora dele são listados abaixo.',
+    suspiciousParts: 'Trechos suspeitos',
+    metadata: 'Detalhes da análise',
+    analysisId: 'ID da análise',
+    date: 'Data',
+    language: 'Idioma',
+    words: 'Palavras',
+    characters: 'Caracteres',
+    model: 'Modelo',
+    processingTime: 'Tempo de processamento',
+    file: 'Arquivo',
+    pages: 'Páginas',
+    page: 'Página',
+    disclaimer: 'Este relatório é uma estimativa probabilística e não deve ser usado como prova única de autoria.',
+    HIGH: 'Alta',
+    MEDIUM: 'Média',
+    LOW: 'Baixa',
+    high: 'alta',
+    medium: 'média',
+    low: 'baixa',
+  },
+  en: {
+    title: 'Analysis Report',
+    subtitle: 'AI-generated content detection',
+    preparedFor: 'Prepared for',
+    aiProbability: 'AI probability',
+    confidence: 'Confidence',
+    verdict: 'Verdict',
+    aiGenerated: 'Likely AI-generated',
+    human: 'Likely human-written',
+    indicators: 'Detected indicators',
+    noIndicators: 'No relevant indicators were detected.',
+    explanation: 'Explanation',
+    excerpt: 'Analyzed excerpt',
+    excerptNote: 'Suspicious passages are underlined in red.',
+    truncatedNote: 'Only the beginning of the text is stored; suspicious passages outside it are listed below.',
+    suspiciousParts: 'Suspicious passages',
+    metadata: 'Analysis details',
+    analysisId: 'Analysis ID',
+    date: 'Date',
+    language: 'Language',
+    words: 'Words',
+    characters: 'Characters',
+    model: 'Model',
+    processingTime: 'Processing time',
+    file: 'File',
+    pages: 'Pages',
+    page: 'Page',
+    disclaimer: 'This report is a probabilistic estimate and should not be used as the sole proof of authorship.',
+    HIGH: 'High',
+    MEDIUM: 'Medium',
+    LOW: 'Low',
+    high: 'high',
+    medium: 'medium',
+    low: 'low',
+  },
+}
+
+const COLORS = {
+  brandStart: '#667eea',
+  brandEnd: '#764ba2',
+  text: '#333333',
+  muted: '#6b7280',
+  border: '#e5e7eb',
+  panel: '#f9fafb',
+  human: '#28a745',
+  uncertain: '#ffc107',
+  ai: '#dc3545',
+}
+
+const SEVERITY_COLORS: Record<Indicator['severity'], string> = {
+  high: COLORS.ai,
+  medium: '#fd7e14',
+  low: COLORS.uncertain,
+}
+
+const MARGIN = 50
+const PAGE_WIDTH = 595.28 // A4
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+/**
+ * Render the PDF report for an analysis. Uses only the PDF standard fonts,
+ * so no network access or font files are needed.
+ */
+export function generateAnalysisReport(analysis: ReportAnalysis, options: ReportOptions = {}): Promise<Buffer> {
+  const language: ReportLanguage = analysis.language === 'en' ? 'en' : 'pt'
+  const labels = LABELS[language]
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margins: { top: MARGIN, bottom: MARGIN + 20, left: MARGIN, right: MARGIN },
+    bufferPages: true,
+    info: {
+      Title: `TrueCheckIA - ${labels.title}`,
+      Author: 'TrueCheckIA',
+      Subject: labels.subtitle,
+    },
+  })
+
+  const chunks: Buffer[] = []
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+  })
+
+  drawHeader(doc, labels, options)
+  drawScore(doc, analysis, labels)
+  drawIndicators(doc, analysis.indicators || [], labels)
+  drawSection(doc, labels.explanation)
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.text)
+    .text(toWinAnsi(analysis.explanation), { align: 'justify', lineGap: 2 })
+  drawExcerpt(doc, analysis, labels)
+  drawMetadata(doc, analysis, labels, language)
+  drawFooters(doc, labels)
+
+  doc.end()
+  return done
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, labels: Record<string, string>, options: ReportOptions): void {
+  const gradient = doc.linearGradient(0, 0, PAGE_WIDTH, 0)
+  gradient.stop(0, COLORS.brandStart).stop(1, COLORS.brandEnd)
+  doc.rect(0, 0, PAGE_WIDTH, 90).fill(gradient)
+
+  doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(22).text('TrueCheckIA', MARGIN, 25)
+  doc.font('Helvetica').fontSize(11).text(`${labels.title} · ${labels.subtitle}`, MARGIN, 55)
+
+  if (options.userName) {
+    doc.fontSize(9).text(`${labels.preparedFor}: ${toWinAnsi(options.userName)}`, MARGIN, 30, {
+      width: CONTENT_WIDTH,
+      align: 'right',
+    })
+  }
+
+  doc.x = MARGIN
+  doc.y = 115
+}
+
+function drawScore(doc: PDFKit.PDFDocument, analysis: ReportAnalysis, labels: Record<string, string>): void {
+  const top = doc.y
+  const score = Math.max(0, Math.min(100, Math.round(analysis.aiScore)))
+  const color = getScoreColor(score)
+  const cx = MARGIN + 110
+  const cy = top + 95
+  const radius = 80
+
+  // Semicircular gauge split into human / uncertain / AI bands
+  doc.lineWidth(16).lineCap('butt')
+  drawArc(doc, cx, cy, radius, 0, 40).stroke(COLORS.human)
+  drawArc(doc, cx, cy, radius, 40, 70).stroke(COLORS.uncertain)
+  drawArc(doc, cx, cy, radius, 70, 100).stroke(COLORS.ai)
+
+  // Needle
+  const angle = Math.PI * (1 - score / 100)
+  doc.lineWidth(3).lineCap('round')
+    .moveTo(cx, cy)
+    .lineTo(cx + Math.cos(angle) * (radius - 20), cy - Math.sin(angle) * (radius - 20))
+    .stroke(COLORS.text)
+  doc.circle(cx, cy, 5).fill(COLORS.text)
+
+  doc.font('Helvetica-Bold').fontSize(28).fillColor(color)
+    .text(`${score}%`, cx - 60, cy + 12, { width: 120, align: 'center' })
+  doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted)
+    .text(labels.aiProbability, cx - 60, cy + 44, { width: 120, align: 'center' })
+
+  // Summary panel next to the gauge
+  const panelX = MARGIN + 250
+  const panelWidth = CONTENT_WIDTH - 250
+  doc.roundedRect(panelX, top + 10, panelWidth, 140, 8).fill(COLORS.panel)
+
+  const rows: Array<[string, string, string]> = [
+    [labels.verdict, analysis.isAiGenerated ? labels.aiGenerated : labels.human, color],
+    [labels.confidence, labels[analysis.confidence] || analysis.confidence, COLORS.text],
+    [labels.aiProbability, `${score}%`, color],
+  ]
+  rows.forEach(([label, value, valueColor], index) => {
+    const y = top + 25 + index * 42
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(label, panelX + 15, y, { width: panelWidth - 30 })
+    doc.font('Helvetica-Bold').fontSize(13).fillColor(valueColor).text(value, panelX + 15, y + 13, { width: panelWidth - 30 })
+  })
+
+  doc.x = MARGIN
+  doc.y = top + 175
+}
+
+function drawIndicators(doc: PDFKit.PDFDocument, indicators: Indicator[], labels: Record<string, string>): void {
+  drawSection(doc, labels.indicators)
+
+  if (indicators.length === 0) {
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted).text(labels.noIndicators)
+    return
+  }
+
+  indicators.forEach(indicator => {
+    ensureSpace(doc, 30)
+    const y = doc.y
+    doc.circle(MARGIN + 4, y + 5, 4).fill(SEVERITY_COLORS[indicator.severity] || COLORS.muted)
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text)
+      .text(`${toWinAnsi(indicator.description)} `, MARGIN + 15, y, { width: CONTENT_WIDTH - 15, continued: true })
+      .font('Helvetica').fillColor(COLORS.muted)
+      .text(`(${labels[indicator.severity] || indicator.severity})`)
+    doc.moveDown(0.4)
+  })
+}
+
+function drawExcerpt(doc: PDFKit.PDFDocument, analysis: ReportAnalysis, labels: Record<string, string>): void {
+  const excerpt = analysis.text || ''
+  const parts = analysis.suspiciousParts || []
+  const inExcerpt = parts.filter(part =>
+    part.startIndex !== undefined && part.endIndex !== undefined && part.startIndex < excerpt.length
+  )
+  const truncated = analysis.charCount > excerpt.length
+
+  drawSection(doc, labels.excerpt)
+  doc.font('Helvetica-Oblique').fontSize(8).fillColor(COLORS.muted)
+    .text(truncated ? `${labels.excerptNote} ${labels.truncatedNote}` : labels.excerptNote)
+  doc.moveDown(0.5)
+
+  // Alternate plain and underlined runs; overlapping parts are merged
+  const ranges = inExcerpt
+    .map(part => [part.startIndex!, Math.min(part.endIndex!, excerpt.length)] as [number, number])
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Array<[number, number]>>((merged, range) => {
+      const last = merged[merged.length - 1]
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1])
+      } else {
+        merged.push([...range])
+      }
+      return merged
+    }, [])
+
+  const runs: Array<{ text: string; suspicious: boolean }> = []
+  let cursor = 0
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) runs.push({ text: excerpt.slice(cursor, start), suspicious: false })
+    runs.push({ text: excerpt.slice(start, end), suspicious: true })
+    cursor = end
+  })
+  if (cursor < excerpt.length) runs.push({ text: excerpt.slice(cursor), suspicious: false })
+  if (truncated && runs.length > 0) runs[runs.length - 1].text += '…'
+
+  doc.font('Helvetica').fontSize(10)
+  runs.forEach((run, index) => {
+    doc.font(run.suspicious ? 'Helvetica-Bold' : 'Helvetica')
+      .fillColor(run.suspicious ? COLORS.ai : COLORS.text)
+      .text(toWinAnsi(run.text), {
+        continued: index < runs.length - 1,
+        underline: run.suspicious,
+        lineGap: 2,
+      })
+  })
+
+  if (parts.length === 0) {
+    return
+  }
+
+  drawSection(doc, labels.suspiciousParts)
+  parts.forEach(part => {
+    ensureSpace(doc, 40)
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(getScoreColor(part.score))
+      .text(`${Math.round(part.score)}% `, { continued: true })
+      .font('Helvetica-Oblique').fillColor(COLORS.text)
+      .text(`"${toWinAnsi(part.text)}"`)
+    if (part.reason) {
+      doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(toWinAnsi(part.reason), { indent: 10 })
+    }
+    doc.moveDown(0.4)
+  })
+}
+
+function drawMetadata(
+  doc: PDFKit.PDFDocument,
+  analysis: ReportAnalysis,
+  labels: Record<string, string>,
+  language: ReportLanguage
+): void {
+  const metadata = analysis.metadata || {}
+  const rows: Array<[string, string]> = [
+    [labels.analysisId, analysis.id],
+    [labels.date, new Date(analysis.createdAt).toLocaleString(language === 'pt' ? 'pt-BR' : 'en-US', { timeZone: 'UTC' }) + ' UTC'],
+    [labels.language, analysis.language.toUpperCase()],
+    [labels.words, analysis.wordCount.toLocaleString(language === 'pt' ? 'pt-BR' : 'en-US')],
+    [labels.characters, analysis.charCount.toLocaleString(language === 'pt' ? 'pt-BR' : 'en-US')],
+  ]
+  if (analysis.modelUsed) rows.push([labels.model, analysis.modelUsed])
+  rows.push([labels.processingTime, `${(analysis.processingTime / 1000).toFixed(1)} s`])
+  if (metadata.fileName) rows.push([labels.file, String(metadata.fileName)])
+  if (metadata.pageCount) rows.push([labels.pages, String(metadata.pageCount)])
+
+  // Keep the section title together with its rows
+  ensureSpace(doc, rows.length * 16 + 60)
+  drawSection(doc, labels.metadata)
+
+  rows.forEach(([label, value]) => {
+    const y = doc.y
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(label, MARGIN, y, { width: 150 })
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.text).text(toWinAnsi(value), MARGIN + 150, y, { width: CONTENT_WIDTH - 150 })
+    doc.moveDown(0.3)
+  })
+  doc.x = MARGIN
+}
+
+function drawFooters(doc: PDFKit.PDFDocument, labels: Record<string, string>): void {
+  const range = doc.bufferedPageRange()
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i)
+    const y = doc.page.height - MARGIN
+    // Drawing inside the bottom margin would otherwise add a page
+    const bottom = doc.page.margins.bottom
+    doc.page.margins.bottom = 0
+    doc.moveTo(MARGIN, y - 8).lineTo(PAGE_WIDTH - MARGIN, y - 8).lineWidth(0.5).stroke(COLORS.border)
+    doc.font('Helvetica').fontSize(7).fillColor(COLORS.muted)
+      .text(labels.disclaimer, MARGIN, y, { width: CONTENT_WIDTH - 60, lineBreak: false })
+      .text(`${labels.page} ${i - range.start + 1}/${range.count}`, MARGIN, y, { width: CONTENT_WIDTH, align: 'right' })
+    doc.page.margins.bottom = bottom
+  }
+}
+
+function drawSection(doc: PDFKit.PDFDocument, title: string): void {
+  ensureSpace(doc, 50)
+  doc.moveDown(1)
+  doc.x = MARGIN
+  doc.font('Helvetica-Bold').fontSize(13).fillColor(COLORS.brandEnd).text(title)
+  doc.moveTo(MARGIN, doc.y + 2).lineTo(MARGIN + CONTENT_WIDTH, doc.y + 2).lineWidth(1).stroke(COLORS.border)
+  doc.moveDown(0.6)
+}
+
+function ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage()
+  }
+}
+
+// Arc of the gauge between two scores (0 at the left end, 100 at the right)
+function drawArc(doc: PDFKit.PDFDocument, cx: number, cy: number, radius: number, from: number, to: number) {
+  const point = (score: number) => {
+    const angle = Math.PI * (1 - score / 100)
+    return `${cx + Math.cos(angle) * radius} ${cy - Math.sin(angle) * radius}`
+  }
+  return doc.path(`M ${point(from)} A ${radius} ${radius} 0 0 1 ${point(to)}`)
+}
+
+function getScoreColor(score: number): string {
+  if (score > 70) return COLORS.ai
+  if (score > 40) return COLORS.uncertain
+  return COLORS.human
+}
+
+// The standard PDF fonts only cover WinAnsi; replace anything else
+function toWinAnsi(text: string): string {
+  return text.replace(
+    /[^\t\n\r\u0020-\u007E\u00A0-\u00FF\u0152\u0153\u0160\u0161\u0178\u017D\u017E\u0192\u02C6\u02DC\u2013\u2014\u2018-\u201A\u201C-\u201E\u2020-\u2022\u2026\u2030\u2039\u203A\u20AC\u2122]/gu,
+    '?'
+  )
+}
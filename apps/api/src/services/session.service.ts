@@ -0,0 +1,361 @@
+import { createHash, randomUUID } from 'crypto'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import type { JWTPayload, SessionInfo, UserStatus } from '@truecheckia/types'
+import { generateTokens } from '../lib/jwt.utils'
+import { isAccountBlocked } from './account-status.service'
+
+// How stale lastSeenAt may get before a request updates it
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000
+
+export type RevokeReason =
+  | 'rotated'
+  | 'logout'
+  | 'logout_all'
+  | 'revoked'
+  | 'reuse_detected'
+  | 'password_changed'
+  | 'password_reset'
+  | 'suspended'
+
+export interface SessionContext {
+  ipAddress?: string
+  userAgent?: string
+  location?: string
+}
+
+export interface SessionTokens {
+  accessToken: string
+  refreshToken: string
+}
+
+export type RotationResult =
+  | { status: 'rotated'; tokens: SessionTokens }
+  | { status: 'reused'; userId: string }
+  | { status: 'blocked'; user: { status: UserStatus; statusExpiresAt: Date | null } }
+  | { status: 'invalid' }
+
+interface TokenUser {
+  id: string
+  email: string
+  role?: string
+  plan?: string
+}
+
+export interface SessionRecord {
+  id: string
+  device: string | null
+  userAgent: string | null
+  ipAddress: string | null
+  location: string | null
+  createdAt: Date
+  lastSeenAt: Date
+}
+
+export function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/PostmanRuntime\//, 'Postman'],
+  [/curl\//, 'curl'],
+]
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+]
+
+/**
+ * Short label for a user agent, e.g. "Chrome on Windows".
+ */
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+
+  if (browser && system) return `${browser} on ${system}`
+  return browser || system || 'Unknown device'
+}
+
+/**
+ * Approximate location from the geo headers added by the edge network
+ * (Vercel or Cloudflare). Undefined when none are present, e.g. locally.
+ */
+export function describeLocation(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const header = (name: string) => {
+    const value = headers[name]
+    return Array.isArray(value) ? value[0] : value
+  }
+
+  const country = header('x-vercel-ip-country') || header('cf-ipcountry')
+  if (!country || country === 'XX') return undefined
+
+  const city = header('x-vercel-ip-city')
+  if (!city) return country
+
+  try {
+    return `${decodeURIComponent(city)}, ${country}`
+  } catch {
+    return country
+  }
+}
+
+export function serializeSession(session: SessionRecord, currentSessionId?: string): SessionInfo {
+  return {
+    id: session.id,
+    device: session.device ?? describeDevice(session.userAgent ?? undefined),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    location: session.location,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentSessionId,
+  }
+}
+
+function tokenExpiry(refreshToken: string): Date {
+  const { exp } = jwt.decode(refreshToken) as JWTPayload & { exp: number }
+  return new Date(exp * 1000)
+}
+
+function storeRefreshToken(userId: string, sessionId: string, refreshToken: string) {
+  return prisma.refreshToken.create({
+    data: {
+      userId,
+      familyId: sessionId,
+      tokenHash: hashRefreshToken(refreshToken),
+      expiresAt: tokenExpiry(refreshToken),
+    },
+  })
+}
+
+/**
+ * Start a session for a user who just signed in and return its tokens.
+ */
+export async function createSession(user: TokenUser, context: SessionContext = {}): Promise<SessionTokens> {
+  const sessionId = randomUUID()
+  const tokens = generateTokens(user, { sessionId })
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      userAgent: context.userAgent?.slice(0, 500),
+      device: describeDevice(context.userAgent),
+      ipAddress: context.ipAddress,
+      location: context.location,
+      expiresAt: tokenExpiry(tokens.refreshToken),
+    },
+  })
+  await storeRefreshToken(user.id, sessionId, tokens.refreshToken)
+
+  return tokens
+}
+
+async function revokeSessions(where: Record<string, unknown>, reason: RevokeReason): Promise<number> {
+  const revokedAt = new Date()
+
+  const sessions = await prisma.session.findMany({
+    where: { ...where, revokedAt: null },
+    select: { id: true },
+  })
+  if (sessions.length === 0) return 0
+
+  const ids = sessions.map(session => session.id)
+  await prisma.$transaction([
+    prisma.session.updateMany({
+      where: { id: { in: ids }, revokedAt: null },
+      data: { revokedAt, revokedReason: reason },
+    }),
+    prisma.refreshToken.updateMany({
+      where: { familyId: { in: ids }, revokedAt: null },
+      data: { revokedAt, revokedReason: reason },
+    }),
+  ])
+
+  return ids.length
+}
+
+export async function revokeSession(sessionId: string, reason: RevokeReason): Promise<number> {
+  return revokeSessions({ id: sessionId }, reason)
+}
+
+/**
+ * Revoke one of the user's own sessions. False if it isn't theirs or is
+ * already gone.
+ */
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+  return (await revokeSessions({ id: sessionId, userId }, 'revoked')) > 0
+}
+
+/**
+ * Revoke every session of a user, optionally keeping the one making the
+ * request (e.g. after a password change).
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: RevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  return revokeSessions(
+    {
+      userId,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    reason
+  )
+}
+
+/**
+ * Exchange a refresh token for a new pair. Each refresh token works once;
+ * presenting one that was already rotated means it leaked, so the whole
+ * session is revoked.
+ */
+export async function rotateRefreshToken(refreshToken: string, context: SessionContext = {}): Promise<RotationResult> {
+  let payload: JWTPayload & { iat: number }
+  try {
+    payload = jwt.verify(refreshToken, config.auth.refreshSecret) as JWTPayload & { iat: number }
+  } catch {
+    return { status: 'invalid' }
+  }
+
+  const record = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshToken) },
+    include: {
+      user: { select: { id: true, email: true, role: true, plan: true, status: true, statusExpiresAt: true } },
+    },
+  })
+
+  if (!record) {
+    return { status: 'invalid' }
+  }
+
+  if (record.revokedAt) {
+    if (record.revokedReason !== 'rotated') {
+      return { status: 'invalid' }
+    }
+
+    await revokeSession(record.familyId, 'reuse_detected')
+    return { status: 'reused', userId: record.userId }
+  }
+
+  // Suspended and banned accounts can't renew their tokens
+  if (isAccountBlocked(record.user)) {
+    return { status: 'blocked', user: record.user }
+  }
+
+  // Claim the token atomically so two concurrent refreshes can't both succeed
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: record.id, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: 'rotated' },
+  })
+
+  if (claimed.count === 0) {
+    await revokeSession(record.familyId, 'reuse_detected')
+    return { status: 'reused', userId: record.userId }
+  }
+
+  const tokens = generateTokens(record.user, {
+    sessionId: record.familyId,
+    authTime: payload.authTime ?? payload.iat,
+  })
+  const next = await storeRefreshToken(record.userId, record.familyId, tokens.refreshToken)
+
+  await prisma.$transaction([
+    prisma.refreshToken.update({
+      where: { id: record.id },
+      data: { replacedById: next.id },
+    }),
+    prisma.session.update({
+      where: { id: record.familyId },
+      data: {
+        expiresAt: next.expiresAt,
+        lastSeenAt: new Date(),
+        ...(context.ipAddress && { ipAddress: context.ipAddress, location: context.location ?? null }),
+      },
+    }),
+  ])
+
+  return { status: 'rotated', tokens }
+}
+
+/**
+ * Session a refresh token belongs to, if it is one we issued.
+ */
+export async function findSessionId(refreshToken: string): Promise<string | null> {
+  const record = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshToken) },
+    select: { familyId: true },
+  })
+
+  return record?.familyId ?? null
+}
+
+/**
+ * Whether an access token's session is still live. Also records when the
+ * session was last seen, at most every few minutes.
+ */
+export async function isSessionActive(userId: string, sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId) return false
+
+  const now = new Date()
+  const session = await prisma.session.findFirst({
+    where: {
+      id: sessionId,
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: now },
+    },
+    select: { lastSeenAt: true },
+  })
+
+  if (!session) return false
+
+  if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+    prisma.session.update({
+      where: { id: sessionId },
+      data: { lastSeenAt: now },
+    }).catch(error => console.error('Failed to update session last seen:', error))
+  }
+
+  return true
+}
+
+export async function listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  })
+
+  return sessions.map(session => serializeSession(session, currentSessionId))
+}
+
+/**
+ * Delete sessions past their expiry, with their refresh tokens (called by
+ * cron). Revoked sessions are kept until then so reuse can still be detected.
+ */
+export async function cleanExpiredSessions(): Promise<{ deleted: number }> {
+  const result = await prisma.session.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  })
+
+  return { deleted: result.count }
+}
@@ -0,0 +1,87 @@
+import { randomBytes } from 'crypto'
+import { config } from '@truecheckia/config'
+import type { Indicator, SharedAnalysisView } from '@truecheckia/types'
+
+export type ShareState = 'ACTIVE' | 'EXPIRED' | 'REVOKED'
+
+export interface ShareRecord {
+  id: string
+  token: string
+  passwordHash?: string | null
+  expiresAt?: Date | null
+  revokedAt?: Date | null
+  viewCount: number
+  lastViewedAt?: Date | null
+  createdAt: Date
+}
+
+export interface SharedAnalysisSource {
+  aiScore: number
+  confidence: 'HIGH' | 'MEDIUM' | 'LOW'
+  isAiGenerated: boolean
+  indicators: unknown
+  explanation: string
+  language: string
+  wordCount: number
+  charCount: number
+  suspiciousParts: unknown
+  createdAt: Date
+}
+
+/**
+ * 32 random bytes, base64url encoded, so links cannot be enumerated.
+ */
+export function generateShareToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function getShareState(share: Pick<ShareRecord, 'expiresAt' | 'revokedAt'>, now = new Date()): ShareState {
+  if (share.revokedAt) return 'REVOKED'
+  if (share.expiresAt && share.expiresAt.getTime() <= now.getTime()) return 'EXPIRED'
+  return 'ACTIVE'
+}
+
+export function buildShareUrl(token: string): string {
+  return `${config.frontend.url}/share/${token}`
+}
+
+/**
+ * Owner-facing description of a share. The password hash never leaves the API.
+ */
+export function serializeShare(share: ShareRecord & { analysisId: string }, now = new Date()) {
+  return {
+    id: share.id,
+    analysisId: share.analysisId,
+    url: buildShareUrl(share.token),
+    status: getShareState(share, now),
+    hasPassword: Boolean(share.passwordHash),
+    expiresAt: share.expiresAt ?? null,
+    revokedAt: share.revokedAt ?? null,
+    viewCount: share.viewCount,
+    lastViewedAt: share.lastViewedAt ?? null,
+    createdAt: share.createdAt,
+  }
+}
+
+/**
+ * Redact an analysis for public viewing: the verdict stays, the analyzed
+ * text and the passages quoted from it do not.
+ */
+export function toSharedView(analysis: SharedAnalysisSource, expiresAt: Date | null = null): SharedAnalysisView {
+  const indicators = Array.isArray(analysis.indicators) ? (analysis.indicators as Indicator[]) : []
+  const suspiciousParts = Array.isArray(analysis.suspiciousParts) ? analysis.suspiciousParts : []
+
+  return {
+    aiScore: analysis.aiScore,
+    confidence: analysis.confidence,
+    isAiGenerated: analysis.isAiGenerated,
+    indicators: indicators.map(({ type, description, severity }) => ({ type, description, severity })),
+    explanation: analysis.explanation,
+    language: analysis.language,
+    wordCount: analysis.wordCount,
+    charCount: analysis.charCount,
+    suspiciousPartsCount: suspiciousParts.length,
+    analyzedAt: analysis.createdAt,
+    expiresAt,
+  }
+}
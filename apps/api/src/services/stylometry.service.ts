@@ -0,0 +1,210 @@
+import type { StylometryMetrics } from '@truecheckia/types'
+
+// Below this many sentences the statistics are too noisy to be used
+export const MIN_RELIABLE_SENTENCES = 3
+
+// Indicators whose presence is decided by these metrics, not by the LLM
+export const STYLOMETRY_INDICATORS = ['low_burstiness', 'excessive_commas', 'uniform_structure']
+
+// Average commas per sentence in human-written prose
+const COMMA_BASELINE: Record<string, number> = {
+  pt: 1.1,
+  en: 0.9,
+}
+
+const ABBREVIATIONS: Record<string, string[]> = {
+  pt: ['sr', 'sra', 'srta', 'dr', 'dra', 'prof', 'profa', 'etc', 'ex', 'p', 'pág', 'av', 'nº', 'obs'],
+  en: ['mr', 'mrs', 'ms', 'dr', 'prof', 'etc', 'e.g', 'i.e', 'vs', 'no', 'fig', 'st', 'jr', 'sr'],
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu
+
+export interface SentenceSpan {
+  text: string
+  startIndex: number
+  endIndex: number
+}
+
+/**
+ * Segment text into sentences with character offsets into the original
+ * string, keeping common pt/en abbreviations intact.
+ */
+export function segmentSentences(text: string, language: string = 'pt'): SentenceSpan[] {
+  const abbreviations = ABBREVIATIONS[language] || ABBREVIATIONS.en
+  const boundary = /[.!?…]+["'”’)\]]*(?=\s|$)|\n\s*\n/g
+  const spans: SentenceSpan[] = []
+  let start = 0
+  let match: RegExpExecArray | null
+
+  while ((match = boundary.exec(text))) {
+    const end = match.index + match[0].length
+    if (match[0] === '.') {
+      const lastWord = text.slice(start, match.index).trim().split(/\s+/).pop()?.toLowerCase()
+      if (lastWord && abbreviations.includes(lastWord)) continue
+    }
+    pushSpan(spans, text, start, end)
+    start = end
+  }
+  pushSpan(spans, text, start, text.length)
+
+  return spans
+}
+
+export function splitSentences(text: string, language: string = 'pt'): string[] {
+  return segmentSentences(text, language).map(span => span.text)
+}
+
+export function tokenizeWords(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(word => word.toLowerCase())
+}
+
+/**
+ * Compute deterministic stylometry metrics for a text.
+ * These are the statistics the detection prompt asks the LLM to estimate:
+ * sentence length variation, comma rate and paragraph length variation.
+ */
+export function computeStylometry(text: string, language: string = 'pt'): StylometryMetrics {
+  const sentences = splitSentences(text, language)
+  const paragraphs = text.split(/\n\s*\n/).filter(paragraph => paragraph.trim())
+  const words = tokenizeWords(text)
+
+  const sentenceLengths = sentences
+    .map(sentence => tokenizeWords(sentence).length)
+    .filter(length => length > 0)
+  const meanSentenceLength = mean(sentenceLengths)
+  const sentenceLengthStdDev = standardDeviation(sentenceLengths)
+
+  const commas = (text.match(/[,;]/g) || []).length
+  const punctuation = (text.match(/[,;:!?…()"“”—–-]/g) || []).length
+
+  const metrics: Omit<StylometryMetrics, 'score'> = {
+    sentenceCount: sentences.length,
+    paragraphCount: paragraphs.length,
+    meanSentenceLength: round(meanSentenceLength),
+    sentenceLengthStdDev: round(sentenceLengthStdDev),
+    burstiness: round(meanSentenceLength ? sentenceLengthStdDev / meanSentenceLength : 0),
+    paragraphLengthCV: round(coefficientOfVariation(paragraphs.map(p => tokenizeWords(p).length))),
+    commasPerSentence: round(commas / Math.max(sentences.length, 1)),
+    punctuationPer100Words: round((punctuation / Math.max(words.length, 1)) * 100),
+    typeTokenRatio: round(new Set(words).size / Math.max(words.length, 1)),
+    perplexityProxy: round(normalisedEntropy(words)),
+  }
+
+  return { ...metrics, score: scoreMetrics(metrics, language) }
+}
+
+/**
+ * Indicator keys backed by the metrics, using the thresholds from the
+ * detection prompt (humans vary sentence length 30-50%, paragraph CV < 0.3
+ * is likely AI, AI uses ~40% more commas).
+ */
+export function getStylometryIndicators(metrics: StylometryMetrics, language: string = 'pt'): string[] {
+  const indicators: string[] = []
+
+  if (metrics.sentenceCount < MIN_RELIABLE_SENTENCES) {
+    return indicators
+  }
+
+  if (metrics.burstiness < 0.3 || metrics.sentenceLengthStdDev < 4) {
+    indicators.push('low_burstiness')
+  }
+  if (metrics.commasPerSentence > commaBaseline(language) * 1.4) {
+    indicators.push('excessive_commas')
+  }
+  if (metrics.paragraphCount >= 3 && metrics.paragraphLengthCV < 0.3) {
+    indicators.push('uniform_structure')
+  }
+
+  return indicators
+}
+
+/**
+ * Short human-readable value shown next to a metric-backed indicator.
+ */
+export function describeStylometryIndicator(type: string, metrics: StylometryMetrics): string | null {
+  switch (type) {
+    case 'low_burstiness':
+      return `CV ${metrics.burstiness.toFixed(2)}, σ ${metrics.sentenceLengthStdDev.toFixed(1)}`
+    case 'excessive_commas':
+      return `${metrics.commasPerSentence.toFixed(2)}/sentence`
+    case 'uniform_structure':
+      return `CV ${metrics.paragraphLengthCV.toFixed(2)}`
+    default:
+      return null
+  }
+}
+
+function scoreMetrics(metrics: Omit<StylometryMetrics, 'score'>, language: string): number {
+  const baseline = commaBaseline(language)
+
+  const signals: Array<{ value: number; weight: number }> = [
+    { value: clamp((0.55 - metrics.burstiness) / 0.4), weight: 0.45 },
+    { value: clamp((metrics.commasPerSentence - baseline) / baseline), weight: 0.25 },
+    { value: clamp((0.92 - metrics.perplexityProxy) / 0.15), weight: 0.15 },
+  ]
+
+  // Paragraph uniformity is meaningless for one or two paragraphs
+  if (metrics.paragraphCount >= 3) {
+    signals.push({ value: clamp((0.5 - metrics.paragraphLengthCV) / 0.3), weight: 0.15 })
+  }
+
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0)
+  const score = signals.reduce((sum, signal) => sum + signal.value * signal.weight, 0) / totalWeight
+
+  return Math.round(score * 100)
+}
+
+export function commaBaseline(language: string): number {
+  return COMMA_BASELINE[language] || COMMA_BASELINE.en
+}
+
+// Shannon entropy of the word distribution divided by its maximum
+function normalisedEntropy(words: string[]): number {
+  if (words.length < 2) return 1
+
+  const counts = new Map<string, number>()
+  words.forEach(word => counts.set(word, (counts.get(word) || 0) + 1))
+  if (counts.size < 2) return 0
+
+  let entropy = 0
+  counts.forEach(count => {
+    const probability = count / words.length
+    entropy -= probability * Math.log2(probability)
+  })
+
+  return entropy / Math.log2(words.length)
+}
+
+// Add the trimmed [start, end) slice of text, skipping blank ones
+function pushSpan(spans: SentenceSpan[], text: string, start: number, end: number): void {
+  const slice = text.slice(start, end)
+  const trimmed = slice.trim()
+  if (!trimmed) return
+
+  const startIndex = start + slice.indexOf(trimmed)
+  spans.push({ text: trimmed, startIndex, endIndex: startIndex + trimmed.length })
+}
+
+export function coefficientOfVariation(values: number[]): number {
+  const average = mean(values)
+  return average ? standardDeviation(values) / average : 0
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length)
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
@@ -0,0 +1,234 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomInt } from 'crypto'
+import jwt from 'jsonwebtoken'
+import QRCode from 'qrcode'
+import { prisma } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../lib/totp'
+
+// Unambiguous characters only (no 0/o, 1/l/i)
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+const MFA_TOKEN_AUDIENCE = 'mfa'
+
+export type SecondFactorMethod = 'totp' | 'recovery_code'
+
+export type EnrollmentStart =
+  | { status: 'started'; secret: string; otpauthUrl: string; qrCode: string }
+  | { status: 'already_enabled' }
+
+export type EnrollmentResult =
+  | { status: 'enabled'; recoveryCodes: string[] }
+  | { status: 'not_started' }
+  | { status: 'invalid_code' }
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+function encryptionKey(): Buffer {
+  return createHash('sha256').update(config.auth.mfa.encryptionKey).digest()
+}
+
+export function encryptSecret(secret: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64url'))
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv)
+  decipher.setAuthTag(tag)
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+export function generateRecoveryCodes(count = config.auth.mfa.recoveryCodeCount): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)])
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+  })
+}
+
+/**
+ * Hash a recovery code for storage. Case and separators are ignored so codes
+ * can be typed loosely.
+ */
+export function hashRecoveryCode(userId: string, code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '')
+  return createHash('sha256').update(`${userId}:${normalized}`).digest('hex')
+}
+
+export function isTwoFactorRequired(role: string | undefined): boolean {
+  return !!role && config.auth.mfa.requiredRoles.includes(role)
+}
+
+/**
+ * Short-lived token proving the password step of a sign-in succeeded.
+ * It can't be used as an access token: it carries no session.
+ */
+export function createMfaToken(userId: string): string {
+  return jwt.sign({ userId }, config.auth.jwtSecret, {
+    audience: MFA_TOKEN_AUDIENCE,
+    expiresIn: config.auth.mfa.challengeExpiresIn as jwt.SignOptions['expiresIn'],
+  })
+}
+
+export function verifyMfaToken(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, config.auth.jwtSecret, { audience: MFA_TOKEN_AUDIENCE }) as { userId: string }
+    return payload.userId
+  } catch {
+    return null
+  }
+}
+
+function storeRecoveryCodes(userId: string, codes: string[]) {
+  return [
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(userId, code) })),
+    }),
+  ]
+}
+
+/**
+ * Generate a secret for the user to add to their authenticator app. 2FA
+ * stays off until a code from the app is confirmed.
+ */
+export async function startEnrollment(userId: string): Promise<EnrollmentStart> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, twoFactorEnabled: true },
+  })
+
+  if (user.twoFactorEnabled) {
+    return { status: 'already_enabled' }
+  }
+
+  const secret = generateTotpSecret()
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+  })
+
+  const otpauthUrl = buildOtpauthUri(secret, user.email, config.auth.mfa.issuer)
+  const qrCode = await QRCode.toDataURL(otpauthUrl)
+
+  return { status: 'started', secret, otpauthUrl, qrCode }
+}
+
+export async function confirmEnrollment(userId: string, code: string): Promise<EnrollmentResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true },
+  })
+
+  if (user.twoFactorEnabled || !user.twoFactorSecret) {
+    return { status: 'not_started' }
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code)
+  if (step === null) {
+    return { status: 'invalid_code' }
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastStep: step,
+      },
+    }),
+    ...storeRecoveryCodes(userId, recoveryCodes),
+  ])
+
+  return { status: 'enabled', recoveryCodes }
+}
+
+/**
+ * Check a code from the authenticator app or an unused recovery code.
+ * Either can only be used once.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<SecondFactorMethod | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true },
+  })
+
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+    return null
+  }
+
+  if (/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code)
+    if (step === null) return null
+
+    const accepted = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    })
+
+    return accepted.count === 1 ? 'totp' : null
+  }
+
+  const used = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(userId, code), usedAt: null },
+    data: { usedAt: new Date() },
+  })
+
+  return used.count === 1 ? 'recovery_code' : null
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes()
+  await prisma.$transaction(storeRecoveryCodes(userId, recoveryCodes))
+
+  return recoveryCodes
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null,
+      },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+  ])
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true },
+  })
+
+  return !!user?.twoFactorEnabled
+}
+
+export async function getTwoFactorStatus(userId: string, role: string | undefined): Promise<TwoFactorStatus> {
+  const [enabled, recoveryCodesRemaining] = await Promise.all([
+    isTwoFactorEnabled(userId),
+    prisma.recoveryCode.count({ where: { userId, usedAt: null } }),
+  ])
+
+  return {
+    enabled,
+    required: isTwoFactorRequired(role),
+    recoveryCodesRemaining,
+  }
+}
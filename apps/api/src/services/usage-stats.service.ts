@@ -0,0 +1,295 @@
+import { prisma, type DailyStats } from '@truecheckia/database'
+import type { AdminMetricsQuery, MetricsGranularity } from '@truecheckia/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Audit actions that mark a sign-in; unlike Session rows they are never deleted
+const SIGN_IN_ACTIONS = ['auth.login', 'auth.registered']
+const DEFAULT_RANGE_DAYS = 30
+// Longest range one metrics request may cover
+export const MAX_METRICS_RANGE_DAYS = 731
+
+export interface DailyStatsValues {
+  analyses: number
+  cachedAnalyses: number
+  aiAnalyses: number
+  humanAnalyses: number
+  byLanguage: Record<string, number>
+  byPlan: Record<string, number>
+  signups: number
+  activeUsers: number
+  apiCalls: number
+  apiErrors: number
+  apiLatencyP50: number | null
+  apiLatencyP95: number | null
+}
+
+export interface MetricsPoint extends DailyStatsValues {
+  period: string // first day of the period, YYYY-MM-DD
+  days: number // days in the period that have been rolled up
+}
+
+export type MetricsRange =
+  | { status: 'ok'; from: Date; to: Date; granularity: MetricsGranularity }
+  | { status: 'invalid'; message: string }
+
+/**
+ * Midnight UTC of the day containing `date`.
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+export function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function countBy<T>(rows: T[], key: (row: T) => string, count: (row: T) => number): Record<string, number> {
+  const counts = {}
+  for (const row of rows) {
+    counts[key(row)] = (counts[key(row)] || 0) + count(row)
+  }
+  return counts
+}
+
+/**
+ * Nearest-rank percentile of API response times, read one row at a time
+ * rather than loading the whole day.
+ */
+async function apiLatencyPercentile(where, total: number, percentile: number): Promise<number | null> {
+  if (total === 0) return null
+
+  const [row] = await prisma.apiUsage.findMany({
+    where,
+    select: { responseTime: true },
+    orderBy: { responseTime: 'asc' },
+    skip: Math.max(0, Math.ceil(percentile * total) - 1),
+    take: 1,
+  })
+  return row?.responseTime ?? null
+}
+
+/**
+ * Compute one UTC day from the raw tables and store it. Running a day again
+ * replaces its row, so late writes are picked up by re-running it.
+ */
+export async function rollupDailyStats(day: Date): Promise<DailyStatsValues> {
+  const date = startOfUtcDay(day)
+  const createdAt = { gte: date, lt: new Date(date.getTime() + DAY_MS) }
+  const apiWhere = { createdAt }
+
+  const [
+    analyses,
+    cachedAnalyses,
+    aiAnalyses,
+    languages,
+    analysisUsers,
+    apiUsers,
+    signInUsers,
+    signups,
+    apiCalls,
+    apiErrors,
+  ] = await Promise.all([
+    prisma.analysis.count({ where: { createdAt } }),
+    prisma.analysis.count({ where: { createdAt, cached: true } }),
+    prisma.analysis.count({ where: { createdAt, isAiGenerated: true } }),
+    prisma.analysis.groupBy({ by: ['language'], where: { createdAt }, _count: { _all: true } }),
+    prisma.analysis.groupBy({ by: ['userId'], where: { createdAt }, _count: { _all: true } }),
+    prisma.apiUsage.groupBy({ by: ['userId'], where: apiWhere }),
+    prisma.auditEvent.groupBy({
+      by: ['actorId'],
+      where: { createdAt, action: { in: SIGN_IN_ACTIONS }, actorId: { not: null } },
+    }),
+    prisma.user.count({ where: { createdAt } }),
+    prisma.apiUsage.count({ where: apiWhere }),
+    prisma.apiUsage.count({ where: { ...apiWhere, statusCode: { gte: 400 } } }),
+  ])
+
+  const plans = await prisma.user.findMany({
+    where: { id: { in: analysisUsers.map(row => row.userId) } },
+    select: { id: true, plan: true },
+  })
+  const planByUser = new Map(plans.map(user => [user.id, user.plan]))
+
+  const [apiLatencyP50, apiLatencyP95] = await Promise.all([
+    apiLatencyPercentile(apiWhere, apiCalls, 0.5),
+    apiLatencyPercentile(apiWhere, apiCalls, 0.95),
+  ])
+
+  const values: DailyStatsValues = {
+    analyses,
+    cachedAnalyses,
+    aiAnalyses,
+    humanAnalyses: analyses - aiAnalyses,
+    byLanguage: countBy(languages, row => row.language, row => row._count._all),
+    // Plans are read when the day is rolled up, so re-running an old day
+    // counts analyses under the users' current plans. Users deleted since
+    // the analysis no longer have a plan.
+    byPlan: countBy(analysisUsers, row => planByUser.get(row.userId) ?? 'DELETED', row => row._count._all),
+    signups,
+    activeUsers: new Set([
+      ...analysisUsers.map(row => row.userId),
+      ...apiUsers.map(row => row.userId),
+      ...signInUsers.map(row => row.actorId),
+    ]).size,
+    apiCalls,
+    apiErrors,
+    apiLatencyP50,
+    apiLatencyP95,
+  }
+
+  await prisma.dailyStats.upsert({
+    where: { date },
+    create: { date, ...values },
+    update: values,
+  })
+
+  return values
+}
+
+/**
+ * Roll up every day from `from` to `to`, both included, oldest first.
+ */
+export async function rollupDailyStatsRange(
+  from: Date,
+  to: Date,
+  onDay?: (day: Date) => void
+): Promise<{ days: number }> {
+  let days = 0
+  for (let day = startOfUtcDay(from); day <= startOfUtcDay(to); day = new Date(day.getTime() + DAY_MS)) {
+    await rollupDailyStats(day)
+    onDay?.(day)
+    days++
+  }
+  return { days }
+}
+
+/**
+ * Check and fill in the query's range. Without dates it covers the 30 days
+ * up to yesterday, the last complete day.
+ */
+export function resolveMetricsRange(query: AdminMetricsQuery, now = new Date()): MetricsRange {
+  const to = startOfUtcDay(query.to ?? new Date(now.getTime() - DAY_MS))
+  const from = startOfUtcDay(query.from ?? new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS))
+
+  if (from > to) {
+    return { status: 'invalid', message: '"from" must not be after "to"' }
+  }
+
+  if ((to.getTime() - from.getTime()) / DAY_MS + 1 > MAX_METRICS_RANGE_DAYS) {
+    return { status: 'invalid', message: `The range can cover at most ${MAX_METRICS_RANGE_DAYS} days` }
+  }
+
+  return { status: 'ok', from, to, granularity: query.granularity ?? 'day' }
+}
+
+/**
+ * First day of the week (Monday) or month containing `date`.
+ */
+export function periodStart(date: Date, granularity: MetricsGranularity): Date {
+  if (granularity === 'month') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+  }
+  if (granularity === 'week') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7
+    return new Date(startOfUtcDay(date).getTime() - daysSinceMonday * DAY_MS)
+  }
+  return startOfUtcDay(date)
+}
+
+function addCounts(target: Record<string, number>, source: Record<string, number>) {
+  for (const [key, count] of Object.entries(source || {})) {
+    target[key] = (target[key] || 0) + count
+  }
+}
+
+/**
+ * Merge daily rows into one point. Counts are summed; active users are the
+ * daily average, since the same user is active on many days; latencies are
+ * averaged weighted by API calls, an approximation of the real percentiles.
+ */
+export function mergeDailyStats(period: string, rows: DailyStatsValues[]): MetricsPoint {
+  const point: MetricsPoint = {
+    period,
+    days: rows.length,
+    analyses: 0,
+    cachedAnalyses: 0,
+    aiAnalyses: 0,
+    humanAnalyses: 0,
+    byLanguage: {},
+    byPlan: {},
+    signups: 0,
+    activeUsers: 0,
+    apiCalls: 0,
+    apiErrors: 0,
+    apiLatencyP50: null,
+    apiLatencyP95: null,
+  }
+
+  let latencyP50 = 0
+  let latencyP95 = 0
+  let timedCalls = 0
+
+  for (const row of rows) {
+    point.analyses += row.analyses
+    point.cachedAnalyses += row.cachedAnalyses
+    point.aiAnalyses += row.aiAnalyses
+    point.humanAnalyses += row.humanAnalyses
+    addCounts(point.byLanguage, row.byLanguage)
+    addCounts(point.byPlan, row.byPlan)
+    point.signups += row.signups
+    point.activeUsers += row.activeUsers
+    point.apiCalls += row.apiCalls
+    point.apiErrors += row.apiErrors
+
+    if (row.apiCalls > 0 && row.apiLatencyP50 !== null && row.apiLatencyP95 !== null) {
+      latencyP50 += row.apiLatencyP50 * row.apiCalls
+      latencyP95 += row.apiLatencyP95 * row.apiCalls
+      timedCalls += row.apiCalls
+    }
+  }
+
+  if (rows.length > 0) {
+    point.activeUsers = Math.round(point.activeUsers / rows.length)
+  }
+  if (timedCalls > 0) {
+    point.apiLatencyP50 = Math.round(latencyP50 / timedCalls)
+    point.apiLatencyP95 = Math.round(latencyP95 / timedCalls)
+  }
+
+  return point
+}
+
+// The JSON columns hold what rollupDailyStats wrote
+function toDailyStatsValues(row: DailyStats): DailyStatsValues {
+  return {
+    ...row,
+    byLanguage: row.byLanguage as Record<string, number>,
+    byPlan: row.byPlan as Record<string, number>,
+  }
+}
+
+/**
+ * Chart series from the rollups, one point per period. Periods without any
+ * rolled-up day are left out.
+ */
+export async function getUsageMetrics(from: Date, to: Date, granularity: MetricsGranularity) {
+  const rows = await prisma.dailyStats.findMany({
+    where: { date: { gte: from, lte: to } },
+    orderBy: { date: 'asc' },
+  })
+
+  const periods = new Map<string, DailyStatsValues[]>()
+  for (const row of rows) {
+    const period = formatDay(periodStart(row.date, granularity))
+    if (!periods.has(period)) periods.set(period, [])
+    periods.get(period).push(toDailyStatsValues(row))
+  }
+
+  return {
+    from: formatDay(from),
+    to: formatDay(to),
+    granularity,
+    series: [...periods].map(([period, days]) => mergeDailyStats(period, days)),
+    totals: mergeDailyStats(formatDay(from), rows.map(toDailyStatsValues)),
+  }
+}
@@ -0,0 +1,294 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { lookup, type LookupAddress } from 'dns'
+import http from 'http'
+import https from 'https'
+import { BlockList, isIP, type LookupFunction } from 'net'
+import { prisma, type WebhookDeliveryStatus } from '@truecheckia/database'
+import { config } from '@truecheckia/config'
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-TrueCheckIA-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-TrueCheckIA-Timestamp'
+export const WEBHOOK_DELIVERY_HEADER = 'X-TrueCheckIA-Delivery'
+export const WEBHOOK_EVENT_HEADER = 'X-TrueCheckIA-Event'
+
+export type WebhookEvent = 'analysis.completed' | 'analysis.failed'
+
+export interface WebhookDeliveryRecord {
+  id: string
+  event: string
+  url: string
+  analysisId?: string | null
+  jobId?: string | null
+  status: string
+  attempts: number
+  responseStatus?: number | null
+  error?: string | null
+  durationMs?: number | null
+  lastAttemptAt?: Date | null
+  nextRetryAt?: Date | null
+  deliveredAt?: Date | null
+  createdAt: Date
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`
+}
+
+/**
+ * Signature over `<timestamp>.<body>`, so a captured payload cannot be
+ * replayed with a different timestamp.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+/**
+ * Reference implementation of the check customers run on their side.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds = 300,
+  now = Date.now()
+): boolean {
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+    return false
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and
+// reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4
+// subnets by BlockList itself.
+const PRIVATE_NETWORKS = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6')
+}
+
+// Longest response body kept for the delivery log
+const MAX_RESPONSE_BODY = 1000
+
+export interface WebhookResponse {
+  status: number
+  statusText: string
+  body: string
+}
+
+/**
+ * Whether an IP address is routable on the public internet.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (!family) return false
+  return !PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Reject webhook targets inside our own network. Returns the reason, or
+ * null when the URL can be used.
+ */
+export function validateWebhookUrl(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'webhook_url must be a valid URL'
+  }
+
+  if (url.protocol !== 'https:' && !(config.isDev && url.protocol === 'http:')) {
+    return 'webhook_url must use HTTPS'
+  }
+  if (url.username || url.password) {
+    return 'webhook_url must not contain credentials'
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (config.isDev) return null
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return 'webhook_url must point to a public host'
+  }
+  if (isIP(host) && !isPublicAddress(host)) {
+    return 'webhook_url must point to a public host'
+  }
+
+  return null
+}
+
+/**
+ * DNS lookup for webhook connections that fails when the name resolves to
+ * a private address. It runs on the connection itself, so a name that
+ * changes between validation and delivery (DNS rebinding) is caught too.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, '', 0)
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address))
+    if (blocked && !config.isDev) {
+      return callback(new Error(`${hostname} resolves to a non-public address (${blocked.address})`), '', 0)
+    }
+
+    if (options.all) {
+      // Node asks for every address when it races IPv4 against IPv6
+      return (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses)
+    }
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+/**
+ * POST a webhook body. Redirects are returned as responses rather than
+ * followed, and only public addresses are ever connected to.
+ */
+export function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs = config.limits.webhooks.timeoutMs
+): Promise<WebhookResponse> {
+  const problem = validateWebhookUrl(url)
+  if (problem) {
+    return Promise.reject(new Error(problem))
+  }
+
+  const target = new URL(url)
+  const transport = target.protocol === 'https:' ? https : http
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      response => {
+        let text = ''
+        response.setEncoding('utf8')
+        response.on('data', (chunk: string) => {
+          if (text.length < MAX_RESPONSE_BODY) text += chunk
+        })
+        response.on('end', () => resolve({
+          status: response.statusCode ?? 0,
+          statusText: response.statusMessage ?? '',
+          body: text.slice(0, MAX_RESPONSE_BODY),
+        }))
+        response.on('error', reject)
+      }
+    )
+
+    request.on('error', reject)
+    request.end(body)
+  })
+}
+
+/**
+ * The user's signing secret, created the first time it is needed. The secret
+ * is only written while the column is still empty, so concurrent first
+ * deliveries agree on one secret instead of overwriting each other's.
+ */
+export async function getWebhookSecret(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { webhookSecret: true },
+  })
+
+  if (user?.webhookSecret) {
+    return user.webhookSecret
+  }
+
+  await prisma.user.updateMany({
+    where: { id: userId, webhookSecret: null },
+    data: { webhookSecret: generateWebhookSecret() },
+  })
+
+  const created = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { webhookSecret: true },
+  })
+  if (!created?.webhookSecret) {
+    throw new Error(`User ${userId} not found`)
+  }
+
+  return created.webhookSecret
+}
+
+export async function rotateWebhookSecret(userId: string): Promise<string> {
+  const webhookSecret = generateWebhookSecret()
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { webhookSecret },
+  })
+
+  return webhookSecret
+}
+
+export function serializeDelivery(delivery: WebhookDeliveryRecord) {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    url: delivery.url,
+    analysisId: delivery.analysisId ?? null,
+    jobId: delivery.jobId ?? null,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus ?? null,
+    error: delivery.error ?? null,
+    durationMs: delivery.durationMs ?? null,
+    lastAttemptAt: delivery.lastAttemptAt ?? null,
+    nextRetryAt: delivery.nextRetryAt ?? null,
+    deliveredAt: delivery.deliveredAt ?? null,
+    createdAt: delivery.createdAt,
+  }
+}
+
+export async function listWebhookDeliveries(
+  userId: string,
+  { page = 1, limit = 20, status }: { page?: number; limit?: number; status?: WebhookDeliveryStatus }
+) {
+  const where = {
+    userId,
+    ...(status && { status }),
+  }
+
+  const [deliveries, total] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.webhookDelivery.count({ where }),
+  ])
+
+  return { deliveries: deliveries.map(serializeDelivery), total }
+}
@@ -17,6 +17,7 @@ import Register from "./pages/Register";
 import ForgotPassword from "./pages/ForgotPassword";
 import ResetPassword from "./pages/ResetPassword";
 import VerifyEmail from "./pages/VerifyEmail";
+import CancelDeletion from "./pages/CancelDeletion";
 import AuthCallback from "./pages/AuthCallback";
 import TestAPI from "./pages/TestAPI";
 import ProtectedRoute from "./components/auth/ProtectedRoute";
@@ -28,7 +29,10 @@ const OnboardingAnalytics = lazy(() => import("./pages/OnboardingAnalytics"));
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const Analysis = lazy(() => import("./pages/Analysis"));
 const History = lazy(() => import("./pages/History"));
+const BatchAnalysis = lazy(() => import("./pages/BatchAnalysis"));
 const Profile = lazy(() => import("./pages/Profile"));
+const SharedAnalysis = lazy(() => import("./pages/SharedAnalysis"));
+const AdminDeadLetterQueue = lazy(() => import("./pages/AdminDeadLetterQueue"));
 
 // Optimized QueryClient configuration
 const queryClient = new QueryClient({
@@ -109,8 +113,14 @@ const App = () => (
                   <Route path="/forgot-password" element={<ForgotPassword />} />
                   <Route path="/reset-password" element={<ResetPassword />} />
                   <Route path="/verify-email" element={<VerifyEmail />} />
+                  <Route path="/cancel-deletion" element={<CancelDeletion />} />
                   <Route path="/auth/callback" element={<AuthCallback />} />
                   <Route path="/test-api" element={<TestAPI />} />
+                  <Route path="/share/:token" element={
+                    <Suspense fallback={<PageLoader message="Carregando resultado..." />}>
+                      <SharedAnalysis />
+                    </Suspense>
+                  } />
                   
                   {/* Onboarding routes - protected and lazy loaded */}
                   <Route path="/welcome" element={
@@ -150,6 +160,13 @@ const App = () => (
                       </Suspense>
                     </ProtectedRoute>
                   } />
+                  <Route path="/batch" element={
+                    <ProtectedRoute>
+                      <Suspense fallback={<PageLoader message="Carregando análise em lote..." />}>
+                        <BatchAnalysis />
+                      </Suspense>
+                    </ProtectedRoute>
+                  } />
                   <Route path="/history" element={
                     <ProtectedRoute>
                       <Suspense fallback={<PageLoader message="Carregando histórico..." />}>
@@ -171,7 +188,15 @@ const App = () => (
                       </Suspense>
                     </ProtectedRoute>
                   } />
-                  
+
+                  {/* Admin routes */}
+                  <Route path="/admin/dlq" element={
+                    <ProtectedRoute requireRole="ADMIN">
+                      <Suspense fallback={<PageLoader message="Carregando DLQ..." />}>
+                        <AdminDeadLetterQueue />
+                      </Suspense>
+                    </ProtectedRoute>
+                  } />                  
                   {/* 404 Page */}
                   <Route path="*" element={
                     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-900 via-purple-800 to-indigo-900">
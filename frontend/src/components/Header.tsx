@@ -10,7 +10,9 @@ import {
   Settings,
   LogOut,
   ChevronDown,
-  BarChart3
+  BarChart3,
+  Layers,
+  Inbox
 } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import {
@@ -23,6 +25,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/contexts/AuthContext";
 import { CreditTracker } from "@/components/credits/CreditTracker";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
 import { subscriptionService } from "@/services/subscription.service";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -56,6 +59,12 @@ const Header = () => {
       onClick: () => navigate('/analysis'),
       variant: "hero" as const
     },
+    { 
+      name: "Batch", 
+      href: "/batch", 
+      icon: Layers,
+      onClick: () => navigate('/batch')
+    },
     { 
       name: "History", 
       href: "/history", 
@@ -153,6 +162,8 @@ const Header = () => {
           {isAuthenticated ? (
             <>
               <CreditTracker className="mr-2" />
+
+              <NotificationBell />
               
               {/* User Dropdown Menu */}
               <DropdownMenu>
@@ -216,6 +227,15 @@ const Header = () => {
                     <Settings className="mr-2 h-4 w-4" />
                     <span>Settings</span>
                   </DropdownMenuItem>
+                  {user?.role === 'ADMIN' && (
+                    <DropdownMenuItem 
+                      onClick={() => navigate('/admin/dlq')}
+                      className="cursor-pointer"
+                    >
+                      <Inbox className="mr-2 h-4 w-4" />
+                      <span>Dead Letter Queue</span>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem 
                     onClick={handleLogout}
@@ -248,6 +268,7 @@ const Header = () => {
         </div>
 
         {/* Mobile Menu */}
+        {isAuthenticated && <NotificationBell className="md:hidden ml-auto mr-1" />}
         <Sheet open={isOpen} onOpenChange={setIsOpen}>
           <SheetTrigger asChild className="md:hidden">
             <Button variant="ghost" size="sm">
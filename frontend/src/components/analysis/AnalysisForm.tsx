@@ -1,8 +1,8 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { Loader2, Send, AlertCircle } from 'lucide-react'
+import { Loader2, Send, AlertCircle, Upload } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
@@ -27,7 +27,7 @@ const analysisSchema = z.object({
 type AnalysisFormData = z.infer<typeof analysisSchema>
 
 interface AnalysisFormProps {
-  onAnalysisComplete?: (result: unknown) => void
+  onAnalysisComplete?: (result: unknown, text: string) => void
 }
 
 export function AnalysisForm({ onAnalysisComplete }: AnalysisFormProps) {
@@ -35,7 +35,8 @@ export function AnalysisForm({ onAnalysisComplete }: AnalysisFormProps) {
     wordCount: number;
     charCount: number;
   } | null>(null)
-  const { analyze, isAnalyzing, analysisResult } = useAnalysis()
+  const { analyze, isAnalyzing, analysisResult, upload, isUploading } = useAnalysis()
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const { data: credits } = useUserCredits()
   const { canPerformAnalysis, consumeCredit } = useCredits()
   
@@ -74,12 +75,33 @@ export function AnalysisForm({ onAnalysisComplete }: AnalysisFormProps) {
         await consumeCredit()
         
         if (onAnalysisComplete) {
-          onAnalysisComplete(result)
+          onAnalysisComplete(result, data.text)
         }
       },
     })
   }
 
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    upload(
+      { file, language: watch('language') },
+      {
+        onSuccess: async (result) => {
+          // Long documents are processed in the background
+          if ('documentId' in result) return
+
+          await consumeCredit()
+          if (onAnalysisComplete) {
+            onAnalysisComplete(result, result.document.text)
+          }
+        },
+      }
+    )
+  }
+
   const hasCredits = credits?.unlimited || (credits?.credits ?? 0) > 0
 
   return (
@@ -144,25 +166,49 @@ export function AnalysisForm({ onAnalysisComplete }: AnalysisFormProps) {
           )}
         </div>
 
-        <CreditGuard action="analysis">
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,.docx,.odt,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.oasis.opendocument.text,text/plain,text/markdown"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
           <Button
-            type="submit"
-            disabled={isAnalyzing || !hasCredits}
+            type="button"
+            variant="outline"
             size="lg"
+            disabled={isAnalyzing || isUploading || !hasCredits}
+            onClick={() => fileInputRef.current?.click()}
           >
-            {isAnalyzing ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Analyzing...
-              </>
+            {isUploading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : (
-              <>
-                <Send className="mr-2 h-4 w-4" />
-                Analyze Text
-              </>
+              <Upload className="mr-2 h-4 w-4" />
             )}
+            Upload Document
           </Button>
-        </CreditGuard>
+
+          <CreditGuard action="analysis">
+            <Button
+              type="submit"
+              disabled={isAnalyzing || !hasCredits}
+              size="lg"
+            >
+              {isAnalyzing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Analyzing...
+                </>
+              ) : (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Analyze Text
+                </>
+              )}
+            </Button>
+          </CreditGuard>
+        </div>
       </div>
     </form>
   )
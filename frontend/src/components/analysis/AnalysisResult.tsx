@@ -1,10 +1,14 @@
+import { useState } from 'react'
 import { motion } from 'framer-motion'
+import { toast } from 'sonner'
 import {
   AlertCircle,
   CheckCircle,
   XCircle,
   Info,
   Download,
+  Loader2,
+  Mail,
   Share2,
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -15,23 +19,62 @@ import { Separator } from '@/components/ui/separator'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import type { AnalysisResult as AnalysisResultType } from '@/types/api'
 import analysisService from '@/services/analysis.service'
+import { ApiError } from '@/lib/axios'
+import { TextHeatmap } from './TextHeatmap'
+import { ShareDialog } from './ShareDialog'
 
 interface AnalysisResultProps {
   result: AnalysisResultType
+  text?: string
 }
 
-export function AnalysisResult({ result }: AnalysisResultProps) {
+export function AnalysisResult({ result, text }: AnalysisResultProps) {
   const scoreInfo = analysisService.formatAiScore(result.aiScore)
   const confidenceInfo = analysisService.formatConfidence(result.confidence)
 
-  const handleDownloadReport = () => {
-    // TODO: Implement PDF download
-    console.log('Download report')
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [isEmailing, setIsEmailing] = useState(false)
+  const [isShareOpen, setIsShareOpen] = useState(false)
+
+  const showReportError = (error: unknown, fallback: string) => {
+    if (error instanceof ApiError && error.statusCode === 403) {
+      toast.error('Relatórios em PDF estão disponíveis nos planos Pro e Enterprise.')
+    } else {
+      toast.error(fallback)
+    }
+  }
+
+  const handleDownloadReport = async () => {
+    setIsDownloading(true)
+    try {
+      const blob = await analysisService.downloadReport(result.id)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `truecheckia-report-${result.id}.pdf`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      showReportError(error, 'Erro ao gerar o relatório em PDF')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const handleEmailReport = async () => {
+    setIsEmailing(true)
+    try {
+      await analysisService.emailReport(result.id)
+      toast.success('Relatório enviado para o seu email')
+    } catch (error) {
+      showReportError(error, 'Erro ao enviar o relatório por email')
+    } finally {
+      setIsEmailing(false)
+    }
   }
 
   const handleShare = () => {
-    // TODO: Implement sharing
-    console.log('Share result')
+    setIsShareOpen(true)
   }
 
   return (
@@ -46,16 +89,31 @@ export function AnalysisResult({ result }: AnalysisResultProps) {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>Resultado da Análise</CardTitle>
-            <div className="flex gap-2">
-              <Button variant="outline" size="sm" onClick={handleShare}>
-                <Share2 className="h-4 w-4 mr-2" />
-                Compartilhar
-              </Button>
-              <Button variant="outline" size="sm" onClick={handleDownloadReport}>
-                <Download className="h-4 w-4 mr-2" />
-                Baixar PDF
-              </Button>
-            </div>
+            {/* Analyses not saved to history (auto-save off) cannot be shared or exported */}
+            {result.id && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleShare}>
+                  <Share2 className="h-4 w-4 mr-2" />
+                  Compartilhar
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleEmailReport} disabled={isEmailing}>
+                  {isEmailing ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Mail className="h-4 w-4 mr-2" />
+                  )}
+                  Enviar por email
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDownloadReport} disabled={isDownloading}>
+                  {isDownloading ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  Baixar PDF
+                </Button>
+              </div>
+            )}
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -177,6 +235,15 @@ export function AnalysisResult({ result }: AnalysisResultProps) {
         </Card>
       )}
 
+      {/* Sentence Heatmap */}
+      {text && result.sentences && result.sentences.length > 0 && (
+        <TextHeatmap
+          text={text}
+          sentences={result.sentences}
+          suspiciousParts={result.suspiciousParts}
+        />
+      )}
+
       {/* Suspicious Parts */}
       {result.suspiciousParts.length > 0 && (
         <Card>
@@ -202,6 +269,10 @@ export function AnalysisResult({ result }: AnalysisResultProps) {
           </CardContent>
         </Card>
       )}
+
+      {result.id && (
+        <ShareDialog analysisId={result.id} open={isShareOpen} onOpenChange={setIsShareOpen} />
+      )}
     </motion.div>
   )
 }
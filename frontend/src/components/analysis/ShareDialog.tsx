@@ -0,0 +1,185 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Copy, Eye, Link2, Loader2, Lock, Trash2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useCreateShare, useRevokeShare, useShares } from '@/hooks/useShare'
+import type { ShareStatus } from '@/types/api'
+
+interface ShareDialogProps {
+  analysisId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 dia' },
+  { value: '7', label: '7 dias' },
+  { value: '30', label: '30 dias' },
+  { value: 'never', label: 'Sem validade' },
+]
+
+const STATUS_LABELS: Record<ShareStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  ACTIVE: { label: 'Ativo', variant: 'default' },
+  EXPIRED: { label: 'Expirado', variant: 'secondary' },
+  REVOKED: { label: 'Revogado', variant: 'destructive' },
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' })
+
+export function ShareDialog({ analysisId, open, onOpenChange }: ShareDialogProps) {
+  const [expiry, setExpiry] = useState('7')
+  const [password, setPassword] = useState('')
+  const { data: shares, isLoading } = useShares(analysisId, open)
+  const createShare = useCreateShare()
+  const revokeShare = useRevokeShare()
+
+  const copyLink = (url: string) => {
+    navigator.clipboard.writeText(url)
+    toast.success('Link copiado para a área de transferência')
+  }
+
+  const handleCreate = () => {
+    createShare.mutate(
+      {
+        analysisId,
+        expiresInDays: expiry === 'never' ? undefined : Number(expiry),
+        password: password || undefined,
+      },
+      {
+        onSuccess: (share) => {
+          setPassword('')
+          copyLink(share.url)
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Compartilhar resultado</DialogTitle>
+          <DialogDescription>
+            Quem tiver o link verá o veredito e os indicadores, sem o texto analisado e sem precisar de conta.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="share-expiry">Validade</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Senha (opcional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Mínimo 4 caracteres"
+                autoComplete="new-password"
+              />
+            </div>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={handleCreate}
+            disabled={createShare.isPending || (password.length > 0 && password.length < 4)}
+          >
+            {createShare.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="h-4 w-4 mr-2" />
+            )}
+            Criar link e copiar
+          </Button>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Links criados</h4>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : !shares?.length ? (
+              <p className="text-sm text-muted-foreground">Nenhum link criado para esta análise.</p>
+            ) : (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {shares.map((share) => {
+                  const status = STATUS_LABELS[share.status]
+                  return (
+                    <div key={share.id} className="flex items-center justify-between rounded-lg border p-3 gap-2">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                          {share.hasPassword && <Lock className="h-3 w-3 text-muted-foreground" />}
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Eye className="h-3 w-3" />
+                            {share.viewCount}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Criado em {formatDate(share.createdAt)}
+                          {share.expiresAt && ` · expira em ${formatDate(share.expiresAt)}`}
+                        </p>
+                      </div>
+                      {share.status === 'ACTIVE' && (
+                        <div className="flex shrink-0 gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => copyLink(share.url)} title="Copiar link">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => revokeShare.mutate(share.id)}
+                            disabled={revokeShare.isPending}
+                            title="Revogar link"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
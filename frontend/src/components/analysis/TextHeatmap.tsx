@@ -0,0 +1,103 @@
+import { useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { SentenceScore, SuspiciousPart } from '@/types/api'
+
+interface TextHeatmapProps {
+  text: string
+  sentences: SentenceScore[]
+  suspiciousParts?: SuspiciousPart[]
+}
+
+interface Segment {
+  text: string
+  sentence?: SentenceScore
+  reason?: string
+}
+
+// Colour grade for a 0-100 sentence score
+function getHeatClass(score: number): string {
+  if (score >= 80) return 'bg-red-200 dark:bg-red-900/60'
+  if (score >= 60) return 'bg-orange-200 dark:bg-orange-900/50'
+  if (score >= 40) return 'bg-yellow-100 dark:bg-yellow-900/40'
+  return ''
+}
+
+export function TextHeatmap({ text, sentences, suspiciousParts = [] }: TextHeatmapProps) {
+  // Split the original text into highlighted sentences and the gaps between them
+  const segments = useMemo(() => {
+    const result: Segment[] = []
+    let cursor = 0
+
+    for (const sentence of sentences) {
+      if (sentence.startIndex > cursor) {
+        result.push({ text: text.slice(cursor, sentence.startIndex) })
+      }
+      const part = suspiciousParts.find(
+        (p) =>
+          p.startIndex !== undefined &&
+          p.endIndex !== undefined &&
+          p.startIndex < sentence.endIndex &&
+          p.endIndex > sentence.startIndex
+      )
+      result.push({
+        text: text.slice(sentence.startIndex, sentence.endIndex),
+        sentence,
+        reason: part?.reason,
+      })
+      cursor = sentence.endIndex
+    }
+
+    if (cursor < text.length) {
+      result.push({ text: text.slice(cursor) })
+    }
+    return result
+  }, [text, sentences, suspiciousParts])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mapa de Calor do Texto</CardTitle>
+        <CardDescription>Frases coloridas de acordo com a probabilidade de terem sido geradas por IA</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm border bg-yellow-100" /> 40-59%
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm border bg-orange-200" /> 60-79%
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm border bg-red-200" /> 80%+
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm border-b-2 border-destructive" /> Trecho suspeito
+          </span>
+        </div>
+        <p className="whitespace-pre-wrap text-sm leading-relaxed">
+          {segments.map((segment, index) =>
+            segment.sentence ? (
+              <span
+                key={index}
+                className={`rounded-sm ${getHeatClass(segment.sentence.score)} ${
+                  segment.sentence.flagged ? 'border-b-2 border-destructive' : ''
+                }`}
+                title={
+                  segment.reason
+                    ? `${segment.sentence.score}% IA — ${segment.reason}`
+                    : `${segment.sentence.score}% IA`
+                }
+              >
+                {segment.text}
+              </span>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default TextHeatmap
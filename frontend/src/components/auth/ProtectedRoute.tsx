@@ -5,12 +5,14 @@ import { Loader2 } from 'lucide-react'
 interface ProtectedRouteProps {
   children: React.ReactNode
   requirePlan?: 'PRO' | 'ENTERPRISE'
+  requireRole?: 'ADMIN'
   redirectTo?: string
 }
 
 export function ProtectedRoute({
   children,
   requirePlan,
+  requireRole,
   redirectTo = '/login',
 }: ProtectedRouteProps) {
   const { user, isAuthenticated, isLoading } = useAuth()
@@ -41,6 +43,11 @@ export function ProtectedRoute({
     }
   }
 
+  // The API checks the role too; this only keeps other users off the page
+  if (requireRole && user?.role !== requireRole) {
+    return <Navigate to="/dashboard" replace />
+  }
+
   return <>{children}</>
 }
 
@@ -0,0 +1,176 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+import { Bell, CheckCheck, CreditCard, Loader2, Sparkles, Wallet, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useNotificationActions, useNotifications, useUnreadNotifications } from '@/hooks/useNotifications'
+import { cn } from '@/lib/utils'
+import type { NotificationType, UserNotification } from '@/types/api'
+
+type Filter = 'ALL' | 'UNREAD' | NotificationType
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: 'ALL', label: 'All' },
+  { value: 'UNREAD', label: 'Unread' },
+  { value: 'ANALYSIS', label: 'Analyses' },
+  { value: 'CREDIT_LOW', label: 'Credits' },
+  { value: 'SUBSCRIPTION', label: 'Billing' },
+]
+
+const TYPE_ICONS: Partial<Record<NotificationType, typeof Bell>> = {
+  ANALYSIS: Sparkles,
+  CREDIT_LOW: Wallet,
+  SUBSCRIPTION: CreditCard,
+}
+
+// Where a notification leads when clicked
+const getNotificationLink = (notification: UserNotification): string | null => {
+  const metadata = notification.metadata || {}
+  if (typeof metadata.batchId === 'string') return `/batch?id=${metadata.batchId}`
+  if (notification.type === 'ANALYSIS') return '/history'
+  if (notification.type === 'CREDIT_LOW' || notification.type === 'SUBSCRIPTION') return '/subscription'
+  return null
+}
+
+interface NotificationBellProps {
+  className?: string
+}
+
+export function NotificationBell({ className }: NotificationBellProps) {
+  const navigate = useNavigate()
+  const [open, setOpen] = useState(false)
+  const [filter, setFilter] = useState<Filter>('ALL')
+  const unreadCount = useUnreadNotifications()
+  const { markRead, markAllRead, deleteNotification, isMarkingAll } = useNotificationActions()
+  const filters = filter === 'ALL' ? {} : filter === 'UNREAD' ? { read: false } : { type: filter }
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useNotifications(filters, open)
+  const notifications = data?.pages.flatMap((page) => page.notifications) ?? []
+
+  const handleSelect = (notification: UserNotification) => {
+    if (!notification.read) {
+      markRead(notification.id)
+    }
+
+    const link = getNotificationLink(notification)
+    if (link) {
+      setOpen(false)
+      navigate(link)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={cn('relative px-2', className)} aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h4 className="text-sm font-semibold">Notifications</h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => markAllRead()}
+            disabled={unreadCount === 0 || isMarkingAll}
+          >
+            <CheckCheck className="h-3.5 w-3.5 mr-1" />
+            Mark all as read
+          </Button>
+        </div>
+
+        <div className="flex gap-1 px-3 py-2 border-b overflow-x-auto">
+          {FILTERS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={cn(
+                'px-2.5 py-1 rounded-full text-xs font-medium whitespace-nowrap transition-colors',
+                filter === option.value
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-accent'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <ScrollArea className="h-80">
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-10">You're all caught up.</p>
+          ) : (
+            <div className="divide-y">
+              {notifications.map((notification) => {
+                const Icon = TYPE_ICONS[notification.type] || Bell
+                return (
+                  <div
+                    key={notification.id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => handleSelect(notification)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSelect(notification)}
+                    className={cn(
+                      'group flex gap-3 px-4 py-3 cursor-pointer hover:bg-accent/50',
+                      !notification.read && 'bg-primary/5'
+                    )}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className={cn('text-sm truncate', !notification.read && 'font-semibold')}>
+                          {notification.title}
+                        </p>
+                        {!notification.read && <span className="h-2 w-2 rounded-full bg-primary shrink-0" />}
+                      </div>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                      <p className="text-[11px] text-muted-foreground">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        deleteNotification(notification.id)
+                      }}
+                      className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground h-fit"
+                      aria-label="Delete notification"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                )
+              })}
+
+              {hasNextPage && (
+                <div className="p-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full text-xs"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                  >
+                    {isFetchingNextPage ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Load more'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  )
+}
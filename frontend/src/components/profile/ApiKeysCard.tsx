@@ -0,0 +1,313 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle, Copy, Key, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { useApiKeys } from '@/hooks/useUser'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { ApiKeyScope, ApiKeyStatus } from '@/types/api'
+
+const SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'analyze', label: 'analyze', description: 'Analyze text and manage webhooks' },
+  { value: 'usage', label: 'usage', description: 'Read usage statistics' },
+  { value: 'batch', label: 'batch', description: 'Create and read batch analyses' },
+]
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+]
+
+const STATUS_STYLES: Record<ApiKeyStatus, string> = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  EXPIRED: 'bg-gray-100 text-gray-800',
+  REVOKED: 'bg-red-100 text-red-800',
+}
+
+interface ApiKeysCardProps {
+  plan: string | undefined
+}
+
+export default function ApiKeysCard({ plan }: ApiKeysCardProps) {
+  const isFree = plan === 'FREE'
+  const { keys, isLoading, createKey, rotateKey, revokeKey, isCreating, isRotating, isRevoking, issuedKey } = useApiKeys(!isFree)
+  const [createOpen, setCreateOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['analyze', 'usage'])
+  const [expiry, setExpiry] = useState('never')
+
+  const copyApiKey = (key: string) => {
+    navigator.clipboard.writeText(key)
+    toast.success('Key copied to clipboard')
+  }
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope))
+  }
+
+  const handleCreate = () => {
+    createKey(
+      {
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiry === 'never' ? undefined : Number(expiry),
+      },
+      {
+        onSuccess: () => {
+          setCreateOpen(false)
+          setName('')
+          setScopes(['analyze', 'usage'])
+          setExpiry('never')
+        },
+      }
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Key className="h-5 w-5" />
+              API Keys
+            </CardTitle>
+            <CardDescription>
+              Create a separate key for each integration so it can be rotated or revoked on its own
+            </CardDescription>
+          </div>
+          {!isFree && (
+            <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Key
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Create API Key</DialogTitle>
+                  <DialogDescription>
+                    The key is shown once after it is created. Only its prefix is stored in readable form.
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="api-key-name">Name</Label>
+                    <Input
+                      id="api-key-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="e.g. Production LMS"
+                      maxLength={100}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Scopes</Label>
+                    {SCOPES.map((scope) => (
+                      <div key={scope.value} className="flex items-start gap-2">
+                        <Checkbox
+                          id={`scope-${scope.value}`}
+                          checked={scopes.includes(scope.value)}
+                          onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                        />
+                        <Label htmlFor={`scope-${scope.value}`} className="font-normal leading-none">
+                          <span className="font-mono">{scope.label}</span>
+                          <span className="block text-xs text-gray-500 mt-1">{scope.description}</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="api-key-expiry">Expires</Label>
+                    <Select value={expiry} onValueChange={setExpiry}>
+                      <SelectTrigger id="api-key-expiry">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXPIRY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setCreateOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleCreate} disabled={!name.trim() || scopes.length === 0 || isCreating}>
+                    {isCreating ? 'Creating...' : 'Create Key'}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isFree ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-600" />
+              <h4 className="font-medium text-yellow-900">Premium Feature</h4>
+            </div>
+            <p className="text-sm text-yellow-800 mb-3">
+              API access is only available for Pro and Enterprise plans.
+            </p>
+            <Button size="sm" className="bg-yellow-600 hover:bg-yellow-700">
+              Upgrade
+            </Button>
+          </div>
+        ) : (
+          <>
+            {issuedKey && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <h4 className="font-medium text-blue-900 mb-2">New key for "{issuedKey.name}"</h4>
+                <div className="flex items-center gap-2 mb-2">
+                  <code className="flex-1 text-sm bg-white px-3 py-2 rounded border font-mono break-all">
+                    {issuedKey.key}
+                  </code>
+                  <Button size="sm" onClick={() => copyApiKey(issuedKey.key)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-sm text-blue-800">
+                  ⚠️ Keep this key in a safe place. It will not be shown again.
+                </p>
+              </div>
+            )}
+
+            {isLoading ? (
+              <p className="text-sm text-gray-600">Loading API keys...</p>
+            ) : keys.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                No API keys yet. Create a key to access our API.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {keys.map((apiKey) => (
+                    <TableRow key={apiKey.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{apiKey.name}</span>
+                          {apiKey.status !== 'ACTIVE' && (
+                            <Badge className={STATUS_STYLES[apiKey.status]}>{apiKey.status}</Badge>
+                          )}
+                        </div>
+                        <div className="font-mono text-xs text-gray-500">{apiKey.prefix}…</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {apiKey.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline" className="font-mono">
+                              {scope}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleDateString() : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {apiKey.lastUsedAt ? (
+                          <>
+                            <div className="whitespace-nowrap">{new Date(apiKey.lastUsedAt).toLocaleString()}</div>
+                            {apiKey.lastUsedIp && (
+                              <div className="font-mono text-xs text-gray-500">{apiKey.lastUsedIp}</div>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-gray-500">Never</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" title="Rotate key" disabled={isRotating}>
+                                <RefreshCw className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Rotate "{apiKey.name}"</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  A new key with the same name and scopes will be generated. The current key stops
+                                  working immediately, so update the integration that uses it.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => rotateKey(apiKey.id)}>Rotate</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-red-600 hover:text-red-700"
+                                title="Revoke key"
+                                disabled={isRevoking}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Revoke "{apiKey.name}"</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This action will invalidate the key. Integrations using it will stop working.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => revokeKey(apiKey.id)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Revoke
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+import { format } from 'date-fns'
+import { Download, Loader2 } from 'lucide-react'
+import { useDataExport } from '@/hooks/useUser'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { DataExportStatus } from '@/types/api'
+
+const STATUS_LABELS: Record<DataExportStatus, string> = {
+  PENDING: 'Queued',
+  PROCESSING: 'Preparing',
+  COMPLETED: 'Ready',
+  FAILED: 'Failed',
+  EXPIRED: 'Expired',
+}
+
+const STATUS_STYLES: Record<DataExportStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  PROCESSING: 'bg-yellow-100 text-yellow-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  EXPIRED: 'bg-gray-100 text-gray-500',
+}
+
+const formatDate = (value: string) => format(new Date(value), 'MMM d, yyyy HH:mm')
+
+export default function DataExportCard() {
+  const { dataExport, nextAvailableAt, requestExport, isRequesting } = useDataExport()
+  const inProgress = dataExport?.status === 'PENDING' || dataExport?.status === 'PROCESSING'
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          Export Personal Data
+        </CardTitle>
+        <CardDescription>
+          Download a copy of all your data (LGPD/GDPR)
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            We prepare a ZIP file with your personal data stored on the platform and email you a
+            download link. The link is valid for 48 hours, and you can request one export per day.
+          </p>
+
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <h4 className="font-medium text-blue-900 mb-2">The file will include:</h4>
+            <ul className="text-sm text-blue-800 space-y-1">
+              <li>• Profile information</li>
+              <li>• Analysis history</li>
+              <li>• API usage and notifications</li>
+              <li>• Subscription, preferences and settings</li>
+            </ul>
+          </div>
+
+          {dataExport && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">
+                Last export requested {formatDate(dataExport.createdAt)}
+              </span>
+              <Badge className={STATUS_STYLES[dataExport.status]}>
+                {STATUS_LABELS[dataExport.status]}
+              </Badge>
+              {dataExport.status === 'COMPLETED' && dataExport.expiresAt && (
+                <span className="text-muted-foreground">
+                  Check your email. The link expires {formatDate(dataExport.expiresAt)}.
+                </span>
+              )}
+            </div>
+          )}
+
+          <Button
+            onClick={() => requestExport()}
+            disabled={isRequesting || inProgress || !!nextAvailableAt}
+          >
+            {isRequesting || inProgress ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            {inProgress ? 'Preparing export...' : 'Request Export'}
+          </Button>
+
+          {nextAvailableAt && !inProgress && (
+            <p className="text-xs text-muted-foreground">
+              You can request a new export after {formatDate(nextAvailableAt)}.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
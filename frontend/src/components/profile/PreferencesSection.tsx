@@ -9,7 +9,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch'
 import { Separator } from '@/components/ui/separator'
 import { Settings, Globe, Bell, Moon, Sun, Monitor, Save } from 'lucide-react'
-import { toast } from 'sonner'
+import { usePreferences } from '@/hooks/useUser'
+import type { UserPreferences } from '@/types/api'
 
 const preferencesSchema = z.object({
   language: z.enum(['pt-BR', 'en-US', 'es-ES']),
@@ -19,8 +20,7 @@ const preferencesSchema = z.object({
     analysisComplete: z.boolean(),
     creditsLow: z.boolean(),
     planExpiring: z.boolean(),
-    newFeatures: z.boolean(),
-    security: z.boolean()
+    newFeatures: z.boolean()
   }),
   analysisSettings: z.object({
     autoSave: z.boolean(),
@@ -39,18 +39,17 @@ const defaultPreferences: PreferencesForm = {
     analysisComplete: true,
     creditsLow: true,
     planExpiring: true,
-    newFeatures: false,
-    security: true
+    newFeatures: false
   },
   analysisSettings: {
     autoSave: true,
     detailedReports: false,
-    confidenceThreshold: 70
+    confidenceThreshold: 65
   }
 }
 
 export default function PreferencesSection() {
-  const [isSaving, setIsSaving] = useState(false)
+  const { preferences, updatePreferences, isSaving } = usePreferences()
   const [currentTheme, setCurrentTheme] = useState<'light' | 'dark' | 'system'>('system')
 
   const form = useForm<PreferencesForm>({
@@ -58,39 +57,25 @@ export default function PreferencesSection() {
     defaultValues: defaultPreferences
   })
 
-  // Load preferences from localStorage on component mount
+  // Load the saved preferences once they arrive from the server
   useEffect(() => {
-    const savedPreferences = localStorage.getItem('userPreferences')
-    if (savedPreferences) {
-      try {
-        const parsed = JSON.parse(savedPreferences)
-        form.reset(parsed)
-        setCurrentTheme(parsed.theme)
-      } catch (error) {
-        console.error('Error loading preferences:', error)
-      }
+    if (preferences) {
+      form.reset(preferences)
+      setCurrentTheme(preferences.theme)
     }
-  }, [form])
+  }, [preferences, form])
 
-  const onSubmit = async (data: PreferencesForm) => {
-    setIsSaving(true)
-    try {
-      // Save to localStorage (in a real app, this would be saved to the backend)
-      localStorage.setItem('userPreferences', JSON.stringify(data))
-      
-      // Apply theme changes immediately
-      if (data.theme !== currentTheme) {
-        setCurrentTheme(data.theme)
-        // In a real app, you would apply the theme to the document
-        // document.documentElement.classList.toggle('dark', data.theme === 'dark')
+  const onSubmit = (data: PreferencesForm) => {
+    updatePreferences(data as UserPreferences, {
+      onSuccess: () => {
+        // Apply theme changes immediately
+        if (data.theme !== currentTheme) {
+          setCurrentTheme(data.theme)
+          // In a real app, you would apply the theme to the document
+          // document.documentElement.classList.toggle('dark', data.theme === 'dark')
+        }
       }
-      
-      toast.success('Preferences saved successfully!')
-    } catch (error) {
-      toast.error('Error saving preferences')
-    } finally {
-      setIsSaving(false)
-    }
+    })
   }
 
   const getThemeIcon = (theme: string) => {
@@ -242,7 +227,7 @@ export default function PreferencesSection() {
                           Auto-save analyses
                         </FormLabel>
                         <div className="text-sm text-muted-foreground">
-                          Automatically saves your analyses to history
+                          Keeps your analyses in the history. When off, results are shown but not stored
                         </div>
                       </div>
                       <FormControl>
@@ -306,7 +291,7 @@ export default function PreferencesSection() {
                       </div>
                     </FormControl>
                     <div className="text-sm text-muted-foreground">
-                      Only results above this threshold will be considered reliable
+                      Texts scoring above this threshold are flagged as AI-generated
                     </div>
                     <FormMessage />
                   </FormItem>
@@ -419,31 +404,8 @@ export default function PreferencesSection() {
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="emailNotifications.security"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                    <div className="space-y-0.5">
-                      <FormLabel className="text-base">
-                        Security alerts
-                      </FormLabel>
-                      <div className="text-sm text-muted-foreground">
-                        Important notifications about account security
-                      </div>
-                    </div>
-                    <FormControl>
-                      <Switch
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                        disabled
-                      />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
               <p className="text-xs text-muted-foreground">
-                * Security alerts cannot be disabled for protection reasons
+                * Security alerts are always sent to protect your account
               </p>
             </CardContent>
           </Card>
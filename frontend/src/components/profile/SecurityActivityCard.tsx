@@ -0,0 +1,90 @@
+import { formatDistanceToNow } from 'date-fns'
+import { AlertTriangle, History, Loader2, ShieldCheck } from 'lucide-react'
+import { useSecurityEvents } from '@/hooks/useUser'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+const EVENT_LABELS: Record<string, string> = {
+  'auth.registered': 'Account created',
+  'auth.email_verified': 'Email verified',
+  'auth.login': 'Signed in',
+  'auth.login_failed': 'Failed sign-in attempt',
+  'auth.refresh_token_reused': 'Reused session token blocked',
+  'auth.password_changed': 'Password changed',
+  'auth.password_reset': 'Password reset',
+  'auth.logout_all': 'Signed out of all devices',
+  'auth.session_revoked': 'Device signed out',
+  'auth.two_factor_enabled': 'Two-factor authentication enabled',
+  'auth.two_factor_disabled': 'Two-factor authentication disabled',
+  'auth.recovery_codes_regenerated': 'Recovery codes regenerated',
+  'user.api_key_created': 'API key created',
+  'user.api_key_rotated': 'API key rotated',
+  'user.api_key_revoked': 'API key revoked',
+  'user.webhook_secret_rotated': 'Webhook secret rotated',
+  'user.deletion_requested': 'Account deletion requested',
+  'user.deletion_canceled': 'Account deletion cancelled',
+  'admin.user.credits_adjusted': 'Credits adjusted',
+  'admin.user.plan_changed': 'Plan changed',
+  'admin.user.email_verified': 'Email marked as verified',
+  'admin.user.impersonated': 'Account viewed',
+  'admin.user.suspended': 'Account suspended',
+  'admin.user.banned': 'Account banned',
+  'admin.user.unsuspended': 'Account reactivated',
+  'admin.user.suspension_expired': 'Suspension ended',
+}
+
+// Worth a second look if the user doesn't recognise them
+const WARNING_EVENTS = ['auth.login_failed', 'auth.refresh_token_reused']
+
+export default function SecurityActivityCard() {
+  const { events, isLoading } = useSecurityEvents()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Security Activity
+        </CardTitle>
+        <CardDescription>
+          Recent sign-ins and changes to your account's security
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-600">No security activity yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {events.map((event) => {
+              const warning = WARNING_EVENTS.includes(event.action)
+              return (
+                <div key={event.id} className="flex items-start gap-3 p-3 border rounded-lg">
+                  {warning ? (
+                    <AlertTriangle className="h-4 w-4 mt-0.5 text-orange-500 shrink-0" />
+                  ) : (
+                    <ShieldCheck className="h-4 w-4 mt-0.5 text-gray-500 shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{EVENT_LABELS[event.action] ?? event.action}</span>
+                      {event.byAdmin && <Badge variant="outline">By support</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground flex flex-wrap gap-x-2">
+                      <span>{formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}</span>
+                      {event.device && <span>{event.device}</span>}
+                      {event.ipAddress && <span className="font-mono">{event.ipAddress}</span>}
+                    </p>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
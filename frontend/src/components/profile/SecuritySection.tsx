@@ -12,6 +12,9 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Shield, Key, LogOut, Eye, EyeOff, CheckCircle, XCircle, AlertTriangle } from 'lucide-react'
 import { toast } from 'sonner'
 import axiosClient from '@/lib/axios'
+import SecurityActivityCard from './SecurityActivityCard'
+import SessionsCard from './SessionsCard'
+import TwoFactorCard from './TwoFactorCard'
 
 const passwordSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required'),
@@ -80,7 +83,7 @@ export default function SecuritySection() {
         newPassword: data.newPassword
       })
       
-      toast.success('Password changed successfully!')
+      toast.success('Password changed successfully! Other devices were signed out.')
       form.reset()
     } catch (error: any) {
       toast.error(error.message || 'Error changing password')
@@ -289,6 +292,12 @@ export default function SecuritySection() {
         </CardContent>
       </Card>
 
+      <TwoFactorCard />
+
+      <SessionsCard />
+
+      <SecurityActivityCard />
+
       {/* Security Actions */}
       <Card>
         <CardHeader>
@@ -0,0 +1,96 @@
+import { format, formatDistanceToNow } from 'date-fns'
+import { Globe, Loader2, LogOut, Monitor, MonitorSmartphone, Smartphone } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import { useSessions } from '@/hooks/useUser'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { UserSession } from '@/types/api'
+
+const isMobile = (device: string) => /iPhone|iPad|Android/.test(device)
+
+export default function SessionsCard() {
+  const { logout } = useAuth()
+  const { sessions, isLoading, revokeSession, revokingId } = useSessions()
+
+  const handleRevoke = (session: UserSession) => {
+    // Signing out this device is a regular logout
+    if (session.current) {
+      logout()
+      return
+    }
+    revokeSession(session.id)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices currently signed in to your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  {isMobile(session.device) ? (
+                    <Smartphone className="h-5 w-5 text-gray-500 shrink-0" />
+                  ) : (
+                    <Monitor className="h-5 w-5 text-gray-500 shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium truncate">{session.device}</h4>
+                      {session.current && (
+                        <Badge className="bg-green-100 text-green-800">Current</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 flex flex-wrap items-center gap-x-2">
+                      {session.location && (
+                        <span className="flex items-center gap-1">
+                          <Globe className="h-3 w-3" />
+                          {session.location}
+                        </span>
+                      )}
+                      {session.ipAddress && <span className="font-mono">{session.ipAddress}</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Signed in {format(new Date(session.createdAt), 'MMM d, yyyy')}
+                      {' · '}
+                      {session.current
+                        ? 'Active now'
+                        : `Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokingId === session.id}
+                >
+                  {revokingId === session.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <LogOut className="h-4 w-4 mr-1" />
+                  )}
+                  {session.current ? 'Log out' : 'Revoke'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
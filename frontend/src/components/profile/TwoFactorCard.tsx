@@ -0,0 +1,251 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle, Copy, Download, Loader2, ShieldCheck } from 'lucide-react'
+import { useTwoFactor } from '@/hooks/useUser'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+type CodeAction = 'disable' | 'regenerate'
+
+const CODE_ACTIONS: Record<CodeAction, { title: string; description: string; confirm: string }> = {
+  disable: {
+    title: 'Disable two-factor authentication',
+    description: 'Enter a code from your authenticator app or a recovery code to turn off two-factor authentication.',
+    confirm: 'Disable',
+  },
+  regenerate: {
+    title: 'Generate new recovery codes',
+    description: 'Enter a code from your authenticator app. Your current recovery codes will stop working.',
+    confirm: 'Generate',
+  },
+}
+
+export default function TwoFactorCard() {
+  const {
+    status,
+    isLoading,
+    setup,
+    startSetup,
+    cancelSetup,
+    isStartingSetup,
+    enable,
+    isEnabling,
+    disable,
+    isDisabling,
+    regenerateRecoveryCodes,
+    isRegenerating,
+  } = useTwoFactor()
+  const [setupCode, setSetupCode] = useState('')
+  // Shown once, right after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null)
+  const [actionCode, setActionCode] = useState('')
+
+  const handleEnable = () => {
+    enable(setupCode, {
+      onSuccess: (data) => {
+        setRecoveryCodes(data.recoveryCodes)
+        setSetupCode('')
+      },
+      onError: () => setSetupCode(''),
+    })
+  }
+
+  const closeCodeAction = () => {
+    setCodeAction(null)
+    setActionCode('')
+  }
+
+  const handleCodeAction = () => {
+    if (codeAction === 'disable') {
+      disable(actionCode, { onSuccess: closeCodeAction })
+    } else {
+      regenerateRecoveryCodes(actionCode, {
+        onSuccess: (data) => {
+          setRecoveryCodes(data.recoveryCodes)
+          closeCodeAction()
+        },
+      })
+    }
+  }
+
+  const copyRecoveryCodes = () => {
+    navigator.clipboard.writeText(recoveryCodes!.join('\n'))
+    toast.success('Recovery codes copied to clipboard')
+  }
+
+  const downloadRecoveryCodes = () => {
+    const blob = new Blob([`TrueCheckIA recovery codes\n\n${recoveryCodes!.join('\n')}\n`], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'truecheckia-recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status && (
+            <Badge className={status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+              {status.enabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when signing in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : recoveryCodes ? (
+          <div className="space-y-4">
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <h4 className="font-medium text-yellow-900 mb-1">Save your recovery codes</h4>
+              <p className="text-sm text-yellow-800">
+                Each code can be used once to sign in if you lose access to your authenticator app.
+                They won't be shown again.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm">
+              {recoveryCodes.map((code) => (
+                <span key={code}>{code}</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="outline" size="sm" onClick={downloadRecoveryCodes}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+              <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+                I've saved them
+              </Button>
+            </div>
+          </div>
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? 'code' : 'codes'} left.
+            </p>
+            {status.recoveryCodesRemaining <= 2 && (
+              <p className="text-sm text-orange-600 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                You are running low on recovery codes. Generate new ones.
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setCodeAction('regenerate')}>
+                Generate new recovery codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => setCodeAction('disable')}
+                >
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+              then enter the 6-digit code it shows.
+            </p>
+            <div className="flex flex-col sm:flex-row items-center gap-4">
+              <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-40 w-40 border rounded-lg" />
+              <div className="space-y-1 min-w-0">
+                <Label>Or enter this key manually</Label>
+                <p className="font-mono text-sm break-all bg-gray-50 rounded p-2">{setup.secret}</p>
+              </div>
+            </div>
+            <InputOTP maxLength={6} value={setupCode} onChange={setSetupCode} disabled={isEnabling}>
+              <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map((index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <div className="flex gap-2">
+              <Button onClick={handleEnable} disabled={setupCode.length < 6 || isEnabling}>
+                {isEnabling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Enable
+              </Button>
+              <Button variant="outline" onClick={() => cancelSetup()} disabled={isEnabling}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {status?.required && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex gap-2">
+                <AlertTriangle className="h-5 w-5 text-red-600 shrink-0" />
+                <p className="text-sm text-red-800">
+                  Your account role requires two-factor authentication. Set it up to keep access to restricted areas.
+                </p>
+              </div>
+            )}
+            <Button onClick={() => startSetup()} disabled={isStartingSetup}>
+              {isStartingSetup && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Set up two-factor authentication
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={codeAction !== null} onOpenChange={(open) => !open && closeCodeAction()}>
+        {codeAction && (
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>{CODE_ACTIONS[codeAction].title}</DialogTitle>
+              <DialogDescription>{CODE_ACTIONS[codeAction].description}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Code</Label>
+              <Input
+                id="two-factor-code"
+                value={actionCode}
+                onChange={(e) => setActionCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={closeCodeAction}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCodeAction}
+                disabled={actionCode.trim().length < 6 || isDisabling || isRegenerating}
+                variant={codeAction === 'disable' ? 'destructive' : 'default'}
+              >
+                {(isDisabling || isRegenerating) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {CODE_ACTIONS[codeAction].confirm}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Copy, Eye, EyeOff, RefreshCw, Webhook } from 'lucide-react'
+import { useWebhooks } from '@/hooks/useUser'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { WebhookDeliveryStatus } from '@/types/api'
+
+const PAGE_SIZE = 10
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  RETRYING: 'bg-yellow-100 text-yellow-800',
+  SUCCEEDED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+}
+
+export default function WebhooksCard() {
+  const [page, setPage] = useState(1)
+  const [showSecret, setShowSecret] = useState(false)
+  const { deliveries, total, isLoading, refetch, secret, rotateSecret, isRotating } = useWebhooks(page)
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  const copySecret = () => {
+    if (!secret) return
+    navigator.clipboard.writeText(secret)
+    toast.success('Secret copied to clipboard')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Results of API requests sent with <code>webhook_url</code> are delivered as signed POST requests.
+          Verify the <code>X-TrueCheckIA-Signature</code> header with this secret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Signing secret</h4>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 font-mono text-sm bg-gray-100 px-3 py-2 rounded border truncate">
+              {secret ? (showSecret ? secret : '••••••••••••••••••••••••••••••••') : 'Loading...'}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowSecret(!showSecret)} disabled={!secret}>
+              {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={copySecret} disabled={!secret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => rotateSecret()} disabled={isRotating}>
+              {isRotating ? 'Rotating...' : 'Rotate'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Recent deliveries</h4>
+            <Button variant="ghost" size="sm" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-600">Loading deliveries...</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-gray-600">No webhooks have been sent yet.</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Response</TableHead>
+                    <TableHead>Attempts</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {new Date(delivery.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="font-mono">{delivery.event}</div>
+                        <div className="text-xs text-gray-500 truncate max-w-[220px]" title={delivery.url}>
+                          {delivery.url}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[delivery.status]}>{delivery.status}</Badge>
+                        {delivery.status === 'RETRYING' && delivery.nextRetryAt && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Next: {new Date(delivery.nextRetryAt).toLocaleTimeString()}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <span title={delivery.error || undefined}>
+                          {delivery.responseStatus ?? (delivery.error ? 'Error' : '—')}
+                        </span>
+                        {delivery.durationMs !== null && (
+                          <span className="text-xs text-gray-500"> · {delivery.durationMs} ms</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{delivery.attempts}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 1}>
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-600">
+                    {page} / {totalPages}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page === totalPages}>
+                    Next
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
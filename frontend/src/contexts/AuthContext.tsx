@@ -17,6 +17,10 @@ interface LoginResponse {
     accessToken: string
     refreshToken: string
     user: User
+    mfaEnrollmentRequired?: boolean
+    // Returned instead of tokens when the account has 2FA enabled
+    mfaRequired?: boolean
+    mfaToken?: string
   }
   accessToken?: string
   refreshToken?: string
@@ -37,11 +41,17 @@ interface RegisterResponse {
   message?: string
 }
 
+export interface LoginResult {
+  mfaToken?: string // 2FA code still needed; pass it to verifyTwoFactor
+  mfaEnrollmentRequired?: boolean
+}
+
 interface AuthContextType {
   user: User | null
   isLoading: boolean
   isAuthenticated: boolean
-  login: (email: string, password: string) => Promise<void>
+  login: (email: string, password: string) => Promise<LoginResult>
+  verifyTwoFactor: (mfaToken: string, code: string) => Promise<LoginResult>
   register: (data: any) => Promise<RegisterResponse | void>
   logout: () => Promise<void>
   updateUser: (user: User) => void
@@ -92,7 +102,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     initAuth()
   }, [])
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       console.log('[AuthContext] Starting login for:', email)
       
@@ -109,6 +119,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       
       console.log('[AuthContext] Processing login data:', loginData)
       
+      const loginPayload = loginData.data as LoginResponse['data']
+      if (loginPayload?.mfaRequired && loginPayload.mfaToken) {
+        return { mfaToken: loginPayload.mfaToken }
+      }
+      
       // Extract tokens from the correct structure
       let accessToken, refreshToken, user
       
@@ -146,6 +161,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setUser(user)
         
         console.log('[AuthContext] Login completed successfully')
+        return { mfaEnrollmentRequired: !!loginPayload?.mfaEnrollmentRequired }
       } else {
         console.error('[AuthContext] Invalid login response - missing required fields:', {
           hasAccessToken: !!accessToken,
@@ -166,6 +182,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  const verifyTwoFactor = async (mfaToken: string, code: string): Promise<LoginResult> => {
+    const response = await axiosClient.post<{
+      accessToken: string
+      refreshToken: string
+      user: User
+      mfaEnrollmentRequired?: boolean
+    }>('/auth/login/2fa', { mfaToken, code })
+    const { accessToken, refreshToken, user, mfaEnrollmentRequired } = response.data!
+
+    localStorage.setItem('accessToken', accessToken)
+    localStorage.setItem('refreshToken', refreshToken)
+    localStorage.setItem('user', JSON.stringify(user))
+    axiosClient.setTokens(accessToken, refreshToken)
+    setUser(user)
+
+    return { mfaEnrollmentRequired: !!mfaEnrollmentRequired }
+  }
+
   const register = async (data: any) => {
     try {
       console.log('[AuthContext] Starting registration')
@@ -238,7 +272,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const logout = async () => {
     try {
-      await axiosClient.post('/auth/logout')
+      await axiosClient.post('/auth/logout', {
+        refreshToken: localStorage.getItem('refreshToken'),
+      })
     } catch (error) {
       console.error('Logout error:', error)
     } finally {
@@ -259,6 +295,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isLoading,
     isAuthenticated: !!user,
     login,
+    verifyTwoFactor,
     register,
     logout,
     updateUser,
@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import adminService from '@/services/admin.service'
+
+export function useDeadLetterJobs(queue: string, page: number) {
+  return useQuery({
+    queryKey: ['admin', 'dlq', queue, page],
+    queryFn: () => adminService.listDeadLetterJobs(queue, page),
+    refetchInterval: 30000,
+  })
+}
+
+export function useDeadLetterJob(jobId: string | null) {
+  return useQuery({
+    queryKey: ['admin', 'dlq-job', jobId],
+    queryFn: () => adminService.getDeadLetterJob(jobId!),
+    enabled: !!jobId,
+  })
+}
+
+function useDeadLetterMutation<TVariables, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>,
+  successMessage: (result: TResult) => string,
+  errorMessage: string
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'dlq'] })
+      queryClient.invalidateQueries({ queryKey: ['admin', 'dlq-job'] })
+      toast.success(successMessage(result))
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || errorMessage)
+    },
+  })
+}
+
+export function useRequeueDeadLetterJob() {
+  return useDeadLetterMutation(
+    ({ jobId, reason, data }: { jobId: string; reason: string; data?: Record<string, unknown> }) =>
+      adminService.requeueDeadLetterJob(jobId, reason, data),
+    () => 'Job reenfileirado',
+    'Erro ao reenfileirar o job'
+  )
+}
+
+export function useRequeueAllDeadLetterJobs() {
+  return useDeadLetterMutation(
+    ({ queue, reason }: { queue: string; reason: string }) => adminService.requeueAllDeadLetterJobs(queue, reason),
+    (result) => `${result.retried} job(s) reenfileirado(s)${result.failed > 0 ? `, ${result.failed} com erro` : ''}`,
+    'Erro ao reenfileirar os jobs'
+  )
+}
+
+export function usePurgeDeadLetterJob() {
+  return useDeadLetterMutation(
+    ({ jobId, reason }: { jobId: string; reason: string }) => adminService.purgeDeadLetterJob(jobId, reason),
+    () => 'Job removido',
+    'Erro ao remover o job'
+  )
+}
+
+export function usePurgeDeadLetterQueue() {
+  return useDeadLetterMutation(
+    ({ queue, reason }: { queue: string; reason: string }) => adminService.purgeDeadLetterQueue(queue, reason),
+    (result) => `${result.purged} job(s) removido(s)`,
+    'Erro ao limpar a fila'
+  )
+}
@@ -1,7 +1,7 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import analysisService from '@/services/analysis.service'
-import type { AnalysisRequest } from '@/types/api'
+import type { AnalysisRequest, CreateBatchRequest } from '@/types/api'
 
 export function useAnalysis() {
   const queryClient = useQueryClient()
@@ -31,11 +31,39 @@ export function useAnalysis() {
     },
   })
 
+  // Upload document mutation
+  const uploadMutation = useMutation({
+    mutationFn: ({ file, language }: { file: File; language: 'pt' | 'en' }) =>
+      analysisService.uploadDocument(file, language),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['analysisHistory'] })
+      queryClient.invalidateQueries({ queryKey: ['analysisStats'] })
+      queryClient.invalidateQueries({ queryKey: ['userCredits'] })
+
+      if ('documentId' in data) {
+        toast.info(`Documento longo enviado para análise em ${data.totalChunks} partes. Você será notificado ao final.`)
+      } else if (data.isAiGenerated) {
+        toast.warning(`Documento detectado como IA (${data.aiScore}% de probabilidade)`)
+      } else {
+        toast.success(`Documento parece ser humano (${data.aiScore}% de probabilidade de IA)`)
+      }
+    },
+    onError: (error: any) => {
+      if (error.code === 'INSUFFICIENT_CREDITS') {
+        toast.error('Créditos insuficientes. Faça upgrade para continuar.')
+      } else {
+        toast.error(error.message || 'Erro ao processar documento')
+      }
+    },
+  })
+
   return {
     analyze: analyzeMutation.mutate,
     isAnalyzing: analyzeMutation.isPending,
     analysisResult: analyzeMutation.data,
     analysisError: analyzeMutation.error,
+    upload: uploadMutation.mutate,
+    isUploading: uploadMutation.isPending,
   }
 }
 
@@ -64,4 +92,42 @@ export function useAnalysisStats() {
   })
 }
 
+export function useCreateBatch() {
+  return useMutation({
+    mutationFn: (data: CreateBatchRequest) => analysisService.createBatch(data),
+    onSuccess: (data) => {
+      const failed = data.items.filter((item) => item.status === 'FAILED').length
+      if (failed > 0) {
+        toast.warning(`Lote criado com ${data.totalItems} itens; ${failed} não puderam ser processados`)
+      } else {
+        toast.success(`Lote criado com ${data.totalItems} itens. A análise foi iniciada.`)
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao criar lote')
+    },
+  })
+}
+
+// Polls the batch until every item has finished
+export function useBatch(batchId: string | null) {
+  return useQuery({
+    queryKey: ['batch', batchId],
+    queryFn: () => analysisService.getBatch(batchId!),
+    enabled: !!batchId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status
+      return status === 'COMPLETED' || status === 'FAILED' ? false : 3000
+    },
+  })
+}
+
+export function useBatchResults(batchId: string | null, enabled: boolean) {
+  return useQuery({
+    queryKey: ['batchResults', batchId],
+    queryFn: () => analysisService.getBatchResults(batchId!),
+    enabled: !!batchId && enabled,
+  })
+}
+
 export default useAnalysis
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { useEffect } from 'react'
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import notificationService from '@/services/notification.service'
+import type { NotificationFilters } from '@/types/api'
+
+// Delay before reconnecting after the stream ends or fails
+const STREAM_RECONNECT_DELAY = 5000
+
+export function useNotifications(filters: NotificationFilters = {}, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: ['notifications', filters],
+    queryFn: ({ pageParam }) => notificationService.getNotifications(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled,
+  })
+}
+
+/**
+ * Unread count kept current by the server-sent event stream.
+ */
+export function useUnreadNotifications(enabled = true) {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ['notifications', 'unreadCount'],
+    queryFn: () => notificationService.getUnreadCount(),
+    enabled,
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const controller = new AbortController()
+    let reconnectTimer: ReturnType<typeof setTimeout>
+
+    const connect = () => {
+      notificationService
+        .streamUnreadCount((count) => {
+          const previous = queryClient.getQueryData<number>(['notifications', 'unreadCount'])
+          queryClient.setQueryData(['notifications', 'unreadCount'], count)
+          if (previous !== undefined && count > previous) {
+            queryClient.invalidateQueries({ queryKey: ['notifications'] })
+          }
+        }, controller.signal)
+        .catch(() => undefined)
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            reconnectTimer = setTimeout(connect, STREAM_RECONNECT_DELAY)
+          }
+        })
+    }
+
+    connect()
+
+    return () => {
+      controller.abort()
+      clearTimeout(reconnectTimer)
+    }
+  }, [enabled, queryClient])
+
+  return query.data ?? 0
+}
+
+export function useNotificationActions() {
+  const queryClient = useQueryClient()
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['notifications'] })
+
+  const markReadMutation = useMutation({
+    mutationFn: (notificationId: string) => notificationService.markRead(notificationId),
+    onSuccess: refresh,
+  })
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => notificationService.markAllRead(),
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error updating notifications')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (notificationId: string) => notificationService.deleteNotification(notificationId),
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error deleting notification')
+    },
+  })
+
+  return {
+    markRead: markReadMutation.mutate,
+    markAllRead: markAllReadMutation.mutate,
+    deleteNotification: deleteMutation.mutate,
+    isMarkingAll: markAllReadMutation.isPending,
+  }
+}
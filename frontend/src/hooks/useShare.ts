@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import shareService from '@/services/share.service'
+import type { CreateShareRequest } from '@/types/api'
+
+export function useShares(analysisId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['shares', analysisId],
+    queryFn: () => shareService.listShares(analysisId),
+    enabled: !!analysisId && enabled,
+  })
+}
+
+export function useCreateShare() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateShareRequest) => shareService.createShare(data),
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: ['shares', share.analysisId] })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao criar link de compartilhamento')
+    },
+  })
+}
+
+export function useRevokeShare() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (shareId: string) => shareService.revokeShare(shareId),
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: ['shares', share.analysisId] })
+      toast.success('Link revogado')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao revogar link')
+    },
+  })
+}
+
+export function useSharedAnalysis(token: string, password?: string) {
+  return useQuery({
+    queryKey: ['sharedAnalysis', token, password],
+    queryFn: () => shareService.getSharedAnalysis(token, password),
+    enabled: !!token,
+    retry: false,
+  })
+}
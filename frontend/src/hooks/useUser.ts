@@ -1,7 +1,9 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import userService from '@/services/user.service'
-import type { User } from '@/types/api'
+import authService from '@/services/auth.service'
+import { ApiError } from '@/lib/axios'
+import type { CreateApiKeyRequest, CreatedApiKey, User, UserPreferences } from '@/types/api'
 
 export function useUserProfile() {
   const queryClient = useQueryClient()
@@ -44,45 +46,316 @@ export function useUserCredits() {
   })
 }
 
-export function useApiKey() {
+export function usePreferences() {
   const queryClient = useQueryClient()
 
-  const generateKeyMutation = useMutation({
-    mutationFn: () => userService.generateApiKey(),
+  const query = useQuery({
+    queryKey: ['userPreferences'],
+    queryFn: () => userService.getPreferences(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: (data: UserPreferences) => userService.updatePreferences(data),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['userPreferences'], data)
+      // Kept for the account data export
+      localStorage.setItem('userPreferences', JSON.stringify(data))
+      toast.success('Preferences saved successfully!')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error saving preferences')
+    },
+  })
+
+  return {
+    preferences: query.data,
+    isLoading: query.isLoading,
+    updatePreferences: updateMutation.mutate,
+    isSaving: updateMutation.isPending,
+  }
+}
+
+export function useDataExport() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ['dataExport'],
+    queryFn: () => userService.getDataExport(),
+    // Poll while the export is being built
+    refetchInterval: (query) => {
+      const status = query.state.data?.export?.status
+      return status === 'PENDING' || status === 'PROCESSING' ? 5000 : false
+    },
+  })
+
+  const requestMutation = useMutation({
+    mutationFn: () => userService.requestDataExport(),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['dataExport'] })
+      toast.success(data.message)
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error requesting data export')
+    },
+  })
+
+  return {
+    dataExport: query.data?.export ?? null,
+    nextAvailableAt: query.data?.nextAvailableAt ?? null,
+    isLoading: query.isLoading,
+    requestExport: requestMutation.mutate,
+    isRequesting: requestMutation.isPending,
+  }
+}
+
+export function useAccountDeletion() {
+  const queryClient = useQueryClient()
+
+  const scheduleMutation = useMutation({
+    mutationFn: (data: { confirmation: string; password?: string }) => userService.deleteAccount(data),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['userProfile'] })
-      toast.success('API key generated successfully!')
-      
-      // Copy to clipboard
-      navigator.clipboard.writeText(data.apiKey)
-      toast.info('Key copied to clipboard')
+      toast.success(data.message)
     },
-    onError: (error: any) => {
-      if (error.code === 'UNAUTHORIZED') {
+    onError: (error: ApiError) => {
+      // OAuth-only accounts must sign in again; the dialog explains how
+      if (error.code !== 'AUTH006') {
+        toast.error(error.message || 'Error deleting account')
+      }
+    },
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: () => userService.cancelAccountDeletion(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['userProfile'] })
+      toast.success('Account deletion cancelled')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error cancelling account deletion')
+    },
+  })
+
+  return {
+    scheduleDeletion: scheduleMutation.mutate,
+    isScheduling: scheduleMutation.isPending,
+    needsReauth: (scheduleMutation.error as ApiError | null)?.code === 'AUTH006',
+    cancelDeletion: cancelMutation.mutate,
+    isCancelling: cancelMutation.isPending,
+  }
+}
+
+export function useSessions() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ['sessions'],
+    queryFn: () => authService.getSessions(),
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => authService.revokeSession(sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      queryClient.invalidateQueries({ queryKey: ['securityEvents'] })
+      toast.success('Device signed out')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error signing out device')
+    },
+  })
+
+  return {
+    sessions: query.data ?? [],
+    isLoading: query.isLoading,
+    revokeSession: revokeMutation.mutate,
+    revokingId: revokeMutation.isPending ? revokeMutation.variables : undefined,
+  }
+}
+
+export function useSecurityEvents() {
+  const query = useQuery({
+    queryKey: ['securityEvents'],
+    queryFn: () => authService.getSecurityEvents(),
+  })
+
+  return {
+    events: query.data ?? [],
+    isLoading: query.isLoading,
+  }
+}
+
+export function useTwoFactor() {
+  const queryClient = useQueryClient()
+
+  const statusQuery = useQuery({
+    queryKey: ['twoFactor'],
+    queryFn: () => authService.getTwoFactorStatus(),
+  })
+
+  const onError = (error: Error) => {
+    toast.error(error.message || 'Error updating two-factor authentication')
+  }
+
+  const setupMutation = useMutation({
+    mutationFn: () => authService.setupTwoFactor(),
+    onError,
+  })
+
+  const enableMutation = useMutation({
+    mutationFn: (code: string) => authService.enableTwoFactor(code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['twoFactor'] })
+      queryClient.invalidateQueries({ queryKey: ['securityEvents'] })
+      setupMutation.reset()
+      toast.success('Two-factor authentication enabled')
+    },
+    onError,
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: (code: string) => authService.disableTwoFactor(code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['twoFactor'] })
+      queryClient.invalidateQueries({ queryKey: ['securityEvents'] })
+      toast.success('Two-factor authentication disabled')
+    },
+    onError,
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: (code: string) => authService.regenerateRecoveryCodes(code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['twoFactor'] })
+      queryClient.invalidateQueries({ queryKey: ['securityEvents'] })
+      toast.success('New recovery codes generated')
+    },
+    onError,
+  })
+
+  return {
+    status: statusQuery.data,
+    isLoading: statusQuery.isLoading,
+    setup: setupMutation.data,
+    startSetup: setupMutation.mutate,
+    cancelSetup: setupMutation.reset,
+    isStartingSetup: setupMutation.isPending,
+    enable: enableMutation.mutate,
+    isEnabling: enableMutation.isPending,
+    disable: disableMutation.mutate,
+    isDisabling: disableMutation.isPending,
+    regenerateRecoveryCodes: regenerateMutation.mutate,
+    isRegenerating: regenerateMutation.isPending,
+  }
+}
+
+export function useApiKeys(enabled = true) {
+  const queryClient = useQueryClient()
+
+  const keysQuery = useQuery({
+    queryKey: ['apiKeys'],
+    queryFn: () => userService.listApiKeys(),
+    enabled,
+  })
+
+  const onKeyIssued = (data: CreatedApiKey) => {
+    queryClient.invalidateQueries({ queryKey: ['apiKeys'] })
+
+    // Copy to clipboard
+    navigator.clipboard.writeText(data.key)
+    toast.info('Key copied to clipboard')
+  }
+
+  const createKeyMutation = useMutation({
+    mutationFn: (data: CreateApiKeyRequest) => userService.createApiKey(data),
+    onSuccess: (data) => {
+      onKeyIssued(data)
+      toast.success('API key created successfully!')
+    },
+    onError: (error: ApiError) => {
+      if (error.statusCode === 403) {
         toast.error('Feature available only for Pro and Enterprise plans')
       } else {
-        toast.error(error.message || 'Error generating API key')
+        toast.error(error.message || 'Error creating API key')
       }
     },
   })
 
+  const rotateKeyMutation = useMutation({
+    mutationFn: (keyId: string) => userService.rotateApiKey(keyId),
+    onSuccess: (data) => {
+      onKeyIssued(data)
+      toast.success('API key rotated. The previous key no longer works.')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error rotating API key')
+    },
+  })
+
   const revokeKeyMutation = useMutation({
-    mutationFn: () => userService.revokeApiKey(),
+    mutationFn: (keyId: string) => userService.revokeApiKey(keyId),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['userProfile'] })
+      queryClient.invalidateQueries({ queryKey: ['apiKeys'] })
       toast.success('API key revoked successfully')
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast.error(error.message || 'Error revoking API key')
     },
   })
 
+  // Only the latest create/rotate result is kept; the key is never refetched
+  const issuedKey = rotateKeyMutation.submittedAt > createKeyMutation.submittedAt
+    ? rotateKeyMutation.data
+    : createKeyMutation.data
+
   return {
-    generateKey: generateKeyMutation.mutate,
+    keys: keysQuery.data || [],
+    isLoading: keysQuery.isLoading,
+    createKey: createKeyMutation.mutate,
+    rotateKey: rotateKeyMutation.mutate,
     revokeKey: revokeKeyMutation.mutate,
-    isGenerating: generateKeyMutation.isPending,
+    isCreating: createKeyMutation.isPending,
+    isRotating: rotateKeyMutation.isPending,
     isRevoking: revokeKeyMutation.isPending,
-    generatedKey: generateKeyMutation.data?.apiKey,
+    issuedKey,
+  }
+}
+
+export function useWebhooks(page = 1, enabled = true) {
+  const queryClient = useQueryClient()
+
+  const deliveriesQuery = useQuery({
+    queryKey: ['webhookDeliveries', page],
+    queryFn: () => userService.getWebhookDeliveries(page),
+    enabled,
+  })
+
+  const secretQuery = useQuery({
+    queryKey: ['webhookSecret'],
+    queryFn: () => userService.getWebhookSecret(),
+    enabled,
+  })
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: () => userService.rotateWebhookSecret(),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['webhookSecret'], { secret: data.secret })
+      toast.success('Webhook secret rotated')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error rotating webhook secret')
+    },
+  })
+
+  return {
+    deliveries: deliveriesQuery.data?.deliveries || [],
+    total: deliveriesQuery.data?.total || 0,
+    isLoading: deliveriesQuery.isLoading,
+    refetch: deliveriesQuery.refetch,
+    secret: secretQuery.data?.secret,
+    rotateSecret: rotateSecretMutation.mutate,
+    isRotating: rotateSecretMutation.isPending,
   }
 }
 
@@ -38,8 +38,8 @@ class Api {
   }
 
   // DELETE request
-  async delete<T = any>(endpoint: string): Promise<ApiResponse<T>> {
-    return axiosClient.delete<T>(endpoint)
+  async delete<T = any>(endpoint: string, body?: unknown): Promise<ApiResponse<T>> {
+    return axiosClient.delete<T>(endpoint, body ? { data: body } : undefined)
   }
 
   // Upload files
@@ -58,12 +58,12 @@ class Api {
       throw new ApiError('NO_REFRESH_TOKEN', 'No refresh token available', 401)
     }
 
-    const response = await this.post<{ accessToken: string }>('/auth/refresh', {
+    const response = await this.post<{ accessToken: string; refreshToken: string }>('/auth/refresh', {
       refreshToken,
     })
 
     if (response.data?.accessToken) {
-      this.setToken(response.data.accessToken)
+      this.setToken(response.data.accessToken, response.data.refreshToken)
       return response.data.accessToken
     }
 
@@ -271,12 +271,13 @@ class AxiosClient {
     }
 
     try {
-      const response = await this.instance.post<{ data: { accessToken: string } }>('/auth/refresh', {
+      const response = await this.instance.post<{ data: { accessToken: string; refreshToken: string } }>('/auth/refresh', {
         refreshToken,
       })
 
-      const newAccessToken = response.data.data.accessToken
-      this.setTokens(newAccessToken)
+      // Refresh tokens are single-use; keep the new one for the next refresh
+      const { accessToken: newAccessToken, refreshToken: newRefreshToken } = response.data.data
+      this.setTokens(newAccessToken, newRefreshToken)
       return newAccessToken
     } catch (error) {
       console.error('[Refresh Token Failed]', error)
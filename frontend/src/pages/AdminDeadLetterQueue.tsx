@@ -0,0 +1,403 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { AlertCircle, ArrowLeft, Inbox, Loader2, RefreshCw, RotateCcw, Trash2 } from 'lucide-react'
+
+import {
+  useDeadLetterJob,
+  useDeadLetterJobs,
+  usePurgeDeadLetterJob,
+  usePurgeDeadLetterQueue,
+  useRequeueAllDeadLetterJobs,
+  useRequeueDeadLetterJob,
+} from '@/hooks/useAdmin'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { DeadLetterJob } from '@/types/api'
+
+const PERMANENT_FAILURES = 'permanent-failures'
+const PAGE_SIZE = 20
+// Keep in sync with the reason rule of the admin endpoints
+const MIN_REASON_LENGTH = 3
+
+const STATUS_LABELS: Record<string, string> = {
+  failed: 'Falhou',
+  'scheduled-retry': 'Retry agendado',
+  retrying: 'Reenfileirado',
+  'permanent-failure': 'Falha permanente',
+}
+
+function formatTime(epochMs?: number) {
+  return epochMs ? format(new Date(epochMs), 'dd/MM/yyyy HH:mm:ss') : '—'
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const variant = status === 'permanent-failure' ? 'destructive' : status === 'retrying' ? 'outline' : 'secondary'
+  return <Badge variant={variant}>{STATUS_LABELS[status] || status}</Badge>
+}
+
+function JobDetailsDialog({ jobId, onClose }: { jobId: string | null; onClose: () => void }) {
+  const { data: job, isLoading, error } = useDeadLetterJob(jobId)
+  const requeueJob = useRequeueDeadLetterJob()
+  const purgeJob = usePurgeDeadLetterJob()
+
+  const [payload, setPayload] = useState('')
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    setPayload(job ? JSON.stringify(job.data, null, 2) : '')
+    setReason('')
+  }, [job])
+
+  let editedData: Record<string, unknown> | undefined
+  let payloadError: string | null = null
+  if (job && payload !== JSON.stringify(job.data, null, 2)) {
+    try {
+      const parsed = JSON.parse(payload)
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        payloadError = 'O payload deve ser um objeto JSON'
+      } else {
+        editedData = parsed
+      }
+    } catch {
+      payloadError = 'JSON inválido'
+    }
+  }
+
+  const canAct = !!job && reason.trim().length >= MIN_REASON_LENGTH && !payloadError
+  const isPending = requeueJob.isPending || purgeJob.isPending
+
+  return (
+    <Dialog open={!!jobId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-base break-all">{jobId}</DialogTitle>
+          {job && (
+            <DialogDescription>
+              Fila {job.originalQueue} · {job.retryCount} de {job.maxRetries} tentativas · criado em{' '}
+              {formatTime(job.createdAt)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-600" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Erro ao carregar o job: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {job && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <StatusBadge status={job.status} />
+              {job.nextRetryAt && job.status === 'scheduled-retry' && (
+                <span className="text-sm text-muted-foreground">próximo retry em {formatTime(job.nextRetryAt)}</span>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Histórico de erros</h3>
+              <ul className="divide-y rounded-md border text-sm">
+                {(job.errors ?? [{ error: job.error, failedAt: job.failedAt, retryCount: job.retryCount }])
+                  .slice()
+                  .reverse()
+                  .map((attempt, index) => (
+                    <li key={`${attempt.failedAt}-${index}`} className="px-3 py-2">
+                      <div className="text-xs text-muted-foreground">
+                        {formatTime(attempt.failedAt)} · tentativa {attempt.retryCount}
+                      </div>
+                      <div className="font-mono text-destructive break-all">{attempt.error}</div>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Payload</h3>
+              <Textarea
+                value={payload}
+                onChange={(e) => setPayload(e.target.value)}
+                className="min-h-[200px] font-mono text-xs"
+                spellCheck={false}
+              />
+              {payloadError ? (
+                <p className="text-xs text-destructive">{payloadError}</p>
+              ) : (
+                editedData && <p className="text-xs text-muted-foreground">O payload editado substitui o original ao reenfileirar</p>
+              )}
+            </div>
+
+            <Input
+              placeholder="Motivo (obrigatório, fica no log de auditoria)"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="destructive"
+            disabled={!canAct || isPending}
+            onClick={() => purgeJob.mutate({ jobId: jobId!, reason: reason.trim() }, { onSuccess: onClose })}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Remover
+          </Button>
+          <Button
+            disabled={!canAct || isPending}
+            onClick={() =>
+              requeueJob.mutate({ jobId: jobId!, reason: reason.trim(), data: editedData }, { onSuccess: onClose })
+            }
+          >
+            {requeueJob.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="w-4 h-4 mr-2" />
+            )}
+            {editedData ? 'Salvar e reenfileirar' : 'Reenfileirar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+type BulkAction = 'requeue' | 'purge'
+
+function BulkActionDialog({
+  action,
+  queue,
+  onClose,
+}: {
+  action: BulkAction | null
+  queue: string
+  onClose: () => void
+}) {
+  const [reason, setReason] = useState('')
+  const requeueAll = useRequeueAllDeadLetterJobs()
+  const purgeQueue = usePurgeDeadLetterQueue()
+  const mutation = action === 'purge' ? purgeQueue : requeueAll
+
+  useEffect(() => setReason(''), [action])
+
+  return (
+    <Dialog open={!!action} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{action === 'purge' ? 'Limpar a fila' : 'Reenfileirar todos os jobs'}</DialogTitle>
+          <DialogDescription>
+            {action === 'purge'
+              ? `Todos os jobs de ${queue} serão removidos. Não é possível desfazer.`
+              : `Todos os jobs de ${queue} voltam para as filas de origem, mesmo os que esgotaram as tentativas.`}
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          placeholder="Motivo (obrigatório, fica no log de auditoria)"
+          value={reason}
+          maxLength={500}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            variant={action === 'purge' ? 'destructive' : 'default'}
+            disabled={reason.trim().length < MIN_REASON_LENGTH || mutation.isPending}
+            onClick={() => mutation.mutate({ queue, reason: reason.trim() }, { onSuccess: onClose })}
+          >
+            {mutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Confirmar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default function AdminDeadLetterQueue() {
+  const navigate = useNavigate()
+  const [queue, setQueue] = useState(PERMANENT_FAILURES)
+  const [page, setPage] = useState(1)
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null)
+
+  const { data, isLoading, error, refetch, isFetching } = useDeadLetterJobs(queue, page)
+  const stats = data?.stats
+  const queues = [PERMANENT_FAILURES, ...Object.keys(stats?.queues ?? {}).filter((name) => name !== PERMANENT_FAILURES)]
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE))
+
+  const handleQueueChange = (value: string) => {
+    setQueue(value)
+    setPage(1)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-indigo-50">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Voltar
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Dead Letter Queue</h1>
+            <p className="text-gray-600 mt-1">Jobs que falharam nas filas, com o payload e o histórico de erros</p>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Erro ao carregar a DLQ: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {stats && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="rounded-lg border bg-white p-4">
+              <p className="text-sm text-muted-foreground">Falhas permanentes</p>
+              <p className="text-2xl font-bold text-red-600">{stats.totalPermanentFailures}</p>
+            </div>
+            <div className="rounded-lg border bg-white p-4">
+              <p className="text-sm text-muted-foreground">Aguardando retry</p>
+              <p className="text-2xl font-bold">{stats.retryQueue}</p>
+            </div>
+            <div className="rounded-lg border bg-white p-4">
+              <p className="text-sm text-muted-foreground">Falhas por fila</p>
+              <p className="text-sm mt-1">
+                {Object.entries(stats.queues).length === 0
+                  ? '—'
+                  : Object.entries(stats.queues)
+                      .map(([name, counts]) => `${name}: ${counts.failed}`)
+                      .join(' · ')}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Jobs</CardTitle>
+              <CardDescription>Mais recentes primeiro. Clique em um job para ver os detalhes.</CardDescription>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              <Select value={queue} onValueChange={handleQueueChange}>
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {queues.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name === PERMANENT_FAILURES ? 'Falhas permanentes' : name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+              </Button>
+              <Button size="sm" onClick={() => setBulkAction('requeue')} disabled={!data?.total}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reenfileirar todos
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => setBulkAction('purge')} disabled={!data?.total}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Limpar
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+              </div>
+            ) : !data || data.jobs.length === 0 ? (
+              <div className="flex flex-col items-center py-12 text-muted-foreground">
+                <Inbox className="h-10 w-10 mb-2" />
+                Nenhum job nesta fila
+              </div>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Job</TableHead>
+                      <TableHead>Fila</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Tentativas</TableHead>
+                      <TableHead>Último erro</TableHead>
+                      <TableHead>Falhou em</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.jobs.map((job: DeadLetterJob) => (
+                      <TableRow key={job.id} className="cursor-pointer" onClick={() => setSelectedJobId(job.id)}>
+                        <TableCell className="font-mono text-xs max-w-[180px] truncate">{job.id}</TableCell>
+                        <TableCell>{job.originalQueue}</TableCell>
+                        <TableCell>
+                          <StatusBadge status={job.status} />
+                        </TableCell>
+                        <TableCell>
+                          {job.retryCount}/{job.maxRetries}
+                        </TableCell>
+                        <TableCell className="max-w-[280px] truncate text-destructive" title={job.error}>
+                          {job.error}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">{formatTime(job.failedAt)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="flex items-center justify-between pt-4 text-sm text-muted-foreground">
+                  <span>
+                    {data.total} {data.total === 1 ? 'job' : 'jobs'}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                      Anterior
+                    </Button>
+                    <span>
+                      {page} de {totalPages}
+                    </span>
+                    <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                      Próxima
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <JobDetailsDialog jobId={selectedJobId} onClose={() => setSelectedJobId(null)} />
+      <BulkActionDialog action={bulkAction} queue={queue} onClose={() => setBulkAction(null)} />
+    </div>
+  )
+}
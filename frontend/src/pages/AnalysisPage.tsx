@@ -7,9 +7,11 @@ import type { AnalysisResult as AnalysisResultType } from '@/types/api'
 
 export function AnalysisPage() {
   const [result, setResult] = useState<AnalysisResultType | null>(null)
+  const [analyzedText, setAnalyzedText] = useState('')
 
-  const handleAnalysisComplete = (analysisResult: AnalysisResultType) => {
+  const handleAnalysisComplete = (analysisResult: AnalysisResultType, text: string) => {
     setResult(analysisResult)
+    setAnalyzedText(text)
     // Scroll to results
     setTimeout(() => {
       document.getElementById('analysis-result')?.scrollIntoView({ 
@@ -67,7 +69,7 @@ export function AnalysisPage() {
           {/* Results */}
           {result && (
             <div id="analysis-result" className="scroll-mt-8">
-              <AnalysisResult result={result} />
+              <AnalysisResult result={result} text={analyzedText} />
             </div>
           )}
         </div>
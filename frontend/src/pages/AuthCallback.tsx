@@ -32,6 +32,12 @@ export default function AuthCallback() {
             case 'oauth_failed':
               errorMessage = 'OAuth process failed. Please try again.'
               break
+            case 'account_suspended':
+              errorMessage = 'This account has been suspended. Please contact support.'
+              break
+            case 'account_banned':
+              errorMessage = 'This account has been banned.'
+              break
             case 'internal_error':
               errorMessage = 'An internal error occurred. Please try again later.'
               break
@@ -0,0 +1,385 @@
+import { useMemo, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  Clock,
+  Download,
+  FileText,
+  Layers,
+  Loader2,
+  Upload,
+  X,
+  XCircle,
+} from 'lucide-react'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { useBatch, useBatchResults, useCreateBatch } from '@/hooks/useAnalysis'
+import analysisService from '@/services/analysis.service'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import type { BatchItem } from '@/types/api'
+
+// Keep in sync with BATCH_MAX_ITEMS on the API
+const MAX_ITEMS = 50
+const MIN_TEXT_LENGTH = 50
+const ACCEPTED_FILES = '.pdf,.docx,.odt,.txt,.md,.markdown'
+// Pasted texts are separated by a line containing only "---"
+const TEXT_SEPARATOR = /^\s*---\s*$/m
+
+function StatusBadge({ item }: { item: BatchItem }) {
+  if (item.status === 'PENDING') {
+    return (
+      <Badge variant="secondary" className="gap-1">
+        <Clock className="h-3 w-3" /> Na fila
+      </Badge>
+    )
+  }
+  if (item.status === 'FAILED') {
+    return (
+      <Badge variant="destructive" className="gap-1" title={item.error || undefined}>
+        <XCircle className="h-3 w-3" /> Falhou
+      </Badge>
+    )
+  }
+  return (
+    <Badge variant="outline" className="gap-1 border-green-300 text-green-700">
+      <CheckCircle className="h-3 w-3" /> Concluído
+    </Badge>
+  )
+}
+
+function getScoreClass(score: number): string {
+  if (score >= 80) return 'text-red-600'
+  if (score >= 60) return 'text-orange-600'
+  if (score >= 40) return 'text-yellow-600'
+  return 'text-green-600'
+}
+
+export default function BatchAnalysis() {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const batchId = searchParams.get('id')
+
+  const [name, setName] = useState('')
+  const [language, setLanguage] = useState<'pt' | 'en'>('pt')
+  const [mode, setMode] = useState<'files' | 'texts'>('files')
+  const [files, setFiles] = useState<File[]>([])
+  const [pastedText, setPastedText] = useState('')
+  const [isDownloading, setIsDownloading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const createBatch = useCreateBatch()
+  const { data: batch, isLoading: isLoadingBatch, error: batchError } = useBatch(batchId)
+  const isFinished = batch?.status === 'COMPLETED' || batch?.status === 'FAILED'
+  const { data: results } = useBatchResults(batchId, isFinished)
+
+  const texts = useMemo(
+    () =>
+      pastedText
+        .split(TEXT_SEPARATOR)
+        .map((text) => text.trim())
+        .filter(Boolean),
+    [pastedText]
+  )
+  const shortTexts = texts.filter((text) => text.length < MIN_TEXT_LENGTH).length
+  const itemCount = mode === 'files' ? files.length : texts.length
+  const canSubmit = itemCount > 0 && itemCount <= MAX_ITEMS && (mode === 'files' || shortTexts === 0)
+  const canUseBatch = user?.plan === 'PRO' || user?.plan === 'ENTERPRISE'
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || [])
+    setFiles((current) => [...current, ...selected].slice(0, MAX_ITEMS))
+    if (files.length + selected.length > MAX_ITEMS) {
+      toast.warning(`Máximo de ${MAX_ITEMS} arquivos por lote`)
+    }
+    event.target.value = ''
+  }
+
+  const handleSubmit = () => {
+    createBatch.mutate(
+      {
+        name: name.trim() || undefined,
+        language,
+        ...(mode === 'files'
+          ? { files }
+          : { texts: texts.map((text, index) => ({ label: `Texto ${index + 1}`, text })) }),
+      },
+      {
+        onSuccess: (data) => {
+          setFiles([])
+          setPastedText('')
+          setSearchParams({ id: data.batchId })
+        },
+      }
+    )
+  }
+
+  const handleDownloadCsv = async () => {
+    if (!batch) return
+    setIsDownloading(true)
+    try {
+      const blob = await analysisService.downloadBatchCsv(batch.id)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${(batch.name || 'lote').replace(/[^\w.-]+/g, '_')}-${format(new Date(batch.createdAt), 'yyyy-MM-dd')}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('CSV download failed:', error)
+      toast.error('Erro ao baixar o CSV')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-indigo-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Voltar
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Análise em Lote</h1>
+            <p className="text-gray-600 mt-1">
+              Analise vários textos ou arquivos de uma vez, como os trabalhos de uma turma inteira
+            </p>
+          </div>
+        </div>
+
+        {!canUseBatch && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>A análise em lote está disponível nos planos Pro e Enterprise.</span>
+              <Button size="sm" onClick={() => navigate('/subscription')}>
+                Fazer upgrade
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!batchId && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                Novo lote
+              </CardTitle>
+              <CardDescription>Até {MAX_ITEMS} itens por lote. Cada item é analisado separadamente.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <Input
+                  placeholder="Nome do lote (ex.: Redação 3º ano B)"
+                  value={name}
+                  maxLength={120}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <Select value={language} onValueChange={(value) => setLanguage(value as 'pt' | 'en')}>
+                  <SelectTrigger className="sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pt">Português</SelectItem>
+                    <SelectItem value="en">Inglês</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Tabs value={mode} onValueChange={(value) => setMode(value as 'files' | 'texts')}>
+                <TabsList>
+                  <TabsTrigger value="files">Arquivos</TabsTrigger>
+                  <TabsTrigger value="texts">Textos</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="files" className="space-y-3">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_FILES}
+                    multiple
+                    className="hidden"
+                    onChange={handleFilesSelected}
+                  />
+                  <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={!canUseBatch}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Selecionar arquivos
+                  </Button>
+                  <p className="text-xs text-muted-foreground">PDF, DOCX, ODT, TXT ou Markdown</p>
+                  {files.length > 0 && (
+                    <ul className="divide-y rounded-md border">
+                      {files.map((file, index) => (
+                        <li key={`${file.name}-${index}`} className="flex items-center justify-between px-3 py-2 text-sm">
+                          <span className="flex items-center gap-2 truncate">
+                            <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                            {file.name}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="texts" className="space-y-2">
+                  <Textarea
+                    placeholder="Cole os textos aqui, separando cada um por uma linha contendo apenas ---"
+                    value={pastedText}
+                    onChange={(e) => setPastedText(e.target.value)}
+                    className="min-h-[240px]"
+                    disabled={!canUseBatch}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {texts.length} {texts.length === 1 ? 'texto' : 'textos'}
+                    {shortTexts > 0 && ` — ${shortTexts} com menos de ${MIN_TEXT_LENGTH} caracteres`}
+                  </p>
+                </TabsContent>
+              </Tabs>
+
+              {itemCount > MAX_ITEMS && (
+                <p className="text-sm text-destructive">Máximo de {MAX_ITEMS} itens por lote</p>
+              )}
+
+              <Button onClick={handleSubmit} disabled={!canUseBatch || !canSubmit || createBatch.isPending}>
+                {createBatch.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Layers className="w-4 h-4 mr-2" />
+                )}
+                Analisar {itemCount > 0 ? `${itemCount} ${itemCount === 1 ? 'item' : 'itens'}` : 'lote'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {batchId && isLoadingBatch && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+          </div>
+        )}
+
+        {batchId && batchError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Erro ao carregar o lote: {(batchError as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {batch && (
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle>{batch.name || 'Lote sem nome'}</CardTitle>
+                <CardDescription>
+                  Criado em {format(new Date(batch.createdAt), 'dd/MM/yyyy HH:mm')} · {batch.completedItems} de{' '}
+                  {batch.totalItems} analisados{batch.failedItems > 0 && ` · ${batch.failedItems} com falha`}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setSearchParams({})}>
+                  Novo lote
+                </Button>
+                <Button size="sm" onClick={handleDownloadCsv} disabled={isDownloading || batch.completedItems === 0}>
+                  {isDownloading ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  Baixar CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>{isFinished ? 'Concluído' : 'Processando...'}</span>
+                  <span>{batch.progress}%</span>
+                </div>
+                <Progress value={batch.progress} />
+              </div>
+
+              {results?.summary && results.summary.averageAiScore !== null && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="rounded-lg border p-4">
+                    <p className="text-sm text-muted-foreground">Pontuação média de IA</p>
+                    <p className={`text-2xl font-bold ${getScoreClass(results.summary.averageAiScore)}`}>
+                      {results.summary.averageAiScore}%
+                    </p>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <p className="text-sm text-muted-foreground">Detectados como IA</p>
+                    <p className="text-2xl font-bold">
+                      {results.summary.aiGeneratedCount} de {results.summary.completedItems}
+                    </p>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <p className="text-sm text-muted-foreground">Maior pontuação</p>
+                    <p className={`text-2xl font-bold ${getScoreClass(results.summary.highestAiScore ?? 0)}`}>
+                      {results.summary.highestAiScore}%
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">IA</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batch.items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="text-muted-foreground">{item.index + 1}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{item.label}</div>
+                        {item.error && <div className="text-xs text-destructive">{item.error}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge item={item} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.analysis ? (
+                          <span className={`font-semibold ${getScoreClass(item.analysis.aiScore)}`}>
+                            {Math.round(item.analysis.aiScore)}%
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
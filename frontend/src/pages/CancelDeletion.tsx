@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { Loader2, CheckCircle, XCircle, ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { motion } from 'framer-motion'
+import userService from '@/services/user.service'
+
+type Status = 'idle' | 'loading' | 'success' | 'error'
+
+export default function CancelDeletion() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const [status, setStatus] = useState<Status>(token ? 'idle' : 'error')
+
+  const handleCancel = async () => {
+    if (!token) return
+
+    setStatus('loading')
+    try {
+      await userService.cancelAccountDeletion(token)
+      setStatus('success')
+    } catch {
+      setStatus('error')
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-900 via-purple-800 to-indigo-900">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md px-4"
+      >
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-8 border border-white/20">
+          <div className="text-center mb-8">
+            <motion.div
+              initial={{ scale: 0.5 }}
+              animate={{ scale: 1 }}
+              transition={{ duration: 0.5, delay: 0.1 }}
+              className="inline-flex items-center justify-center w-20 h-20 bg-gradient-to-br from-purple-500 to-indigo-600 rounded-full mb-4"
+            >
+              <span className="text-3xl font-bold text-white">TC</span>
+            </motion.div>
+
+            {status === 'success' ? (
+              <>
+                <CheckCircle className="w-16 h-16 text-green-400 mx-auto mb-4" />
+                <h1 className="text-3xl font-bold text-white mb-2">Deletion cancelled</h1>
+                <p className="text-purple-200">
+                  Your account and data are safe. If you didn't request the deletion, change your password.
+                </p>
+              </>
+            ) : status === 'error' ? (
+              <>
+                <XCircle className="w-16 h-16 text-red-400 mx-auto mb-4" />
+                <h1 className="text-3xl font-bold text-white mb-2">Invalid link</h1>
+                <p className="text-purple-200">
+                  This link is invalid, was already used or the account has already been deleted.
+                </p>
+              </>
+            ) : (
+              <>
+                <ShieldCheck className="w-16 h-16 text-purple-300 mx-auto mb-4" />
+                <h1 className="text-3xl font-bold text-white mb-2">Keep your account?</h1>
+                <p className="text-purple-200">
+                  Your account is scheduled for deletion. Cancel it to keep your account and data.
+                </p>
+              </>
+            )}
+          </div>
+
+          {(status === 'idle' || status === 'loading') && (
+            <Button
+              onClick={handleCancel}
+              disabled={status === 'loading'}
+              className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-semibold py-3 rounded-lg"
+            >
+              {status === 'loading' ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Cancelling...
+                </>
+              ) : (
+                'Cancel deletion'
+              )}
+            </Button>
+          )}
+
+          <div className="mt-8 text-center">
+            <Link
+              to="/login"
+              className="text-purple-300 hover:text-white transition-colors text-sm"
+            >
+              ← Back to login
+            </Link>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -3,12 +3,13 @@ import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { Eye, EyeOff, Mail, Lock, Loader2 } from 'lucide-react'
+import { Eye, EyeOff, Mail, Lock, Loader2, ShieldCheck } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp'
 import { useToast } from '@/components/ui/use-toast'
-import { useAuth } from '@/contexts/AuthContext'
+import { useAuth, type LoginResult } from '@/contexts/AuthContext'
 import { motion } from 'framer-motion'
 import GoogleSignInButton from '@/components/auth/GoogleSignInButton'
 
@@ -29,7 +30,11 @@ export default function Login() {
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
   const { toast } = useToast()
-  const { login } = useAuth()
+  const { login, verifyTwoFactor } = useAuth()
+  // Set after the password step (or a Google sign-in) for accounts with 2FA
+  const [mfaToken, setMfaToken] = useState<string | null>(searchParams.get('mfaToken'))
+  const [mfaCode, setMfaCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
 
   // Handle intended plan after login
   useEffect(() => {
@@ -53,26 +58,62 @@ export default function Login() {
     resolver: zodResolver(loginSchema),
   })
 
+  const finishLogin = (result: LoginResult) => {
+    if (result.mfaToken) {
+      setMfaToken(result.mfaToken)
+      return
+    }
+
+    if (result.mfaEnrollmentRequired) {
+      toast({
+        title: 'Two-factor authentication required',
+        description: 'Your account must use two-factor authentication. Please set it up to continue.',
+      })
+      navigate('/profile?tab=security')
+      return
+    }
+
+    const intendedPlan = searchParams.get('plan')
+      
+    if (intendedPlan) {
+      toast({
+        title: 'Login successful!',
+        description: `Redirecting to ${intendedPlan} plan...`,
+      })
+      // Redirect to pricing with the intended plan
+      navigate(`/?plan=${intendedPlan}#pricing`)
+    } else {
+      toast({
+        title: 'Login successful!',
+        description: 'Redirecting to dashboard...',
+      })
+      navigate('/dashboard')
+    }
+  }
+
+  const onSubmitMfa = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!mfaToken) return
+
+    setIsLoading(true)
+    try {
+      finishLogin(await verifyTwoFactor(mfaToken, mfaCode))
+    } catch (error) {
+      setMfaCode('')
+      toast({
+        title: 'Verification failed',
+        description: error instanceof Error ? error.message : 'Invalid authentication code',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true)
     try {
-      await login(data.email, data.password)
-      const intendedPlan = searchParams.get('plan')
-      
-      if (intendedPlan) {
-        toast({
-          title: 'Login successful!',
-          description: `Redirecting to ${intendedPlan} plan...`,
-        })
-        // Redirect to pricing with the intended plan
-        navigate(`/?plan=${intendedPlan}#pricing`)
-      } else {
-        toast({
-          title: 'Login successful!',
-          description: 'Redirecting to dashboard...',
-        })
-        navigate('/dashboard')
-      }
+      finishLogin(await login(data.email, data.password))
     } catch (error: any) {
       let errorMessage = 'Please check your credentials and try again.'
       let title = 'Login failed'
@@ -122,114 +163,196 @@ export default function Login() {
             <p className="text-purple-200">Sign in to your TrueCheckIA account</p>
           </div>
 
-          {/* Login Form */}
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-white">
-                Email
-              </Label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-300 w-5 h-5" />
-                <Input
-                  {...register('email')}
-                  id="email"
-                  type="email"
-                  placeholder="your@email.com"
-                  className="pl-10 bg-white/10 border-white/20 text-white placeholder:text-purple-300 focus:border-purple-400 focus:ring-purple-400"
-                  disabled={isLoading}
-                />
+          {mfaToken ? (
+            <form onSubmit={onSubmitMfa} className="space-y-6">
+              <div className="text-center space-y-2">
+                <ShieldCheck className="w-10 h-10 text-purple-300 mx-auto" />
+                <h2 className="text-xl font-semibold text-white">Two-factor authentication</h2>
+                <p className="text-purple-200 text-sm">
+                  {useRecoveryCode
+                    ? 'Enter one of your recovery codes.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+                </p>
               </div>
-              {errors.email && (
-                <p className="text-red-400 text-sm">{errors.email.message}</p>
-              )}
-            </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-white">
-                Password
-              </Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-300 w-5 h-5" />
+              {useRecoveryCode ? (
                 <Input
-                  {...register('password')}
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  placeholder="••••••••"
-                  className="pl-10 pr-10 bg-white/10 border-white/20 text-white placeholder:text-purple-300 focus:border-purple-400 focus:ring-purple-400"
+                  value={mfaCode}
+                  onChange={(event) => setMfaCode(event.target.value)}
+                  placeholder="xxxxx-xxxxx"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  className="bg-white/10 border-white/20 text-white placeholder:text-purple-300 text-center font-mono"
                   disabled={isLoading}
                 />
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={mfaCode}
+                    onChange={setMfaCode}
+                    autoFocus
+                    disabled={isLoading}
+                  >
+                    <InputOTPGroup className="text-white">
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} className="border-white/20" />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                disabled={isLoading || mfaCode.length < 6}
+                className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-semibold py-3 rounded-lg"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode)
+                    setMfaCode('')
+                  }}
+                  className="text-purple-300 hover:text-white transition-colors"
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                </button>
                 <button
                   type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-purple-300 hover:text-white transition-colors"
+                  onClick={() => {
+                    setMfaToken(null)
+                    setMfaCode('')
+                  }}
+                  className="text-purple-300 hover:text-white transition-colors"
                 >
-                  {showPassword ? (
-                    <EyeOff className="w-5 h-5" />
-                  ) : (
-                    <Eye className="w-5 h-5" />
-                  )}
+                  Start over
                 </button>
               </div>
-              {errors.password && (
-                <p className="text-red-400 text-sm">{errors.password.message}</p>
-              )}
-            </div>
+            </form>
+          ) : (
+            <>
+            {/* Login Form */}
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-white">
+                  Email
+                </Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-300 w-5 h-5" />
+                  <Input
+                    {...register('email')}
+                    id="email"
+                    type="email"
+                    placeholder="your@email.com"
+                    className="pl-10 bg-white/10 border-white/20 text-white placeholder:text-purple-300 focus:border-purple-400 focus:ring-purple-400"
+                    disabled={isLoading}
+                  />
+                </div>
+                {errors.email && (
+                  <p className="text-red-400 text-sm">{errors.email.message}</p>
+                )}
+              </div>
 
-            <div className="flex items-center justify-between">
-              <Link
-                to="/forgot-password"
-                className="text-sm text-purple-300 hover:text-white transition-colors"
-              >
-                Forgot password?
-              </Link>
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-white">
+                  Password
+                </Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-300 w-5 h-5" />
+                  <Input
+                    {...register('password')}
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="••••••••"
+                    className="pl-10 pr-10 bg-white/10 border-white/20 text-white placeholder:text-purple-300 focus:border-purple-400 focus:ring-purple-400"
+                    disabled={isLoading}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-purple-300 hover:text-white transition-colors"
+                  >
+                    {showPassword ? (
+                      <EyeOff className="w-5 h-5" />
+                    ) : (
+                      <Eye className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="text-red-400 text-sm">{errors.password.message}</p>
+                )}
+              </div>
 
-            <Button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-semibold py-3 rounded-lg transition-all duration-200 transform hover:scale-[1.02]"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                'Sign In'
-              )}
-            </Button>
-          </form>
+              <div className="flex items-center justify-between">
+                <Link
+                  to="/forgot-password"
+                  className="text-sm text-purple-300 hover:text-white transition-colors"
+                >
+                  Forgot password?
+                </Link>
+              </div>
 
-          {/* Divider */}
-          <div className="relative my-8">
-            <div className="absolute inset-0 flex items-center">
-              <div className="w-full border-t border-white/20"></div>
-            </div>
-            <div className="relative flex justify-center text-xs uppercase">
-              <span className="bg-transparent px-2 text-purple-300">Or</span>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-semibold py-3 rounded-lg transition-all duration-200 transform hover:scale-[1.02]"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  'Sign In'
+                )}
+              </Button>
+            </form>
+
+            {/* Divider */}
+            <div className="relative my-8">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-white/20"></div>
+              </div>
+              <div className="relative flex justify-center text-xs uppercase">
+                <span className="bg-transparent px-2 text-purple-300">Or</span>
+              </div>
             </div>
-          </div>
 
-          {/* Google Sign In */}
-          <div className="mb-8">
-            <GoogleSignInButton 
-              text="Sign in with Google"
-              disabled={isLoading}
-            />
-          </div>
+            {/* Google Sign In */}
+            <div className="mb-8">
+              <GoogleSignInButton 
+                text="Sign in with Google"
+                disabled={isLoading}
+              />
+            </div>
 
-          {/* Sign up link */}
-          <div className="text-center">
-            <p className="text-purple-200">
-              Don't have an account?{' '}
-              <Link
-                to="/register"
-                className="text-white font-semibold hover:text-purple-300 transition-colors"
-              >
-                Sign up free
-              </Link>
-            </p>
-          </div>
+            {/* Sign up link */}
+            <div className="text-center">
+              <p className="text-purple-200">
+                Don't have an account?{' '}
+                <Link
+                  to="/register"
+                  className="text-white font-semibold hover:text-purple-300 transition-colors"
+                >
+                  Sign up free
+                </Link>
+              </p>
+            </div>
+            </>
+          )}
         </div>
 
         {/* Footer */}
@@ -0,0 +1,195 @@
+import { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { AlertCircle, Info, Loader2, Lock, ShieldCheck, XCircle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ApiError } from '@/lib/axios'
+import { useSharedAnalysis } from '@/hooks/useShare'
+import analysisService from '@/services/analysis.service'
+import type { SharedAnalysisView } from '@/types/api'
+
+const PASSWORD_ERRORS = ['SHARE001', 'SHARE002']
+
+function SharedResult({ result }: { result: SharedAnalysisView }) {
+  const scoreInfo = analysisService.formatAiScore(result.aiScore)
+  const confidenceInfo = analysisService.formatConfidence(result.confidence)
+  const scoreColor = result.aiScore > 70 ? 'text-red-500' : result.aiScore > 40 ? 'text-yellow-500' : 'text-green-500'
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Resultado da Análise</CardTitle>
+          <CardDescription>
+            Analisado em {new Date(result.analyzedAt).toLocaleDateString('pt-BR')}
+            {result.expiresAt && ` · link válido até ${new Date(result.expiresAt).toLocaleDateString('pt-BR')}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="text-center">
+            <span className={`text-6xl font-bold ${scoreColor}`}>{Math.round(result.aiScore)}%</span>
+            <p className="text-sm text-muted-foreground">Probabilidade IA</p>
+            <h3 className={`text-2xl font-semibold mt-4 ${scoreInfo.color}`}>{scoreInfo.label}</h3>
+            <p className="text-muted-foreground mt-2">{scoreInfo.description}</p>
+          </div>
+
+          <Separator />
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Nível de Confiança</span>
+            <Badge className={`${confidenceInfo.bgColor} ${confidenceInfo.color}`}>
+              {confidenceInfo.label}
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <span className="text-sm text-muted-foreground">Palavras</span>
+              <p className="text-2xl font-semibold">{result.wordCount}</p>
+            </div>
+            <div className="space-y-1">
+              <span className="text-sm text-muted-foreground">Caracteres</span>
+              <p className="text-2xl font-semibold">{result.charCount}</p>
+            </div>
+            <div className="space-y-1">
+              <span className="text-sm text-muted-foreground">Trechos suspeitos</span>
+              <p className="text-2xl font-semibold">{result.suspiciousPartsCount}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Explicação Detalhada</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm leading-relaxed">{result.explanation}</p>
+        </CardContent>
+      </Card>
+
+      {result.indicators.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Indicadores Detectados</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {result.indicators.map((indicator, index) => (
+              <div key={index} className="flex items-start gap-3">
+                {indicator.severity === 'high' ? (
+                  <XCircle className="h-5 w-5 text-red-500 mt-0.5" />
+                ) : indicator.severity === 'medium' ? (
+                  <AlertCircle className="h-5 w-5 text-yellow-500 mt-0.5" />
+                ) : (
+                  <Info className="h-5 w-5 text-blue-500 mt-0.5" />
+                )}
+                <p className="font-medium text-sm">{indicator.description}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription>
+          O texto analisado não é exibido em links compartilhados. A detecção de IA é probabilística e não deve ser
+          usada como única evidência.
+        </AlertDescription>
+      </Alert>
+    </div>
+  )
+}
+
+export default function SharedAnalysis() {
+  const { token = '' } = useParams<{ token: string }>()
+  const [passwordInput, setPasswordInput] = useState('')
+  const [password, setPassword] = useState<string>()
+  const { data, error, isLoading, isFetching } = useSharedAnalysis(token, password)
+
+  const errorCode = error instanceof ApiError ? error.code : undefined
+  const needsPassword = errorCode !== undefined && PASSWORD_ERRORS.includes(errorCode)
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault()
+    setPassword(passwordInput)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-purple-800 to-indigo-900 py-12">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="container mx-auto max-w-2xl px-4"
+      >
+        <div className="flex items-center justify-center gap-2 mb-8 text-white">
+          <ShieldCheck className="h-8 w-8" />
+          <span className="text-2xl font-bold">TrueCheckIA</span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-white" />
+          </div>
+        ) : data ? (
+          <SharedResult result={data} />
+        ) : needsPassword ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Link protegido por senha
+              </CardTitle>
+              <CardDescription>Informe a senha recebida junto com o link.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleUnlock} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="share-password">Senha</Label>
+                  <Input
+                    id="share-password"
+                    type="password"
+                    value={passwordInput}
+                    onChange={(e) => setPasswordInput(e.target.value)}
+                    autoFocus
+                  />
+                  {errorCode === 'SHARE002' && <p className="text-sm text-destructive">Senha incorreta</p>}
+                </div>
+                <Button type="submit" className="w-full" disabled={!passwordInput || isFetching}>
+                  {isFetching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Ver resultado
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center space-y-2">
+              <AlertCircle className="h-10 w-10 mx-auto text-muted-foreground" />
+              <h2 className="text-xl font-semibold">
+                {error instanceof ApiError && error.statusCode === 410 ? 'Link expirado' : 'Link não encontrado'}
+              </h2>
+              <p className="text-muted-foreground">
+                Este link de compartilhamento não está mais disponível. Peça um novo link a quem o enviou.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="text-center mt-8 text-purple-200 text-sm">
+          Quer verificar seus próprios textos?{' '}
+          <Link to="/register" className="underline text-white">
+            Crie uma conta gratuita
+          </Link>
+        </p>
+      </motion.div>
+    </div>
+  )
+}
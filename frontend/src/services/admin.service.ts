@@ -0,0 +1,36 @@
+import api from '@/lib/api'
+import type { DeadLetterJob, DeadLetterJobList, DeadLetterStats } from '@/types/api'
+
+class AdminService {
+  async listDeadLetterJobs(queue: string, page = 1, limit = 20): Promise<DeadLetterJobList> {
+    const response = await api.get<{ jobs: DeadLetterJob[]; stats: DeadLetterStats }>('/admin/dlq', { queue, page, limit })
+    return { ...response.data!, total: response.meta?.total || 0 }
+  }
+
+  async getDeadLetterJob(jobId: string): Promise<DeadLetterJob> {
+    const response = await api.get<DeadLetterJob>(`/admin/dlq/${encodeURIComponent(jobId)}`)
+    return response.data!
+  }
+
+  // `data` replaces the job's payload before it is requeued
+  async requeueDeadLetterJob(jobId: string, reason: string, data?: Record<string, unknown>): Promise<void> {
+    await api.post(`/admin/dlq/${encodeURIComponent(jobId)}/requeue`, { reason, data })
+  }
+
+  async requeueAllDeadLetterJobs(queue: string, reason: string): Promise<{ retried: number; failed: number }> {
+    const response = await api.post<{ retried: number; failed: number }>('/admin/dlq/requeue-all', { queue, reason })
+    return response.data!
+  }
+
+  async purgeDeadLetterJob(jobId: string, reason: string): Promise<void> {
+    await api.delete(`/admin/dlq/${encodeURIComponent(jobId)}`, { reason })
+  }
+
+  async purgeDeadLetterQueue(queue: string, reason: string): Promise<{ purged: number }> {
+    const response = await api.post<{ purged: number }>('/admin/dlq/purge', { queue, reason })
+    return response.data!
+  }
+}
+
+export const adminService = new AdminService()
+export default adminService
@@ -1,8 +1,14 @@
 import api from '@/lib/api'
+import axiosClient from '@/lib/axios'
 import type {
   AnalysisRequest,
   AnalysisResult,
   AnalysisHistory,
+  Batch,
+  BatchSummary,
+  CreateBatchRequest,
+  CreatedBatch,
+  DocumentUploadResult,
   UserStats,
 } from '@/types/api'
 
@@ -12,6 +18,59 @@ class AnalysisService {
     return response.data!
   }
 
+  async uploadDocument(
+    file: File,
+    language: 'pt' | 'en' = 'pt',
+    onProgress?: (percent: number) => void
+  ): Promise<DocumentUploadResult> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('language', language)
+
+    const response = await api.upload<DocumentUploadResult>('/analysis/upload', formData, (event) => {
+      if (onProgress && event.total) {
+        onProgress(Math.round((event.loaded * 100) / event.total))
+      }
+    })
+    return response.data!
+  }
+
+  async createBatch(data: CreateBatchRequest): Promise<CreatedBatch> {
+    const { files = [], ...body } = data
+    if (files.length === 0) {
+      const response = await api.post<CreatedBatch>('/analysis/batch', body)
+      return response.data!
+    }
+
+    // Texts and files cannot be mixed in a multipart request
+    const formData = new FormData()
+    files.forEach((file) => formData.append('files', file))
+    formData.append('language', body.language || 'pt')
+    if (body.name) {
+      formData.append('name', body.name)
+    }
+
+    const response = await api.upload<CreatedBatch>('/analysis/batch', formData)
+    return response.data!
+  }
+
+  async getBatch(batchId: string): Promise<Batch> {
+    const response = await api.get<Batch>(`/analysis/batch/${batchId}`)
+    return response.data!
+  }
+
+  async getBatchResults(batchId: string): Promise<{ summary: BatchSummary }> {
+    const response = await api.get<{ summary: BatchSummary }>(`/analysis/batch/${batchId}/results`)
+    return response.data!
+  }
+
+  async downloadBatchCsv(batchId: string): Promise<Blob> {
+    const response = await axiosClient.getAxiosInstance().get(`/analysis/batch/${batchId}/results.csv`, {
+      responseType: 'blob',
+    })
+    return response.data
+  }
+
   async getHistory(page = 1, limit = 10): Promise<{
     analyses: AnalysisHistory[]
     total: number
@@ -32,6 +91,18 @@ class AnalysisService {
     return response.data!
   }
 
+  async downloadReport(id: string): Promise<Blob> {
+    const response = await axiosClient.getAxiosInstance().get(`/analysis/${id}/report.pdf`, {
+      responseType: 'blob',
+    })
+    return response.data
+  }
+
+  async emailReport(id: string): Promise<{ message: string }> {
+    const response = await api.post<{ message: string }>(`/analysis/${id}/report/email`)
+    return response.data!
+  }
+
   async getStats(): Promise<UserStats> {
     const response = await api.get<UserStats>('/analysis/stats/summary')
     return response.data!
@@ -3,7 +3,11 @@ import type {
   LoginRequest,
   RegisterRequest,
   AuthResponse,
+  SecurityEvent,
+  TwoFactorSetup,
+  TwoFactorStatus,
   User,
+  UserSession,
 } from '@/types/api'
 
 class AuthService {
@@ -33,7 +37,9 @@ class AuthService {
 
   async logout(): Promise<void> {
     try {
-      await api.post('/auth/logout')
+      await api.post('/auth/logout', {
+        refreshToken: localStorage.getItem('refreshToken'),
+      })
     } catch (error) {
       console.error('Logout error:', error)
     } finally {
@@ -42,6 +48,44 @@ class AuthService {
     }
   }
 
+  async getSessions(): Promise<UserSession[]> {
+    const response = await api.get<UserSession[]>('/auth/sessions')
+    return response.data!
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await api.delete(`/auth/sessions/${sessionId}`)
+  }
+
+  async getSecurityEvents(): Promise<SecurityEvent[]> {
+    const response = await api.get<SecurityEvent[]>('/auth/security-events')
+    return response.data!
+  }
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await api.get<TwoFactorStatus>('/auth/2fa')
+    return response.data!
+  }
+
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await api.post<TwoFactorSetup>('/auth/2fa/setup')
+    return response.data!
+  }
+
+  async enableTwoFactor(code: string): Promise<{ recoveryCodes: string[] }> {
+    const response = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code })
+    return response.data!
+  }
+
+  async disableTwoFactor(code: string): Promise<void> {
+    await api.post('/auth/2fa/disable', { code })
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] }> {
+    const response = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code })
+    return response.data!
+  }
+
   async refreshToken(): Promise<string> {
     return api.refreshAccessToken()
   }
@@ -0,0 +1,79 @@
+import api from '@/lib/api'
+import { env } from '@/config/env'
+import type { NotificationFilters, NotificationPage } from '@/types/api'
+
+class NotificationService {
+  async getNotifications(filters: NotificationFilters = {}, cursor?: string): Promise<NotificationPage> {
+    const response = await api.get<NotificationPage['notifications']>('/notifications', {
+      ...filters,
+      cursor,
+    })
+    return {
+      notifications: response.data!,
+      nextCursor: response.meta?.nextCursor ?? null,
+    }
+  }
+
+  async getUnreadCount(): Promise<number> {
+    const response = await api.get<{ count: number }>('/notifications/unread-count')
+    return response.data!.count
+  }
+
+  async markRead(notificationId: string): Promise<void> {
+    await api.patch(`/notifications/${notificationId}/read`)
+  }
+
+  async markAllRead(): Promise<void> {
+    await api.patch('/notifications/read-all')
+  }
+
+  async deleteNotification(notificationId: string): Promise<void> {
+    await api.delete(`/notifications/${notificationId}`)
+  }
+
+  /**
+   * Reads the unread-count event stream until it ends or `signal` aborts.
+   * EventSource cannot send the Authorization header, so the stream is read
+   * with fetch.
+   */
+  async streamUnreadCount(onCount: (count: number) => void, signal: AbortSignal): Promise<void> {
+    const token = api.getToken()
+    const response = await fetch(`${env.apiBaseUrl}/notifications/stream`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      credentials: 'include',
+      signal,
+    })
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Notification stream failed with status ${response.status}`)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+
+      buffer += decoder.decode(value, { stream: true })
+      const events = buffer.split('\n\n')
+      buffer = events.pop() || ''
+
+      for (const event of events) {
+        const lines = event.split('\n')
+        const isUnread = lines.includes('event: unread')
+        const data = lines.find((line) => line.startsWith('data: '))
+        if (isUnread && data) {
+          onCount(JSON.parse(data.slice(6)).count)
+        }
+      }
+    }
+  }
+}
+
+export const notificationService = new NotificationService()
+export default notificationService
@@ -0,0 +1,31 @@
+import api from '@/lib/api'
+import axiosClient from '@/lib/axios'
+import type { CreateShareRequest, SharedAnalysisView, SharedLink } from '@/types/api'
+
+class ShareService {
+  async createShare(data: CreateShareRequest): Promise<SharedLink> {
+    const response = await api.post<SharedLink>('/share', data)
+    return response.data!
+  }
+
+  async listShares(analysisId?: string): Promise<SharedLink[]> {
+    const response = await api.get<SharedLink[]>('/share', analysisId ? { analysisId } : undefined)
+    return response.data!
+  }
+
+  async revokeShare(shareId: string): Promise<SharedLink> {
+    const response = await api.delete<SharedLink>(`/share/${shareId}`)
+    return response.data!
+  }
+
+  // Public endpoint: works without a session
+  async getSharedAnalysis(token: string, password?: string): Promise<SharedAnalysisView> {
+    const response = await axiosClient.get<SharedAnalysisView>(`/share/${encodeURIComponent(token)}`, {
+      headers: password ? { 'X-Share-Password': password } : undefined,
+    })
+    return response.data
+  }
+}
+
+export const shareService = new ShareService()
+export default shareService
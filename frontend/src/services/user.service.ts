@@ -1,5 +1,15 @@
 import api from '@/lib/api'
-import type { User, UserCredits } from '@/types/api'
+import type {
+  ApiKeyInfo,
+  CreateApiKeyRequest,
+  CreatedApiKey,
+  DataExportInfo,
+  DataExportState,
+  User,
+  UserCredits,
+  UserPreferences,
+  WebhookDelivery,
+} from '@/types/api'
 
 class UserService {
   async getProfile(): Promise<User> {
@@ -27,13 +37,67 @@ class UserService {
     return response.data!
   }
 
-  async generateApiKey(): Promise<{ apiKey: string; message: string }> {
-    const response = await api.post<{ apiKey: string; message: string }>('/user/api-key')
+  async getPreferences(): Promise<UserPreferences> {
+    const response = await api.get<UserPreferences>('/user/preferences')
     return response.data!
   }
 
-  async revokeApiKey(): Promise<{ message: string }> {
-    const response = await api.delete<{ message: string }>('/user/api-key')
+  async updatePreferences(data: UserPreferences): Promise<UserPreferences> {
+    const response = await api.put<UserPreferences>('/user/preferences', data)
+    return response.data!
+  }
+
+  async getDataExport(): Promise<DataExportState> {
+    const response = await api.get<DataExportState>('/user/data-export')
+    return response.data!
+  }
+
+  async requestDataExport(): Promise<{ export: DataExportInfo; message: string }> {
+    const response = await api.post<{ export: DataExportInfo; message: string }>('/user/data-export')
+    return response.data!
+  }
+
+  async deleteAccount(data: { confirmation: string; password?: string }): Promise<{ deletionScheduledAt: string; message: string }> {
+    const response = await api.delete<{ deletionScheduledAt: string; message: string }>('/user/account', data)
+    return response.data!
+  }
+
+  async cancelAccountDeletion(token?: string): Promise<void> {
+    await api.post('/user/account/cancel-deletion', token ? { token } : {})
+  }
+
+  async listApiKeys(): Promise<ApiKeyInfo[]> {
+    const response = await api.get<ApiKeyInfo[]>('/user/api-keys')
+    return response.data!
+  }
+
+  async createApiKey(data: CreateApiKeyRequest): Promise<CreatedApiKey> {
+    const response = await api.post<CreatedApiKey>('/user/api-keys', data)
+    return response.data!
+  }
+
+  async rotateApiKey(keyId: string): Promise<CreatedApiKey> {
+    const response = await api.post<CreatedApiKey>(`/user/api-keys/${keyId}/rotate`)
+    return response.data!
+  }
+
+  async revokeApiKey(keyId: string): Promise<{ message: string }> {
+    const response = await api.delete<{ message: string }>(`/user/api-keys/${keyId}`)
+    return response.data!
+  }
+
+  async getWebhookDeliveries(page = 1, limit = 10): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const response = await api.get<WebhookDelivery[]>('/user/webhooks/deliveries', { page, limit })
+    return { deliveries: response.data!, total: response.meta?.total || 0 }
+  }
+
+  async getWebhookSecret(): Promise<{ secret: string }> {
+    const response = await api.get<{ secret: string }>('/user/webhooks/secret')
+    return response.data!
+  }
+
+  async rotateWebhookSecret(): Promise<{ secret: string; message: string }> {
+    const response = await api.post<{ secret: string; message: string }>('/user/webhooks/secret')
     return response.data!
   }
 
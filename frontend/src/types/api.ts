@@ -11,6 +11,7 @@ export interface ApiResponse<T = any> {
     page?: number
     limit?: number
     total?: number
+    nextCursor?: string | null
   }
 }
 
@@ -22,11 +23,12 @@ export interface User {
   avatar?: string
   plan: 'FREE' | 'PRO' | 'ENTERPRISE'
   credits: number
-  apiKey?: string
   emailVerified?: boolean
   createdAt: string
   totalAnalyses?: number
   role?: string
+  hasPassword?: boolean
+  deletionScheduledAt?: string | null
 }
 
 // Auth types
@@ -65,6 +67,271 @@ export interface AnalysisResult {
   wordCount: number
   charCount: number
   cached?: boolean
+  sentences?: SentenceScore[]
+}
+
+// Uploaded document info returned by /analysis/upload
+export interface UploadedDocument {
+  fileName: string
+  mimeType: string
+  pageCount: number | null
+  text: string
+}
+
+export interface QueuedDocumentAnalysis {
+  documentId: string
+  status: 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+  totalChunks: number
+  creditCost: number
+}
+
+export type DocumentUploadResult =
+  | (AnalysisResult & { document: UploadedDocument })
+  | (QueuedDocumentAnalysis & { document: UploadedDocument })
+
+// Batch analysis types
+export type BatchStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+export type BatchItemStatus = 'PENDING' | 'COMPLETED' | 'FAILED'
+
+export interface BatchTextInput {
+  label?: string
+  text: string
+}
+
+export interface CreateBatchRequest {
+  name?: string
+  language?: 'pt' | 'en'
+  texts?: BatchTextInput[]
+  files?: File[]
+}
+
+export interface BatchItem {
+  id: string
+  index: number
+  label: string
+  status: BatchItemStatus
+  charCount: number
+  error?: string | null
+  analysis?: Pick<AnalysisHistory, 'id' | 'aiScore' | 'confidence' | 'isAiGenerated' | 'wordCount' | 'createdAt'> | null
+}
+
+export interface Batch {
+  id: string
+  name?: string | null
+  language: 'pt' | 'en'
+  status: BatchStatus
+  totalItems: number
+  completedItems: number
+  failedItems: number
+  progress: number
+  createdAt: string
+  completedAt?: string | null
+  items: BatchItem[]
+}
+
+export interface CreatedBatch {
+  batchId: string
+  name?: string | null
+  status: BatchStatus
+  totalItems: number
+  items: Omit<BatchItem, 'analysis'>[]
+}
+
+export interface BatchSummary {
+  totalItems: number
+  completedItems: number
+  failedItems: number
+  averageAiScore: number | null
+  aiGeneratedCount: number
+  highestAiScore: number | null
+}
+
+// Public share links
+export type ShareStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED'
+
+export interface CreateShareRequest {
+  analysisId: string
+  expiresInDays?: number
+  password?: string
+}
+
+export interface SharedLink {
+  id: string
+  analysisId: string
+  url: string
+  status: ShareStatus
+  hasPassword: boolean
+  expiresAt: string | null
+  revokedAt: string | null
+  viewCount: number
+  lastViewedAt: string | null
+  createdAt: string
+}
+
+export interface SharedAnalysisView {
+  aiScore: number
+  confidence: 'HIGH' | 'MEDIUM' | 'LOW'
+  isAiGenerated: boolean
+  indicators: Indicator[]
+  explanation: string
+  language: string
+  wordCount: number
+  charCount: number
+  suspiciousPartsCount: number
+  analyzedAt: string
+  expiresAt: string | null
+}
+
+// Webhook deliveries for the public API
+export type WebhookDeliveryStatus = 'PENDING' | 'RETRYING' | 'SUCCEEDED' | 'FAILED'
+
+export interface WebhookDelivery {
+  id: string
+  event: string
+  url: string
+  analysisId: string | null
+  jobId: string | null
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  durationMs: number | null
+  lastAttemptAt: string | null
+  nextRetryAt: string | null
+  deliveredAt: string | null
+  createdAt: string
+}
+
+// Public API keys; the secret itself is only returned on create and rotate
+export type ApiKeyScope = 'analyze' | 'usage' | 'batch'
+export type ApiKeyStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED'
+
+export interface ApiKeyInfo {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  status: ApiKeyStatus
+  expiresAt: string | null
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+  createdAt: string
+}
+
+export interface CreateApiKeyRequest {
+  name: string
+  scopes: ApiKeyScope[]
+  expiresInDays?: number
+}
+
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string
+  message: string
+}
+
+// Account preferences, applied server-side to analyses and emails
+export interface UserPreferences {
+  language: 'pt-BR' | 'en-US' | 'es-ES'
+  analysisLanguage: 'auto' | 'pt-BR' | 'en-US' | 'es-ES'
+  theme: 'light' | 'dark' | 'system'
+  emailNotifications: {
+    analysisComplete: boolean
+    creditsLow: boolean
+    planExpiring: boolean
+    newFeatures: boolean
+    security: boolean
+  }
+  analysisSettings: {
+    autoSave: boolean
+    detailedReports: boolean
+    confidenceThreshold: number
+  }
+}
+
+// Signed-in device listed in the Security settings
+export interface UserSession {
+  id: string
+  device: string
+  userAgent: string | null
+  ipAddress: string | null
+  location: string | null
+  createdAt: string
+  lastSeenAt: string
+  current: boolean
+}
+
+// Sign-ins and security changes on the account, from the audit log
+export interface SecurityEvent {
+  id: string
+  action: string // e.g. auth.login, auth.password_changed, admin.user.suspended
+  createdAt: string
+  ipAddress: string | null
+  device: string | null
+  byAdmin: boolean // done by TrueCheckIA support
+}
+
+// Two-factor authentication (TOTP)
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean // the account's role must use 2FA
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorSetup {
+  secret: string
+  otpauthUrl: string
+  qrCode: string // PNG data URL
+}
+
+// Personal data export (LGPD/GDPR); the archive is downloaded from the emailed link
+export type DataExportStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'EXPIRED'
+
+export interface DataExportInfo {
+  id: string
+  status: DataExportStatus
+  fileSize: number | null
+  error: string | null
+  completedAt: string | null
+  expiresAt: string | null
+  downloadedAt: string | null
+  createdAt: string
+}
+
+export interface DataExportState {
+  export: DataExportInfo | null
+  nextAvailableAt: string | null
+}
+
+// In-app notifications
+export type NotificationType = 'INFO' | 'SUCCESS' | 'WARNING' | 'ERROR' | 'CREDIT_LOW' | 'SUBSCRIPTION' | 'ANALYSIS'
+
+export interface UserNotification {
+  id: string
+  type: NotificationType
+  title: string
+  message: string
+  read: boolean
+  readAt: string | null
+  metadata: Record<string, unknown> | null
+  createdAt: string
+}
+
+export interface NotificationFilters {
+  type?: NotificationType
+  read?: boolean
+  limit?: number
+}
+
+export interface NotificationPage {
+  notifications: UserNotification[]
+  nextCursor: string | null
+}
+
+export interface SentenceScore {
+  startIndex: number
+  endIndex: number
+  score: number
+  flagged: boolean
 }
 
 export interface Indicator {
@@ -126,4 +393,42 @@ export interface Notification {
   message: string
   read: boolean
   createdAt: string
-}
\ No newline at end of file
+}
+// Admin: dead letter queue
+export type DeadLetterJobStatus = 'failed' | 'scheduled-retry' | 'retrying' | 'permanent-failure'
+
+export interface DeadLetterJobError {
+  error: string
+  failedAt: number
+  retryCount: number
+}
+
+export interface DeadLetterJob {
+  id: string
+  originalQueue: string
+  data: Record<string, unknown>
+  error: string
+  status: DeadLetterJobStatus
+  failedAt: number // epoch milliseconds
+  createdAt: number
+  retryCount: number
+  maxRetries: number
+  lastRetryAt?: number
+  nextRetryAt?: number
+  errors?: DeadLetterJobError[] // every failed attempt, oldest first
+  metadata?: Record<string, unknown>
+}
+
+export interface DeadLetterStats {
+  queues: Record<string, { failed: number; retrying: number; permanentFailures: number }>
+  totalFailed: number
+  totalRetrying: number
+  totalPermanentFailures: number
+  retryQueue: number
+}
+
+export interface DeadLetterJobList {
+  jobs: DeadLetterJob[]
+  stats: DeadLetterStats
+  total: number
+}
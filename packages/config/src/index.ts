@@ -26,6 +26,58 @@ const findEnvFile = () => {
 
 dotenv.config({ path: findEnvFile() })
 
+export interface DetectorSpec {
+  provider: string
+  model?: string
+  weight: number
+}
+
+// Parse an ensemble definition like "openai:gpt-4o:0.7,heuristic::0.3"
+const parseDetectorEnsemble = (value: string | undefined, fallback: string): DetectorSpec[] => {
+  return (value || fallback)
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [provider, model, weight] = entry.split(':')
+      return {
+        provider,
+        model: model || undefined,
+        weight: parseFloat(weight || '1'),
+      }
+    })
+}
+
+const DEFAULT_DETECTOR_ENSEMBLE = 'openai:gpt-4o:0.7,openai:gpt-4o-mini:0.3'
+
+// Parse per-queue alert thresholds like "email.queue_size=500,analysis.error_rate=0.1"
+const parseAlertThresholds = (value: string | undefined): Record<string, number> => {
+  const thresholds: Record<string, number> = {}
+  for (const entry of (value || '').split(',')) {
+    const [key, threshold] = entry.split('=').map(part => part.trim())
+    if (key && threshold && !isNaN(parseFloat(threshold))) {
+      thresholds[key] = parseFloat(threshold)
+    }
+  }
+  return thresholds
+}
+
+const parseList = (value: string | undefined): string[] => {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean)
+}
+
+// Parse OTLP headers like "authorization=Bearer abc,x-tenant=prod"
+const parseHeaders = (value: string | undefined): Record<string, string> => {
+  const headers: Record<string, string> = {}
+  for (const entry of parseList(value)) {
+    const separator = entry.indexOf('=')
+    if (separator > 0) {
+      headers[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim()
+    }
+  }
+  return headers
+}
+
 export const config = {
   env: process.env.NODE_ENV || 'development',
   isDev: process.env.NODE_ENV === 'development',
@@ -79,6 +131,23 @@ export const config = {
       embedding: 'text-embedding-3-small',
     },
   },
+
+  detectors: {
+    // OpenAI-compatible endpoint (Ollama, vLLM, LM Studio...)
+    local: {
+      baseUrl: process.env.LOCAL_DETECTOR_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LOCAL_DETECTOR_API_KEY || 'local',
+      model: process.env.LOCAL_DETECTOR_MODEL || 'llama3.1',
+    },
+    // Providers and ensemble weights used for each plan
+    plans: {
+      FREE: parseDetectorEnsemble(process.env.DETECTORS_FREE, DEFAULT_DETECTOR_ENSEMBLE),
+      PRO: parseDetectorEnsemble(process.env.DETECTORS_PRO, DEFAULT_DETECTOR_ENSEMBLE),
+      ENTERPRISE: parseDetectorEnsemble(process.env.DETECTORS_ENTERPRISE, DEFAULT_DETECTOR_ENSEMBLE),
+    } as Record<string, DetectorSpec[]>,
+    // Share of the final aiScore taken from local stylometry metrics
+    stylometryWeight: parseFloat(process.env.STYLOMETRY_WEIGHT || '0.2'),
+  },
   
   auth: {
     jwtSecret: process.env.JWT_SECRET!,
@@ -86,6 +155,15 @@ export const config = {
     refreshSecret: process.env.JWT_REFRESH_SECRET!,
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
     bcryptRounds: 10,
+    impersonationExpiresIn: '15m', // read-only tokens issued from the admin console
+    // TOTP two-factor authentication
+    mfa: {
+      issuer: process.env.MFA_ISSUER || 'TrueCheckIA',
+      challengeExpiresIn: '5m', // lifetime of the mfa_token between password and code
+      requiredRoles: (process.env.MFA_REQUIRED_ROLES || 'ADMIN').split(',').map(role => role.trim()).filter(Boolean),
+      encryptionKey: process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET!, // TOTP secrets at rest
+      recoveryCodeCount: 10,
+    },
     google: {
       clientId: process.env.GOOGLE_CLIENT_ID || '',
       clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
@@ -137,6 +215,56 @@ export const config = {
     analysis: {
       minTextLength: 50,
       maxTextLength: 10000,
+      // Default score above which a text counts as AI-generated; users can override it
+      aiThreshold: 65,
+    },
+    // Long documents are split into chunks and analyzed through the queue
+    document: {
+      maxTextLength: parseInt(process.env.DOCUMENT_MAX_LENGTH || '200000'),
+      chunkSize: parseInt(process.env.DOCUMENT_CHUNK_SIZE || '8000'),
+      concurrency: parseInt(process.env.DOCUMENT_CHUNK_CONCURRENCY || '3'),
+      charsPerCredit: parseInt(process.env.DOCUMENT_CHARS_PER_CREDIT || '10000'),
+      timeBudgetMs: parseInt(process.env.DOCUMENT_TIME_BUDGET_MS || '12000'), // per serverless invocation
+      chunkDurationMs: parseInt(process.env.DOCUMENT_CHUNK_DURATION_MS || '5000'), // expected, until chunks are timed
+    },
+    upload: {
+      maxFileSize: parseInt(process.env.UPLOAD_MAX_FILE_SIZE || '10485760'), // 10MB
+      maxUncompressedSize: parseInt(process.env.UPLOAD_MAX_UNCOMPRESSED_SIZE || '52428800'), // 50MB inside DOCX/ODT
+    },
+    // Batch analysis (PRO and ENTERPRISE)
+    batch: {
+      maxItems: parseInt(process.env.BATCH_MAX_ITEMS || '50'),
+    },
+    // Public API keys (PRO and ENTERPRISE)
+    apiKeys: {
+      maxPerUser: parseInt(process.env.API_KEYS_MAX_PER_USER || '20'),
+    },
+    // Personal data export (LGPD/GDPR)
+    dataExport: {
+      cooldownHours: parseInt(process.env.DATA_EXPORT_COOLDOWN_HOURS || '24'), // one export per period
+      linkTtlHours: parseInt(process.env.DATA_EXPORT_LINK_TTL_HOURS || '48'),
+      pageSize: 500, // rows read per query while building the archive
+    },
+    // Self-service account deletion
+    accountDeletion: {
+      graceDays: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14'), // time to change their mind
+      reauthMaxAgeMinutes: 10, // OAuth users must have signed in this recently
+    },
+    // Heuristics that flag accounts for review in the admin console
+    abuse: {
+      windowHours: parseInt(process.env.ABUSE_WINDOW_HOURS || '24'),
+      sameIpSignups: parseInt(process.env.ABUSE_SAME_IP_SIGNUPS || '3'), // accounts created from one IP
+      sharedApiIpUsers: parseInt(process.env.ABUSE_SHARED_API_IP_USERS || '3'), // accounts calling the API from one IP
+      duplicateTextUsers: parseInt(process.env.ABUSE_DUPLICATE_TEXT_USERS || '3'), // accounts analyzing the same text
+      // Added to the built-in list of disposable email domains, comma separated
+      disposableDomains: (process.env.ABUSE_DISPOSABLE_DOMAINS || '').split(',').map(d => d.trim().toLowerCase()).filter(Boolean),
+    },
+    // Customer webhooks for /api/v1/analyze
+    webhooks: {
+      timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+      maxRetries: parseInt(process.env.WEBHOOK_MAX_RETRIES || '5'),
+      retryBaseDelay: 30000, // doubles on every retry
+      retryMaxDelay: 3600000, // 1 hour
     },
   },
   
@@ -146,6 +274,42 @@ export const config = {
     userPrefix: 'user:',
   },
   
+  // JobMonitor alerts and the Prometheus /metrics endpoint
+  monitoring: {
+    metricsToken: process.env.METRICS_TOKEN || '', // bearer token for scrapes; /metrics is off without it
+    alerts: {
+      // Defaults for every queue; ALERT_THRESHOLDS overrides them per queue
+      thresholds: {
+        error_rate: parseFloat(process.env.ALERT_ERROR_RATE || '0.05'), // share of failed jobs
+        latency: parseInt(process.env.ALERT_LATENCY_P95_MS || '30000'), // p95 across queues
+        throughput: parseInt(process.env.ALERT_MIN_THROUGHPUT || '10'), // jobs per hour, below fires
+        queue_size: parseInt(process.env.ALERT_QUEUE_SIZE || '100'), // pending jobs
+        dlq_size: parseInt(process.env.ALERT_DLQ_SIZE || '10'), // failed jobs in the DLQ
+      } as Record<string, number>,
+      queueThresholds: parseAlertThresholds(process.env.ALERT_THRESHOLDS),
+      cooldownMinutes: parseInt(process.env.ALERT_COOLDOWN_MINUTES || '60'), // reminders for a firing alert
+      checkIntervalSeconds: 60, // job completions check at most this often
+      channels: {
+        email: parseList(process.env.ALERT_EMAIL_TO),
+        webhookUrl: process.env.ALERT_WEBHOOK_URL || '',
+        webhookSecret: process.env.ALERT_WEBHOOK_SECRET || '', // signs webhook payloads when set
+        slackWebhookUrl: process.env.ALERT_SLACK_WEBHOOK_URL || '', // Slack, Mattermost, Discord /slack
+      },
+    },
+  },
+  
+  // OpenTelemetry tracing, using the standard OTEL_* variables
+  tracing: {
+    // otlp, console (prints spans, for local debugging) or none
+    exporter: process.env.OTEL_TRACES_EXPORTER || (process.env.OTEL_EXPORTER_OTLP_ENDPOINT ? 'otlp' : 'none'),
+    serviceName: process.env.OTEL_SERVICE_NAME || 'truecheckia-api',
+    otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318', // OTLP/HTTP, /v1/traces is appended
+    otlpHeaders: parseHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS),
+    sampleRatio: parseFloat(process.env.OTEL_TRACES_SAMPLER_ARG || '1'), // share of traces kept, remote parents included
+    batchSize: 512,
+    flushIntervalMs: 5000,
+  },
+  
   analytics: {
     posthogKey: process.env.NEXT_PUBLIC_POSTHOG_KEY,
     posthogHost: process.env.NEXT_PUBLIC_POSTHOG_HOST,
@@ -231,12 +395,25 @@ export const ERROR_CODES = {
   UNAUTHORIZED: 'AUTH003',
   EMAIL_EXISTS: 'AUTH004',
   EMAIL_NOT_VERIFIED: 'AUTH005',
+  REAUTH_REQUIRED: 'AUTH006',
+  INVALID_MFA_CODE: 'AUTH007',
+  MFA_ENROLLMENT_REQUIRED: 'AUTH008',
+  ACCOUNT_SUSPENDED: 'AUTH009',
+  ACCOUNT_BANNED: 'AUTH010',
   
   // Analysis errors
   TEXT_TOO_SHORT: 'ANALYSIS001',
   TEXT_TOO_LONG: 'ANALYSIS002',
   INSUFFICIENT_CREDITS: 'ANALYSIS003',
   ANALYSIS_FAILED: 'ANALYSIS004',
+  UNSUPPORTED_FILE_TYPE: 'ANALYSIS005',
+  FILE_TOO_LARGE: 'ANALYSIS006',
+  EXTRACTION_FAILED: 'ANALYSIS007',
+  
+  // Share link errors
+  SHARE_PASSWORD_REQUIRED: 'SHARE001',
+  SHARE_PASSWORD_INVALID: 'SHARE002',
+  SHARE_EXPIRED: 'SHARE003',
   
   // Subscription errors
   PAYMENT_FAILED: 'SUB001',
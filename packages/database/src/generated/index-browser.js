@@ -133,12 +133,25 @@ exports.Prisma.UserScalarFieldEnum = {
   credits: 'credits',
   creditsResetAt: 'creditsResetAt',
   apiKey: 'apiKey',
+  webhookSecret: 'webhookSecret',
   role: 'role',
   emailVerified: 'emailVerified',
   emailVerificationToken: 'emailVerificationToken',
   emailVerificationExpires: 'emailVerificationExpires',
   passwordResetToken: 'passwordResetToken',
   passwordResetExpires: 'passwordResetExpires',
+  deletionRequestedAt: 'deletionRequestedAt',
+  deletionScheduledAt: 'deletionScheduledAt',
+  deletionCancelToken: 'deletionCancelToken',
+  twoFactorEnabled: 'twoFactorEnabled',
+  twoFactorSecret: 'twoFactorSecret',
+  twoFactorEnabledAt: 'twoFactorEnabledAt',
+  twoFactorLastStep: 'twoFactorLastStep',
+  status: 'status',
+  statusReason: 'statusReason',
+  statusChangedAt: 'statusChangedAt',
+  statusExpiresAt: 'statusExpiresAt',
+  signupIp: 'signupIp',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -165,9 +178,145 @@ exports.Prisma.AnalysisScalarFieldEnum = {
   processingTime: 'processingTime',
   cached: 'cached',
   metadata: 'metadata',
+  textHash: 'textHash',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.BatchScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  language: 'language',
+  status: 'status',
+  totalItems: 'totalItems',
+  completedItems: 'completedItems',
+  failedItems: 'failedItems',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  completedAt: 'completedAt'
+};
+
+exports.Prisma.BatchItemScalarFieldEnum = {
+  id: 'id',
+  batchId: 'batchId',
+  index: 'index',
+  label: 'label',
+  status: 'status',
+  charCount: 'charCount',
+  jobId: 'jobId',
+  analysisId: 'analysisId',
+  error: 'error',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.UserPreferencesScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  language: 'language',
+  theme: 'theme',
+  analysisLanguage: 'analysisLanguage',
+  autoSaveAnalyses: 'autoSaveAnalyses',
+  detailedReports: 'detailedReports',
+  confidenceThreshold: 'confidenceThreshold',
+  emailAnalysisComplete: 'emailAnalysisComplete',
+  emailCreditsLow: 'emailCreditsLow',
+  emailPlanExpiring: 'emailPlanExpiring',
+  emailNewFeatures: 'emailNewFeatures',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.SharedAnalysisScalarFieldEnum = {
+  id: 'id',
+  token: 'token',
+  analysisId: 'analysisId',
+  userId: 'userId',
+  passwordHash: 'passwordHash',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  viewCount: 'viewCount',
+  lastViewedAt: 'lastViewedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WebhookDeliveryScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  event: 'event',
+  url: 'url',
+  payload: 'payload',
+  analysisId: 'analysisId',
+  jobId: 'jobId',
+  status: 'status',
+  attempts: 'attempts',
+  responseStatus: 'responseStatus',
+  responseBody: 'responseBody',
+  error: 'error',
+  durationMs: 'durationMs',
+  lastAttemptAt: 'lastAttemptAt',
+  nextRetryAt: 'nextRetryAt',
+  deliveredAt: 'deliveredAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.DataExportScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  status: 'status',
+  archive: 'archive',
+  fileSize: 'fileSize',
+  error: 'error',
+  completedAt: 'completedAt',
+  expiresAt: 'expiresAt',
+  downloadedAt: 'downloadedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.AccountDeletionAuditScalarFieldEnum = {
+  id: 'id',
+  userHash: 'userHash',
+  plan: 'plan',
+  authProvider: 'authProvider',
+  accountCreatedAt: 'accountCreatedAt',
+  requestedAt: 'requestedAt',
+  analysesCount: 'analysesCount',
+  hadSubscription: 'hadSubscription',
+  stripeCanceled: 'stripeCanceled',
+  deletedAt: 'deletedAt'
+};
+
+exports.Prisma.AuditEventScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  actorEmail: 'actorEmail',
+  action: 'action',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  reason: 'reason',
+  before: 'before',
+  after: 'after',
+  ipAddress: 'ipAddress',
+  userAgent: 'userAgent',
+  requestId: 'requestId',
   createdAt: 'createdAt'
 };
 
+exports.Prisma.AbuseFlagScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  rule: 'rule',
+  details: 'details',
+  status: 'status',
+  reviewedById: 'reviewedById',
+  reviewedAt: 'reviewedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SubscriptionScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -182,6 +331,55 @@ exports.Prisma.SubscriptionScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.SessionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  userAgent: 'userAgent',
+  device: 'device',
+  ipAddress: 'ipAddress',
+  location: 'location',
+  lastSeenAt: 'lastSeenAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  revokedReason: 'revokedReason',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RecoveryCodeScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  codeHash: 'codeHash',
+  usedAt: 'usedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RefreshTokenScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  familyId: 'familyId',
+  tokenHash: 'tokenHash',
+  replacedById: 'replacedById',
+  revokedAt: 'revokedAt',
+  revokedReason: 'revokedReason',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ApiKeyScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  prefix: 'prefix',
+  keyHash: 'keyHash',
+  scopes: 'scopes',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  lastUsedAt: 'lastUsedAt',
+  lastUsedIp: 'lastUsedIp',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.ApiUsageScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -245,6 +443,52 @@ exports.Prisma.DatabaseMetricsScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.AlertScalarFieldEnum = {
+  id: 'id',
+  dedupeKey: 'dedupeKey',
+  rule: 'rule',
+  queue: 'queue',
+  severity: 'severity',
+  status: 'status',
+  message: 'message',
+  value: 'value',
+  threshold: 'threshold',
+  occurrences: 'occurrences',
+  firstFiredAt: 'firstFiredAt',
+  lastFiredAt: 'lastFiredAt',
+  lastNotifiedAt: 'lastNotifiedAt',
+  acknowledgedAt: 'acknowledgedAt',
+  acknowledgedById: 'acknowledgedById',
+  resolvedAt: 'resolvedAt'
+};
+
+exports.Prisma.AlertSilenceScalarFieldEnum = {
+  id: 'id',
+  dedupeKey: 'dedupeKey',
+  until: 'until',
+  reason: 'reason',
+  createdById: 'createdById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.DailyStatsScalarFieldEnum = {
+  date: 'date',
+  analyses: 'analyses',
+  cachedAnalyses: 'cachedAnalyses',
+  aiAnalyses: 'aiAnalyses',
+  humanAnalyses: 'humanAnalyses',
+  byLanguage: 'byLanguage',
+  byPlan: 'byPlan',
+  signups: 'signups',
+  activeUsers: 'activeUsers',
+  apiCalls: 'apiCalls',
+  apiErrors: 'apiErrors',
+  apiLatencyP50: 'apiLatencyP50',
+  apiLatencyP95: 'apiLatencyP95',
+  computedAt: 'computedAt'
+};
+
 exports.Prisma.AnalyticsEventScalarFieldEnum = {
   id: 'id',
   eventType: 'eventType',
@@ -295,12 +539,59 @@ exports.Role = exports.$Enums.Role = {
   ADMIN: 'ADMIN'
 };
 
+exports.UserStatus = exports.$Enums.UserStatus = {
+  ACTIVE: 'ACTIVE',
+  SUSPENDED: 'SUSPENDED',
+  BANNED: 'BANNED'
+};
+
 exports.Confidence = exports.$Enums.Confidence = {
   HIGH: 'HIGH',
   MEDIUM: 'MEDIUM',
   LOW: 'LOW'
 };
 
+exports.BatchStatus = exports.$Enums.BatchStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.BatchItemStatus = exports.$Enums.BatchItemStatus = {
+  PENDING: 'PENDING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.WebhookDeliveryStatus = exports.$Enums.WebhookDeliveryStatus = {
+  PENDING: 'PENDING',
+  RETRYING: 'RETRYING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED'
+};
+
+exports.DataExportStatus = exports.$Enums.DataExportStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  EXPIRED: 'EXPIRED'
+};
+
+exports.AbuseRule = exports.$Enums.AbuseRule = {
+  SAME_IP_SIGNUPS: 'SAME_IP_SIGNUPS',
+  SHARED_API_IP: 'SHARED_API_IP',
+  DISPOSABLE_EMAIL: 'DISPOSABLE_EMAIL',
+  DUPLICATE_TEXT: 'DUPLICATE_TEXT'
+};
+
+exports.AbuseFlagStatus = exports.$Enums.AbuseFlagStatus = {
+  OPEN: 'OPEN',
+  DISMISSED: 'DISMISSED',
+  ACTIONED: 'ACTIONED'
+};
+
 exports.SubStatus = exports.$Enums.SubStatus = {
   TRIALING: 'TRIALING',
   ACTIVE: 'ACTIVE',
@@ -329,16 +620,45 @@ exports.HealthStatus = exports.$Enums.HealthStatus = {
   MAINTENANCE: 'MAINTENANCE'
 };
 
+exports.AlertSeverity = exports.$Enums.AlertSeverity = {
+  LOW: 'LOW',
+  MEDIUM: 'MEDIUM',
+  HIGH: 'HIGH',
+  CRITICAL: 'CRITICAL'
+};
+
+exports.AlertStatus = exports.$Enums.AlertStatus = {
+  FIRING: 'FIRING',
+  ACKNOWLEDGED: 'ACKNOWLEDGED',
+  RESOLVED: 'RESOLVED'
+};
+
 exports.Prisma.ModelName = {
   User: 'User',
   Analysis: 'Analysis',
+  Batch: 'Batch',
+  BatchItem: 'BatchItem',
+  UserPreferences: 'UserPreferences',
+  SharedAnalysis: 'SharedAnalysis',
+  WebhookDelivery: 'WebhookDelivery',
+  DataExport: 'DataExport',
+  AccountDeletionAudit: 'AccountDeletionAudit',
+  AuditEvent: 'AuditEvent',
+  AbuseFlag: 'AbuseFlag',
   Subscription: 'Subscription',
+  Session: 'Session',
+  RecoveryCode: 'RecoveryCode',
+  RefreshToken: 'RefreshToken',
+  ApiKey: 'ApiKey',
   ApiUsage: 'ApiUsage',
   Notification: 'Notification',
   CachedAnalysis: 'CachedAnalysis',
   QueryPerformance: 'QueryPerformance',
   SystemHealth: 'SystemHealth',
   DatabaseMetrics: 'DatabaseMetrics',
+  Alert: 'Alert',
+  AlertSilence: 'AlertSilence',
+  DailyStats: 'DailyStats',
   AnalyticsEvent: 'AnalyticsEvent'
 };
 
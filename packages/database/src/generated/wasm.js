@@ -101,12 +101,25 @@ exports.Prisma.UserScalarFieldEnum = {
   credits: 'credits',
   creditsResetAt: 'creditsResetAt',
   apiKey: 'apiKey',
+  webhookSecret: 'webhookSecret',
   role: 'role',
   emailVerified: 'emailVerified',
   emailVerificationToken: 'emailVerificationToken',
   emailVerificationExpires: 'emailVerificationExpires',
   passwordResetToken: 'passwordResetToken',
   passwordResetExpires: 'passwordResetExpires',
+  deletionRequestedAt: 'deletionRequestedAt',
+  deletionScheduledAt: 'deletionScheduledAt',
+  deletionCancelToken: 'deletionCancelToken',
+  twoFactorEnabled: 'twoFactorEnabled',
+  twoFactorSecret: 'twoFactorSecret',
+  twoFactorEnabledAt: 'twoFactorEnabledAt',
+  twoFactorLastStep: 'twoFactorLastStep',
+  status: 'status',
+  statusReason: 'statusReason',
+  statusChangedAt: 'statusChangedAt',
+  statusExpiresAt: 'statusExpiresAt',
+  signupIp: 'signupIp',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -133,9 +146,145 @@ exports.Prisma.AnalysisScalarFieldEnum = {
   processingTime: 'processingTime',
   cached: 'cached',
   metadata: 'metadata',
+  textHash: 'textHash',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.BatchScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  language: 'language',
+  status: 'status',
+  totalItems: 'totalItems',
+  completedItems: 'completedItems',
+  failedItems: 'failedItems',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  completedAt: 'completedAt'
+};
+
+exports.Prisma.BatchItemScalarFieldEnum = {
+  id: 'id',
+  batchId: 'batchId',
+  index: 'index',
+  label: 'label',
+  status: 'status',
+  charCount: 'charCount',
+  jobId: 'jobId',
+  analysisId: 'analysisId',
+  error: 'error',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.UserPreferencesScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  language: 'language',
+  theme: 'theme',
+  analysisLanguage: 'analysisLanguage',
+  autoSaveAnalyses: 'autoSaveAnalyses',
+  detailedReports: 'detailedReports',
+  confidenceThreshold: 'confidenceThreshold',
+  emailAnalysisComplete: 'emailAnalysisComplete',
+  emailCreditsLow: 'emailCreditsLow',
+  emailPlanExpiring: 'emailPlanExpiring',
+  emailNewFeatures: 'emailNewFeatures',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.SharedAnalysisScalarFieldEnum = {
+  id: 'id',
+  token: 'token',
+  analysisId: 'analysisId',
+  userId: 'userId',
+  passwordHash: 'passwordHash',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  viewCount: 'viewCount',
+  lastViewedAt: 'lastViewedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WebhookDeliveryScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  event: 'event',
+  url: 'url',
+  payload: 'payload',
+  analysisId: 'analysisId',
+  jobId: 'jobId',
+  status: 'status',
+  attempts: 'attempts',
+  responseStatus: 'responseStatus',
+  responseBody: 'responseBody',
+  error: 'error',
+  durationMs: 'durationMs',
+  lastAttemptAt: 'lastAttemptAt',
+  nextRetryAt: 'nextRetryAt',
+  deliveredAt: 'deliveredAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.DataExportScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  status: 'status',
+  archive: 'archive',
+  fileSize: 'fileSize',
+  error: 'error',
+  completedAt: 'completedAt',
+  expiresAt: 'expiresAt',
+  downloadedAt: 'downloadedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.AccountDeletionAuditScalarFieldEnum = {
+  id: 'id',
+  userHash: 'userHash',
+  plan: 'plan',
+  authProvider: 'authProvider',
+  accountCreatedAt: 'accountCreatedAt',
+  requestedAt: 'requestedAt',
+  analysesCount: 'analysesCount',
+  hadSubscription: 'hadSubscription',
+  stripeCanceled: 'stripeCanceled',
+  deletedAt: 'deletedAt'
+};
+
+exports.Prisma.AuditEventScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  actorEmail: 'actorEmail',
+  action: 'action',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  reason: 'reason',
+  before: 'before',
+  after: 'after',
+  ipAddress: 'ipAddress',
+  userAgent: 'userAgent',
+  requestId: 'requestId',
   createdAt: 'createdAt'
 };
 
+exports.Prisma.AbuseFlagScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  rule: 'rule',
+  details: 'details',
+  status: 'status',
+  reviewedById: 'reviewedById',
+  reviewedAt: 'reviewedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SubscriptionScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -150,6 +299,55 @@ exports.Prisma.SubscriptionScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.SessionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  userAgent: 'userAgent',
+  device: 'device',
+  ipAddress: 'ipAddress',
+  location: 'location',
+  lastSeenAt: 'lastSeenAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  revokedReason: 'revokedReason',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RecoveryCodeScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  codeHash: 'codeHash',
+  usedAt: 'usedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RefreshTokenScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  familyId: 'familyId',
+  tokenHash: 'tokenHash',
+  replacedById: 'replacedById',
+  revokedAt: 'revokedAt',
+  revokedReason: 'revokedReason',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ApiKeyScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  prefix: 'prefix',
+  keyHash: 'keyHash',
+  scopes: 'scopes',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  lastUsedAt: 'lastUsedAt',
+  lastUsedIp: 'lastUsedIp',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.ApiUsageScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -213,6 +411,52 @@ exports.Prisma.DatabaseMetricsScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.AlertScalarFieldEnum = {
+  id: 'id',
+  dedupeKey: 'dedupeKey',
+  rule: 'rule',
+  queue: 'queue',
+  severity: 'severity',
+  status: 'status',
+  message: 'message',
+  value: 'value',
+  threshold: 'threshold',
+  occurrences: 'occurrences',
+  firstFiredAt: 'firstFiredAt',
+  lastFiredAt: 'lastFiredAt',
+  lastNotifiedAt: 'lastNotifiedAt',
+  acknowledgedAt: 'acknowledgedAt',
+  acknowledgedById: 'acknowledgedById',
+  resolvedAt: 'resolvedAt'
+};
+
+exports.Prisma.AlertSilenceScalarFieldEnum = {
+  id: 'id',
+  dedupeKey: 'dedupeKey',
+  until: 'until',
+  reason: 'reason',
+  createdById: 'createdById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.DailyStatsScalarFieldEnum = {
+  date: 'date',
+  analyses: 'analyses',
+  cachedAnalyses: 'cachedAnalyses',
+  aiAnalyses: 'aiAnalyses',
+  humanAnalyses: 'humanAnalyses',
+  byLanguage: 'byLanguage',
+  byPlan: 'byPlan',
+  signups: 'signups',
+  activeUsers: 'activeUsers',
+  apiCalls: 'apiCalls',
+  apiErrors: 'apiErrors',
+  apiLatencyP50: 'apiLatencyP50',
+  apiLatencyP95: 'apiLatencyP95',
+  computedAt: 'computedAt'
+};
+
 exports.Prisma.AnalyticsEventScalarFieldEnum = {
   id: 'id',
   eventType: 'eventType',
@@ -263,12 +507,59 @@ exports.Role = exports.$Enums.Role = {
   ADMIN: 'ADMIN'
 };
 
+exports.UserStatus = exports.$Enums.UserStatus = {
+  ACTIVE: 'ACTIVE',
+  SUSPENDED: 'SUSPENDED',
+  BANNED: 'BANNED'
+};
+
 exports.Confidence = exports.$Enums.Confidence = {
   HIGH: 'HIGH',
   MEDIUM: 'MEDIUM',
   LOW: 'LOW'
 };
 
+exports.BatchStatus = exports.$Enums.BatchStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.BatchItemStatus = exports.$Enums.BatchItemStatus = {
+  PENDING: 'PENDING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.WebhookDeliveryStatus = exports.$Enums.WebhookDeliveryStatus = {
+  PENDING: 'PENDING',
+  RETRYING: 'RETRYING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED'
+};
+
+exports.DataExportStatus = exports.$Enums.DataExportStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  EXPIRED: 'EXPIRED'
+};
+
+exports.AbuseRule = exports.$Enums.AbuseRule = {
+  SAME_IP_SIGNUPS: 'SAME_IP_SIGNUPS',
+  SHARED_API_IP: 'SHARED_API_IP',
+  DISPOSABLE_EMAIL: 'DISPOSABLE_EMAIL',
+  DUPLICATE_TEXT: 'DUPLICATE_TEXT'
+};
+
+exports.AbuseFlagStatus = exports.$Enums.AbuseFlagStatus = {
+  OPEN: 'OPEN',
+  DISMISSED: 'DISMISSED',
+  ACTIONED: 'ACTIONED'
+};
+
 exports.SubStatus = exports.$Enums.SubStatus = {
   TRIALING: 'TRIALING',
   ACTIVE: 'ACTIVE',
@@ -297,16 +588,45 @@ exports.HealthStatus = exports.$Enums.HealthStatus = {
   MAINTENANCE: 'MAINTENANCE'
 };
 
+exports.AlertSeverity = exports.$Enums.AlertSeverity = {
+  LOW: 'LOW',
+  MEDIUM: 'MEDIUM',
+  HIGH: 'HIGH',
+  CRITICAL: 'CRITICAL'
+};
+
+exports.AlertStatus = exports.$Enums.AlertStatus = {
+  FIRING: 'FIRING',
+  ACKNOWLEDGED: 'ACKNOWLEDGED',
+  RESOLVED: 'RESOLVED'
+};
+
 exports.Prisma.ModelName = {
   User: 'User',
   Analysis: 'Analysis',
+  Batch: 'Batch',
+  BatchItem: 'BatchItem',
+  UserPreferences: 'UserPreferences',
+  SharedAnalysis: 'SharedAnalysis',
+  WebhookDelivery: 'WebhookDelivery',
+  DataExport: 'DataExport',
+  AccountDeletionAudit: 'AccountDeletionAudit',
+  AuditEvent: 'AuditEvent',
+  AbuseFlag: 'AbuseFlag',
   Subscription: 'Subscription',
+  Session: 'Session',
+  RecoveryCode: 'RecoveryCode',
+  RefreshToken: 'RefreshToken',
+  ApiKey: 'ApiKey',
   ApiUsage: 'ApiUsage',
   Notification: 'Notification',
   CachedAnalysis: 'CachedAnalysis',
   QueryPerformance: 'QueryPerformance',
   SystemHealth: 'SystemHealth',
   DatabaseMetrics: 'DatabaseMetrics',
+  Alert: 'Alert',
+  AlertSilence: 'AlertSilence',
+  DailyStats: 'DailyStats',
   AnalyticsEvent: 'AnalyticsEvent'
 };
 /**
@@ -320,7 +640,7 @@ const config = {
       "value": "prisma-client-js"
     },
     "output": {
-      "value": "/Users/pedro/Projetos/Producao/truecheckia2/packages/database/src/generated",
+      "value": "/root/tree/packages/database/src/generated",
       "fromEnvVar": null
     },
     "config": {
@@ -329,7 +649,7 @@ const config = {
     "binaryTargets": [
       {
         "fromEnvVar": null,
-        "value": "darwin-arm64",
+        "value": "debian-openssl-3.0.x",
         "native": true
       },
       {
@@ -343,10 +663,12 @@ const config = {
     ],
     "previewFeatures": [
       "driverAdapters",
+      "metrics",
       "postgresqlExtensions",
+      "tracing",
       "relationJoins"
     ],
-    "sourceFilePath": "/Users/pedro/Projetos/Producao/truecheckia2/packages/database/prisma/schema.prisma",
+    "sourceFilePath": "/root/tree/packages/database/prisma/schema.prisma",
     "isCustomOutput": true
   },
   "relativeEnvPaths": {
@@ -359,6 +681,7 @@ const config = {
     "db"
   ],
   "activeProvider": "postgresql",
+  "postinstall": false,
   "inlineDatasources": {
     "db": {
       "url": {
@@ -367,13 +690,13 @@ const config = {
       }
     }
   },
-  "inlineSchema": "generator client {\n  provider        = \"prisma-client-js\"\n  engineType      = \"library\"\n  binaryTargets   = [\"native\", \"rhel-openssl-3.0.x\", \"linux-musl-openssl-3.0.x\"]\n  previewFeatures = [\"driverAdapters\", \"relationJoins\", \"postgresqlExtensions\"]\n  output          = \"../src/generated\"\n}\n\ndatasource db {\n  provider          = \"postgresql\"\n  url               = env(\"DATABASE_URL\")\n  directUrl         = env(\"DIRECT_URL\")\n  shadowDatabaseUrl = env(\"SHADOW_DATABASE_URL\")\n  extensions        = [pg_stat_statements(map: \"pg_stat_statements\")]\n}\n\nmodel User {\n  id             String   @id @default(cuid())\n  email          String   @unique\n  password       String?\n  googleId       String?  @unique\n  name           String?\n  avatar         String?\n  plan           Plan     @default(FREE)\n  credits        Int      @default(10)\n  creditsResetAt DateTime @default(now())\n  apiKey         String?  @unique @default(cuid())\n  role           Role     @default(USER)\n  emailVerified  Boolean  @default(false)\n\n  // Email verification fields\n  emailVerificationToken   String?   @unique\n  emailVerificationExpires DateTime?\n\n  // Password reset fields\n  passwordResetToken   String?   @unique\n  passwordResetExpires DateTime?\n\n  analyses      Analysis[]\n  subscription  Subscription?\n  apiUsage      ApiUsage[]\n  notifications Notification[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([email])\n  @@index([googleId])\n  @@index([apiKey])\n  @@index([emailVerificationToken])\n  @@index([passwordResetToken])\n  @@index([plan, credits, createdAt]) // Composite for plan queries with date filtering\n  @@index([emailVerified, plan]) // For verified users by plan\n  @@index([creditsResetAt]) // For credit reset jobs\n  @@index([role, createdAt]) // Admin queries\n  @@index([updatedAt]) // For sync operations\n}\n\nmodel Analysis {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  text      String @db.Text\n  wordCount Int\n  charCount Int\n  language  String @default(\"pt\")\n\n  aiScore       Float // 0-100 percentage\n  confidence    Confidence\n  isAiGenerated Boolean\n\n  indicators      Json // Array of detected patterns\n  explanation     String @db.Text\n  suspiciousParts Json // Array of text segments with scores\n\n  modelUsed      String  @default(\"gpt-4\")\n  processingTime Int // milliseconds\n  cached         Boolean @default(false)\n\n  metadata Json? // Additional data\n\n  createdAt DateTime @default(now())\n\n  @@index([userId, createdAt(sort: Desc)]) // Primary user history query\n  @@index([userId, isAiGenerated, createdAt(sort: Desc)]) // Filtered history\n  @@index([aiScore, confidence]) // Score-based queries\n  @@index([language, createdAt(sort: Desc)]) // Language analytics\n  @@index([cached, createdAt]) // Cache management\n  @@index([modelUsed, createdAt]) // Model performance tracking\n  @@index([wordCount]) // Analytics queries\n  @@index([processingTime, createdAt]) // Performance monitoring\n}\n\nmodel Subscription {\n  id     String @id @default(cuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  stripeCustomerId String  @unique\n  stripeSubId      String? @unique\n  stripePriceId    String?\n\n  plan   Plan\n  status SubStatus @default(TRIALING)\n\n  currentPeriodEnd  DateTime?\n  cancelAtPeriodEnd Boolean   @default(false)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([stripeCustomerId])\n  @@index([stripeSubId])\n  @@index([status, currentPeriodEnd]) // For subscription management\n  @@index([plan, status]) // Plan analytics\n  @@index([cancelAtPeriodEnd, currentPeriodEnd]) // Cancellation processing\n}\n\nmodel ApiUsage {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  endpoint     String\n  method       String\n  statusCode   Int\n  responseTime Int // milliseconds\n\n  ipAddress String?\n  userAgent String?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId, createdAt(sort: Desc)]) // User API usage history\n  @@index([endpoint, createdAt(sort: Desc)]) // Endpoint analytics\n  @@index([statusCode, createdAt]) // Error monitoring\n  @@index([createdAt(sort: Desc)]) // General analytics\n  @@index([userId, endpoint, createdAt(sort: Desc)]) // Detailed user tracking\n  @@index([responseTime, createdAt]) // Performance monitoring\n}\n\nmodel Notification {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  type    NotifType\n  title   String\n  message String    @db.Text\n\n  read   Boolean   @default(false)\n  readAt DateTime?\n\n  metadata Json?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId, read, createdAt(sort: Desc)]) // User notification feed\n  @@index([userId, type, read]) // Filtered notifications\n  @@index([type, createdAt(sort: Desc)]) // Admin monitoring\n  @@index([read, createdAt]) // Mark as read operations\n}\n\nmodel CachedAnalysis {\n  id       String @id @default(cuid())\n  textHash String @unique\n\n  result    Json\n  expiresAt DateTime\n\n  createdAt DateTime @default(now())\n\n  @@index([textHash]) // Primary lookup\n  @@index([expiresAt]) // Cleanup operations\n  @@index([createdAt]) // Analytics\n}\n\n// New models for production monitoring and performance\n\nmodel QueryPerformance {\n  id            String @id @default(cuid())\n  queryType     String // Type of query (user_lookup, analysis_history, etc.)\n  executionTime Int // milliseconds\n  recordCount   Int // number of records processed\n  indexesUsed   Json? // which indexes were used\n\n  createdAt DateTime @default(now())\n\n  @@index([queryType, createdAt(sort: Desc)])\n  @@index([executionTime, createdAt])\n}\n\nmodel SystemHealth {\n  id           String       @id @default(cuid())\n  service      String // database, api, cache, etc.\n  status       HealthStatus\n  responseTime Int? // milliseconds\n  errorRate    Float? // percentage\n  throughput   Int? // requests per second\n\n  metadata Json?\n\n  createdAt DateTime @default(now())\n\n  @@index([service, status, createdAt(sort: Desc)])\n  @@index([service, createdAt(sort: Desc)])\n}\n\nmodel DatabaseMetrics {\n  id                 String @id @default(cuid())\n  connectionPoolSize Int\n  activeConnections  Int\n  idleConnections    Int\n  queriesPerSecond   Float\n  averageQueryTime   Float\n  slowQueries        Int // queries > 1000ms\n\n  createdAt DateTime @default(now())\n\n  @@index([createdAt(sort: Desc)])\n}\n\n// Partitioned table for high-volume analytics data\nmodel AnalyticsEvent {\n  id        String  @id @default(cuid())\n  eventType String // page_view, analysis_request, subscription_change, etc.\n  userId    String?\n  sessionId String?\n\n  properties Json // flexible event properties\n\n  createdAt DateTime @default(now())\n  date      DateTime @default(now()) @db.Date // For partitioning\n\n  @@index([eventType, date])\n  @@index([userId, eventType, date])\n  @@index([sessionId, date])\n  @@index([date, eventType]) // Optimized for time-series queries\n}\n\nenum Plan {\n  FREE\n  PRO\n  ENTERPRISE\n}\n\nenum Role {\n  USER\n  ADMIN\n}\n\nenum Confidence {\n  HIGH\n  MEDIUM\n  LOW\n}\n\nenum SubStatus {\n  TRIALING\n  ACTIVE\n  CANCELED\n  INCOMPLETE\n  INCOMPLETE_EXPIRED\n  PAST_DUE\n  UNPAID\n  PAUSED\n}\n\nenum NotifType {\n  INFO\n  SUCCESS\n  WARNING\n  ERROR\n  CREDIT_LOW\n  SUBSCRIPTION\n  ANALYSIS\n}\n\nenum HealthStatus {\n  HEALTHY\n  DEGRADED\n  DOWN\n  MAINTENANCE\n}\n",
-  "inlineSchemaHash": "0a4e10eececb433033d713ed8b0bfe72dcd9ca68c8564dd756130e5d7d6e5a12",
+  "inlineSchema": "generator client {\n  provider        = \"prisma-client-js\"\n  engineType      = \"library\"\n  binaryTargets   = [\"native\", \"rhel-openssl-3.0.x\", \"linux-musl-openssl-3.0.x\"]\n  previewFeatures = [\"driverAdapters\", \"relationJoins\", \"postgresqlExtensions\", \"metrics\", \"tracing\"]\n  output          = \"../src/generated\"\n}\n\ndatasource db {\n  provider          = \"postgresql\"\n  url               = env(\"DATABASE_URL\")\n  directUrl         = env(\"DIRECT_URL\")\n  shadowDatabaseUrl = env(\"SHADOW_DATABASE_URL\")\n  extensions        = [pg_stat_statements(map: \"pg_stat_statements\")]\n}\n\nmodel User {\n  id             String   @id @default(cuid())\n  email          String   @unique\n  password       String?\n  googleId       String?  @unique\n  name           String?\n  avatar         String?\n  plan           Plan     @default(FREE)\n  credits        Int      @default(10)\n  creditsResetAt DateTime @default(now())\n  apiKey         String?  @unique // Legacy plaintext key, moved to ApiKey on first use\n  webhookSecret  String? // HMAC-SHA256 key for signing webhook payloads\n  role           Role     @default(USER)\n  emailVerified  Boolean  @default(false)\n\n  // Email verification fields\n  emailVerificationToken   String?   @unique\n  emailVerificationExpires DateTime?\n\n  // Password reset fields\n  passwordResetToken   String?   @unique\n  passwordResetExpires DateTime?\n\n  // Account deletion fields\n  deletionRequestedAt DateTime?\n  deletionScheduledAt DateTime?\n  deletionCancelToken String?   @unique\n\n  // Two-factor authentication (TOTP)\n  twoFactorEnabled   Boolean   @default(false)\n  twoFactorSecret    String? // encrypted; set at enrolment, confirmed by the first code\n  twoFactorEnabledAt DateTime?\n  twoFactorLastStep  Int? // last accepted TOTP time step, so a code can't be replayed\n\n  // Account status, set from the admin console\n  status          UserStatus @default(ACTIVE)\n  statusReason    String?\n  statusChangedAt DateTime?\n  statusExpiresAt DateTime? // a suspension lifts itself at this time; bans don't expire\n\n  signupIp String? // checked for bursts of accounts from one address\n\n  analyses          Analysis[]\n  subscription      Subscription?\n  preferences       UserPreferences?\n  apiUsage          ApiUsage[]\n  apiKeys           ApiKey[]\n  notifications     Notification[]\n  batches           Batch[]\n  sharedAnalyses    SharedAnalysis[]\n  webhookDeliveries WebhookDelivery[]\n  dataExports       DataExport[]\n  sessions          Session[]\n  refreshTokens     RefreshToken[]\n  recoveryCodes     RecoveryCode[]\n  abuseFlags        AbuseFlag[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([email])\n  @@index([googleId])\n  @@index([apiKey])\n  @@index([emailVerificationToken])\n  @@index([passwordResetToken])\n  @@index([plan, credits, createdAt]) // Composite for plan queries with date filtering\n  @@index([emailVerified, plan]) // For verified users by plan\n  @@index([creditsResetAt]) // For credit reset jobs\n  @@index([role, createdAt]) // Admin queries\n  @@index([updatedAt]) // For sync operations\n  @@index([deletionScheduledAt]) // For the account deletion job\n  @@index([status]) // Admin user search\n  @@index([signupIp, createdAt]) // Same-IP signup bursts\n}\n\nmodel Analysis {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  text      String @db.Text\n  wordCount Int\n  charCount Int\n  language  String @default(\"pt\")\n\n  aiScore       Float // 0-100 percentage\n  confidence    Confidence\n  isAiGenerated Boolean\n\n  indicators      Json // Array of detected patterns\n  explanation     String @db.Text\n  suspiciousParts Json // Array of text segments with scores\n\n  modelUsed      String  @default(\"gpt-4\")\n  processingTime Int // milliseconds\n  cached         Boolean @default(false)\n\n  metadata Json? // Additional data\n  textHash String? // SHA-256 of the full text, to spot the same text across accounts\n\n  batchItems BatchItem[]\n  shares     SharedAnalysis[]\n\n  createdAt DateTime @default(now())\n\n  @@index([userId, createdAt(sort: Desc)]) // Primary user history query\n  @@index([userId, isAiGenerated, createdAt(sort: Desc)]) // Filtered history\n  @@index([aiScore, confidence]) // Score-based queries\n  @@index([language, createdAt(sort: Desc)]) // Language analytics\n  @@index([cached, createdAt]) // Cache management\n  @@index([modelUsed, createdAt]) // Model performance tracking\n  @@index([wordCount]) // Analytics queries\n  @@index([processingTime, createdAt]) // Performance monitoring\n  @@index([createdAt, textHash]) // Repeated texts across accounts\n}\n\nmodel Batch {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  name     String?\n  language String      @default(\"pt\")\n  status   BatchStatus @default(PENDING)\n\n  totalItems     Int\n  completedItems Int @default(0)\n  failedItems    Int @default(0)\n\n  items BatchItem[]\n\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  completedAt DateTime?\n\n  @@index([userId, createdAt(sort: Desc)]) // User batch list\n  @@index([status, createdAt]) // Stuck batch monitoring\n}\n\nmodel BatchItem {\n  id      String @id @default(cuid())\n  batchId String\n  batch   Batch  @relation(fields: [batchId], references: [id], onDelete: Cascade)\n\n  index     Int // Position in the submitted batch\n  label     String // Text label or uploaded file name\n  status    BatchItemStatus @default(PENDING)\n  charCount Int             @default(0)\n\n  jobId      String?\n  analysisId String?\n  analysis   Analysis? @relation(fields: [analysisId], references: [id], onDelete: SetNull)\n  error      String?   @db.Text\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@unique([batchId, index])\n  @@index([analysisId])\n}\n\nmodel UserPreferences {\n  id     String @id @default(cuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Interface\n  language String @default(\"pt-BR\")\n  theme    String @default(\"system\")\n\n  // Analysis\n  analysisLanguage    String  @default(\"auto\")\n  autoSaveAnalyses    Boolean @default(true)\n  detailedReports     Boolean @default(false)\n  confidenceThreshold Int     @default(65) // isAiGenerated when aiScore is above this\n\n  // Email opt-ins (security alerts are always sent)\n  emailAnalysisComplete Boolean @default(true)\n  emailCreditsLow       Boolean @default(true)\n  emailPlanExpiring     Boolean @default(true)\n  emailNewFeatures      Boolean @default(false)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n}\n\nmodel SharedAnalysis {\n  id         String   @id @default(cuid())\n  token      String   @unique // Unguessable public link token\n  analysisId String\n  analysis   Analysis @relation(fields: [analysisId], references: [id], onDelete: Cascade)\n  userId     String\n  user       User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  passwordHash String?\n  expiresAt    DateTime?\n  revokedAt    DateTime?\n  viewCount    Int       @default(0)\n  lastViewedAt DateTime?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId, createdAt(sort: Desc)]) // Owner share list\n  @@index([analysisId])\n}\n\nmodel WebhookDelivery {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  event      String // e.g. analysis.completed\n  url        String\n  payload    Json // Event data, re-sent unchanged on retries\n  analysisId String?\n  jobId      String?\n\n  status         WebhookDeliveryStatus @default(PENDING)\n  attempts       Int                   @default(0)\n  responseStatus Int?\n  responseBody   String?               @db.Text // Truncated\n  error          String?               @db.Text\n  durationMs     Int?\n\n  lastAttemptAt DateTime?\n  nextRetryAt   DateTime?\n  deliveredAt   DateTime?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId, createdAt(sort: Desc)]) // Customer delivery log\n  @@index([userId, status, createdAt(sort: Desc)]) // Filtered delivery log\n}\n\n// Personal data export (LGPD/GDPR), built by the export queue\nmodel DataExport {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  status   DataExportStatus @default(PENDING)\n  archive  Bytes? // ZIP file, cleared when the download link expires\n  fileSize Int?\n  error    String?          @db.Text\n\n  completedAt  DateTime?\n  expiresAt    DateTime? // Download link validity\n  downloadedAt DateTime?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId, createdAt(sort: Desc)]) // Daily limit and latest export\n  @@index([status, expiresAt]) // Expiry cleanup\n}\n\n// Kept after an account is deleted; holds no personal data\nmodel AccountDeletionAudit {\n  id               String   @id @default(cuid())\n  userHash         String // SHA-256 of the deleted user id\n  plan             Plan\n  authProvider     String // password, google\n  accountCreatedAt DateTime\n  requestedAt      DateTime\n  analysesCount    Int      @default(0)\n  hadSubscription  Boolean  @default(false)\n  stripeCanceled   Boolean  @default(false)\n\n  deletedAt DateTime @default(now())\n\n  @@index([deletedAt])\n}\n\n// Who did what to which record. Actor and target are plain ids so events\n// outlive the rows they refer to.\nmodel AuditEvent {\n  id         String  @id @default(cuid())\n  actorId    String? // null for system actions\n  actorEmail String?\n  action     String // e.g. admin.user.credits_adjusted\n  targetType String? // user, job\n  targetId   String?\n  reason     String? @db.Text\n  before     Json?\n  after      Json?\n  ipAddress  String?\n  userAgent  String?\n  requestId  String?\n\n  createdAt DateTime @default(now())\n\n  @@index([actorId, createdAt(sort: Desc)])\n  @@index([targetType, targetId, createdAt(sort: Desc)])\n  @@index([action, createdAt(sort: Desc)])\n  @@index([createdAt(sort: Desc)])\n}\n\n// An account that matched an abuse heuristic, waiting for an admin to look\n// at it. One flag per account and rule; later matches update the details.\nmodel AbuseFlag {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  rule    AbuseRule\n  details Json? // what matched, e.g. the IP and the other accounts\n  status  AbuseFlagStatus @default(OPEN)\n\n  reviewedById String?\n  reviewedAt   DateTime?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@unique([userId, rule])\n  @@index([status, createdAt(sort: Desc)]) // Review queue\n}\n\nmodel Subscription {\n  id     String @id @default(cuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  stripeCustomerId String  @unique\n  stripeSubId      String? @unique\n  stripePriceId    String?\n\n  plan   Plan\n  status SubStatus @default(TRIALING)\n\n  currentPeriodEnd  DateTime?\n  cancelAtPeriodEnd Boolean   @default(false)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([stripeCustomerId])\n  @@index([stripeSubId])\n  @@index([status, currentPeriodEnd]) // For subscription management\n  @@index([plan, status]) // Plan analytics\n  @@index([cancelAtPeriodEnd, currentPeriodEnd]) // Cancellation processing\n}\n\n// A signed-in device. Its id is the refresh token family and is carried by\n// access tokens as sessionId.\nmodel Session {\n  id     String @id\n  userId String\n\n  userAgent String?\n  device    String? // e.g. \"Chrome on Windows\"\n  ipAddress String? // last seen\n  location  String? // approximate, from the edge network's geo headers\n\n  lastSeenAt    DateTime  @default(now())\n  expiresAt     DateTime // expiry of the current refresh token\n  revokedAt     DateTime?\n  revokedReason String? // logout, logout_all, revoked, reuse_detected, password_changed, password_reset, suspended\n\n  createdAt DateTime @default(now())\n\n  user          User           @relation(fields: [userId], references: [id], onDelete: Cascade)\n  refreshTokens RefreshToken[]\n\n  @@index([userId, revokedAt, lastSeenAt(sort: Desc)])\n  @@index([expiresAt]) // Cleanup operations\n}\n\n// One-time codes for signing in without the authenticator app\nmodel RecoveryCode {\n  id       String    @id @default(cuid())\n  userId   String\n  codeHash String    @unique // sha256 of the user id and normalised code\n  usedAt   DateTime?\n\n  createdAt DateTime @default(now())\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId, usedAt])\n}\n\n// One row per issued refresh token; tokens of one session share a familyId.\nmodel RefreshToken {\n  id        String @id @default(cuid())\n  userId    String\n  familyId  String\n  tokenHash String @unique // SHA-256 of the token; the token itself is never stored\n\n  replacedById  String? // the token issued when this one was rotated\n  revokedAt     DateTime?\n  revokedReason String? // rotated, or the reason the session was revoked\n  expiresAt     DateTime\n\n  createdAt DateTime @default(now())\n\n  user    User    @relation(fields: [userId], references: [id], onDelete: Cascade)\n  session Session @relation(fields: [familyId], references: [id], onDelete: Cascade)\n\n  @@index([familyId, revokedAt])\n  @@index([userId, revokedAt])\n  @@index([expiresAt]) // Cleanup operations\n}\n\nmodel ApiKey {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  name    String\n  prefix  String // First characters of the key, shown to identify it\n  keyHash String   @unique // SHA-256 of the full key; the key itself is never stored\n  scopes  String[] // analyze, usage, batch\n\n  expiresAt  DateTime?\n  revokedAt  DateTime?\n  lastUsedAt DateTime?\n  lastUsedIp String?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId, revokedAt])\n}\n\nmodel ApiUsage {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  endpoint     String\n  method       String\n  statusCode   Int\n  responseTime Int // milliseconds\n\n  ipAddress String?\n  userAgent String?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId, createdAt(sort: Desc)]) // User API usage history\n  @@index([endpoint, createdAt(sort: Desc)]) // Endpoint analytics\n  @@index([statusCode, createdAt]) // Error monitoring\n  @@index([createdAt(sort: Desc)]) // General analytics\n  @@index([userId, endpoint, createdAt(sort: Desc)]) // Detailed user tracking\n  @@index([responseTime, createdAt]) // Performance monitoring\n}\n\nmodel Notification {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  type    NotifType\n  title   String\n  message String    @db.Text\n\n  read   Boolean   @default(false)\n  readAt DateTime?\n\n  metadata Json?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId, read, createdAt(sort: Desc)]) // User notification feed\n  @@index([userId, type, read]) // Filtered notifications\n  @@index([type, createdAt(sort: Desc)]) // Admin monitoring\n  @@index([read, createdAt]) // Mark as read operations\n}\n\nmodel CachedAnalysis {\n  id       String @id @default(cuid())\n  textHash String @unique\n\n  result    Json\n  expiresAt DateTime\n\n  createdAt DateTime @default(now())\n\n  @@index([textHash]) // Primary lookup\n  @@index([expiresAt]) // Cleanup operations\n  @@index([createdAt]) // Analytics\n}\n\n// New models for production monitoring and performance\n\nmodel QueryPerformance {\n  id            String @id @default(cuid())\n  queryType     String // Type of query (user_lookup, analysis_history, etc.)\n  executionTime Int // milliseconds\n  recordCount   Int // number of records processed\n  indexesUsed   Json? // which indexes were used\n\n  createdAt DateTime @default(now())\n\n  @@index([queryType, createdAt(sort: Desc)])\n  @@index([executionTime, createdAt])\n}\n\nmodel SystemHealth {\n  id           String       @id @default(cuid())\n  service      String // database, api, cache, etc.\n  status       HealthStatus\n  responseTime Int? // milliseconds\n  errorRate    Float? // percentage\n  throughput   Int? // requests per second\n\n  metadata Json?\n\n  createdAt DateTime @default(now())\n\n  @@index([service, status, createdAt(sort: Desc)])\n  @@index([service, createdAt(sort: Desc)])\n}\n\nmodel DatabaseMetrics {\n  id                 String @id @default(cuid())\n  connectionPoolSize Int\n  activeConnections  Int\n  idleConnections    Int\n  queriesPerSecond   Float\n  averageQueryTime   Float\n  slowQueries        Int // queries > 1000ms\n\n  createdAt DateTime @default(now())\n\n  @@index([createdAt(sort: Desc)])\n}\n\n// Raised by JobMonitor when a rule's threshold is crossed. There is at most\n// one open (firing or acknowledged) alert per dedupe key; it resolves by\n// itself once the condition clears.\nmodel Alert {\n  id          String        @id @default(cuid())\n  dedupeKey   String // the rule, plus the queue for per-queue rules\n  rule        String // error_rate, latency, throughput, queue_size, dlq_size\n  queue       String?\n  severity    AlertSeverity\n  status      AlertStatus   @default(FIRING)\n  message     String\n  value       Float\n  threshold   Float\n  occurrences Int           @default(1) // checks that found the condition while open\n\n  firstFiredAt     DateTime  @default(now())\n  lastFiredAt      DateTime  @default(now())\n  lastNotifiedAt   DateTime?\n  acknowledgedAt   DateTime?\n  acknowledgedById String?\n  resolvedAt       DateTime?\n\n  @@index([dedupeKey, status])\n  @@index([status, lastFiredAt(sort: Desc)]) // Admin alert list\n}\n\n// Mutes notifications for a dedupe key until `until`. Alerts are still\n// recorded while silenced.\nmodel AlertSilence {\n  id          String   @id @default(cuid())\n  dedupeKey   String   @unique\n  until       DateTime\n  reason      String   @db.Text\n  createdById String?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n}\n\n// Usage totals for one UTC day, rebuilt from the raw tables by the nightly\n// rollup. Re-running a day overwrites its row. Admin charts read these.\nmodel DailyStats {\n  date DateTime @id @db.Date\n\n  analyses       Int\n  cachedAnalyses Int // served from the result cache\n  aiAnalyses     Int // judged AI-generated\n  humanAnalyses  Int\n  byLanguage     Json // analyses per language, e.g. { \"pt\": 120, \"en\": 30 }\n  byPlan         Json // analyses per plan of the user at rollup time\n\n  signups     Int\n  activeUsers Int // analyzed, called the API or signed in that day\n\n  apiCalls      Int\n  apiErrors     Int // status 400 and above\n  apiLatencyP50 Int? // milliseconds; null without API calls\n  apiLatencyP95 Int?\n\n  computedAt DateTime @updatedAt\n}\n\n// Partitioned table for high-volume analytics data\nmodel AnalyticsEvent {\n  id        String  @id @default(cuid())\n  eventType String // page_view, analysis_request, subscription_change, etc.\n  userId    String?\n  sessionId String?\n\n  properties Json // flexible event properties\n\n  createdAt DateTime @default(now())\n  date      DateTime @default(now()) @db.Date // For partitioning\n\n  @@index([eventType, date])\n  @@index([userId, eventType, date])\n  @@index([sessionId, date])\n  @@index([date, eventType]) // Optimized for time-series queries\n}\n\nenum Plan {\n  FREE\n  PRO\n  ENTERPRISE\n}\n\nenum Role {\n  USER\n  ADMIN\n}\n\nenum UserStatus {\n  ACTIVE\n  SUSPENDED\n  BANNED\n}\n\nenum AlertSeverity {\n  LOW\n  MEDIUM\n  HIGH\n  CRITICAL\n}\n\nenum AlertStatus {\n  FIRING\n  ACKNOWLEDGED\n  RESOLVED\n}\n\nenum AbuseRule {\n  SAME_IP_SIGNUPS\n  SHARED_API_IP\n  DISPOSABLE_EMAIL\n  DUPLICATE_TEXT\n}\n\nenum AbuseFlagStatus {\n  OPEN\n  DISMISSED\n  ACTIONED\n}\n\nenum Confidence {\n  HIGH\n  MEDIUM\n  LOW\n}\n\nenum SubStatus {\n  TRIALING\n  ACTIVE\n  CANCELED\n  INCOMPLETE\n  INCOMPLETE_EXPIRED\n  PAST_DUE\n  UNPAID\n  PAUSED\n}\n\nenum NotifType {\n  INFO\n  SUCCESS\n  WARNING\n  ERROR\n  CREDIT_LOW\n  SUBSCRIPTION\n  ANALYSIS\n}\n\nenum BatchStatus {\n  PENDING\n  PROCESSING\n  COMPLETED\n  FAILED\n}\n\nenum BatchItemStatus {\n  PENDING\n  COMPLETED\n  FAILED\n}\n\nenum WebhookDeliveryStatus {\n  PENDING\n  RETRYING\n  SUCCEEDED\n  FAILED\n}\n\nenum DataExportStatus {\n  PENDING\n  PROCESSING\n  COMPLETED\n  FAILED\n  EXPIRED\n}\n\nenum HealthStatus {\n  HEALTHY\n  DEGRADED\n  DOWN\n  MAINTENANCE\n}\n",
+  "inlineSchemaHash": "711f4a343bad0d7b74d98ed4dfc6f54d8374d3165372dceb3847bbe1d7ec25cf",
   "copyEngine": true
 }
 config.dirname = '/'
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"googleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatar\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"Plan\"},{\"name\":\"credits\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"creditsResetAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"apiKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"Role\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailVerificationToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerificationExpires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"passwordResetToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordResetExpires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"analyses\",\"kind\":\"object\",\"type\":\"Analysis\",\"relationName\":\"AnalysisToUser\"},{\"name\":\"subscription\",\"kind\":\"object\",\"type\":\"Subscription\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"apiUsage\",\"kind\":\"object\",\"type\":\"ApiUsage\",\"relationName\":\"ApiUsageToUser\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Analysis\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AnalysisToUser\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"wordCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"charCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"aiScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"confidence\",\"kind\":\"enum\",\"type\":\"Confidence\"},{\"name\":\"isAiGenerated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"indicators\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"explanation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"suspiciousParts\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"modelUsed\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"processingTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cached\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Subscription\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeSubId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripePriceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"Plan\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SubStatus\"},{\"name\":\"currentPeriodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelAtPeriodEnd\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ApiUsage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ApiUsageToUser\"},{\"name\":\"endpoint\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statusCode\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"responseTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotifType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"read\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CachedAnalysis\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"textHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"result\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"QueryPerformance\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"queryType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"executionTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"recordCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"indexesUsed\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"SystemHealth\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"service\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"HealthStatus\"},{\"name\":\"responseTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorRate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"throughput\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"DatabaseMetrics\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"connectionPoolSize\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"activeConnections\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"idleConnections\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"queriesPerSecond\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"averageQueryTime\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"slowQueries\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AnalyticsEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eventType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"properties\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"googleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatar\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"Plan\"},{\"name\":\"credits\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"creditsResetAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"apiKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"webhookSecret\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"Role\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailVerificationToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerificationExpires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"passwordResetToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordResetExpires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletionRequestedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletionScheduledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletionCancelToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"twoFactorEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"twoFactorSecret\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"twoFactorEnabledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"twoFactorLastStep\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"UserStatus\"},{\"name\":\"statusReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statusChangedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"statusExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"signupIp\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analyses\",\"kind\":\"object\",\"type\":\"Analysis\",\"relationName\":\"AnalysisToUser\"},{\"name\":\"subscription\",\"kind\":\"object\",\"type\":\"Subscription\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"preferences\",\"kind\":\"object\",\"type\":\"UserPreferences\",\"relationName\":\"UserToUserPreferences\"},{\"name\":\"apiUsage\",\"kind\":\"object\",\"type\":\"ApiUsage\",\"relationName\":\"ApiUsageToUser\"},{\"name\":\"apiKeys\",\"kind\":\"object\",\"type\":\"ApiKey\",\"relationName\":\"ApiKeyToUser\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToUser\"},{\"name\":\"batches\",\"kind\":\"object\",\"type\":\"Batch\",\"relationName\":\"BatchToUser\"},{\"name\":\"sharedAnalyses\",\"kind\":\"object\",\"type\":\"SharedAnalysis\",\"relationName\":\"SharedAnalysisToUser\"},{\"name\":\"webhookDeliveries\",\"kind\":\"object\",\"type\":\"WebhookDelivery\",\"relationName\":\"UserToWebhookDelivery\"},{\"name\":\"dataExports\",\"kind\":\"object\",\"type\":\"DataExport\",\"relationName\":\"DataExportToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"refreshTokens\",\"kind\":\"object\",\"type\":\"RefreshToken\",\"relationName\":\"RefreshTokenToUser\"},{\"name\":\"recoveryCodes\",\"kind\":\"object\",\"type\":\"RecoveryCode\",\"relationName\":\"RecoveryCodeToUser\"},{\"name\":\"abuseFlags\",\"kind\":\"object\",\"type\":\"AbuseFlag\",\"relationName\":\"AbuseFlagToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Analysis\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AnalysisToUser\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"wordCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"charCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"aiScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"confidence\",\"kind\":\"enum\",\"type\":\"Confidence\"},{\"name\":\"isAiGenerated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"indicators\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"explanation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"suspiciousParts\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"modelUsed\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"processingTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cached\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"textHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"batchItems\",\"kind\":\"object\",\"type\":\"BatchItem\",\"relationName\":\"AnalysisToBatchItem\"},{\"name\":\"shares\",\"kind\":\"object\",\"type\":\"SharedAnalysis\",\"relationName\":\"AnalysisToSharedAnalysis\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Batch\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"BatchToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"BatchStatus\"},{\"name\":\"totalItems\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"completedItems\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"failedItems\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"BatchItem\",\"relationName\":\"BatchToBatchItem\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"BatchItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"batchId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"batch\",\"kind\":\"object\",\"type\":\"Batch\",\"relationName\":\"BatchToBatchItem\"},{\"name\":\"index\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"BatchItemStatus\"},{\"name\":\"charCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"jobId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysisId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysis\",\"kind\":\"object\",\"type\":\"Analysis\",\"relationName\":\"AnalysisToBatchItem\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"UserPreferences\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToUserPreferences\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"theme\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysisLanguage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"autoSaveAnalyses\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"detailedReports\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"confidenceThreshold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"emailAnalysisComplete\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailCreditsLow\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailPlanExpiring\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailNewFeatures\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"SharedAnalysis\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysisId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysis\",\"kind\":\"object\",\"type\":\"Analysis\",\"relationName\":\"AnalysisToSharedAnalysis\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SharedAnalysisToUser\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"viewCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastViewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"WebhookDelivery\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToWebhookDelivery\"},{\"name\":\"event\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"analysisId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"jobId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"WebhookDeliveryStatus\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"responseStatus\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"responseBody\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"durationMs\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastAttemptAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"nextRetryAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deliveredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"DataExport\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DataExportToUser\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"DataExportStatus\"},{\"name\":\"archive\",\"kind\":\"scalar\",\"type\":\"Bytes\"},{\"name\":\"fileSize\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"downloadedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AccountDeletionAudit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"Plan\"},{\"name\":\"authProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountCreatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"requestedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"analysesCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"hadSubscription\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"stripeCanceled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AuditEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorEmail\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"before\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"after\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AbuseFlag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AbuseFlagToUser\"},{\"name\":\"rule\",\"kind\":\"enum\",\"type\":\"AbuseRule\"},{\"name\":\"details\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AbuseFlagStatus\"},{\"name\":\"reviewedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Subscription\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeSubId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripePriceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"Plan\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SubStatus\"},{\"name\":\"currentPeriodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelAtPeriodEnd\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"device\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastSeenAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"},{\"name\":\"refreshTokens\",\"kind\":\"object\",\"type\":\"RefreshToken\",\"relationName\":\"RefreshTokenToSession\"}],\"dbName\":null},\"RecoveryCode\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"codeHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RecoveryCodeToUser\"}],\"dbName\":null},\"RefreshToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"familyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"replacedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RefreshTokenToUser\"},{\"name\":\"session\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"RefreshTokenToSession\"}],\"dbName\":null},\"ApiKey\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ApiKeyToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prefix\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scopes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedIp\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ApiUsage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ApiUsageToUser\"},{\"name\":\"endpoint\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statusCode\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"responseTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotifType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"read\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CachedAnalysis\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"textHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"result\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"QueryPerformance\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"queryType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"executionTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"recordCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"indexesUsed\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"SystemHealth\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"service\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"HealthStatus\"},{\"name\":\"responseTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorRate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"throughput\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"DatabaseMetrics\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"connectionPoolSize\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"activeConnections\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"idleConnections\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"queriesPerSecond\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"averageQueryTime\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"slowQueries\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Alert\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dedupeKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rule\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"queue\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"severity\",\"kind\":\"enum\",\"type\":\"AlertSeverity\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AlertStatus\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"threshold\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"occurrences\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"firstFiredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastFiredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastNotifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acknowledgedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acknowledgedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resolvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AlertSilence\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dedupeKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"until\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"DailyStats\":{\"fields\":[{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"analyses\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cachedAnalyses\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"aiAnalyses\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"humanAnalyses\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"byLanguage\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"byPlan\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"signups\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"activeUsers\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"apiCalls\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"apiErrors\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"apiLatencyP50\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"apiLatencyP95\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"computedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AnalyticsEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eventType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"properties\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.engineWasm = {
   getRuntime: () => require('./query_engine_bg.js'),
@@ -21,6 +21,20 @@ const createPrismaClient = () => {
   })
 }
 
+// Models whose rows may only be inserted, with the personal fields that may
+// still be cleared when the person's account is erased
+const APPEND_ONLY_MODELS: Record<string, string[]> = {
+  AuditEvent: ['actorEmail', 'ipAddress', 'userAgent'],
+}
+const MUTATING_ACTIONS = ['update', 'updateMany', 'upsert', 'delete', 'deleteMany']
+
+// An updateMany that only sets erasable fields to null
+const isErasure = (action: string, data: Record<string, unknown> | undefined, erasable: string[]) =>
+  action === 'updateMany' &&
+  !!data &&
+  Object.keys(data).length > 0 &&
+  Object.entries(data).every(([field, value]) => erasable.includes(field) && value === null)
+
 // Connection retry logic
 const createReliablePrismaClient = () => {
   const client = createPrismaClient()
@@ -98,6 +112,14 @@ const createReliablePrismaClient = () => {
   client.$queryRaw = wrapWithRetry(client.$queryRaw.bind(client))
   client.$executeRaw = wrapWithRetry(client.$executeRaw.bind(client))
   
+  client.$use(async (params, next) => {
+    const erasable = params.model && APPEND_ONLY_MODELS[params.model]
+    if (erasable && MUTATING_ACTIONS.includes(params.action) && !isErasure(params.action, params.args?.data, erasable)) {
+      throw new Error(`${params.model} records are append-only`)
+    }
+    return next(params)
+  })
+  
   // Add connection health check
   client.$healthCheck = async () => {
     try {
@@ -143,10 +165,11 @@ export interface DatabaseHealthCheck {
 }
 
 // Extend PrismaClient type with health check
-declare module '@prisma/client' {
+declare module './generated' {
   interface PrismaClient {
     $healthCheck(): Promise<DatabaseHealthCheck>
   }
 }
 
-export * from '@prisma/client'
\ No newline at end of file
+// Model types, enums and the Prisma namespace of the generated client
+export * from './generated'
\ No newline at end of file
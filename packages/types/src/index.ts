@@ -16,12 +16,70 @@ export const refreshTokenSchema = z.object({
   refreshToken: z.string(),
 })
 
+// Code from the authenticator app (6 digits) or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Código inválido').max(20, 'Código inválido'),
+})
+
+export const verifyTwoFactorLoginSchema = twoFactorCodeSchema.extend({
+  mfaToken: z.string().min(1),
+})
+
 // Analysis schemas
 export const analyzeTextSchema = z.object({
   text: z.string().min(50, 'Texto deve ter no mínimo 50 caracteres').max(10000, 'Texto muito longo'),
   language: z.enum(['pt', 'en']).optional().default('pt'),
 })
 
+// Public API (/api/v1/analyze)
+export const apiAnalyzeSchema = analyzeTextSchema.extend({
+  webhook_url: z.string().url('webhook_url inválida').max(2048).optional(),
+  async: z.boolean().optional(),
+})
+
+export const API_KEY_SCOPES = ['analyze', 'usage', 'batch'] as const
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100, 'Nome muito longo'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Selecione ao menos um escopo'),
+  expiresInDays: z.number().int().min(1).max(730).optional(),
+})
+
+export const webhookDeliveriesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.enum(['PENDING', 'RETRYING', 'SUCCEEDED', 'FAILED']).optional(),
+})
+
+export const NOTIFICATION_TYPES = ['INFO', 'SUCCESS', 'WARNING', 'ERROR', 'CREDIT_LOW', 'SUBSCRIPTION', 'ANALYSIS'] as const
+
+export const notificationsQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  type: z.enum(NOTIFICATION_TYPES).optional(),
+  read: z.enum(['true', 'false']).optional(),
+})
+
+export const analyzeDocumentSchema = z.object({
+  text: z.string().min(50, 'Texto deve ter no mínimo 50 caracteres').max(200000, 'Documento muito longo'),
+  language: z.enum(['pt', 'en']).optional().default('pt'),
+})
+
+export const createBatchSchema = z.object({
+  name: z.string().max(120, 'Nome muito longo').optional(),
+  language: z.enum(['pt', 'en']).optional().default('pt'),
+  texts: z.array(z.object({
+    label: z.string().max(200, 'Rótulo muito longo').optional(),
+    text: z.string().min(50, 'Texto deve ter no mínimo 50 caracteres').max(10000, 'Texto muito longo'),
+  })).max(50, 'Lote muito grande').optional(),
+})
+
+export const createShareSchema = z.object({
+  analysisId: z.string().min(1),
+  expiresInDays: z.number().int().min(1, 'Validade mínima de 1 dia').max(365, 'Validade máxima de 365 dias').optional(),
+  password: z.string().min(4, 'Senha deve ter no mínimo 4 caracteres').max(100, 'Senha muito longa').optional(),
+})
+
 export const analysisResultSchema = z.object({
   id: z.string(),
   aiScore: z.number().min(0).max(100),
@@ -46,6 +104,34 @@ export const updateProfileSchema = z.object({
   avatar: z.string().url().optional(),
 })
 
+export const userPreferencesSchema = z.object({
+  language: z.enum(['pt-BR', 'en-US', 'es-ES']),
+  analysisLanguage: z.enum(['auto', 'pt-BR', 'en-US', 'es-ES']),
+  theme: z.enum(['light', 'dark', 'system']),
+  emailNotifications: z.object({
+    analysisComplete: z.boolean(),
+    creditsLow: z.boolean(),
+    planExpiring: z.boolean(),
+    newFeatures: z.boolean(),
+    // Always on; accepted so the form can send it back unchanged
+    security: z.boolean().optional(),
+  }),
+  analysisSettings: z.object({
+    autoSave: z.boolean(),
+    detailedReports: z.boolean(),
+    confidenceThreshold: z.number().int().min(0).max(100),
+  }),
+})
+
+export const deleteAccountSchema = z.object({
+  confirmation: z.literal('DELETE ACCOUNT'),
+  password: z.string().min(1).optional(), // required for accounts with a password
+})
+
+export const cancelAccountDeletionSchema = z.object({
+  token: z.string().min(1).optional(), // from the email link; not needed when signed in
+})
+
 // Subscription schemas
 export const createCheckoutSchema = z.object({
   priceId: z.string(),
@@ -53,10 +139,122 @@ export const createCheckoutSchema = z.object({
   cancelUrl: z.string().url(),
 })
 
+// Admin console schemas
+export const USER_STATUSES = ['ACTIVE', 'SUSPENDED', 'BANNED'] as const
+export const ABUSE_RULES = ['SAME_IP_SIGNUPS', 'SHARED_API_IP', 'DISPOSABLE_EMAIL', 'DUPLICATE_TEXT'] as const
+export const ABUSE_FLAG_STATUSES = ['OPEN', 'DISMISSED', 'ACTIONED'] as const
+export const METRICS_GRANULARITIES = ['day', 'week', 'month'] as const
+export const ALERT_RULES = ['error_rate', 'latency', 'throughput', 'queue_size', 'dlq_size'] as const
+export const ALERT_STATUSES = ['FIRING', 'ACKNOWLEDGED', 'RESOLVED'] as const
+
+const adminReason = z.string().trim().min(3, 'A reason is required').max(500)
+
+export const adminUsersQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(), // email, name or id
+  plan: z.enum(['FREE', 'PRO', 'ENTERPRISE']).optional(),
+  role: z.enum(['USER', 'ADMIN']).optional(),
+  status: z.enum(USER_STATUSES).optional(),
+  emailVerified: z.enum(['true', 'false']).optional(),
+  flagged: z.enum(['true', 'false']).optional(), // has open abuse flags
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+export const adminReasonSchema = z.object({
+  reason: adminReason,
+})
+
+export const adminSuspendSchema = z.object({
+  reason: adminReason,
+  // Without an expiry the suspension lasts until an admin lifts it
+  expiresAt: z
+    .string()
+    .datetime()
+    .refine(value => Date.parse(value) > Date.now(), 'Expiry must be in the future')
+    .optional(),
+})
+
+export const adminAdjustCreditsSchema = z.object({
+  amount: z.number().int().min(-1000000).max(1000000).refine(amount => amount !== 0, 'Amount must not be zero'),
+  reason: adminReason,
+})
+
+export const adminChangePlanSchema = z.object({
+  plan: z.enum(['FREE', 'PRO', 'ENTERPRISE']),
+  reason: adminReason,
+})
+
+export const adminDeadLetterQuerySchema = z.object({
+  queue: z.string().trim().min(1).max(100).optional(), // defaults to permanent failures
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+export const adminDeadLetterMetricsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(30).optional(),
+})
+
+export const adminRequeueJobSchema = z.object({
+  reason: adminReason,
+  data: z.record(z.unknown()).optional(), // replaces the payload before the retry
+})
+
+export const adminRequeueAllJobsSchema = z.object({
+  reason: adminReason,
+  queue: z.string().trim().min(1).max(100).optional(), // defaults to permanent failures
+})
+
+export const adminPurgeDeadLetterSchema = z
+  .object({
+    reason: adminReason,
+    queue: z.string().trim().min(1).max(100).optional(), // every job in this DLQ
+    olderThanDays: z.number().int().min(1).max(365).optional(), // or every job that failed before then
+  })
+  .refine(data => Boolean(data.queue) !== Boolean(data.olderThanDays), 'Pass either queue or olderThanDays')
+
+export const adminAbuseFlagsQuerySchema = z.object({
+  status: z.enum(ABUSE_FLAG_STATUSES).optional(), // defaults to OPEN
+  rule: z.enum(ABUSE_RULES).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+export const adminMetricsQuerySchema = z.object({
+  from: z.coerce.date().optional(), // defaults to 30 days before `to`
+  to: z.coerce.date().optional(), // defaults to yesterday, the last day rolled up
+  granularity: z.enum(METRICS_GRANULARITIES).optional(),
+})
+
+export const adminAlertsQuerySchema = z.object({
+  status: z.enum(ALERT_STATUSES).optional(),
+  rule: z.enum(ALERT_RULES).optional(),
+  queue: z.string().trim().min(1).max(100).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+export const adminSilenceAlertSchema = z.object({
+  reason: adminReason,
+  durationMinutes: z.number().int().min(5).max(7 * 24 * 60), // at most a week
+})
+
+export const adminAuditQuerySchema = z.object({
+  actorId: z.string().trim().min(1).optional(),
+  targetType: z.string().trim().min(1).optional(),
+  targetId: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).max(100).optional(), // prefix, e.g. "auth." or "admin.user.plan_changed"
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(['json', 'csv']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean
   data?: T
+  message?: string
   error?: {
     code: string
     message: string
@@ -66,6 +264,7 @@ export interface ApiResponse<T = any> {
     page?: number
     limit?: number
     total?: number
+    nextCursor?: string | null
   }
 }
 
@@ -75,6 +274,31 @@ export interface JWTPayload {
   email: string
   role: 'USER' | 'ADMIN'
   plan: 'FREE' | 'PRO' | 'ENTERPRISE'
+  authTime?: number // seconds since epoch; kept across token refreshes
+  sessionId?: string // refresh token family the access token belongs to
+  impersonatorId?: string // admin viewing the account read-only; sessionId is then the admin's
+}
+
+// Signed-in device, as listed in the Security settings
+export interface SessionInfo {
+  id: string
+  device: string
+  userAgent: string | null
+  ipAddress: string | null
+  location: string | null
+  createdAt: Date
+  lastSeenAt: Date
+  current: boolean
+}
+
+// Entry in a user's own security activity, from the audit log
+export interface SecurityEvent {
+  id: string
+  action: string // e.g. auth.login, auth.password_changed, admin.user.suspended
+  createdAt: Date
+  ipAddress: string | null
+  device: string | null
+  byAdmin: boolean // done by support; who exactly is not shown
 }
 
 // Analysis types
@@ -94,6 +318,144 @@ export interface AnalysisResult {
   processingTime: number
   wordCount: number
   charCount: number
+  detectors?: DetectorResult[]
+  metrics?: StylometryMetrics
+  sentences?: SentenceScore[]
+  chunks?: ChunkResult[]
+}
+
+// Breakdown for one chunk of a long document
+export interface ChunkResult {
+  index: number
+  startIndex: number
+  endIndex: number
+  aiScore: number
+  confidence: 'HIGH' | 'MEDIUM' | 'LOW'
+  isAiGenerated: boolean
+  wordCount: number
+  charCount: number
+}
+
+export type BatchStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+export type BatchItemStatus = 'PENDING' | 'COMPLETED' | 'FAILED'
+
+// Aggregate figures over the completed items of a batch
+export interface BatchSummary {
+  totalItems: number
+  completedItems: number
+  failedItems: number
+  averageAiScore: number | null
+  aiGeneratedCount: number
+  highestAiScore: number | null
+}
+
+// Read-only view of an analysis behind a public share link. The analyzed
+// text, quoted passages and owner details are never included.
+export interface SharedAnalysisView {
+  aiScore: number
+  confidence: 'HIGH' | 'MEDIUM' | 'LOW'
+  isAiGenerated: boolean
+  indicators: Indicator[]
+  explanation: string
+  language: string
+  wordCount: number
+  charCount: number
+  suspiciousPartsCount: number
+  analyzedAt: Date
+  expiresAt: Date | null
+}
+
+// API key as listed to its owner; the key itself is only returned once
+export interface ApiKeyInfo {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  status: 'ACTIVE' | 'EXPIRED' | 'REVOKED'
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  lastUsedIp: string | null
+  createdAt: Date
+}
+
+export type WebhookDeliveryStatus = 'PENDING' | 'RETRYING' | 'SUCCEEDED' | 'FAILED'
+
+// One entry of the customer's webhook delivery log
+export interface WebhookDeliveryInfo {
+  id: string
+  event: string
+  url: string
+  analysisId: string | null
+  jobId: string | null
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  durationMs: number | null
+  lastAttemptAt: Date | null
+  nextRetryAt: Date | null
+  deliveredAt: Date | null
+  createdAt: Date
+}
+
+export interface UserPreferences extends UserPreferencesInput {
+  emailNotifications: UserPreferencesInput['emailNotifications'] & { security: true }
+}
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number]
+
+export interface NotificationInfo {
+  id: string
+  type: NotificationType
+  title: string
+  message: string
+  read: boolean
+  readAt: Date | null
+  metadata: Record<string, unknown> | null
+  createdAt: Date
+}
+
+// Personal data export (LGPD/GDPR)
+export type DataExportStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'EXPIRED'
+
+export interface DataExportInfo {
+  id: string
+  status: DataExportStatus
+  fileSize: number | null
+  error: string | null
+  completedAt: Date | null
+  expiresAt: Date | null
+  downloadedAt: Date | null
+  createdAt: Date
+}
+
+// Per-sentence score with character offsets into the submitted text
+export interface SentenceScore {
+  startIndex: number
+  endIndex: number
+  score: number
+  flagged: boolean // overlaps a suspicious part quoted by the detector
+}
+
+export interface StylometryMetrics {
+  sentenceCount: number
+  paragraphCount: number
+  meanSentenceLength: number
+  sentenceLengthStdDev: number
+  burstiness: number // coefficient of variation of sentence length
+  paragraphLengthCV: number
+  commasPerSentence: number
+  punctuationPer100Words: number
+  typeTokenRatio: number
+  perplexityProxy: number // normalised unigram entropy, 0-1
+  score: number // 0-100, higher means more AI-like
+}
+
+export interface DetectorResult {
+  provider: string
+  model?: string
+  score: number
+  weight: number
 }
 
 export interface Indicator {
@@ -131,7 +493,6 @@ export interface UserProfile {
   avatar?: string
   plan: 'FREE' | 'PRO' | 'ENTERPRISE'
   credits: number
-  apiKey?: string
   createdAt: Date
 }
 
@@ -163,21 +524,80 @@ export const schemas = {
     login: loginSchema,
     register: registerSchema,
     refreshToken: refreshTokenSchema,
+    twoFactorCode: twoFactorCodeSchema,
+    verifyTwoFactorLogin: verifyTwoFactorLoginSchema,
   },
   analysis: {
     analyzeText: analyzeTextSchema,
+    analyzeDocument: analyzeDocumentSchema,
+    apiAnalyze: apiAnalyzeSchema,
+    createBatch: createBatchSchema,
+    createShare: createShareSchema,
     result: analysisResultSchema,
   },
   user: {
     updateProfile: updateProfileSchema,
+    createApiKey: createApiKeySchema,
+    preferences: userPreferencesSchema,
+  },
+  notifications: {
+    list: notificationsQuerySchema,
   },
   subscription: {
     createCheckout: createCheckoutSchema,
   },
+  admin: {
+    usersQuery: adminUsersQuerySchema,
+    reason: adminReasonSchema,
+    suspend: adminSuspendSchema,
+    adjustCredits: adminAdjustCreditsSchema,
+    changePlan: adminChangePlanSchema,
+    deadLetterQuery: adminDeadLetterQuerySchema,
+    deadLetterMetricsQuery: adminDeadLetterMetricsQuerySchema,
+    requeueJob: adminRequeueJobSchema,
+    requeueAllJobs: adminRequeueAllJobsSchema,
+    purgeDeadLetter: adminPurgeDeadLetterSchema,
+    auditQuery: adminAuditQuerySchema,
+    abuseFlagsQuery: adminAbuseFlagsQuerySchema,
+    metricsQuery: adminMetricsQuerySchema,
+    alertsQuery: adminAlertsQuerySchema,
+    silenceAlert: adminSilenceAlertSchema,
+  },
 }
 
 export type LoginInput = z.infer<typeof loginSchema>
 export type RegisterInput = z.infer<typeof registerSchema>
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>
+export type VerifyTwoFactorLoginInput = z.infer<typeof verifyTwoFactorLoginSchema>
 export type AnalyzeTextInput = z.infer<typeof analyzeTextSchema>
+export type AnalyzeDocumentInput = z.infer<typeof analyzeDocumentSchema>
+export type ApiAnalyzeInput = z.infer<typeof apiAnalyzeSchema>
+export type CreateBatchInput = z.infer<typeof createBatchSchema>
+export type CreateShareInput = z.infer<typeof createShareSchema>
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>
-export type CreateCheckoutInput = z.infer<typeof createCheckoutSchema>
\ No newline at end of file
+export type UserPreferencesInput = z.infer<typeof userPreferencesSchema>
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>
+export type CancelAccountDeletionInput = z.infer<typeof cancelAccountDeletionSchema>
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>
+export type ApiKeyScope = typeof API_KEY_SCOPES[number]
+export type CreateCheckoutInput = z.infer<typeof createCheckoutSchema>
+export type UserStatus = typeof USER_STATUSES[number]
+export type AdminUsersQuery = z.infer<typeof adminUsersQuerySchema>
+export type AdminReasonInput = z.infer<typeof adminReasonSchema>
+export type AdminSuspendInput = z.infer<typeof adminSuspendSchema>
+export type AdminAdjustCreditsInput = z.infer<typeof adminAdjustCreditsSchema>
+export type AdminChangePlanInput = z.infer<typeof adminChangePlanSchema>
+export type AdminDeadLetterQuery = z.infer<typeof adminDeadLetterQuerySchema>
+export type AdminRequeueJobInput = z.infer<typeof adminRequeueJobSchema>
+export type AdminRequeueAllJobsInput = z.infer<typeof adminRequeueAllJobsSchema>
+export type AdminPurgeDeadLetterInput = z.infer<typeof adminPurgeDeadLetterSchema>
+export type AdminAuditQuery = z.infer<typeof adminAuditQuerySchema>
+export type AbuseRule = typeof ABUSE_RULES[number]
+export type AbuseFlagStatus = typeof ABUSE_FLAG_STATUSES[number]
+export type AdminAbuseFlagsQuery = z.infer<typeof adminAbuseFlagsQuerySchema>
+export type MetricsGranularity = typeof METRICS_GRANULARITIES[number]
+export type AdminMetricsQuery = z.infer<typeof adminMetricsQuerySchema>
+export type AlertRule = typeof ALERT_RULES[number]
+export type AlertStatus = typeof ALERT_STATUSES[number]
+export type AdminAlertsQuery = z.infer<typeof adminAlertsQuerySchema>
+export type AdminSilenceAlertInput = z.infer<typeof adminSilenceAlertSchema>